@@ -41,9 +41,17 @@ export async function middleware(request: NextRequest) {
 
   const pathname = request.nextUrl.pathname
   const isAuthPage = pathname.startsWith('/login') || pathname.startsWith('/register') || pathname.startsWith('/forgot-password') || pathname.startsWith('/reset-password')
+  // Cron routes have no session — they check the CRON_SECRET bearer token themselves
+  const isCronRoute =
+    pathname === '/api/notifications/check' ||
+    pathname === '/api/bank/sync/cron' ||
+    pathname === '/api/bank/repair-duplicates' ||
+    pathname === '/api/account/rotate-keys'
+  // Mock Neonomics is called server-to-server by the bank client (no session)
+  const isMockBankRoute = pathname.startsWith('/api/mock-neonomics/')
 
   // Unauthenticated user trying to access protected app routes → redirect to login
-  if (!user && !isAuthPage) {
+  if (!user && !isAuthPage && !isCronRoute && !isMockBankRoute) {
     const url = request.nextUrl.clone()
     url.pathname = '/login'
     return NextResponse.redirect(url)
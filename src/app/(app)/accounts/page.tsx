@@ -6,6 +6,9 @@ import { Wallet } from 'lucide-react'
 import Link from 'next/link'
 import { AccountCard, type AccountTransaction } from '@/components/accounts/account-card'
 import { BalanceDistribution } from '@/components/accounts/balance-distribution'
+import { AddManualAccountButton } from '@/components/accounts/manual-account-dialog'
+import { getExchangeRates, type RateTable } from '@/lib/currency/rates'
+import { toNOK, isBaseCurrency } from '@/lib/currency/convert'
 
 export const metadata: Metadata = { title: 'Accounts' }
 
@@ -13,7 +16,8 @@ export const metadata: Metadata = { title: 'Accounts' }
 
 async function getAccountDetails(
   userId: string,
-  accountIds: string[]
+  accountIds: string[],
+  rates: RateTable
 ): Promise<Map<string, { recentTransactions: AccountTransaction[]; netChange30d: number }>> {
   if (accountIds.length === 0) return new Map()
 
@@ -24,14 +28,14 @@ async function getAccountDetails(
   // Single query for all accounts — uses idx_transactions_account index
   const { data: transactions } = await supabase
     .from('transactions')
-    .select('id, account_id, transaction_date, description, amount, category, counterpart_name, is_recurring')
+    .select('id, account_id, transaction_date, description, amount, currency, category, counterpart_name, is_recurring, source')
     .eq('user_id', userId)
     .in('account_id', accountIds)
     .gte('transaction_date', thirtyDaysAgo.toISOString().split('T')[0])
     .order('transaction_date', { ascending: false })
 
   // Group by account
-  type TxRow = { id: string; account_id: string; transaction_date: string; description: string | null; amount: number; category: string | null; counterpart_name: string | null; is_recurring: boolean | null }
+  type TxRow = { id: string; account_id: string; transaction_date: string; description: string | null; amount: number; currency: string; category: string | null; counterpart_name: string | null; is_recurring: boolean | null; source: AccountTransaction['source'] }
   const byAccount = new Map<string, TxRow[]>()
   for (const id of accountIds) {
     byAccount.set(id, [])
@@ -46,15 +50,18 @@ async function getAccountDetails(
   const result = new Map<string, { recentTransactions: AccountTransaction[]; netChange30d: number }>()
 
   for (const [accountId, txs] of byAccount) {
-    const netChange30d = txs.reduce((sum, tx) => sum + Number(tx.amount), 0)
+    // In NOK, like the balance shown next to it
+    const netChange30d = txs.reduce((sum, tx) => sum + (toNOK(Number(tx.amount), tx.currency, rates) ?? 0), 0)
     const recentTransactions: AccountTransaction[] = txs.slice(0, 10).map((tx) => ({
       id: tx.id,
       transaction_date: tx.transaction_date,
       description: tx.description,
       amount: Number(tx.amount),
+      currency: tx.currency,
       category: tx.category,
       counterpart_name: tx.counterpart_name,
       is_recurring: tx.is_recurring ?? false,
+      source: tx.source,
     }))
 
     result.set(accountId, { recentTransactions, netChange30d })
@@ -70,21 +77,25 @@ export default async function AccountsPage() {
   const { data: { user } } = await supabase.auth.getUser()
   if (!user) redirect('/login')
 
-  // Fetch accounts with their bank connection info
-  const [accountsRes, connectionsRes] = await Promise.all([
+  // Fetch accounts with their bank connection info (manual accounts have none)
+  const [accountsRes, connectionsRes, rates] = await Promise.all([
     supabase
       .from('accounts')
-      .select('id, account_name, balance, currency, account_type, bank_connection_id, is_shared_with_partner')
-      .eq('user_id', user.id)
-      .order('balance', { ascending: false }),
+      .select('id, account_name, balance, currency, account_type, bank_connection_id, is_shared_with_partner, is_manual, last_updated_at')
+      .eq('user_id', user.id),
 
     supabase
       .from('bank_connections')
       .select('id, bank_name, status, last_synced_at')
       .eq('user_id', user.id),
+
+    getExchangeRates(),
   ])
 
-  const accounts = accountsRes.data ?? []
+  // balanceNOK drives totals and ordering; foreign accounts also show their own amount
+  const accounts = (accountsRes.data ?? [])
+    .map((a) => ({ ...a, balanceNOK: toNOK(Number(a.balance), a.currency, rates) }))
+    .sort((a, b) => (b.balanceNOK ?? 0) - (a.balanceNOK ?? 0))
   const connections = connectionsRes.data ?? []
 
   // Build a map of connection ID → bank info
@@ -92,16 +103,24 @@ export default async function AccountsPage() {
 
   // Fetch transaction details for all accounts in a single query
   const accountIds = accounts.map((a) => a.id)
-  const detailsMap = await getAccountDetails(user.id, accountIds)
+  const detailsMap = await getAccountDetails(user.id, accountIds, rates)
 
-  const totalBalance = accounts.reduce((sum, a) => sum + Number(a.balance), 0)
+  // Net of everything, manual loans included — safe-to-spend excludes those
+  const totalBalance = accounts.reduce((sum, a) => sum + (a.balanceNOK ?? 0), 0)
+  const hasForeign = accounts.some((a) => !isBaseCurrency(a.currency))
+  const manualCount = accounts.filter((a) => a.is_manual).length
+  const connectedCount = accounts.length - manualCount
 
   return (
     <div className="p-4 md:p-8 max-w-3xl mx-auto animate-fade-in">
       <p className="text-section-header mb-2">Banking</p>
-      <h1 className="font-display text-4xl text-aura-text mb-2">Accounts</h1>
+      <div className="flex items-end justify-between gap-4 mb-2">
+        <h1 className="font-display text-4xl text-aura-text">Accounts</h1>
+        <AddManualAccountButton />
+      </div>
       <p className="text-aura-text-secondary text-sm mb-6">
-        {accounts.length} {accounts.length === 1 ? 'account' : 'accounts'} connected
+        {connectedCount} {connectedCount === 1 ? 'account' : 'accounts'} connected
+        {manualCount > 0 && ` · ${manualCount} manual`}
       </p>
 
       {accounts.length === 0 ? (
@@ -109,7 +128,8 @@ export default async function AccountsPage() {
           <Wallet size={32} className="text-aura-text-secondary mx-auto mb-3" />
           <p className="text-aura-text text-sm font-medium mb-2">No accounts connected</p>
           <p className="text-aura-text-secondary text-xs mb-4">
-            Connect your bank in Settings to see your accounts and balances.
+            Connect your bank in Settings to see your accounts and balances,
+            or add a manual account for cash, Vipps or a loan.
           </p>
           <Link
             href="/settings"
@@ -126,6 +146,11 @@ export default async function AccountsPage() {
               <p className="text-aura-text-secondary text-sm">Total balance</p>
               <p className="font-display text-2xl text-aura-text">{formatNOK(totalBalance)}</p>
             </div>
+            {hasForeign && (
+              <p className="text-[10px] text-aura-text-dim mt-1">
+                Foreign-currency accounts converted at {rates.source} rates from {rates.date}
+              </p>
+            )}
           </div>
 
           {/* Balance distribution bar */}
@@ -133,28 +158,34 @@ export default async function AccountsPage() {
             accounts={accounts.map((a) => ({
               id: a.id,
               account_name: a.account_name ?? 'Account',
-              balance: Number(a.balance),
+              balance: a.balanceNOK ?? 0,
+              is_manual: a.is_manual ?? false,
             }))}
           />
 
           {/* Account list */}
           <div className="space-y-2">
             {accounts.map((account) => {
-              const bank = bankMap.get(account.bank_connection_id)
+              const bank = account.bank_connection_id ? bankMap.get(account.bank_connection_id) : undefined
               const details = detailsMap.get(account.id)
 
               return (
                 <AccountCard
                   key={account.id}
+                  accountId={account.id}
                   accountName={account.account_name}
                   accountType={account.account_type}
                   balance={Number(account.balance)}
+                  currency={account.currency}
+                  balanceNOK={account.balanceNOK}
                   bankName={bank?.bank_name ?? null}
                   bankStatus={bank?.status ?? null}
                   lastSyncedAt={bank?.last_synced_at ?? null}
                   recentTransactions={details?.recentTransactions ?? []}
                   netChange30d={details?.netChange30d ?? 0}
                   isSharedWithPartner={account.is_shared_with_partner ?? false}
+                  isManual={account.is_manual ?? false}
+                  lastUpdatedAt={account.last_updated_at}
                 />
               )
             })}
@@ -1,6 +1,9 @@
 import type { Metadata } from 'next'
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { loadEntityRegistry } from '@/lib/redaction/entity-store'
+import { createEntityRegistry } from '@/lib/redaction/entity-registry'
+import { unRedact } from '@/lib/redaction/un-redact'
 import { ChatContainer } from '@/components/chat/chat-container'
 
 export const metadata: Metadata = { title: 'Chat with Aura' }
@@ -20,6 +23,7 @@ interface ChatMessage {
 /**
  * Chat page — fetches conversation history server-side, then hands off to ChatContainer.
  * Supports ?c=<conversationId> to resume a specific conversation.
+ * Messages are stored with known PII masked; real values are restored here.
  */
 export default async function ChatPage({
   searchParams,
@@ -34,11 +38,20 @@ export default async function ChatPage({
   const activeConversationId = params.c ?? null
 
   // Fetch conversation list — group messages by conversation_id
-  const { data: rawConversations } = await supabase
-    .from('chat_messages')
-    .select('conversation_id, content, role, created_at')
-    .eq('user_id', user.id)
-    .order('created_at', { ascending: true })
+  const [{ data: rawConversations }, registry] = await Promise.all([
+    supabase
+      .from('chat_messages')
+      .select('conversation_id, content, role, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true }),
+    // Without the registry the masks simply stay visible
+    loadEntityRegistry(supabase, user.id).catch((err) => {
+      console.error(`[CHAT] Failed to load PII registry for user ${user.id}:`, err instanceof Error ? err.message : 'Unknown')
+      return createEntityRegistry()
+    }),
+  ])
+  const preview = (content: string | null) =>
+    content ? unRedact(content, {}, registry).slice(0, 80) : 'New conversation'
 
   // Build conversation summaries
   const convMap = new Map<string, { preview: string; lastMessageAt: string }>()
@@ -47,7 +60,7 @@ export default async function ChatPage({
     if (!existing) {
       // First message in this conversation — use as preview if it's from user
       convMap.set(msg.conversation_id, {
-        preview: msg.role === 'user' ? (msg.content?.slice(0, 80) ?? 'New conversation') : 'New conversation',
+        preview: msg.role === 'user' ? preview(msg.content) : 'New conversation',
         lastMessageAt: msg.created_at,
       })
     } else {
@@ -55,7 +68,7 @@ export default async function ChatPage({
       existing.lastMessageAt = msg.created_at
       // If we haven't found a user message preview yet, check this one
       if (existing.preview === 'New conversation' && msg.role === 'user') {
-        existing.preview = msg.content?.slice(0, 80) ?? 'New conversation'
+        existing.preview = preview(msg.content)
       }
     }
   }
@@ -77,7 +90,7 @@ export default async function ChatPage({
     if (msgs && msgs.length > 0) {
       initialMessages = msgs.map((m) => ({
         role: m.role as 'user' | 'assistant',
-        content: m.content,
+        content: unRedact(m.content, {}, registry),
         created_at: m.created_at,
       }))
     }
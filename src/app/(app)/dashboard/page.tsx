@@ -9,7 +9,15 @@ import { DailyTip } from '@/components/dashboard/daily-tip'
 import { PartnerOverview } from '@/components/dashboard/partner-overview'
 import { ForecastMini } from '@/components/dashboard/forecast-mini'
 import { SpendingTrend } from '@/components/dashboard/spending-trend'
+import { BillSuggestions, type BillSuggestion } from '@/components/dashboard/bill-suggestions'
+import { BudgetProgress } from '@/components/dashboard/budget-progress'
+import { BillPaymentMatches } from '@/components/dashboard/bill-payment-matches'
 import { buildForecast } from '@/lib/forecast/engine'
+import { getBudgetProgress } from '@/lib/budgets/progress'
+import { getPendingPaymentMatches } from '@/lib/bills/reconcile'
+import { spendableBalance } from '@/lib/accounts/manual'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { sumNOK, toNOK } from '@/lib/currency/convert'
 
 export const metadata: Metadata = { title: 'Dashboard' }
 
@@ -27,24 +35,24 @@ async function getDashboardData(userId: string) {
   thirtyDaysAhead.setDate(thirtyDaysAhead.getDate() + 30)
 
   // Fetch everything in parallel
-  const [accountsRes, billsRes, transactionsRes, syncRes] = await Promise.all([
+  const [accountsRes, billsRes, transactionsRes, syncRes, suggestionsRes, budgets, rates, paymentMatches] = await Promise.all([
     supabase
       .from('accounts')
-      .select('id, balance, account_name, currency')
+      .select('id, balance, account_name, currency, account_type, is_manual')
       .eq('user_id', userId),
 
     supabase
       .from('bills_upcoming')
-      .select('id, name, amount, due_date, priority')
+      .select('id, name, amount, currency, due_date, priority')
       .eq('user_id', userId)
       .eq('is_paid', false)
-      .gte('due_date', now.toISOString().split('T')[0])
+      // No lower bound — overdue bills stay on the dashboard until paid
       .lte('due_date', thirtyDaysAhead.toISOString().split('T')[0])
       .order('due_date', { ascending: true }),
 
     supabase
       .from('transactions')
-      .select('amount, category, transaction_date')
+      .select('amount, currency, category, transaction_date')
       .eq('user_id', userId)
       .gte('transaction_date', oneYearAgo.toISOString().split('T')[0])
       .order('transaction_date', { ascending: false }),
@@ -57,6 +65,29 @@ async function getDashboardData(userId: string) {
       .eq('status', 'active')
       .order('last_synced_at', { ascending: false })
       .limit(1),
+
+    // Recurring payments the detector proposed as bills, awaiting review
+    supabase
+      .from('recurring_patterns')
+      .select('id, display_name, recurrence, average_amount, next_expected_date, occurrences')
+      .eq('user_id', userId)
+      .eq('status', 'suggested')
+      .eq('direction', 'expense')
+      .not('bill_id', 'is', null)
+      .order('next_expected_date', { ascending: true })
+      .limit(5),
+
+    // Per-category monthly budgets with this month's spend
+    getBudgetProgress(supabase, userId, now),
+
+    // NOK rates for foreign-currency accounts and transactions
+    getExchangeRates(),
+
+    // Payments that might belong to a bill, awaiting the user's pick (non-critical)
+    getPendingPaymentMatches(supabase, userId).catch((err) => {
+      console.error(`[DASHBOARD] Payment matches query failed for user ${userId}: ${err instanceof Error ? err.message : 'Unknown'}`)
+      return []
+    }),
   ])
 
   // Critical failures — throw to trigger error boundary
@@ -74,11 +105,19 @@ async function getDashboardData(userId: string) {
   if (syncRes.error) {
     console.error(`[DASHBOARD] Sync query failed for user ${userId}: ${syncRes.error.message}`)
   }
+  if (suggestionsRes.error) {
+    console.error(`[DASHBOARD] Suggestions query failed for user ${userId}: ${suggestionsRes.error.message}`)
+  }
 
   const accounts = accountsRes.data ?? []
   const bills = billsRes.data ?? []
-  const allTransactions = transactionsRes.data ?? []
+  // Amounts in NOK from here on; rows in a currency without a rate count as 0
+  const allTransactions = (transactionsRes.data ?? []).map((tx) => ({
+    ...tx,
+    amount: toNOK(Number(tx.amount), tx.currency, rates) ?? 0,
+  }))
   const lastSyncedAt = syncRes.data?.[0]?.last_synced_at ?? null
+  const billSuggestions = (suggestionsRes.data ?? []) as BillSuggestion[]
 
   const hasBank = accounts.length > 0
 
@@ -88,12 +127,11 @@ async function getDashboardData(userId: string) {
 
   // ── Compute financial metrics ─────────────────────────────────────────────
 
-  const totalBalance = accounts.reduce((sum, a) => sum + Number(a.balance), 0)
-  const totalUpcomingBills = bills.reduce((sum, b) => sum + Number(b.amount), 0)
+  // Bank and manual accounts alike — manual loans excluded (see lib/accounts/manual)
+  const totalBalance = spendableBalance(accounts, rates)
+  const totalUpcomingBills = sumNOK(bills, rates)
   const safeToSpend = totalBalance - totalUpcomingBills
-  const criticalBillsTotal = bills
-    .filter((b) => b.priority === 'critical')
-    .reduce((sum, b) => sum + Number(b.amount), 0)
+  const criticalBillsTotal = sumNOK(bills.filter((b) => b.priority === 'critical'), rates)
   const safeAfterCritical = totalBalance - criticalBillsTotal
 
   // Separate income and expenses (30-day window)
@@ -142,7 +180,9 @@ async function getDashboardData(userId: string) {
 
   // ── Next bill info for daily tip ──────────────────────────────────────────
 
-  const nextBill = bills[0] ?? null
+  // Overdue bills get their own block in BillCountdown — the tip is about what's next
+  const todayStr = now.toISOString().split('T')[0]
+  const nextBill = bills.find((b) => b.due_date >= todayStr) ?? null
   let nextBillDays: number | null = null
   if (nextBill) {
     const today = new Date()
@@ -172,6 +212,9 @@ async function getDashboardData(userId: string) {
     nextBillDays,
     nextBillAmount: Number(nextBill?.amount ?? 0),
     lastSyncedAt,
+    billSuggestions,
+    paymentMatches,
+    budgets,
     allTransactions: allTransactions.map((tx) => ({
       amount: Number(tx.amount),
       category: tx.category as string | null,
@@ -222,10 +265,10 @@ async function getPartnerDashboardData(userId: string) {
   if (!profile?.partner_id) return null
 
   // Fetch partner's shared accounts and partner name in parallel
-  const [sharedRes, partnerRes] = await Promise.all([
+  const [sharedRes, partnerRes, rates] = await Promise.all([
     supabase
       .from('accounts')
-      .select('account_name, balance')
+      .select('account_name, balance, currency')
       .neq('user_id', userId)
       .eq('is_shared_with_partner', true),
 
@@ -234,13 +277,15 @@ async function getPartnerDashboardData(userId: string) {
       .select('display_name')
       .eq('id', profile.partner_id)
       .single(),
+
+    getExchangeRates(),
   ])
 
   const accounts = sharedRes.data ?? []
   if (accounts.length === 0) return null
 
   const partnerName = partnerRes.data?.display_name ?? 'Partner'
-  const partnerTotalBalance = accounts.reduce((sum, a) => sum + Number(a.balance), 0)
+  const partnerTotalBalance = sumNOK(accounts.map((a) => ({ amount: a.balance, currency: a.currency })), rates)
 
   return { partnerName, accounts, partnerTotalBalance }
 }
@@ -309,6 +354,20 @@ export default async function DashboardPage() {
         {/* ── Bill Countdown ────────────────────────────────────────── */}
         <BillCountdown bills={data.bills} />
 
+        {/* ── Recurring bill suggestions ─────────────────────────────── */}
+        {data.billSuggestions.length > 0 && (
+          <div className="sm:col-span-2">
+            <BillSuggestions suggestions={data.billSuggestions} />
+          </div>
+        )}
+
+        {/* ── Payments awaiting a match ──────────────────────────────── */}
+        {data.paymentMatches.length > 0 && (
+          <div className="sm:col-span-2">
+            <BillPaymentMatches matches={data.paymentMatches} />
+          </div>
+        )}
+
         {/* ── Forecast Mini ──────────────────────────────────────────── */}
         {forecastPoints.length > 0 && (
           <ForecastMini points={forecastPoints} />
@@ -333,6 +392,9 @@ export default async function DashboardPage() {
           transactions={data.allTransactions}
         />
 
+        {/* ── Budgets ───────────────────────────────────────────────── */}
+        {data.hasBank && <BudgetProgress budgets={data.budgets} />}
+
         {/* ── Spending Trend ───────────────────────────────────────── */}
         {data.monthlyTrend.length >= 2 && (
           <div className="sm:col-span-2">
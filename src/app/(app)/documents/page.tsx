@@ -1,6 +1,7 @@
 import type { Metadata } from 'next'
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { getUserCipher } from '@/lib/crypto/envelope'
 import { DocumentList } from '@/components/documents/document-list'
 import type { DocumentRecord } from '@/components/documents/document-card'
 
@@ -18,7 +19,7 @@ export default async function DocumentsPage() {
     supabase
       .from('documents')
       .select(
-        'id, original_filename, file_size_bytes, mime_type, document_type, extracted_text, ai_summary, ai_flags, ai_analyzed_at, status, redaction_status, pii_detections, uploaded_at'
+        'id, original_filename, file_size_bytes, mime_type, document_type, extracted_text, extraction_method, ai_summary, ai_flags, ai_analyzed_at, status, redaction_status, pii_detections, uploaded_at'
       )
       .eq('user_id', user.id)
       .order('uploaded_at', { ascending: false }),
@@ -31,7 +32,13 @@ export default async function DocumentsPage() {
       .not('source_document_id', 'is', null),
   ])
 
-  const docs = (docsRes.data ?? []) as DocumentRecord[]
+  // Extracted text and detections are stored encrypted (migration 026)
+  const cipher = await getUserCipher(supabase, user.id)
+  const docs = (docsRes.data ?? []).map((doc) => ({
+    ...doc,
+    extracted_text: doc.extracted_text ? cipher.decrypt(doc.extracted_text) : null,
+    pii_detections: cipher.decryptJson(doc.pii_detections),
+  })) as DocumentRecord[]
   const linkedDocIds = (linkedBillsRes.data ?? []).map((b) => b.source_document_id as string)
 
   return (
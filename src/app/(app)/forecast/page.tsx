@@ -2,8 +2,11 @@ import type { Metadata } from 'next'
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { buildForecast } from '@/lib/forecast/engine'
+import { loadForecastData } from '@/lib/forecast/input'
+import type { ForecastScenario } from '@/lib/forecast/scenarios'
 import { ForecastChart } from '@/components/forecast/forecast-chart'
 import { EventTimeline } from '@/components/forecast/event-timeline'
+import { ScenarioComparison } from '@/components/forecast/scenario-comparison'
 import type { PlannedEvent } from '@/types/financial'
 
 export const metadata: Metadata = { title: 'Forecast' }
@@ -11,103 +14,38 @@ export const metadata: Metadata = { title: 'Forecast' }
 async function getForecastData(userId: string) {
   const supabase = await createClient()
 
-  const now = new Date()
-  const ninetyDaysAgo = new Date(now)
-  ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
+  const [{ input, plannedEvents, accountCount }, scenariosRes] = await Promise.all([
+    // Full 90-day forecast (client will filter to 30/60/90)
+    loadForecastData(supabase, userId, 90),
 
-  const [accountsRes, billsRes, incomeRes, eventsRes] = await Promise.all([
     supabase
-      .from('accounts')
-      .select('balance')
-      .eq('user_id', userId),
-
-    // All unpaid bills (including future recurring ones)
-    supabase
-      .from('bills_upcoming')
-      .select('name, amount, due_date, recurrence')
-      .eq('user_id', userId)
-      .eq('is_paid', false)
-      .order('due_date', { ascending: true }),
-
-    // Recurring income: positive recurring transactions from the last 90 days
-    supabase
-      .from('transactions')
-      .select('description, amount, transaction_date')
-      .eq('user_id', userId)
-      .eq('is_recurring', true)
-      .gt('amount', 0)
-      .gte('transaction_date', ninetyDaysAgo.toISOString().split('T')[0])
-      .order('transaction_date', { ascending: false }),
-
-    // User's planned events
-    supabase
-      .from('planned_events')
-      .select('id, name, amount, event_date, recurrence, category, notes')
+      .from('forecast_scenarios')
+      .select('id, name, description, adjustments')
       .eq('user_id', userId)
       .eq('is_active', true)
-      .order('event_date', { ascending: true }),
+      .order('created_at', { ascending: true }),
   ])
 
-  const accounts = accountsRes.data ?? []
-  const bills = billsRes.data ?? []
-  const incomeTransactions = incomeRes.data ?? []
-  const plannedEvents = eventsRes.data ?? []
-
-  const currentBalance = accounts.reduce((sum, a) => sum + Number(a.balance), 0)
-
-  // Deduplicate recurring income by description (keep the most recent occurrence)
-  const incomeMap = new Map<string, { name: string; amount: number; lastDate: string }>()
-  for (const tx of incomeTransactions) {
-    const key = tx.description ?? `income-${tx.amount}`
-    if (!incomeMap.has(key)) {
-      incomeMap.set(key, {
-        name: tx.description ?? 'Recurring income',
-        amount: Number(tx.amount),
-        lastDate: tx.transaction_date,
-      })
-    }
-  }
-
-  const forecastInput = {
-    currentBalance,
-    bills: bills.map((b) => ({
-      name: b.name,
-      amount: Number(b.amount),
-      dueDate: b.due_date,
-      recurrence: b.recurrence,
-    })),
-    recurringIncome: [...incomeMap.values()],
-    plannedEvents: plannedEvents.map((e) => ({
-      name: e.name,
-      amount: Number(e.amount),
-      eventDate: e.event_date,
-      recurrence: e.recurrence,
-    })),
-    days: 90,
-  }
-
-  // Build full 90-day forecast (client will filter to 30/60/90)
-  const forecastPoints = buildForecast(forecastInput)
+  const forecastPoints = buildForecast(input)
 
   return {
-    currentBalance,
+    currentBalance: input.currentBalance,
     forecastPoints,
-    bills: bills.map((b) => ({
-      name: b.name,
-      amount: Number(b.amount),
-      dueDate: b.due_date,
-      recurrence: b.recurrence,
-    })),
+    bills: input.bills,
     plannedEvents: plannedEvents.map((e) => ({
       id: e.id,
       name: e.name,
       amount: Number(e.amount),
       eventDate: e.event_date,
       recurrence: e.recurrence as PlannedEvent['recurrence'],
-      category: e.category as string | null,
-      notes: e.notes as string | null,
+      category: e.category,
+      notes: e.notes,
     })),
-    hasBank: accounts.length > 0,
+    scenarios: (scenariosRes.data ?? []) as ForecastScenario[],
+    // Offered as targets for "cancel bill" and "income change" adjustments
+    billNames: [...new Set(input.bills.map((b) => b.name))],
+    incomeNames: input.recurringIncome.map((s) => s.name),
+    hasBank: accountCount > 0,
   }
 }
 
@@ -136,6 +74,11 @@ export default async function ForecastPage() {
             bills={data.bills}
             plannedEvents={data.plannedEvents}
           />
+          <ScenarioComparison
+            scenarios={data.scenarios}
+            billNames={data.billNames}
+            incomeNames={data.incomeNames}
+          />
         </>
       )}
     </div>
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { getGoalProgress } from '@/lib/savings/goals'
+import { GoalList } from '@/components/goals/goal-list'
+
+export const metadata: Metadata = { title: 'Goals' }
+
+export default async function GoalsPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/login')
+
+  const [goals, accountsRes] = await Promise.all([
+    getGoalProgress(supabase, user.id),
+
+    // Accounts the user can link a goal to
+    supabase
+      .from('accounts')
+      .select('id, account_name')
+      .eq('user_id', user.id)
+      .order('account_name', { ascending: true }),
+  ])
+
+  return (
+    <div className="p-4 md:p-8 max-w-4xl mx-auto animate-fade-in">
+      <p className="text-section-header mb-2">Savings</p>
+      <h1 className="font-display text-4xl text-aura-text mb-6">Goals</h1>
+
+      <GoalList goals={goals} accounts={accountsRes.data ?? []} />
+    </div>
+  )
+}
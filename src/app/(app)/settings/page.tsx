@@ -8,6 +8,7 @@ import { PartnerSection } from '@/components/settings/partner-section'
 import { DataPrivacySection } from '@/components/settings/data-privacy-section'
 import { AppearanceSection } from '@/components/settings/appearance-section'
 import type { NotificationPreferences } from '@/types/database'
+import { SYNC_HISTORY_PER_CONNECTION, type SyncRun } from '@/lib/neonomics/sync-runs'
 
 export const metadata: Metadata = { title: 'Settings' }
 
@@ -34,24 +35,38 @@ export default async function SettingsPage({ searchParams }: Props) {
   const callbackError = params.bank_error ?? null
   const newConnectionId = params.connection_id ?? null
 
-  // 3. Fetch profile + bank connections in parallel
-  const [profileRes, connectionsRes] = await Promise.all([
+  // 3. Fetch profile, bank connections and recent sync runs in parallel
+  const [profileRes, connectionsRes, syncRunsRes] = await Promise.all([
     supabase
       .from('profiles')
-      .select('display_name, notification_preferences')
+      .select('display_name, notification_preferences, allow_remote_ocr')
       .eq('id', user.id)
       .single(),
     supabase
       .from('bank_connections')
-      .select('id, bank_name, bank_id, status, last_synced_at, consent_expires_at, created_at')
+      .select('id, bank_name, bank_id, status, status_reason, last_synced_at, consent_expires_at, created_at')
       .eq('user_id', user.id)
       .order('created_at', { ascending: false }),
+    supabase
+      .from('sync_runs')
+      .select('id, bank_connection_id, trigger_source, status, accounts_synced, transactions_synced, errors, started_at, finished_at')
+      .eq('user_id', user.id)
+      .order('started_at', { ascending: false })
+      .limit(50),
   ])
 
   const displayName = profileRes.data?.display_name ?? ''
   const notifPrefs = (profileRes.data?.notification_preferences ?? {}) as NotificationPreferences
+  const allowRemoteOcr = profileRes.data?.allow_remote_ocr ?? false
   const connections = connectionsRes.data
 
+  // Group runs by connection, newest first, capped per connection
+  const syncHistory: Record<string, SyncRun[]> = {}
+  for (const run of (syncRunsRes.data ?? []) as SyncRun[]) {
+    const list = (syncHistory[run.bank_connection_id] ??= [])
+    if (list.length < SYNC_HISTORY_PER_CONNECTION) list.push(run)
+  }
+
   return (
     <div className="p-6 md:p-8 max-w-3xl mx-auto animate-fade-in">
       {/* Page header */}
@@ -70,6 +85,7 @@ export default async function SettingsPage({ searchParams }: Props) {
       {/* ── Bank Connection Section (Step 6) ─────────────────────────── */}
       <BankConnectionSection
         initialConnections={connections ?? []}
+        syncHistory={syncHistory}
         justConnected={justConnected}
         callbackError={callbackError}
         newConnectionId={newConnectionId}
@@ -79,7 +95,7 @@ export default async function SettingsPage({ searchParams }: Props) {
       <PartnerSection userId={user.id} />
 
       {/* ── Data & Privacy (GDPR) ─────────────────────────────────────── */}
-      <DataPrivacySection />
+      <DataPrivacySection allowRemoteOcr={allowRemoteOcr} />
     </div>
   )
 }
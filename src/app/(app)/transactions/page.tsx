@@ -2,6 +2,9 @@ import type { Metadata } from 'next'
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { TransactionList } from '@/components/transactions/transaction-list'
+import { ImportStatementButton, type ManualAccount } from '@/components/transactions/import-dialog'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { toNOK } from '@/lib/currency/convert'
 
 export const metadata: Metadata = { title: 'Transactions' }
 
@@ -10,9 +13,11 @@ interface TransactionRow {
   transaction_date: string
   description: string | null
   amount: number
+  currency: string
   category: string | null
   counterpart_name: string | null
   is_recurring: boolean
+  status: 'pending' | 'booked'
 }
 
 export default async function TransactionsPage() {
@@ -25,19 +30,35 @@ export default async function TransactionsPage() {
 
   const { data: transactions } = await supabase
     .from('transactions')
-    .select('id, transaction_date, description, amount, category, counterpart_name, is_recurring')
+    .select('id, transaction_date, description, amount, currency, category, counterpart_name, is_recurring, status')
     .eq('user_id', user.id)
     .gte('transaction_date', ninetyDaysAgo.toISOString().split('T')[0])
     .order('transaction_date', { ascending: false })
 
-  const txns = (transactions ?? []) as TransactionRow[]
+  // Statement imports go into manual accounts (no bank connection)
+  const { data: manualAccounts } = await supabase
+    .from('accounts')
+    .select('id, account_name')
+    .eq('user_id', user.id)
+    .eq('is_manual', true)
+    .order('account_name')
+
+  // Foreign-currency rows show their own amount with the NOK equivalent
+  const rates = await getExchangeRates()
+  const txns = ((transactions ?? []) as TransactionRow[]).map((tx) => ({
+    ...tx,
+    amountNOK: toNOK(Number(tx.amount), tx.currency, rates),
+  }))
 
   return (
     <div className="p-4 md:p-8 max-w-3xl mx-auto animate-fade-in">
       <p className="text-section-header mb-2">Banking</p>
-      <h1 className="font-display text-4xl text-aura-text mb-2">Transactions</h1>
+      <div className="flex items-end justify-between gap-4 mb-2">
+        <h1 className="font-display text-4xl text-aura-text">Transactions</h1>
+        <ImportStatementButton accounts={(manualAccounts ?? []) as ManualAccount[]} />
+      </div>
       <p className="text-aura-text-secondary text-sm mb-6">
-        Last 90 days from your connected bank accounts.
+        Last 90 days from your connected bank accounts and imported statements.
       </p>
 
       <TransactionList transactions={txns} />
@@ -2,6 +2,8 @@
  * POST /api/account/delete
  *
  * GDPR account deletion — permanently deletes all user data.
+ * First deletes the user's data key, so encrypted columns are unreadable
+ * even if a later step fails.
  * Deletes: storage files, documents, chat messages, notifications, bills,
  * transactions, accounts, bank connections, partner links, email log, and profile.
  * Finally deletes the Supabase Auth user via admin API.
@@ -13,6 +15,7 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { destroyUserDataKey } from '@/lib/crypto/envelope'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
@@ -50,7 +53,10 @@ export async function POST(request: Request) {
 
     const userId = user.id
 
-    // 4. DELETE STORAGE FILES
+    // 4. DELETE THE DATA KEY — everything encrypted under it is now unrecoverable
+    await destroyUserDataKey(serviceClient, userId)
+
+    // 5. DELETE STORAGE FILES
     const { data: docs } = await serviceClient
       .from('documents')
       .select('file_path')
@@ -61,7 +67,7 @@ export async function POST(request: Request) {
       await serviceClient.storage.from('user-documents').remove(paths)
     }
 
-    // 5. DELETE DATABASE RECORDS (order matters for FK constraints)
+    // 6. DELETE DATABASE RECORDS (order matters for FK constraints)
     // Tables with no FK dependencies on other user tables first
     await serviceClient.from('email_log').delete().eq('user_id', userId)
     await serviceClient.from('notifications').delete().eq('user_id', userId)
@@ -82,7 +88,7 @@ export async function POST(request: Request) {
     // Delete own profile
     await serviceClient.from('profiles').delete().eq('id', userId)
 
-    // 6. DELETE AUTH USER
+    // 7. DELETE AUTH USER
     const { error: deleteAuthError } = await serviceClient.auth.admin.deleteUser(userId)
     if (deleteAuthError) {
       console.error(`[ACCOUNT] Auth delete error for user ${userId}:`, deleteAuthError.message)
@@ -2,8 +2,9 @@
  * GET /api/account/export
  *
  * GDPR data export — returns all user data as a JSON file download.
- * Includes: profile, accounts, transactions, bills, documents (metadata only),
- * chat messages, notifications, and partner sharing records.
+ * Includes: profile, accounts, transactions, bills, budgets, savings goals,
+ * forecast scenarios, documents (metadata only), chat messages,
+ * notifications, and partner sharing records.
  *
  * Security: Auth required. Rate limited.
  */
@@ -11,6 +12,8 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { checkRateLimit } from '@/lib/utils/rate-limiter'
+import { loadEntityRegistry } from '@/lib/redaction/entity-store'
+import { unRedact } from '@/lib/redaction/un-redact'
 
 export async function GET() {
   // 1. AUTHENTICATE
@@ -32,19 +35,28 @@ export async function GET() {
       accountsRes,
       transactionsRes,
       billsRes,
+      budgetsRes,
+      goalsRes,
+      scenariosRes,
       documentsRes,
       chatRes,
       notificationsRes,
       connectionsRes,
+      registry,
     ] = await Promise.all([
-      supabase.from('profiles').select('display_name, preferred_language, notification_preferences, created_at').eq('id', user.id).single(),
+      supabase.from('profiles').select('display_name, preferred_language, notification_preferences, allow_remote_ocr, created_at').eq('id', user.id).single(),
       supabase.from('accounts').select('account_name, balance, currency, account_type, is_shared_with_partner, last_updated_at').eq('user_id', user.id),
       supabase.from('transactions').select('transaction_date, amount, currency, description, category, is_recurring, counterpart_name').eq('user_id', user.id).order('transaction_date', { ascending: false }),
-      supabase.from('bills_upcoming').select('name, amount, currency, due_date, is_paid, category, recurrence, priority, created_at').eq('user_id', user.id),
-      supabase.from('documents').select('original_filename, file_size_bytes, mime_type, document_type, ai_summary, status, uploaded_at').eq('user_id', user.id),
+      supabase.from('bills_upcoming').select('name, amount, currency, due_date, is_paid, category, recurrence, recurrence_interval, recurrence_month_end, recurrence_shift, recurrence_until, recurrence_count, priority, created_at').eq('user_id', user.id),
+      supabase.from('budgets').select('category, monthly_limit, currency, created_at').eq('user_id', user.id),
+      supabase.from('savings_goals').select('name, goal_type, target_amount, currency, deadline, monthly_contribution, contribution_day, is_active, created_at').eq('user_id', user.id),
+      supabase.from('forecast_scenarios').select('name, description, adjustments, is_active, created_at').eq('user_id', user.id),
+      supabase.from('documents').select('original_filename, file_size_bytes, mime_type, document_type, extraction_method, ai_summary, status, uploaded_at').eq('user_id', user.id),
       supabase.from('chat_messages').select('role, content, tokens_used, created_at').eq('user_id', user.id).order('created_at', { ascending: true }),
       supabase.from('notifications').select('type, title, message, is_read, created_at').eq('user_id', user.id).order('created_at', { ascending: false }),
       supabase.from('bank_connections').select('bank_name, status, consent_expires_at, last_synced_at, created_at').eq('user_id', user.id),
+      // Chat messages are stored with known PII masked — export them as the user saw them
+      loadEntityRegistry(supabase, user.id),
     ])
 
     const exportData = {
@@ -58,8 +70,11 @@ export async function GET() {
       accounts: accountsRes.data ?? [],
       transactions: transactionsRes.data ?? [],
       bills: billsRes.data ?? [],
+      budgets: budgetsRes.data ?? [],
+      savings_goals: goalsRes.data ?? [],
+      forecast_scenarios: scenariosRes.data ?? [],
       documents: documentsRes.data ?? [],
-      chat_messages: chatRes.data ?? [],
+      chat_messages: (chatRes.data ?? []).map((m) => ({ ...m, content: unRedact(m.content, {}, registry) })),
       notifications: notificationsRes.data ?? [],
     }
 
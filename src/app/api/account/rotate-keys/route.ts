@@ -0,0 +1,47 @@
+/**
+ * GET /api/account/rotate-keys
+ *
+ * Maintenance job for envelope encryption (migration 026): re-wraps data
+ * keys after a master key rotation and encrypts rows still in plaintext.
+ * Not scheduled — run it once after deploying migration 026 and after every
+ * master key change. Re-running is harmless. See src/lib/crypto/rotate-keys.ts for the rotation steps.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET} header.
+ *
+ *   curl -H "Authorization: Bearer YOUR_CRON_SECRET" http://localhost:3000/api/account/rotate-keys
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { rotateKeys } from '@/lib/crypto/rotate-keys'
+import { NextResponse } from 'next/server'
+
+// Walks every user's encrypted rows — allow the full duration
+export const maxDuration = 300
+
+// Service role client — this runs without a user session
+function createServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createServiceClient()
+
+  try {
+    const summary = await rotateKeys(supabase)
+    if (summary.errors.length > 0) {
+      console.error('[ROTATE_KEYS] Key rotation finished with errors:', summary.errors)
+    }
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('[ROTATE_KEYS] Key rotation failed:', error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * POST/PATCH/DELETE /api/accounts/manual
+ *
+ * Manual accounts — cash, Vipps, loans and other balances without a bank
+ * connection. Bank-synced accounts can't be touched here; the sync owns them.
+ *
+ * POST accepts: { name, accountType, balance, isSharedWithPartner? }
+ * PATCH accepts: { id, name?, accountType?, balance?, isSharedWithPartner? }
+ * DELETE accepts: { id } — removes the account and its transactions
+ *
+ * For loans, `balance` is the amount owed (stored negative).
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { normalizeManualBalance, type ManualAccountType } from '@/lib/accounts/manual'
+
+const AccountFields = {
+  name: z.string().trim().min(1).max(100),
+  accountType: z.enum(['cash', 'wallet', 'savings', 'loan', 'other']),
+  balance: z.number().finite().min(-100_000_000).max(100_000_000),
+  isSharedWithPartner: z.boolean(),
+}
+
+const CreateSchema = z.object({
+  ...AccountFields,
+  isSharedWithPartner: AccountFields.isSharedWithPartner.default(false),
+})
+
+const UpdateSchema = z.object({
+  id: z.string().uuid(),
+  name: AccountFields.name.optional(),
+  accountType: AccountFields.accountType.optional(),
+  balance: AccountFields.balance.optional(),
+  isSharedWithPartner: AccountFields.isSharedWithPartner.optional(),
+})
+
+const DeleteSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`manual:${user.id}`, RATE_LIMITS.manualEntries.max, RATE_LIMITS.manualEntries.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = CreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid account data.' }, { status: 400 })
+  }
+
+  const account = parsed.data
+
+  try {
+    const { data, error } = await supabase
+      .from('accounts')
+      .insert({
+        user_id: user.id,
+        bank_connection_id: null,
+        is_manual: true,
+        account_name: account.name,
+        account_type: account.accountType,
+        balance: normalizeManualBalance(account.accountType, account.balance),
+        currency: 'NOK',
+        is_shared_with_partner: account.isSharedWithPartner,
+        last_updated_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error(`[MANUAL_ACCOUNTS] POST failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to create account.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ account: data }, { status: 201 })
+  } catch (error) {
+    console.error(`[MANUAL_ACCOUNTS] POST error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to create account.' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`manual:${user.id}`, RATE_LIMITS.manualEntries.max, RATE_LIMITS.manualEntries.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = UpdateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid account data.' }, { status: 400 })
+  }
+
+  const { id, ...updates } = parsed.data
+
+  try {
+    const { data: existing } = await supabase
+      .from('accounts')
+      .select('account_type, balance')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('is_manual', true)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Account not found.' }, { status: 404 })
+    }
+
+    // Map camelCase to snake_case for DB columns
+    const dbUpdates: Record<string, unknown> = {}
+    if (updates.name !== undefined) dbUpdates.account_name = updates.name
+    if (updates.accountType !== undefined) dbUpdates.account_type = updates.accountType
+    if (updates.isSharedWithPartner !== undefined) dbUpdates.is_shared_with_partner = updates.isSharedWithPartner
+
+    // Re-apply the loan sign when either the balance or the type changes
+    const type = (updates.accountType ?? existing.account_type ?? 'other') as ManualAccountType
+    if (updates.balance !== undefined || updates.accountType !== undefined) {
+      dbUpdates.balance = normalizeManualBalance(type, updates.balance ?? Number(existing.balance))
+      dbUpdates.last_updated_at = new Date().toISOString()
+    }
+
+    if (Object.keys(dbUpdates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update.' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('accounts')
+      .update(dbUpdates)
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error(`[MANUAL_ACCOUNTS] PATCH failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to update account.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[MANUAL_ACCOUNTS] PATCH error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to update account.' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = DeleteSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid account ID.' }, { status: 400 })
+  }
+
+  try {
+    // Transactions go with it (ON DELETE CASCADE); linked goals are unlinked
+    const { data, error } = await supabase
+      .from('accounts')
+      .delete()
+      .eq('id', parsed.data.id)
+      .eq('user_id', user.id)
+      .eq('is_manual', true)
+      .select('id')
+
+    if (error) {
+      console.error(`[MANUAL_ACCOUNTS] DELETE failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to delete account.' }, { status: 500 })
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Account not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[MANUAL_ACCOUNTS] DELETE error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to delete account.' }, { status: 500 })
+  }
+}
@@ -16,6 +16,11 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { neonomics } from '@/lib/neonomics/client'
+import {
+  NeonomicsBankUnavailableError,
+  NeonomicsRateLimitError,
+  NeonomicsValidationError,
+} from '@/lib/neonomics/errors'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
@@ -30,6 +35,34 @@ const ConnectSchema = z.object({
   bankName: z.string().min(1).max(100).optional(),
 })
 
+// ── Error mapping ────────────────────────────────────────────────────────────
+
+/**
+ * Turns a Neonomics failure into a user-facing response. Anything we can't
+ * attribute to the bank or the input (auth/config) falls back to `fallback`.
+ */
+function neonomicsErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof NeonomicsValidationError) {
+    return NextResponse.json(
+      { error: 'This bank is not available for connection. Please pick another bank.' },
+      { status: 400 }
+    )
+  }
+  if (err instanceof NeonomicsRateLimitError) {
+    return NextResponse.json(
+      { error: 'The bank service is busy. Please wait a minute and try again.' },
+      { status: 429 }
+    )
+  }
+  if (err instanceof NeonomicsBankUnavailableError) {
+    return NextResponse.json(
+      { error: 'Your bank is temporarily unavailable. Please try again later.' },
+      { status: 503 }
+    )
+  }
+  return NextResponse.json({ error: fallback }, { status: 502 })
+}
+
 // ── POST /api/bank/connect ───────────────────────────────────────────────────
 
 export async function POST(request: Request) {
@@ -82,10 +115,7 @@ export async function POST(request: Request) {
       session = await neonomics.createSession(bankId, deviceId)
     } catch (err) {
       console.error(`[BANK_CONNECT] Session creation failed for user ${user.id}:`, err instanceof Error ? err.message : 'Unknown')
-      return NextResponse.json(
-        { error: 'Could not connect to the bank service. Please try again.' },
-        { status: 502 }
-      )
+      return neonomicsErrorResponse(err, 'Could not connect to the bank service. Please try again.')
     }
 
     const sessionId = session.sessionId
@@ -97,10 +127,7 @@ export async function POST(request: Request) {
       consent = await neonomics.getConsent(sessionId, deviceId, redirectUri)
     } catch (err) {
       console.error(`[BANK_CONNECT] Consent fetch failed for user ${user.id}:`, err instanceof Error ? err.message : 'Unknown')
-      return NextResponse.json(
-        { error: 'Could not initiate bank authentication. Please try again.' },
-        { status: 502 }
-      )
+      return neonomicsErrorResponse(err, 'Could not initiate bank authentication. Please try again.')
     }
 
     const scaRedirectUrl = consent.links?.scaRedirect
@@ -43,7 +43,7 @@ export async function POST(request: Request) {
       .update({ status: 'revoked' })
       .eq('id', connectionId)
       .eq('user_id', user.id)
-      .eq('status', 'active')
+      .in('status', ['active', 'error'])
 
     if (updateError) {
       console.error(`[BANK] Disconnect error for user ${user.id}:`, updateError.message)
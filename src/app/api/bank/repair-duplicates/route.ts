@@ -0,0 +1,46 @@
+/**
+ * GET /api/bank/repair-duplicates
+ *
+ * One-off maintenance job for migration 018: merges duplicate transactions
+ * that have no bank reference and backfills their content fingerprints.
+ * Not scheduled — run it once after deploying, re-running is harmless.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET} header.
+ *
+ *   curl -H "Authorization: Bearer YOUR_CRON_SECRET" http://localhost:3000/api/bank/repair-duplicates
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { repairDuplicateTransactions } from '@/lib/neonomics/repair-duplicates'
+import { NextResponse } from 'next/server'
+
+// Walks every account — allow the full duration
+export const maxDuration = 300
+
+// Service role client — this runs without a user session
+function createServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export async function GET(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createServiceClient()
+
+  try {
+    const summary = await repairDuplicateTransactions(supabase)
+    if (summary.errors.length > 0) {
+      console.error('[REPAIR] Duplicate repair finished with errors:', summary.errors)
+    }
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('[REPAIR] Duplicate repair failed:', error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * GET /api/bank/sync/cron
+ *
+ * Triggered by Vercel Cron every 6 hours.
+ * Syncs all active bank connections (and retries errored ones whose backoff
+ * has elapsed), then runs categorization, recurring detection and
+ * notification checks for the affected users.
+ *
+ * Security: Requires Authorization: Bearer {CRON_SECRET} header.
+ *
+ * For local testing:
+ *   curl -H "Authorization: Bearer YOUR_CRON_SECRET" http://localhost:3000/api/bank/sync/cron
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { runBackgroundSync } from '@/lib/neonomics/background-sync'
+import { NextResponse } from 'next/server'
+
+// Syncing is sequential and Neonomics can be slow — allow the full duration
+export const maxDuration = 300
+
+// Service role client — this runs without a user session
+function createServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+export async function GET(request: Request) {
+  // SECURITY: Verify this is a legitimate Vercel Cron call
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = createServiceClient()
+
+  try {
+    const summary = await runBackgroundSync(supabase)
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('[CRON] Background bank sync failed:', error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
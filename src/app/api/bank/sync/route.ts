@@ -2,16 +2,27 @@
  * POST /api/bank/sync
  *
  * Triggers a manual sync of bank accounts and transactions for the
- * authenticated user. Syncs all active bank connections.
+ * authenticated user. Syncs all active bank connections, plus ones in
+ * 'error' — a successful sync clears the error and the cron backoff.
  *
  * Can also sync a specific connection by passing { connectionId } in the body.
+ * Syncs are incremental (since the last sync); pass { fullBackfill: true } to
+ * refetch the full history window instead.
+ * After syncing, new transactions are run through the categorization pipeline,
+ * the recurring transaction detector (which proposes auto-detected bills) and
+ * bill reconciliation (which marks bills paid from matching payments).
  *
  * Rate limit: 6 syncs per hour (syncing too often is wasteful and Neonomics
  * may rate-limit us too — every 4-8 hours is normal usage).
  */
 
 import { createClient } from '@/lib/supabase/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
 import { syncBankConnection } from '@/lib/neonomics/sync'
+import { startSyncRun, finishSyncRun, publicSyncError } from '@/lib/neonomics/sync-runs'
+import { categorizeTransactions } from '@/lib/categorization/categorizer'
+import { runRecurringDetection } from '@/lib/recurring/detector'
+import { runBillReconciliation } from '@/lib/bills/reconcile'
 import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
@@ -19,10 +30,20 @@ import { z } from 'zod'
 // ── Input validation ─────────────────────────────────────────────────────────
 
 const SyncSchema = z.object({
-  // Optional: sync a specific connection. Omit to sync all active connections.
+  // Optional: sync a specific connection. Omit to sync all active/errored connections.
   connectionId: z.string().uuid().optional(),
+  // Optional: ignore last_synced_at and refetch the full history window
+  fullBackfill: z.boolean().optional(),
 })
 
+// Service role client — sync_runs is server-written history, read-only for users
+function getServiceClient() {
+  return createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
 // ── POST /api/bank/sync ──────────────────────────────────────────────────────
 
 export async function POST(request: Request) {
@@ -59,7 +80,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid input' }, { status: 400 })
   }
 
-  const { connectionId } = parsed.data
+  const { connectionId, fullBackfill } = parsed.data
 
   try {
     // 4. FETCH TARGET CONNECTIONS
@@ -67,7 +88,7 @@ export async function POST(request: Request) {
       .from('bank_connections')
       .select('id')
       .eq('user_id', user.id)
-      .eq('status', 'active')
+      .in('status', ['active', 'error'])
 
     if (connectionId) {
       query = query.eq('id', connectionId)
@@ -92,9 +113,14 @@ export async function POST(request: Request) {
 
     // 5. SYNC EACH CONNECTION
     //    We run them sequentially to avoid hammering Neonomics rate limits.
+    //    Each attempt is recorded in sync_runs (shown in Settings) through the
+    //    service role — the connections above are already scoped to the user.
+    const serviceClient = getServiceClient()
     const results = []
     for (const conn of connections) {
-      const syncResult = await syncBankConnection(supabase, user.id, conn.id)
+      const runId = await startSyncRun(serviceClient, user.id, conn.id, 'manual')
+      const syncResult = await syncBankConnection(supabase, user.id, conn.id, { fullBackfill })
+      await finishSyncRun(serviceClient, runId, syncResult)
 
       // Log real errors server-side, return only generic messages to client
       if (syncResult.errors.length > 0) {
@@ -104,20 +130,49 @@ export async function POST(request: Request) {
         )
       }
 
+      const publicError = publicSyncError(syncResult)
       results.push({
         connectionId: conn.id,
         accountsSynced: syncResult.accountsSynced,
         transactionsSynced: syncResult.transactionsSynced,
-        ...(syncResult.errors.length > 0 && {
-          errors: syncResult.errors.map(() => 'One or more items could not be synced'),
-        }),
+        ...(publicError && { errors: [publicError] }),
       })
     }
 
-    // 6. RETURN SUMMARY (never include sensitive data like amounts or account numbers)
     const totalAccounts = results.reduce((sum, r) => sum + r.accountsSynced, 0)
     const totalTransactions = results.reduce((sum, r) => sum + r.transactionsSynced, 0)
 
+    // 6. CATEGORIZE NEW TRANSACTIONS — rules first, then PII-free AI fallback.
+    //    Non-fatal: uncategorized rows are simply retried on the next sync.
+    if (totalTransactions > 0) {
+      const categorization = await categorizeTransactions(supabase, user.id)
+      if (categorization.errors.length > 0) {
+        console.error(
+          `[BANK_SYNC] Categorization errors for user ${user.id}:`,
+          categorization.errors
+        )
+      }
+
+      // 7. DETECT RECURRING PAYMENTS — flags is_recurring, proposes bills
+      const recurring = await runRecurringDetection(supabase, user.id)
+      if (recurring.errors.length > 0) {
+        console.error(
+          `[BANK_SYNC] Recurring detection errors for user ${user.id}:`,
+          recurring.errors
+        )
+      }
+
+      // 8. RECONCILE BILLS — mark paid from matching payments, roll forward
+      const reconciliation = await runBillReconciliation(supabase, user.id)
+      if (reconciliation.errors.length > 0) {
+        console.error(
+          `[BANK_SYNC] Bill reconciliation errors for user ${user.id}:`,
+          reconciliation.errors
+        )
+      }
+    }
+
+    // 9. RETURN SUMMARY (never include sensitive data like amounts or account numbers)
     return NextResponse.json({
       message: `Sync complete. ${totalAccounts} accounts and ${totalTransactions} transactions updated.`,
       synced: results,
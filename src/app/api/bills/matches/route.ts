@@ -0,0 +1,112 @@
+/**
+ * GET /api/bills/matches — Payments that might belong to a bill, awaiting review
+ * PATCH /api/bills/matches — Confirm one candidate, or reject all of a bill's
+ *
+ * Matches come from bill reconciliation after a sync (src/lib/bills/reconcile.ts)
+ * when more than one transaction could be the payment. Confirming marks the
+ * bill paid by that transaction and rolls a recurring bill forward; rejected
+ * pairs are never proposed again.
+ *
+ * PATCH accepts: { action: 'confirm', matchId } | { action: 'reject', billId }
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { getPendingPaymentMatches } from '@/lib/bills/reconcile'
+import { markBillPaid } from '@/lib/bills/lifecycle'
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const matches = await getPendingPaymentMatches(supabase, user.id)
+    return NextResponse.json({ matches })
+  } catch (error) {
+    console.error(`[BILL_MATCHES] GET failed for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to load payment matches.' }, { status: 500 })
+  }
+}
+
+// ── PATCH /api/bills/matches — Confirm or reject ────────────────────────────
+
+const PatchMatchSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('confirm'), matchId: z.string().uuid() }),
+  z.object({ action: z.literal('reject'), billId: z.string().uuid() }),
+])
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`bills:${user.id}`, RATE_LIMITS.bills.max, RATE_LIMITS.bills.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = PatchMatchSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input.' }, { status: 400 })
+  }
+
+  try {
+    if (parsed.data.action === 'reject') {
+      // None of the candidates paid this bill
+      const { error } = await supabase
+        .from('bill_payment_matches')
+        .update({ status: 'rejected' })
+        .eq('user_id', user.id)
+        .eq('bill_id', parsed.data.billId)
+        .eq('status', 'pending')
+
+      if (error) {
+        console.error(`[BILL_MATCHES] Reject failed for user ${user.id}:`, error.message)
+        return NextResponse.json({ error: 'Failed to update matches.' }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    // 1. FETCH MATCH — must belong to this user and still be open
+    const { data: match } = await supabase
+      .from('bill_payment_matches')
+      .select('id, bill_id, transaction_id')
+      .eq('id', parsed.data.matchId)
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    if (!match) {
+      return NextResponse.json({ error: 'Match not found.' }, { status: 404 })
+    }
+
+    // 2. CONFIRM — mark paid by this transaction, roll forward
+    const result = await markBillPaid(supabase, user.id, match.bill_id, match.transaction_id)
+    if (result.error) {
+      console.error(`[BILL_MATCHES] Confirm failed for user ${user.id}:`, result.error)
+      return NextResponse.json({ error: 'Failed to confirm payment.' }, { status: 500 })
+    }
+    if (!result.found) {
+      return NextResponse.json({ error: 'Bill not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, nextBillId: result.nextBillId })
+  } catch (error) {
+    console.error(`[BILL_MATCHES] PATCH unexpected error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 })
+  }
+}
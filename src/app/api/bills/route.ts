@@ -1,9 +1,12 @@
 /**
  * POST /api/bills — Create a bill
- * PATCH /api/bills — Mark a bill as paid/unpaid
+ * PATCH /api/bills — Mark a bill as paid/unpaid, change its priority
  *
- * POST accepts: { name, amount, dueDate, category?, recurrence?, sourceDocumentId? }
- * PATCH accepts: { billId, is_paid }
+ * POST accepts: { name, amount, dueDate, category?, recurrence?, sourceDocumentId?,
+ *                 interval?, monthEnd?, shift?, until?, count? }
+ *   The last five refine a repeating bill — see src/lib/recurrence/schedule.ts.
+ * PATCH accepts: { billId, is_paid?, priority? }
+ *   Paying a recurring bill creates its next occurrence (src/lib/bills/lifecycle.ts).
  */
 
 import { createClient } from '@/lib/supabase/server'
@@ -11,6 +14,8 @@ import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
 import { BILL_PRIORITIES } from '@/lib/constants/bill-priority'
+import { BUSINESS_DAY_SHIFTS } from '@/lib/recurrence/schedule'
+import { markBillPaid, markBillUnpaid } from '@/lib/bills/lifecycle'
 
 const CreateBillSchema = z.object({
   name: z.string().min(1).max(200),
@@ -20,6 +25,11 @@ const CreateBillSchema = z.object({
   recurrence: z.enum(['once', 'weekly', 'monthly', 'quarterly', 'yearly']).default('once'),
   sourceDocumentId: z.string().uuid().nullable().optional(),
   priority: z.enum(BILL_PRIORITIES).default('normal'),
+  interval: z.number().int().min(1).max(52).default(1),
+  monthEnd: z.boolean().default(false),
+  shift: z.enum(BUSINESS_DAY_SHIFTS).default('none'),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  count: z.number().int().min(1).max(1000).nullable().optional(),
 })
 
 export async function POST(request: Request) {
@@ -49,6 +59,11 @@ export async function POST(request: Request) {
   }
 
   const { name, amount, dueDate, category, recurrence, sourceDocumentId, priority } = parsed.data
+  const { interval, monthEnd, shift, until, count } = parsed.data
+
+  if (until && until < dueDate) {
+    return NextResponse.json({ error: 'The end date must be on or after the first due date.' }, { status: 400 })
+  }
 
   try {
     // 4. VALIDATE SOURCE DOCUMENT (if provided) — must belong to this user
@@ -93,6 +108,12 @@ export async function POST(request: Request) {
         is_paid: false,
         category: category ?? null,
         recurrence,
+        // A one-off bill has nothing to refine
+        recurrence_interval: recurrence === 'once' ? 1 : interval,
+        recurrence_month_end: recurrence !== 'once' && recurrence !== 'weekly' && monthEnd,
+        recurrence_shift: shift,
+        recurrence_until: recurrence === 'once' ? null : until ?? null,
+        recurrence_count: recurrence === 'once' ? null : count ?? null,
         source_document_id: sourceDocumentId ?? null,
         priority,
       })
@@ -144,30 +165,46 @@ export async function PATCH(request: Request) {
 
   try {
     const { billId, is_paid, priority } = parsed.data
-    const updateFields: Record<string, unknown> = {}
-    if (is_paid !== undefined) updateFields.is_paid = is_paid
-    if (priority !== undefined) updateFields.priority = priority
-
-    if (Object.keys(updateFields).length === 0) {
+    if (is_paid === undefined && priority === undefined) {
       return NextResponse.json({ error: 'No fields to update.' }, { status: 400 })
     }
 
-    const { error: updateError, count } = await supabase
-      .from('bills_upcoming')
-      .update(updateFields, { count: 'exact' })
-      .eq('id', billId)
-      .eq('user_id', user.id)
+    if (priority !== undefined) {
+      const { error: updateError, count } = await supabase
+        .from('bills_upcoming')
+        .update({ priority }, { count: 'exact' })
+        .eq('id', billId)
+        .eq('user_id', user.id)
 
-    if (updateError) {
-      console.error(`[BILLS] PATCH error for user ${user.id}:`, updateError.message)
-      return NextResponse.json({ error: 'Failed to update bill.' }, { status: 500 })
+      if (updateError) {
+        console.error(`[BILLS] PATCH error for user ${user.id}:`, updateError.message)
+        return NextResponse.json({ error: 'Failed to update bill.' }, { status: 500 })
+      }
+
+      if (count === 0) {
+        return NextResponse.json({ error: 'Bill not found.' }, { status: 404 })
+      }
     }
 
-    if (count === 0) {
-      return NextResponse.json({ error: 'Bill not found.' }, { status: 404 })
+    // Paid/unpaid goes through the lifecycle, so a recurring bill rolls forward
+    let nextBillId: string | null = null
+    if (is_paid !== undefined) {
+      const result = is_paid
+        ? await markBillPaid(supabase, user.id, billId)
+        : { ...(await markBillUnpaid(supabase, user.id, billId)), nextBillId: null }
+
+      if (result.error) {
+        console.error(`[BILLS] PATCH error for user ${user.id}:`, result.error)
+        return NextResponse.json({ error: 'Failed to update bill.' }, { status: 500 })
+      }
+
+      if (!result.found) {
+        return NextResponse.json({ error: 'Bill not found.' }, { status: 404 })
+      }
+      nextBillId = result.nextBillId
     }
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, nextBillId })
   } catch (error) {
     console.error(`[BILLS] PATCH unexpected error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
     return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 })
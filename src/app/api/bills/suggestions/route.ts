@@ -0,0 +1,128 @@
+/**
+ * GET /api/bills/suggestions — List auto-detected recurring bills awaiting review
+ * PATCH /api/bills/suggestions — Confirm or dismiss a suggestion
+ *
+ * Suggestions come from the recurring transaction detector (src/lib/recurring).
+ * Dismissing removes the proposed bill and remembers the pattern so it is
+ * never proposed again. Confirming keeps the bill.
+ *
+ * PATCH accepts: { patternId, action: 'confirm' | 'dismiss' }
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data, error } = await supabase
+    .from('recurring_patterns')
+    .select('id, display_name, recurrence, average_amount, next_expected_date, occurrences, confidence, bill_id')
+    .eq('user_id', user.id)
+    .eq('status', 'suggested')
+    .eq('direction', 'expense')
+    .order('next_expected_date', { ascending: true })
+
+  if (error) {
+    console.error(`[BILL_SUGGESTIONS] GET failed for user ${user.id}:`, error.message)
+    return NextResponse.json({ error: 'Failed to load suggestions.' }, { status: 500 })
+  }
+
+  return NextResponse.json({ suggestions: data })
+}
+
+// ── PATCH /api/bills/suggestions — Confirm or dismiss ───────────────────────
+
+const PatchSuggestionSchema = z.object({
+  patternId: z.string().uuid(),
+  action: z.enum(['confirm', 'dismiss']),
+})
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`bills:${user.id}`, RATE_LIMITS.bills.max, RATE_LIMITS.bills.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = PatchSuggestionSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input.' }, { status: 400 })
+  }
+
+  const { patternId, action } = parsed.data
+
+  try {
+    // 1. FETCH PATTERN — must belong to this user
+    const { data: pattern } = await supabase
+      .from('recurring_patterns')
+      .select('id, status, bill_id')
+      .eq('id', patternId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!pattern) {
+      return NextResponse.json({ error: 'Suggestion not found.' }, { status: 404 })
+    }
+
+    if (action === 'confirm') {
+      const { error } = await supabase
+        .from('recurring_patterns')
+        .update({ status: 'confirmed' })
+        .eq('id', patternId)
+        .eq('user_id', user.id)
+
+      if (error) {
+        console.error(`[BILL_SUGGESTIONS] Confirm failed for user ${user.id}:`, error.message)
+        return NextResponse.json({ error: 'Failed to confirm suggestion.' }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    // 2. DISMISS — remember the pattern, remove the proposed bill
+    const { error: dismissError } = await supabase
+      .from('recurring_patterns')
+      .update({ status: 'dismissed', bill_id: null })
+      .eq('id', patternId)
+      .eq('user_id', user.id)
+
+    if (dismissError) {
+      console.error(`[BILL_SUGGESTIONS] Dismiss failed for user ${user.id}:`, dismissError.message)
+      return NextResponse.json({ error: 'Failed to dismiss suggestion.' }, { status: 500 })
+    }
+
+    if (pattern.bill_id) {
+      // Only remove bills the detector created and nobody has paid yet
+      await supabase
+        .from('bills_upcoming')
+        .delete()
+        .eq('id', pattern.bill_id)
+        .eq('user_id', user.id)
+        .eq('is_auto_detected', true)
+        .eq('is_paid', false)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[BILL_SUGGESTIONS] PATCH unexpected error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 })
+  }
+}
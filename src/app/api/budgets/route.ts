@@ -0,0 +1,185 @@
+/**
+ * GET/POST/PATCH/DELETE /api/budgets
+ *
+ * CRUD for per-category monthly budgets.
+ * GET returns each budget with this month's progress (spent vs. limit).
+ *
+ * POST accepts: { category, monthlyLimit }
+ * PATCH accepts: { id, monthlyLimit }
+ * DELETE accepts: { id }
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { BUDGETABLE_CATEGORY_KEYS } from '@/lib/constants/categories'
+import { getBudgetProgress } from '@/lib/budgets/progress'
+
+const CreateSchema = z.object({
+  category: z.enum(BUDGETABLE_CATEGORY_KEYS),
+  monthlyLimit: z.number().positive().max(10_000_000),
+})
+
+const UpdateSchema = z.object({
+  id: z.string().uuid(),
+  monthlyLimit: z.number().positive().max(10_000_000),
+})
+
+const DeleteSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const budgets = await getBudgetProgress(supabase, user.id)
+    return NextResponse.json({ budgets })
+  } catch (error) {
+    console.error(`[BUDGETS] GET error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to load budgets.' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`budgets:${user.id}`, RATE_LIMITS.budgets.max, RATE_LIMITS.budgets.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = CreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid budget data.' }, { status: 400 })
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('budgets')
+      .insert({
+        user_id: user.id,
+        category: parsed.data.category,
+        monthly_limit: parsed.data.monthlyLimit,
+        currency: 'NOK',
+      })
+      .select('id, category, monthly_limit')
+      .single()
+
+    if (error) {
+      // 23505 = unique_violation → one budget per category
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'You already have a budget for this category.' },
+          { status: 409 }
+        )
+      }
+      console.error(`[BUDGETS] POST failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to create budget.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ budget: data }, { status: 201 })
+  } catch (error) {
+    console.error(`[BUDGETS] POST error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to create budget.' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`budgets:${user.id}`, RATE_LIMITS.budgets.max, RATE_LIMITS.budgets.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = UpdateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid budget data.' }, { status: 400 })
+  }
+
+  try {
+    const { error, count } = await supabase
+      .from('budgets')
+      .update({ monthly_limit: parsed.data.monthlyLimit }, { count: 'exact' })
+      .eq('id', parsed.data.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error(`[BUDGETS] PATCH failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to update budget.' }, { status: 500 })
+    }
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Budget not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[BUDGETS] PATCH error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to update budget.' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = DeleteSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid budget ID.' }, { status: 400 })
+  }
+
+  try {
+    const { error } = await supabase
+      .from('budgets')
+      .delete()
+      .eq('id', parsed.data.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error(`[BUDGETS] DELETE failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to delete budget.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[BUDGETS] DELETE error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to delete budget.' }, { status: 500 })
+  }
+}
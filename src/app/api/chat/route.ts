@@ -4,6 +4,9 @@ import { AURA_SYSTEM_PROMPT } from '@/lib/anthropic/prompts/system-prompt'
 import { buildFinancialContext } from '@/lib/anthropic/context-builder'
 import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
 import { sanitizeInput } from '@/lib/utils/sanitize'
+import { linkChatMessageEntities, loadEntityRegistry } from '@/lib/redaction/entity-store'
+import { maskKnownEntities } from '@/lib/redaction/pseudonymizer'
+import { createStreamUnRedactor } from '@/lib/redaction/un-redact'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
@@ -57,7 +60,20 @@ export async function POST(request: Request) {
 
   try {
     // 4. BUILD FINANCIAL CONTEXT — summarized, no raw PII
-    const financialContext = await buildFinancialContext(supabase, user.id)
+    //    Document summaries are stored un-redacted, so values the user has
+    //    redacted before are masked again with their registry pseudonyms
+    const [rawContext, registry] = await Promise.all([
+      buildFinancialContext(supabase, user.id),
+      loadEntityRegistry(supabase, user.id),
+    ])
+    const financialContext = maskKnownEntities(rawContext, registry)
+    const maskedMessage = maskKnownEntities(sanitizedMessage, registry)
+
+    // Non-fatal: an unlinked message still resolves until its entities are pruned
+    const linkEntities = (messageId: string, content: string) =>
+      linkChatMessageEntities(supabase, user.id, messageId, content, registry).catch((err) => {
+        console.error(`[CHAT] Failed to link PII entities for user ${user.id}:`, err instanceof Error ? err.message : 'Unknown')
+      })
 
     // 5. FETCH CONVERSATION HISTORY — last 20 messages for context window
     const { data: history } = await supabase
@@ -69,20 +85,28 @@ export async function POST(request: Request) {
       .limit(20)
 
     // 6. SAVE USER MESSAGE immediately (before streaming)
-    await supabase.from('chat_messages').insert({
-      user_id: user.id,
-      conversation_id: conversationId,
-      role: 'user',
-      content: sanitizedMessage,
-    })
-
-    // 7. BUILD CLAUDE MESSAGES ARRAY
+    //    Messages are stored masked — the chat page un-redacts them for display,
+    //    and each message links the entities it uses so they stay resolvable
+    const { data: savedMessage } = await supabase
+      .from('chat_messages')
+      .insert({
+        user_id: user.id,
+        conversation_id: conversationId,
+        role: 'user',
+        content: maskedMessage,
+      })
+      .select('id')
+      .single()
+    if (savedMessage) await linkEntities(savedMessage.id, maskedMessage)
+
+    // 7. BUILD CLAUDE MESSAGES ARRAY — known PII masked the same way as in documents
+    //    (again for history: values may have been registered since it was saved)
     const claudeMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [
       ...(history ?? []).map((m) => ({
         role: m.role as 'user' | 'assistant',
-        content: m.content,
+        content: maskKnownEntities(m.content, registry),
       })),
-      { role: 'user', content: sanitizedMessage },
+      { role: 'user', content: maskedMessage },
     ]
 
     // 8. STREAM from Claude API
@@ -94,8 +118,10 @@ export async function POST(request: Request) {
       messages: claudeMessages,
     })
 
-    // 9. PIPE stream to client, save to DB when complete
+    // 9. PIPE stream to client with masks swapped back, save to DB when complete
+    //    Only the client gets real values — the reply is saved as Claude wrote it
     const encoder = new TextEncoder()
+    const unRedactor = createStreamUnRedactor({}, registry)
     let fullResponse = ''
 
     const readable = new ReadableStream({
@@ -106,11 +132,13 @@ export async function POST(request: Request) {
               chunk.type === 'content_block_delta' &&
               chunk.delta.type === 'text_delta'
             ) {
-              const text = chunk.delta.text
-              fullResponse += text
-              controller.enqueue(encoder.encode(text))
+              fullResponse += chunk.delta.text
+              const text = unRedactor.push(chunk.delta.text)
+              if (text) controller.enqueue(encoder.encode(text))
             }
           }
+          const rest = unRedactor.flush()
+          if (rest) controller.enqueue(encoder.encode(rest))
           controller.close()
         } catch (err) {
           // Send a readable error message through the stream rather than
@@ -128,13 +156,18 @@ export async function POST(request: Request) {
           const tokensUsed =
             finalMessage.usage.input_tokens + finalMessage.usage.output_tokens
 
-          await supabase.from('chat_messages').insert({
-            user_id: user.id,
-            conversation_id: conversationId,
-            role: 'assistant',
-            content: fullResponse,
-            tokens_used: tokensUsed,
-          })
+          const { data: savedReply } = await supabase
+            .from('chat_messages')
+            .insert({
+              user_id: user.id,
+              conversation_id: conversationId,
+              role: 'assistant',
+              content: fullResponse,
+              tokens_used: tokensUsed,
+            })
+            .select('id')
+            .single()
+          if (savedReply) await linkEntities(savedReply.id, fullResponse)
         } catch (saveErr) {
           // Log server-side only — non-fatal, the message was still streamed to user
           console.error(`[CHAT] Failed to save assistant message for user ${user.id}:`, saveErr)
@@ -24,6 +24,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { anthropic } from '@/lib/anthropic/client'
 import { unRedact } from '@/lib/redaction/un-redact'
+import { getUserCipher } from '@/lib/crypto/envelope'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
@@ -98,7 +99,8 @@ export async function POST(request: Request) {
     }
 
     // 6. SELECT TEXT TO SEND — redacted version, or extracted if user skipped redaction
-    const textForClaude = doc.redacted_text ?? doc.extracted_text
+    const cipher = await getUserCipher(supabase, user.id)
+    const textForClaude = doc.redacted_text ?? (doc.extracted_text ? cipher.decrypt(doc.extracted_text) : null)
 
     if (!textForClaude) {
       return NextResponse.json({ error: 'No document text available for analysis.' }, { status: 400 })
@@ -132,7 +134,7 @@ export async function POST(request: Request) {
     }
 
     // 10. UN-REDACT THE ANALYSIS for user display
-    const redactionMap = (doc.redaction_map as Record<string, string>) ?? {}
+    const redactionMap = cipher.decryptJson<Record<string, string> | null>(doc.redaction_map) ?? {}
     const summaryForUser = unRedact(rawText, redactionMap)
 
     // Parse the un-redacted version for structured fields
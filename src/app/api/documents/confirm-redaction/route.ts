@@ -4,7 +4,9 @@
  * Privacy Shield — Step 2.
  * The user has reviewed the PII detections in the UI and submitted their
  * confirmed/rejected selections. This route applies the confirmed redactions,
- * stores the redacted text and the mask→original mapping in the database.
+ * stores the redacted text and the (encrypted) mask→original mapping,
+ * and records the masked values in the user's entity registry so other
+ * documents and chat reuse the same masks.
  *
  * Also handles the "skip" case: if the user chooses to skip redaction,
  * redaction_status is set to 'skipped' and the raw extracted text will
@@ -16,6 +18,8 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { applyRedactions } from '@/lib/redaction/pseudonymizer'
+import { loadEntityRegistry, saveDocumentEntities } from '@/lib/redaction/entity-store'
+import { getUserCipher } from '@/lib/crypto/envelope'
 import type { PIIDetection } from '@/lib/redaction/pii-detector'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
@@ -26,6 +30,9 @@ const DetectionSchema = z.object({
   end: z.number(),
   original: z.string(),
   suggestedMask: z.string(),
+  // Optional — detections stored before confidence scoring don't have them
+  confidence: z.number().min(0).max(1).optional(),
+  checksum: z.enum(['valid', 'invalid']).nullable().optional(),
   confirmed: z.boolean(),
 })
 
@@ -83,29 +90,41 @@ export async function POST(request: Request) {
       )
     }
 
+    const cipher = await getUserCipher(supabase, user.id)
+    const extractedText = cipher.decrypt(doc.extracted_text)
+
     if (skip) {
-      // User chose to skip redaction — mark status and proceed with raw text
+      // User chose to skip redaction — mark status and proceed with raw text.
+      // Nothing is masked, so the document uses no registry entities.
+      await saveDocumentEntities(supabase, user.id, documentId, [])
       await supabase.from('documents').update({
-        pii_detections: detections,
+        pii_detections: cipher.encryptJson(detections),
         redaction_status: 'skipped',
         status: 'redaction_confirmed',
       }).eq('id', documentId)
 
       return NextResponse.json({
-        redactedText: doc.extracted_text,
+        redactedText: extractedText,
         redactionCount: 0,
         skipped: true,
       })
     }
 
-    // 4. APPLY CONFIRMED REDACTIONS (cast type: string → PIIType from Zod validation)
-    const { redactedText, redactionMap } = applyRedactions(doc.extracted_text, detections as PIIDetection[])
+    // 4. APPLY CONFIRMED REDACTIONS through the entity registry
+    //    (cast type: string → PIIType from Zod validation)
+    const registry = await loadEntityRegistry(supabase, user.id)
+    const { redactedText, redactionMap, entities } = applyRedactions(
+      extractedText,
+      detections as PIIDetection[],
+      registry
+    )
+    await saveDocumentEntities(supabase, user.id, documentId, entities)
 
     // 5. STORE REDACTED VERSION + MAPPING
     await supabase.from('documents').update({
       redacted_text: redactedText,
-      redaction_map: redactionMap,
-      pii_detections: detections,
+      redaction_map: cipher.encryptJson(redactionMap),
+      pii_detections: cipher.encryptJson(detections),
       redaction_status: 'user_confirmed',
       status: 'redaction_confirmed',
     }).eq('id', documentId)
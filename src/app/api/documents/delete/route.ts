@@ -4,6 +4,9 @@
  * Deletes a document: removes from Supabase Storage, deletes DB record,
  * and cleans up any linked bill in bills_upcoming.
  *
+ * The document's links to the PII entity registry are removed with the row;
+ * entities other documents still use keep their pseudonyms (migration 025).
+ *
  * Accepts: { documentId: string }
  */
 
@@ -2,25 +2,39 @@
  * POST /api/documents/detect-pii
  *
  * Privacy Shield — Step 1.
- * Downloads the uploaded document, uses Claude as an OCR engine to extract
- * raw text, then runs regex-based Norwegian PII detection on that text.
+ * Downloads the uploaded document, extracts its text, then runs regex-based
+ * Norwegian PII detection on that text.
  *
- * IMPORTANT: This is a text-extraction-only call to Claude.
- * Claude is instructed to transcribe, not analyze.
- * The extracted text is stored in `extracted_text` but NEVER sent to
- * the analysis Claude call — only the redacted version is.
+ * Extraction happens on our server for digital PDFs (text layer) and plain
+ * text. Scanned PDFs and images need OCR, which means sending the unredacted
+ * file to Claude for transcription — only done when the user has enabled
+ * remote OCR in Settings or passes allowRemoteOcr for this file. Otherwise
+ * the route answers 422 with needsRemoteOcr: true.
  *
- * Returns: { extractedText, detections, detectionCount }
+ * The extracted text is stored encrypted in `extracted_text` (with
+ * `extraction_method`) but NEVER sent to the analysis Claude call — only the
+ * redacted version is.
+ * Suggested masks come from the user's entity registry, so values seen in
+ * earlier documents keep their mask.
+ *
+ * Accepts: { documentId, allowRemoteOcr? }
+ * Returns: { extractedText, extractionMethod, detections, detectionCount }
  */
 
 import { createClient } from '@/lib/supabase/server'
-import { anthropic } from '@/lib/anthropic/client'
+import { extractTextLocally, extractTextRemotely, supportsRemoteOcr } from '@/lib/redaction/text-extraction'
 import { detectPII } from '@/lib/redaction/pii-detector'
+import { loadEntityRegistry } from '@/lib/redaction/entity-store'
+import { getUserCipher } from '@/lib/crypto/envelope'
 import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
-const RequestSchema = z.object({ documentId: z.string().uuid() })
+const RequestSchema = z.object({
+  documentId: z.string().uuid(),
+  // One-off consent to remote OCR for this file, when the profile setting is off
+  allowRemoteOcr: z.boolean().optional(),
+})
 
 export async function POST(request: Request) {
   // 1. AUTHENTICATE
@@ -56,7 +70,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid document ID.' }, { status: 400 })
   }
 
-  const { documentId } = parsed.data
+  const { documentId, allowRemoteOcr = false } = parsed.data
 
   try {
     // 3. FETCH DOCUMENT RECORD (scoped to user)
@@ -82,72 +96,54 @@ export async function POST(request: Request) {
     }
 
     const buffer = Buffer.from(await fileData.arrayBuffer())
-    const base64 = buffer.toString('base64')
     const mimeType = doc.mime_type ?? 'application/pdf'
 
-    // 5. EXTRACT TEXT — transcription-only call to Claude (no analysis)
-    let extractedText: string
-
-    if (mimeType === 'application/pdf') {
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-6',
-        max_tokens: 4000,
-        messages: [{
-          role: 'user',
-          content: [
-            {
-              type: 'document',
-              source: { type: 'base64', media_type: 'application/pdf', data: base64 },
-            },
-            {
-              type: 'text',
-              text: 'Extract ALL text from this document exactly as it appears. Preserve line breaks and formatting. Output only the extracted text, nothing else.',
-            },
-          ],
-        }],
-      })
-      extractedText = response.content[0].type === 'text' ? response.content[0].text : ''
-    } else if (mimeType.startsWith('image/')) {
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-6',
-        max_tokens: 4000,
-        messages: [{
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
-                data: base64,
-              },
-            },
-            {
-              type: 'text',
-              text: 'Extract ALL text from this image exactly as it appears. Preserve line breaks and formatting. Output only the extracted text, nothing else.',
-            },
-          ],
-        }],
-      })
-      extractedText = response.content[0].type === 'text' ? response.content[0].text : ''
-    } else {
-      // Plain text / CSV fallback
-      extractedText = buffer.toString('utf-8')
+    // 5. EXTRACT TEXT — locally when the file has text; remote OCR only by opt-in
+    let extracted = await extractTextLocally(buffer, mimeType)
+
+    if (!extracted) {
+      if (!supportsRemoteOcr(mimeType)) {
+        return NextResponse.json({ error: "This file type can't be read." }, { status: 415 })
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('allow_remote_ocr')
+        .eq('id', user.id)
+        .single()
+
+      if (!profile?.allow_remote_ocr && !allowRemoteOcr) {
+        return NextResponse.json(
+          {
+            error: 'This looks like a scanned document or a photo, so it has no text Aura can read on its own server.',
+            needsRemoteOcr: true,
+          },
+          { status: 422 }
+        )
+      }
+
+      extracted = await extractTextRemotely(buffer, mimeType)
     }
 
-    // 6. RUN PII DETECTION (regex-based, no AI)
-    const detections = detectPII(extractedText)
+    const { text: extractedText, method: extractionMethod } = extracted
+
+    // 6. RUN PII DETECTION (regex-based, no AI) — known values keep their registry mask
+    const registry = await loadEntityRegistry(supabase, user.id)
+    const detections = detectPII(extractedText, registry)
 
-    // 7. STORE EXTRACTED TEXT + FINDINGS
+    // 7. STORE EXTRACTED TEXT + FINDINGS — both hold raw PII, so encrypted
+    const cipher = await getUserCipher(supabase, user.id)
     await supabase.from('documents').update({
-      extracted_text: extractedText,
-      pii_detections: detections,
+      extracted_text: cipher.encrypt(extractedText),
+      extraction_method: extractionMethod,
+      pii_detections: cipher.encryptJson(detections),
       redaction_status: detections.length > 0 ? 'auto_detected' : 'pending',
       status: 'pii_detected',
     }).eq('id', documentId)
 
     return NextResponse.json({
       extractedText,
+      extractionMethod,
       detections,
       detectionCount: detections.length,
     })
@@ -0,0 +1,83 @@
+/**
+ * POST /api/forecast/scenarios/compare
+ *
+ * Runs the forecast for the baseline and each requested scenario side by
+ * side. The baseline is built exactly like the /forecast page's.
+ *
+ * Accepts: { scenarioIds: string[] (1–4), days?: 30 | 60 | 90 }
+ * Returns: { baseline, scenarios } — each { id, name, points, summary }
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { loadForecastData } from '@/lib/forecast/input'
+import { compareScenarios, type ForecastScenario } from '@/lib/forecast/scenarios'
+
+const CompareSchema = z.object({
+  scenarioIds: z.array(z.string().uuid()).min(1).max(4),
+  days: z.union([z.literal(30), z.literal(60), z.literal(90)]).default(90),
+})
+
+export async function POST(request: Request) {
+  // 1. AUTHENTICATE
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // 2. RATE LIMIT — shares the scenario budget
+  if (!checkRateLimit(`forecast-scenarios:${user.id}`, RATE_LIMITS.forecastScenarios.max, RATE_LIMITS.forecastScenarios.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  // 3. VALIDATE
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = CompareSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Choose between one and four scenarios.' }, { status: 400 })
+  }
+
+  try {
+    // 4. LOAD scenarios (own, active) and the baseline
+    const now = new Date()
+    const [scenariosRes, data] = await Promise.all([
+      supabase
+        .from('forecast_scenarios')
+        .select('id, name, description, adjustments')
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .in('id', parsed.data.scenarioIds),
+
+      loadForecastData(supabase, user.id, parsed.data.days, now),
+    ])
+
+    if (scenariosRes.error) {
+      console.error(`[FORECAST_COMPARE] Scenario query failed for user ${user.id}:`, scenariosRes.error.message)
+      return NextResponse.json({ error: 'Failed to load scenarios.' }, { status: 500 })
+    }
+
+    const scenarios = (scenariosRes.data ?? []) as ForecastScenario[]
+    if (scenarios.length === 0) {
+      return NextResponse.json({ error: 'Scenario not found.' }, { status: 404 })
+    }
+
+    // 5. COMPARE — keep the order the client asked for
+    const ordered = parsed.data.scenarioIds
+      .map((id) => scenarios.find((s) => s.id === id))
+      .filter((s): s is ForecastScenario => !!s)
+
+    return NextResponse.json(compareScenarios(data.input, ordered, now))
+  } catch (error) {
+    console.error(`[FORECAST_COMPARE] Error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to compare scenarios.' }, { status: 500 })
+  }
+}
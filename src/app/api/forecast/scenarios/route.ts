@@ -0,0 +1,240 @@
+/**
+ * GET/POST/PATCH/DELETE /api/forecast/scenarios
+ *
+ * CRUD for what-if forecast scenarios. A scenario only stores adjustments —
+ * it never changes bills or planned events. Compare them against the
+ * baseline with POST /api/forecast/scenarios/compare.
+ *
+ * POST accepts: { name, description?, adjustments }
+ * PATCH accepts: { id, ...any POST field }
+ * DELETE accepts: { id } — soft delete (is_active = false)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+
+/** Keeps a scenario list readable and the comparison cheap */
+const MAX_SCENARIOS = 20
+const MAX_ADJUSTMENTS = 20
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const AdjustmentSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('event'),
+    name: z.string().min(1).max(100),
+    amount: z.number().refine((n) => n !== 0 && Math.abs(n) <= 100_000_000),
+    date: isoDate,
+    recurrence: z.enum(['once', 'weekly', 'monthly', 'quarterly', 'yearly']),
+  }),
+  z.object({
+    type: z.literal('cancel-bill'),
+    billName: z.string().min(1).max(200),
+    fromDate: isoDate,
+  }),
+  z.object({
+    type: z.literal('income-change'),
+    incomeName: z.string().min(1).max(200).nullable(),
+    percent: z.number().min(-100).max(500).refine((n) => n !== 0),
+    fromDate: isoDate,
+  }),
+])
+
+const ScenarioFields = {
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable(),
+  adjustments: z.array(AdjustmentSchema).min(1).max(MAX_ADJUSTMENTS),
+}
+
+const CreateSchema = z.object({
+  ...ScenarioFields,
+  description: ScenarioFields.description.optional(),
+})
+
+const UpdateSchema = z.object({
+  id: z.string().uuid(),
+  name: ScenarioFields.name.optional(),
+  description: ScenarioFields.description.optional(),
+  adjustments: ScenarioFields.adjustments.optional(),
+})
+
+const DeleteSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data, error } = await supabase
+    .from('forecast_scenarios')
+    .select('id, name, description, adjustments')
+    .eq('user_id', user.id)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error(`[FORECAST_SCENARIOS] GET failed for user ${user.id}:`, error.message)
+    return NextResponse.json({ error: 'Failed to load scenarios.' }, { status: 500 })
+  }
+
+  return NextResponse.json({ scenarios: data })
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`forecast-scenarios:${user.id}`, RATE_LIMITS.forecastScenarios.max, RATE_LIMITS.forecastScenarios.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = CreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid scenario data.' }, { status: 400 })
+  }
+
+  try {
+    const { count } = await supabase
+      .from('forecast_scenarios')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+
+    if ((count ?? 0) >= MAX_SCENARIOS) {
+      return NextResponse.json(
+        { error: `You can keep up to ${MAX_SCENARIOS} scenarios. Delete one first.` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('forecast_scenarios')
+      .insert({
+        user_id: user.id,
+        name: parsed.data.name,
+        description: parsed.data.description ?? null,
+        adjustments: parsed.data.adjustments,
+      })
+      .select('id, name, description, adjustments')
+      .single()
+
+    if (error) {
+      console.error(`[FORECAST_SCENARIOS] POST failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to create scenario.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ scenario: data }, { status: 201 })
+  } catch (error) {
+    console.error(`[FORECAST_SCENARIOS] POST error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to create scenario.' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`forecast-scenarios:${user.id}`, RATE_LIMITS.forecastScenarios.max, RATE_LIMITS.forecastScenarios.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = UpdateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid scenario data.' }, { status: 400 })
+  }
+
+  const { id, ...updates } = parsed.data
+
+  const dbUpdates: Record<string, unknown> = {}
+  if (updates.name !== undefined) dbUpdates.name = updates.name
+  if (updates.description !== undefined) dbUpdates.description = updates.description
+  if (updates.adjustments !== undefined) dbUpdates.adjustments = updates.adjustments
+
+  if (Object.keys(dbUpdates).length === 0) {
+    return NextResponse.json({ error: 'No fields to update.' }, { status: 400 })
+  }
+
+  try {
+    const { error } = await supabase
+      .from('forecast_scenarios')
+      .update(dbUpdates)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+
+    if (error) {
+      console.error(`[FORECAST_SCENARIOS] PATCH failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to update scenario.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[FORECAST_SCENARIOS] PATCH error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to update scenario.' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = DeleteSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid scenario ID.' }, { status: 400 })
+  }
+
+  try {
+    // Soft delete
+    const { error } = await supabase
+      .from('forecast_scenarios')
+      .update({ is_active: false })
+      .eq('id', parsed.data.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error(`[FORECAST_SCENARIOS] DELETE failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to delete scenario.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[FORECAST_SCENARIOS] DELETE error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to delete scenario.' }, { status: 500 })
+  }
+}
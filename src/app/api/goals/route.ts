@@ -0,0 +1,276 @@
+/**
+ * GET/POST/PATCH/DELETE /api/goals
+ *
+ * CRUD for savings goals (BSU, buffer, holiday, ...).
+ * GET returns each active goal with progress from its linked account.
+ *
+ * POST accepts: { name, goalType, targetAmount, deadline?, linkedAccountId?,
+ *                 monthlyContribution?, contributionDay? }
+ * PATCH accepts: { id, ...any POST field }
+ * DELETE accepts: { id } — soft delete (is_active = false)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { getGoalProgress, BSU_TOTAL_LIMIT, BSU_YEARLY_LIMIT } from '@/lib/savings/goals'
+
+const GoalFields = {
+  name: z.string().min(1).max(100),
+  goalType: z.enum(['bsu', 'buffer', 'holiday', 'other']),
+  targetAmount: z.number().positive().max(100_000_000),
+  deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  linkedAccountId: z.string().uuid().nullable(),
+  monthlyContribution: z.number().positive().max(10_000_000).nullable(),
+  contributionDay: z.number().int().min(1).max(28),
+}
+
+const CreateSchema = z.object({
+  ...GoalFields,
+  deadline: GoalFields.deadline.optional(),
+  linkedAccountId: GoalFields.linkedAccountId.optional(),
+  monthlyContribution: GoalFields.monthlyContribution.optional(),
+  contributionDay: GoalFields.contributionDay.default(25),
+})
+
+const UpdateSchema = z.object({
+  id: z.string().uuid(),
+  name: GoalFields.name.optional(),
+  goalType: GoalFields.goalType.optional(),
+  targetAmount: GoalFields.targetAmount.optional(),
+  deadline: GoalFields.deadline.optional(),
+  linkedAccountId: GoalFields.linkedAccountId.optional(),
+  monthlyContribution: GoalFields.monthlyContribution.optional(),
+  contributionDay: GoalFields.contributionDay.optional(),
+})
+
+const DeleteSchema = z.object({
+  id: z.string().uuid(),
+})
+
+/** BSU has statutory limits — reject goals that could never be met inside one */
+function bsuLimitError(targetAmount?: number, monthlyContribution?: number | null): string | null {
+  if (targetAmount !== undefined && targetAmount > BSU_TOTAL_LIMIT) {
+    return `A BSU account can hold at most ${BSU_TOTAL_LIMIT.toLocaleString('nb-NO')} kr.`
+  }
+  if (monthlyContribution && monthlyContribution * 12 > BSU_YEARLY_LIMIT) {
+    return `BSU deposits are capped at ${BSU_YEARLY_LIMIT.toLocaleString('nb-NO')} kr per year.`
+  }
+  return null
+}
+
+/** The linked account must belong to the user */
+async function ownsAccount(supabase: SupabaseClient, userId: string, accountId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('accounts')
+    .select('id')
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  return !!data
+}
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const goals = await getGoalProgress(supabase, user.id)
+    return NextResponse.json({ goals })
+  } catch (error) {
+    console.error(`[GOALS] GET error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to load goals.' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`goals:${user.id}`, RATE_LIMITS.savingsGoals.max, RATE_LIMITS.savingsGoals.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = CreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid goal data.' }, { status: 400 })
+  }
+
+  const goal = parsed.data
+
+  if (goal.goalType === 'bsu') {
+    const limitError = bsuLimitError(goal.targetAmount, goal.monthlyContribution)
+    if (limitError) return NextResponse.json({ error: limitError }, { status: 400 })
+  }
+
+  try {
+    if (goal.linkedAccountId && !(await ownsAccount(supabase, user.id, goal.linkedAccountId))) {
+      return NextResponse.json({ error: 'Account not found.' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase
+      .from('savings_goals')
+      .insert({
+        user_id: user.id,
+        name: goal.name,
+        goal_type: goal.goalType,
+        target_amount: goal.targetAmount,
+        currency: 'NOK',
+        deadline: goal.deadline ?? null,
+        linked_account_id: goal.linkedAccountId ?? null,
+        monthly_contribution: goal.monthlyContribution ?? null,
+        contribution_day: goal.contributionDay,
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error(`[GOALS] POST failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to create goal.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ goal: data }, { status: 201 })
+  } catch (error) {
+    console.error(`[GOALS] POST error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to create goal.' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`goals:${user.id}`, RATE_LIMITS.savingsGoals.max, RATE_LIMITS.savingsGoals.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = UpdateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid goal data.' }, { status: 400 })
+  }
+
+  const { id, ...updates } = parsed.data
+
+  // Map camelCase to snake_case for DB columns
+  const dbUpdates: Record<string, unknown> = {}
+  if (updates.name !== undefined) dbUpdates.name = updates.name
+  if (updates.goalType !== undefined) dbUpdates.goal_type = updates.goalType
+  if (updates.targetAmount !== undefined) dbUpdates.target_amount = updates.targetAmount
+  if (updates.deadline !== undefined) dbUpdates.deadline = updates.deadline
+  if (updates.linkedAccountId !== undefined) dbUpdates.linked_account_id = updates.linkedAccountId
+  if (updates.monthlyContribution !== undefined) dbUpdates.monthly_contribution = updates.monthlyContribution
+  if (updates.contributionDay !== undefined) dbUpdates.contribution_day = updates.contributionDay
+
+  if (Object.keys(dbUpdates).length === 0) {
+    return NextResponse.json({ error: 'No fields to update.' }, { status: 400 })
+  }
+
+  try {
+    // BSU limits depend on the stored row when only some fields change
+    const { data: existing } = await supabase
+      .from('savings_goals')
+      .select('goal_type, target_amount, monthly_contribution')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Goal not found.' }, { status: 404 })
+    }
+
+    if ((updates.goalType ?? existing.goal_type) === 'bsu') {
+      const limitError = bsuLimitError(
+        updates.targetAmount ?? Number(existing.target_amount),
+        updates.monthlyContribution !== undefined
+          ? updates.monthlyContribution
+          : existing.monthly_contribution !== null ? Number(existing.monthly_contribution) : null
+      )
+      if (limitError) return NextResponse.json({ error: limitError }, { status: 400 })
+    }
+
+    if (updates.linkedAccountId && !(await ownsAccount(supabase, user.id, updates.linkedAccountId))) {
+      return NextResponse.json({ error: 'Account not found.' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('savings_goals')
+      .update(dbUpdates)
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error(`[GOALS] PATCH failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to update goal.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[GOALS] PATCH error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to update goal.' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = DeleteSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid goal ID.' }, { status: 400 })
+  }
+
+  try {
+    // Soft delete
+    const { error } = await supabase
+      .from('savings_goals')
+      .update({ is_active: false })
+      .eq('id', parsed.data.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error(`[GOALS] DELETE failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to delete goal.' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[GOALS] DELETE error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to delete goal.' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * GET/POST /api/mock-neonomics/*
+ *
+ * Local stand-in for the Neonomics API (see src/lib/neonomics/mock/server.ts).
+ * Only answers when NEONOMICS_MOCK=true — otherwise every path is a 404, so
+ * the mock can never serve fake bank data by accident.
+ *
+ * Called server-to-server by the Neonomics client, never by the browser.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { handleMockRequest, MOCK_BASE_PATH } from '@/lib/neonomics/mock/server'
+
+async function handle(request: NextRequest) {
+  if (process.env.NEONOMICS_MOCK !== 'true') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  let body: unknown = null
+  if (request.method === 'POST') {
+    const raw = await request.text()
+    const isJson = request.headers.get('content-type')?.includes('application/json')
+    try {
+      body = raw && isJson ? JSON.parse(raw) : raw
+    } catch {
+      return NextResponse.json({ errorCode: 'INVALID_JSON', message: 'Malformed body' }, { status: 400 })
+    }
+  }
+
+  const response = handleMockRequest({
+    method: request.method,
+    path: request.nextUrl.pathname.slice(MOCK_BASE_PATH.length) || '/',
+    query: request.nextUrl.searchParams,
+    headers: request.headers,
+    body,
+  })
+
+  return NextResponse.json(response.body, { status: response.status, headers: response.headers })
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request)
+}
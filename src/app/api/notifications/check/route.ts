@@ -55,7 +55,7 @@ export async function GET(request: Request) {
 
       const { data: pendingEmails } = await supabase
         .from('notifications')
-        .select('id, title, message, bypass_quiet_hours')
+        .select('id, title, message, email_message, bypass_quiet_hours')
         .eq('user_id', user.id)
         .eq('is_emailed', false)
         .in('channel', ['email', 'both'])
@@ -84,7 +84,7 @@ export async function GET(request: Request) {
           userEmail: authUser.user.email,
           notificationId: notif.id,
           title: notif.title,
-          message: notif.message,
+          message: notif.email_message ?? notif.message,
           isFirstEmail: (emailCount || 0) === 0,
         })
 
@@ -12,6 +12,7 @@ import { z } from 'zod'
 const PatchSchema = z.object({
   email_critical: z.boolean().optional(),
   email_informational: z.boolean().optional(),
+  budget_alerts: z.boolean().optional(),
   quiet_hours_start: z.string().regex(/^\d{2}:\d{2}$/).optional(),
   quiet_hours_end: z.string().regex(/^\d{2}:\d{2}$/).optional(),
 })
@@ -1,16 +1,22 @@
 /**
  * PATCH /api/profile
  *
- * Updates the authenticated user's profile (display name).
+ * Updates the authenticated user's profile: display name and the remote OCR
+ * opt-in for scanned documents (see src/lib/redaction/text-extraction.ts).
+ *
+ * Accepts: { displayName?, allowRemoteOcr? } — at least one
  */
 
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
-const PatchSchema = z.object({
-  displayName: z.string().min(1).max(100).trim(),
-})
+const PatchSchema = z
+  .object({
+    displayName: z.string().min(1).max(100).trim().optional(),
+    allowRemoteOcr: z.boolean().optional(),
+  })
+  .refine((d) => d.displayName !== undefined || d.allowRemoteOcr !== undefined)
 
 export async function PATCH(request: Request) {
   // 1. AUTHENTICATE
@@ -37,11 +43,16 @@ export async function PATCH(request: Request) {
     return NextResponse.json({ error: 'Display name is required (1-100 characters).' }, { status: 400 })
   }
 
+  const { displayName, allowRemoteOcr } = parsed.data
+
   try {
     // 3. UPDATE PROFILE
     const { error: updateError } = await supabase
       .from('profiles')
-      .update({ display_name: parsed.data.displayName })
+      .update({
+        ...(displayName !== undefined && { display_name: displayName }),
+        ...(allowRemoteOcr !== undefined && { allow_remote_ocr: allowRemoteOcr }),
+      })
       .eq('id', user.id)
 
     if (updateError) {
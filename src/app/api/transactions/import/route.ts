@@ -0,0 +1,275 @@
+/**
+ * POST /api/transactions/import
+ *
+ * Imports a bank statement file (DNB / Nordea / SpareBank 1 CSV, OFX or
+ * CAMT.053) — an alternative to Open Banking for banks Neonomics doesn't
+ * cover, or for history older than the bank API returns.
+ *
+ * Multipart form fields:
+ *   - file          the statement file (max 5 MB)
+ *   - action        "preview" (default) or "import"
+ *   - mapping       optional JSON ColumnMapping overriding the detected CSV columns
+ *   - accountId     import into this existing manual account, or
+ *   - accountName   create a new manual account with this name
+ *
+ * Preview parses the file and returns the detected format, column mapping and
+ * a sample of rows — nothing is written. Import stores the rows with the same
+ * dedup rules as the bank sync, so uploading an overlapping statement twice
+ * only adds the new rows. New rows then go through categorization and
+ * recurring detection, as after a sync.
+ *
+ * Security:
+ *   - Auth check first
+ *   - Rate limited (30/hr)
+ *   - The file is parsed in memory and never stored or logged
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  parseStatement,
+  toTransactionRows,
+  StatementParseError,
+  type ParsedStatement,
+} from '@/lib/import/statement'
+import { storeTransactions } from '@/lib/transactions/store'
+import { getUserCipher } from '@/lib/crypto/envelope'
+import { categorizeTransactions } from '@/lib/categorization/categorizer'
+import { runRecurringDetection } from '@/lib/recurring/detector'
+import { runBillReconciliation } from '@/lib/bills/reconcile'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5 MB
+
+/** Rows returned in the preview — enough to check the mapping at a glance */
+const PREVIEW_ROWS = 20
+
+// ── Input validation ─────────────────────────────────────────────────────────
+
+const header = z.string().min(1).max(200)
+
+const MappingSchema = z.object({
+  date: header,
+  amount: header.optional(),
+  debit: header.optional(),
+  credit: header.optional(),
+  description: header.optional(),
+  counterpart: header.optional(),
+  reference: header.optional(),
+})
+
+const FieldsSchema = z.object({
+  action: z.enum(['preview', 'import']).default('preview'),
+  accountId: z.string().uuid().optional(),
+  accountName: z.string().trim().min(1).max(100).optional(),
+})
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function previewOf(statement: ParsedStatement) {
+  const dates = statement.rows.map((r) => r.date).sort()
+  return {
+    format: statement.format,
+    bank: statement.bank,
+    headers: statement.headers,
+    mapping: statement.mapping,
+    currency: statement.currency,
+    closingBalance: statement.closingBalance,
+    rowCount: statement.rows.length,
+    dateRange: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+    // Only the fields the preview table shows — raw records stay server-side
+    sample: statement.rows.slice(0, PREVIEW_ROWS).map((r) => ({
+      date: r.date,
+      amount: r.amount,
+      description: r.description,
+      counterpart: r.counterpart,
+    })),
+    warnings: statement.warnings,
+  }
+}
+
+// ── POST /api/transactions/import ────────────────────────────────────────────
+
+export async function POST(request: Request) {
+  // 1. AUTHENTICATE
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // 2. RATE LIMIT — 30 previews/imports per hour per user
+  const { statementImport: limit } = RATE_LIMITS
+  if (!checkRateLimit(`statement-import:${user.id}`, limit.max, limit.windowMs)) {
+    return NextResponse.json(
+      { error: 'Too many imports. Please try again later.' },
+      { status: 429 }
+    )
+  }
+
+  // 3. PARSE MULTIPART FORM
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request — expected multipart/form-data.' }, { status: 400 })
+  }
+
+  const file = formData.get('file')
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'No file provided.' }, { status: 400 })
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return NextResponse.json(
+      { error: 'File too large. Maximum size is 5 MB.' },
+      { status: 400 }
+    )
+  }
+  if (file.size === 0) {
+    return NextResponse.json({ error: 'File is empty.' }, { status: 400 })
+  }
+
+  // 4. VALIDATE FIELDS
+  const fields = FieldsSchema.safeParse({
+    action: formData.get('action') ?? undefined,
+    accountId: formData.get('accountId') || undefined,
+    accountName: formData.get('accountName') || undefined,
+  })
+  if (!fields.success) {
+    return NextResponse.json({ error: 'Invalid input' }, { status: 400 })
+  }
+
+  let mapping: z.infer<typeof MappingSchema> | undefined
+  const rawMapping = formData.get('mapping')
+  if (typeof rawMapping === 'string' && rawMapping) {
+    let json: unknown
+    try {
+      json = JSON.parse(rawMapping)
+    } catch {
+      return NextResponse.json({ error: 'Invalid column mapping' }, { status: 400 })
+    }
+    const parsedMapping = MappingSchema.safeParse(json)
+    if (!parsedMapping.success || !(parsedMapping.data.amount || parsedMapping.data.debit || parsedMapping.data.credit)) {
+      return NextResponse.json(
+        { error: 'Choose a date column and an amount (or in/out) column.' },
+        { status: 400 }
+      )
+    }
+    mapping = parsedMapping.data
+  }
+
+  const { action, accountId, accountName } = fields.data
+
+  // 5. PARSE THE STATEMENT
+  let statement: ParsedStatement
+  try {
+    statement = parseStatement(file.name, await file.text(), mapping)
+  } catch (error) {
+    if (error instanceof StatementParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error(`[IMPORT] Parse error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Could not read the file.' }, { status: 400 })
+  }
+
+  if (action === 'preview') {
+    return NextResponse.json(previewOf(statement))
+  }
+
+  if (statement.rows.length === 0) {
+    return NextResponse.json({ error: 'No transactions to import.' }, { status: 400 })
+  }
+  if (!accountId && !accountName) {
+    return NextResponse.json({ error: 'Choose an account to import into.' }, { status: 400 })
+  }
+
+  try {
+    // 6. RESOLVE THE TARGET MANUAL ACCOUNT
+    //    Bank-synced accounts are off limits — their rows come from the sync.
+    let targetId: string
+    if (accountId) {
+      const { data: account } = await supabase
+        .from('accounts')
+        .select('id')
+        .eq('id', accountId)
+        .eq('user_id', user.id)
+        .eq('is_manual', true)
+        .maybeSingle()
+
+      if (!account) {
+        return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+      }
+      targetId = account.id
+    } else {
+      const { data: account, error: createError } = await supabase
+        .from('accounts')
+        .insert({
+          user_id: user.id,
+          bank_connection_id: null,
+          is_manual: true,
+          account_name: accountName,
+          // Only a new account takes the file's balance — an older statement
+          // imported later must not overwrite a newer one
+          balance: statement.closingBalance ?? 0,
+          currency: statement.currency,
+          account_type: 'statement',
+          last_updated_at: new Date().toISOString(),
+        })
+        .select('id')
+        .single()
+
+      if (createError || !account) {
+        console.error(`[IMPORT] Failed to create account for user ${user.id}:`, createError?.message)
+        return NextResponse.json({ error: 'Failed to create the account.' }, { status: 500 })
+      }
+      targetId = account.id
+    }
+
+    // 7. STORE — same dedup rules as the bank sync
+    const cipher = await getUserCipher(supabase, user.id)
+    const rows = toTransactionRows(statement, targetId, user.id, cipher)
+    const result = await storeTransactions(supabase, rows)
+    if (result.errors.length > 0) {
+      console.error(`[IMPORT] Store errors for user ${user.id}:`, result.errors)
+      return NextResponse.json(
+        { error: 'Some transactions could not be saved. Please try again.' },
+        { status: 500 }
+      )
+    }
+
+    // 8. CATEGORIZE + DETECT RECURRING + RECONCILE BILLS (non-fatal, as after a sync)
+    if (result.stored > 0) {
+      const categorization = await categorizeTransactions(supabase, user.id)
+      if (categorization.errors.length > 0) {
+        console.error(`[IMPORT] Categorization errors for user ${user.id}:`, categorization.errors)
+      }
+
+      const recurring = await runRecurringDetection(supabase, user.id)
+      if (recurring.errors.length > 0) {
+        console.error(`[IMPORT] Recurring detection errors for user ${user.id}:`, recurring.errors)
+      }
+
+      const reconciliation = await runBillReconciliation(supabase, user.id)
+      if (reconciliation.errors.length > 0) {
+        console.error(`[IMPORT] Bill reconciliation errors for user ${user.id}:`, reconciliation.errors)
+      }
+    }
+
+    return NextResponse.json({
+      accountId: targetId,
+      imported: result.stored,
+      duplicates: rows.length - result.stored,
+    })
+  } catch (error) {
+    console.error(`[IMPORT] Unexpected error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json(
+      { error: 'Import failed. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * POST/DELETE /api/transactions/manual
+ *
+ * Hand-entered transactions on a manual account (cash spending, a Vipps
+ * transfer, a loan repayment). The account balance moves with each entry.
+ *
+ * POST accepts: { accountId, date, amount, description, category?, counterpart? }
+ *   amount is signed: negative = money out
+ * DELETE accepts: { id } — only hand-entered rows; the balance is moved back
+ *
+ * Rows are stored with source = 'manual' and no reference or fingerprint, so
+ * the bank dedup rules never merge two identical entries. Rows without a
+ * category go through the rule-based categorizer.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { adjustManualBalance } from '@/lib/accounts/manual'
+import { categorizeTransactions } from '@/lib/categorization/categorizer'
+import { CATEGORY_KEYS, type SpendingCategory } from '@/lib/constants/categories'
+
+const CreateSchema = z.object({
+  accountId: z.string().uuid(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  amount: z.number().finite().refine((n) => n !== 0).refine((n) => Math.abs(n) <= 100_000_000),
+  description: z.string().trim().min(1).max(200),
+  category: z.enum(CATEGORY_KEYS as [SpendingCategory, ...SpendingCategory[]]).nullable().optional(),
+  counterpart: z.string().trim().max(100).nullable().optional(),
+})
+
+const DeleteSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!checkRateLimit(`manual:${user.id}`, RATE_LIMITS.manualEntries.max, RATE_LIMITS.manualEntries.windowMs)) {
+    return NextResponse.json({ error: 'Too many requests.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = CreateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid transaction data.' }, { status: 400 })
+  }
+
+  const tx = parsed.data
+
+  try {
+    // Only manual accounts take hand-entered rows — bank accounts are synced
+    const { data: account } = await supabase
+      .from('accounts')
+      .select('id, currency')
+      .eq('id', tx.accountId)
+      .eq('user_id', user.id)
+      .eq('is_manual', true)
+      .maybeSingle()
+
+    if (!account) {
+      return NextResponse.json({ error: 'Account not found.' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert({
+        account_id: account.id,
+        user_id: user.id,
+        transaction_date: tx.date,
+        booking_date: tx.date,
+        amount: tx.amount,
+        currency: account.currency,
+        description: tx.description,
+        category: tx.category ?? null,
+        // A category picked by hand is the user's, like a recategorization
+        category_source: tx.category ? 'user' : null,
+        is_recurring: false,
+        counterpart_name: tx.counterpart || null,
+        internal_reference: null,
+        source: 'manual',
+        raw_data: null,
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error(`[MANUAL_TX] POST failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to save transaction.' }, { status: 500 })
+    }
+
+    await adjustManualBalance(supabase, account.id, tx.amount)
+
+    // No category picked — run the same pipeline as synced rows. Rules only:
+    // one hand-entered row isn't worth an AI call, and the next sync retries.
+    if (!tx.category) {
+      const categorization = await categorizeTransactions(supabase, user.id, { useAI: false })
+      if (categorization.errors.length > 0) {
+        console.error(`[MANUAL_TX] Categorization errors for user ${user.id}:`, categorization.errors)
+      }
+    }
+
+    return NextResponse.json({ transaction: data }, { status: 201 })
+  } catch (error) {
+    console.error(`[MANUAL_TX] POST error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to save transaction.' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 })
+  }
+
+  const parsed = DeleteSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid transaction ID.' }, { status: 400 })
+  }
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('id', parsed.data.id)
+      .eq('user_id', user.id)
+      .eq('source', 'manual')
+      .select('account_id, amount')
+      .maybeSingle()
+
+    if (error) {
+      console.error(`[MANUAL_TX] DELETE failed for user ${user.id}:`, error.message)
+      return NextResponse.json({ error: 'Failed to delete transaction.' }, { status: 500 })
+    }
+    if (!deleted) {
+      return NextResponse.json({ error: 'Transaction not found.' }, { status: 404 })
+    }
+
+    await adjustManualBalance(supabase, deleted.account_id, -Number(deleted.amount))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[MANUAL_TX] DELETE error for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown')
+    return NextResponse.json({ error: 'Failed to delete transaction.' }, { status: 500 })
+  }
+}
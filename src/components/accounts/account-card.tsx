@@ -1,31 +1,46 @@
 'use client'
 
 import { useState } from 'react'
-import { ChevronDown, Users, RefreshCw } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { ChevronDown, Users, RefreshCw, PenLine, Plus, X } from 'lucide-react'
 import { cn } from '@/lib/utils/cn'
-import { formatNOK, formatNOKDelta } from '@/lib/utils/format-currency'
+import { formatNOK, formatNOKDelta, formatCurrency } from '@/lib/utils/format-currency'
+import { isBaseCurrency } from '@/lib/currency/convert'
 import { SPENDING_CATEGORIES, type SpendingCategory } from '@/lib/constants/categories'
+import { MANUAL_ACCOUNT_TYPE_LABELS, type ManualAccountType } from '@/lib/accounts/manual'
+import { ManualAccountDialog } from './manual-account-dialog'
+import { ManualTransactionDialog } from './manual-transaction-dialog'
 
 export interface AccountTransaction {
   id: string
   transaction_date: string
   description: string | null
   amount: number
+  currency: string
   category: string | null
   counterpart_name: string | null
   is_recurring: boolean
+  source: 'bank' | 'import' | 'manual'
 }
 
 interface Props {
+  accountId: string
   accountName: string
   accountType: string | null
+  /** In the account's own currency */
   balance: number
+  currency: string
+  /** Balance converted to NOK — null when there is no rate for the currency */
+  balanceNOK: number | null
   bankName: string | null
   bankStatus: string | null
   lastSyncedAt: string | null
   recentTransactions: AccountTransaction[]
   netChange30d: number
   isSharedWithPartner: boolean
+  /** No bank connection — balance and transactions are entered by the user */
+  isManual: boolean
+  lastUpdatedAt: string
 }
 
 function getCategoryEmoji(category: string | null): string {
@@ -41,18 +56,57 @@ function formatDate(iso: string): string {
   })
 }
 
+/** Manual accounts show their kind ("Cash", "Loan") rather than the raw type */
+function typeLabel(accountType: string | null, isManual: boolean): string | null {
+  if (isManual && accountType && accountType in MANUAL_ACCOUNT_TYPE_LABELS) {
+    return MANUAL_ACCOUNT_TYPE_LABELS[accountType as ManualAccountType]
+  }
+  return accountType
+}
+
 export function AccountCard({
+  accountId,
   accountName,
   accountType,
   balance,
+  currency,
+  balanceNOK,
   bankName,
   bankStatus,
   lastSyncedAt,
   recentTransactions,
   netChange30d,
   isSharedWithPartner,
+  isManual,
+  lastUpdatedAt,
 }: Props) {
+  const router = useRouter()
   const [expanded, setExpanded] = useState(false)
+  const [dialog, setDialog] = useState<'edit' | 'transaction' | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const displayType = typeLabel(accountType, isManual)
+
+  function handleSaved() {
+    setDialog(null)
+    router.refresh()
+  }
+
+  async function deleteTransaction(id: string) {
+    setDeletingId(id)
+    try {
+      const res = await fetch('/api/transactions/manual', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      })
+      if (res.ok) router.refresh()
+    } catch {
+      // Silent fail — the row stays until the next attempt
+    } finally {
+      setDeletingId(null)
+    }
+  }
 
   const balanceColor = balance >= 0 ? 'text-aura-positive' : 'text-aura-danger'
   const changeColor = netChange30d > 0 ? 'text-aura-positive' : netChange30d < 0 ? 'text-aura-danger' : 'text-aura-text-secondary'
@@ -70,6 +124,12 @@ export function AccountCard({
             <p className="text-aura-text text-sm font-medium truncate">
               {accountName || 'Unnamed account'}
             </p>
+            {isManual && (
+              <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-aura-text-dim/15 text-aura-text-secondary text-[10px] font-medium shrink-0">
+                <PenLine size={10} />
+                Manual
+              </span>
+            )}
             {isSharedWithPartner && (
               <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-aura-primary/20 text-aura-primary-light text-[10px] font-medium shrink-0">
                 <Users size={10} />
@@ -81,10 +141,10 @@ export function AccountCard({
             {bankName && (
               <span className="text-xs text-aura-text-secondary">{bankName}</span>
             )}
-            {accountType && (
+            {displayType && (
               <>
-                <span className="text-aura-border">·</span>
-                <span className="text-xs text-aura-text-secondary capitalize">{accountType}</span>
+                {bankName && <span className="text-aura-border">·</span>}
+                <span className="text-xs text-aura-text-secondary capitalize">{displayType}</span>
               </>
             )}
             {bankStatus === 'active' && (
@@ -106,8 +166,13 @@ export function AccountCard({
         <div className="flex items-center gap-3 shrink-0">
           <div className="text-right">
             <p className={cn('font-display text-lg', balanceColor)}>
-              {formatNOK(balance)}
+              {formatCurrency(balance, currency)}
             </p>
+            {!isBaseCurrency(currency) && (
+              <p className="text-[10px] text-aura-text-dim">
+                {balanceNOK !== null ? `≈ ${formatNOK(balanceNOK)}` : 'No NOK rate'}
+              </p>
+            )}
             {netChange30d !== 0 && (
               <p className={cn('text-[10px] font-medium', changeColor)}>
                 {formatNOKDelta(netChange30d)} (30d)
@@ -133,6 +198,33 @@ export function AccountCard({
       >
         <div className="overflow-hidden">
           <div className="border-t border-aura-border px-4 pb-4 pt-3">
+            {/* Manual accounts: when the balance was last set, and entry actions */}
+            {isManual && (
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <p className="text-[10px] text-aura-text-dim">
+                  Balance entered by you · updated {new Date(lastUpdatedAt).toLocaleDateString('nb-NO', {
+                    day: '2-digit', month: '2-digit', year: 'numeric',
+                  })}
+                </p>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button
+                    onClick={() => setDialog('transaction')}
+                    className="flex items-center gap-1 text-xs text-aura-primary hover:text-aura-primary-light transition-colors"
+                  >
+                    <Plus size={12} />
+                    Transaction
+                  </button>
+                  <button
+                    onClick={() => setDialog('edit')}
+                    className="flex items-center gap-1 text-xs text-aura-text-secondary hover:text-aura-text transition-colors"
+                  >
+                    <PenLine size={12} />
+                    Edit
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Last synced */}
             {lastSyncedAt && (
               <div className="flex items-center gap-1.5 mb-3">
@@ -190,8 +282,20 @@ export function AccountCard({
 
                       {/* Amount */}
                       <span className={cn('text-xs font-medium tabular-nums shrink-0', amountColor)}>
-                        {formatNOK(amount)}
+                        {formatCurrency(amount, tx.currency)}
                       </span>
+
+                      {/* Hand-entered rows can be removed again */}
+                      {tx.source === 'manual' && (
+                        <button
+                          onClick={() => deleteTransaction(tx.id)}
+                          disabled={deletingId === tx.id}
+                          className="text-aura-text-dim hover:text-aura-danger transition-colors disabled:opacity-50 shrink-0"
+                          aria-label="Delete transaction"
+                        >
+                          <X size={12} />
+                        </button>
+                      )}
                     </div>
                   )
                 })}
@@ -209,6 +313,22 @@ export function AccountCard({
           </div>
         </div>
       </div>
+
+      {dialog === 'edit' && (
+        <ManualAccountDialog
+          account={{ id: accountId, name: accountName, accountType, balance, isSharedWithPartner }}
+          onClose={() => setDialog(null)}
+          onSaved={handleSaved}
+        />
+      )}
+      {dialog === 'transaction' && (
+        <ManualTransactionDialog
+          accountId={accountId}
+          accountName={accountName || 'Manual account'}
+          onClose={() => setDialog(null)}
+          onSaved={handleSaved}
+        />
+      )}
     </div>
   )
 }
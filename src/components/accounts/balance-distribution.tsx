@@ -6,6 +6,8 @@
  *
  * Positive balances extend right, negative balances extend left.
  * Labels shown on segments > 8% width; narrow segments use tooltip only.
+ * Manual accounts (user-entered balances) are hatched and marked in the
+ * legend, so they aren't mistaken for synced bank figures.
  */
 
 import { useState, useMemo } from 'react'
@@ -15,6 +17,7 @@ export interface DistributionAccount {
   id: string
   account_name: string
   balance: number
+  is_manual: boolean
 }
 
 interface Props {
@@ -25,6 +28,7 @@ interface Segment {
   id: string
   account_name: string
   balance: number
+  is_manual: boolean
   color: string
   pctOfBar: number
   pctOfSide: number
@@ -38,6 +42,10 @@ const POSITIVE_COLORS = [
   '#3DBFA8', // mid teal
 ]
 
+/** Diagonal hatching laid over a manual account's segment colour */
+const MANUAL_HATCH =
+  'repeating-linear-gradient(135deg, rgba(255,255,255,0.22) 0 3px, transparent 3px 7px)'
+
 const NEGATIVE_COLORS = [
   '#C75050', // red primary
   '#E07070', // light red
@@ -88,6 +96,7 @@ export function BalanceDistribution({ accounts }: Props) {
       id: a.id,
       account_name: a.account_name,
       balance: a.balance,
+      is_manual: a.is_manual,
       color: POSITIVE_COLORS[i % POSITIVE_COLORS.length],
       pctOfBar: (a.balance / total) * 100,
       pctOfSide: positiveTotal > 0 ? (a.balance / positiveTotal) * 100 : 0,
@@ -97,6 +106,7 @@ export function BalanceDistribution({ accounts }: Props) {
       id: a.id,
       account_name: a.account_name,
       balance: a.balance,
+      is_manual: a.is_manual,
       color: NEGATIVE_COLORS[i % NEGATIVE_COLORS.length],
       pctOfBar: (Math.abs(a.balance) / total) * 100,
       pctOfSide:
@@ -144,6 +154,7 @@ export function BalanceDistribution({ accounts }: Props) {
         style={{
           width: seg.pctOfSide + '%',
           backgroundColor: seg.color,
+          backgroundImage: seg.is_manual ? MANUAL_HATCH : undefined,
           minWidth: '2px',
         }}
         onMouseEnter={() => setHoveredId(seg.id)}
@@ -218,9 +229,13 @@ export function BalanceDistribution({ accounts }: Props) {
           >
             <span
               className="w-2 h-2 rounded-sm shrink-0"
-              style={{ backgroundColor: seg.color }}
+              style={{
+                backgroundColor: seg.color,
+                backgroundImage: seg.is_manual ? MANUAL_HATCH : undefined,
+              }}
             />
             <span className="truncate max-w-[100px]">{seg.account_name}</span>
+            {seg.is_manual && <span className="text-aura-text-dim">(manual)</span>}
           </div>
         ))}
         {allSegments.length > 6 && (
@@ -249,6 +264,9 @@ export function BalanceDistribution({ accounts }: Props) {
           <p className="text-aura-text-secondary text-xs">
             {hoveredSegment.pctOfBar.toFixed(1)}% of total
           </p>
+          {hoveredSegment.is_manual && (
+            <p className="text-aura-text-dim text-[10px] mt-0.5">Manual — balance entered by you</p>
+          )}
         </div>
       )}
     </div>
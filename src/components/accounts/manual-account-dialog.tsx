@@ -0,0 +1,239 @@
+'use client'
+
+/**
+ * ManualAccountDialog — create, edit or delete a manual account (cash,
+ * Vipps, a loan, ...). The balance is whatever the user says it is; for a
+ * loan they enter the amount owed.
+ *
+ * AddManualAccountButton is the trigger on the Accounts page.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, X } from 'lucide-react'
+import { MANUAL_ACCOUNT_TYPE_LABELS, type ManualAccountType } from '@/lib/accounts/manual'
+
+export interface EditableManualAccount {
+  id: string
+  name: string
+  accountType: string | null
+  balance: number
+  isSharedWithPartner: boolean
+}
+
+interface Props {
+  account: EditableManualAccount | null // null = create, non-null = edit
+  onClose: () => void
+  onSaved: () => void
+}
+
+const TYPE_OPTIONS = (Object.keys(MANUAL_ACCOUNT_TYPE_LABELS) as ManualAccountType[]).map((value) => ({
+  value,
+  label: MANUAL_ACCOUNT_TYPE_LABELS[value],
+}))
+
+const inputClass =
+  'w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text placeholder:text-aura-text-dim focus:outline-none focus:border-aura-primary [color-scheme:dark]'
+
+function initialType(accountType: string | null | undefined): ManualAccountType {
+  return accountType && accountType in MANUAL_ACCOUNT_TYPE_LABELS ? (accountType as ManualAccountType) : 'other'
+}
+
+export function ManualAccountDialog({ account, onClose, onSaved }: Props) {
+  const isEdit = account !== null
+
+  const [name, setName] = useState(account?.name ?? '')
+  const [accountType, setAccountType] = useState<ManualAccountType>(initialType(account?.accountType ?? 'cash'))
+  // Loans are stored negative but entered as the amount owed
+  const [balanceStr, setBalanceStr] = useState(
+    account ? String(account.accountType === 'loan' ? Math.abs(account.balance) : account.balance) : ''
+  )
+  const [shared, setShared] = useState(account?.isSharedWithPartner ?? false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+
+    const balance = Number(balanceStr.replace(/\s/g, '').replace(',', '.'))
+    if (!name.trim() || !Number.isFinite(balance)) {
+      setError('Enter a name and a balance.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch('/api/accounts/manual', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(isEdit && { id: account.id }),
+          name: name.trim(),
+          accountType,
+          balance,
+          isSharedWithPartner: shared,
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error ?? 'Failed to save account.')
+        return
+      }
+      onSaved()
+    } catch {
+      setError('Failed to save account.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!account) return
+    if (!confirm(`Delete "${account.name}" and all its transactions?`)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/accounts/manual', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: account.id }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error ?? 'Failed to delete account.')
+        return
+      }
+      onSaved()
+    } catch {
+      setError('Failed to delete account.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative bg-aura-surface border border-aura-border rounded-xl w-full max-w-md p-5 shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-display text-lg text-aura-text">
+            {isEdit ? 'Edit account' : 'Add manual account'}
+          </h3>
+          <button onClick={onClose} className="text-aura-text-secondary hover:text-aura-text transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name + type */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Wallet, Vipps, Car loan"
+                maxLength={100}
+                className={inputClass}
+              />
+            </div>
+            <div className="w-40">
+              <label className="text-xs text-aura-text-secondary block mb-1">Type</label>
+              <select
+                value={accountType}
+                onChange={(e) => setAccountType(e.target.value as ManualAccountType)}
+                className={inputClass}
+              >
+                {TYPE_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Balance */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">
+              {accountType === 'loan' ? 'Amount owed (kr)' : 'Current balance (kr)'}
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={balanceStr}
+              onChange={(e) => setBalanceStr(e.target.value)}
+              placeholder="0"
+              className={inputClass}
+            />
+            <p className="text-[10px] text-aura-text-dim mt-1">
+              {accountType === 'loan'
+                ? 'Loans are not counted as money available to spend.'
+                : 'Transactions you add to this account move the balance.'}
+            </p>
+          </div>
+
+          {/* Partner sharing */}
+          <label className="flex items-center gap-2 text-xs text-aura-text-secondary">
+            <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+            Share with partner
+          </label>
+
+          {/* Error */}
+          {error && (
+            <p className="text-xs text-aura-danger">{error}</p>
+          )}
+
+          {/* Submit */}
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-aura-primary hover:bg-aura-primary-light text-white text-sm font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : isEdit ? 'Update account' : 'Add account'}
+          </button>
+
+          {isEdit && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={saving}
+              className="w-full text-xs text-aura-danger hover:underline disabled:opacity-50"
+            >
+              Delete account
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export function AddManualAccountButton() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 text-xs text-aura-primary hover:text-aura-primary-light font-medium transition-colors"
+      >
+        <Plus size={14} />
+        Add account
+      </button>
+      {open && (
+        <ManualAccountDialog
+          account={null}
+          onClose={() => setOpen(false)}
+          onSaved={() => { setOpen(false); router.refresh() }}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+/**
+ * ManualTransactionDialog — enter a transaction on a manual account by hand
+ * (cash spent, a Vipps payment received, a loan repayment). Saving moves the
+ * account balance by the amount.
+ */
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { SPENDING_CATEGORIES, CATEGORY_KEYS } from '@/lib/constants/categories'
+
+interface Props {
+  accountId: string
+  accountName: string
+  onClose: () => void
+  onSaved: () => void
+}
+
+const inputClass =
+  'w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text placeholder:text-aura-text-dim focus:outline-none focus:border-aura-primary [color-scheme:dark]'
+
+export function ManualTransactionDialog({ accountId, accountName, onClose, onSaved }: Props) {
+  const [direction, setDirection] = useState<'out' | 'in'>('out')
+  const [amountStr, setAmountStr] = useState('')
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0])
+  const [description, setDescription] = useState('')
+  const [category, setCategory] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+
+    const amount = Number(amountStr.replace(/\s/g, '').replace(',', '.'))
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError('Enter an amount above 0.')
+      return
+    }
+    if (!description.trim()) {
+      setError('Add a short description.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch('/api/transactions/manual', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountId,
+          date,
+          amount: direction === 'out' ? -amount : amount,
+          description: description.trim(),
+          category: category || null,
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error ?? 'Failed to save transaction.')
+        return
+      }
+      onSaved()
+    } catch {
+      setError('Failed to save transaction.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative bg-aura-surface border border-aura-border rounded-xl w-full max-w-md p-5 shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-display text-lg text-aura-text">Add transaction</h3>
+            <p className="text-xs text-aura-text-secondary">{accountName}</p>
+          </div>
+          <button onClick={onClose} className="text-aura-text-secondary hover:text-aura-text transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Direction */}
+          <div className="flex gap-2">
+            {(['out', 'in'] as const).map((d) => (
+              <button
+                key={d}
+                type="button"
+                onClick={() => setDirection(d)}
+                className={`flex-1 text-xs py-2 rounded-lg border transition-colors ${
+                  direction === d
+                    ? 'border-aura-primary bg-aura-primary/10 text-aura-text'
+                    : 'border-aura-border text-aura-text-secondary hover:text-aura-text'
+                }`}
+              >
+                {d === 'out' ? 'Money out' : 'Money in'}
+              </button>
+            ))}
+          </div>
+
+          {/* Amount + date */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Amount (kr)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amountStr}
+                onChange={(e) => setAmountStr(e.target.value)}
+                placeholder="0"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Date</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Description */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Lunch, Loppemarked"
+              maxLength={200}
+              className={inputClass}
+            />
+          </div>
+
+          {/* Category */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">Category (optional)</label>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+              <option value="">Categorize automatically</option>
+              {CATEGORY_KEYS.map((key) => (
+                <option key={key} value={key}>
+                  {SPENDING_CATEGORIES[key].emoji} {SPENDING_CATEGORIES[key].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Error */}
+          {error && (
+            <p className="text-xs text-aura-danger">{error}</p>
+          )}
+
+          {/* Submit */}
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-aura-primary hover:bg-aura-primary-light text-white text-sm font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Add transaction'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,10 @@
  *
  * Supports "Mark as paid", "Add bill" inline, and priority levels.
  *
+ * Overdue bills are listed first with what being late has cost so far
+ * (forsinkelsesrente plus the fees a creditor may add) and when the next
+ * escalation — purring, inkassovarsel, inkasso — can happen.
+ *
  * Urgency color (by days until due):
  *   ≤ 3 days  → red
  *   4–7 days  → amber
@@ -12,8 +16,9 @@
  */
 
 import { useState, useRef, useEffect } from 'react'
-import { Check, Plus, X, ChevronDown } from 'lucide-react'
+import { Check, Plus, X, ChevronDown, AlertTriangle } from 'lucide-react'
 import { formatNOK } from '@/lib/utils/format-currency'
+import { calculateLateCost, LATE_STAGE_LABELS, type LateCost } from '@/lib/bills/late-costs'
 import {
   BILL_PRIORITIES,
   PRIORITY_META,
@@ -41,6 +46,14 @@ function daysUntil(dueDateStr: string): number {
   return Math.round((due.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
 }
 
+/** Today as "yyyy-mm-dd" in local time */
+function todayISO(): string {
+  const d = new Date()
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${d.getFullYear()}-${m}-${day}`
+}
+
 function formatDueDate(dueDateStr: string): string {
   return new Date(dueDateStr).toLocaleDateString('nb-NO', {
     day: '2-digit',
@@ -260,7 +273,16 @@ export function BillCountdown({ bills, onRefresh }: Props) {
     )
   }
 
-  const [next, ...rest] = localBills
+  const today = todayISO()
+  const overdue: Array<{ bill: Bill; cost: LateCost }> = []
+  const upcoming: Bill[] = []
+  for (const bill of localBills) {
+    const cost = calculateLateCost(bill.amount, bill.due_date, today)
+    if (cost) overdue.push({ bill, cost })
+    else upcoming.push(bill)
+  }
+
+  const [next, ...rest] = upcoming
   const nextDays = next ? daysUntil(next.due_date) : 0
 
   return (
@@ -330,6 +352,51 @@ export function BillCountdown({ bills, onRefresh }: Props) {
         </form>
       )}
 
+      {/* Overdue — accrued cost and next escalation */}
+      {overdue.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg bg-aura-danger/5 border border-aura-danger/20 space-y-3">
+          {overdue.map(({ bill, cost }) => (
+            <div key={bill.id} className="group">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle size={12} className="text-aura-danger flex-shrink-0" />
+                    <p className="text-aura-text font-medium text-sm truncate">{bill.name}</p>
+                    <PriorityBadge priority={bill.priority} />
+                  </div>
+                  <p className="text-xs mt-0.5 text-aura-danger">
+                    {cost.daysOverdue} {cost.daysOverdue === 1 ? 'day' : 'days'} overdue · {LATE_STAGE_LABELS[cost.stage]}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5 flex-shrink-0 ml-4">
+                  <p className="text-amount text-aura-text text-sm">
+                    {formatNOK(bill.amount)}
+                  </p>
+                  <button
+                    onClick={() => handleMarkPaid(bill.id)}
+                    disabled={marking === bill.id}
+                    className="p-1 rounded text-aura-text-secondary hover:text-aura-safe hover:bg-aura-safe/10 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-50"
+                    title="Mark as paid"
+                  >
+                    <Check size={14} />
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-aura-text-secondary mt-1">
+                Up to {formatNOK(cost.total)} extra so far ({formatNOK(cost.interest)} interest at{' '}
+                {cost.rate.toLocaleString('nb-NO')} %, {formatNOK(cost.fees)} fees)
+              </p>
+              {cost.next && (
+                <p className="text-xs text-aura-text-dim mt-0.5">
+                  {LATE_STAGE_LABELS[cost.next.stage]} possible from {formatDueDate(cost.next.date)}
+                  {' '}(+{formatNOK(cost.next.fee)})
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Primary — next bill */}
       {next && (
         <div className="flex items-start justify-between mb-1 group">
@@ -0,0 +1,118 @@
+'use client'
+
+/**
+ * BillPaymentMatches — "Was this the payment for your bill?"
+ *
+ * After a sync Aura marks bills paid when one transaction clearly matches.
+ * When several could be the payment, they land here: the user picks the
+ * right one (the bill is marked paid and a recurring bill moves on to its
+ * next due date) or says none of them paid it.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Check, Link2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { PendingBillMatch } from '@/lib/bills/reconcile'
+
+interface Props {
+  matches: PendingBillMatch[]
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('nb-NO', {
+    day: '2-digit',
+    month: 'short',
+  })
+}
+
+export function BillPaymentMatches({ matches }: Props) {
+  const router = useRouter()
+  const [localMatches, setLocalMatches] = useState<PendingBillMatch[]>(matches)
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function send(billId: string, body: Record<string, string>) {
+    setPending(billId)
+    setError(null)
+    try {
+      const res = await fetch('/api/bills/matches', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (res.ok) {
+        setLocalMatches((prev) => prev.filter((m) => m.billId !== billId))
+        // A confirmed payment changes bills and the forecast
+        router.refresh()
+      } else {
+        const data = await res.json()
+        setError(data.error ?? 'Could not update the bill.')
+      }
+    } catch {
+      setError('Network error. Try again.')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  if (localMatches.length === 0) return null
+
+  return (
+    <div className="surface p-5 rounded-xl">
+      <div className="flex items-center gap-2 mb-1">
+        <Link2 size={14} className="text-aura-primary" />
+        <p className="text-section-header">Which payment was it?</p>
+      </div>
+      <p className="text-xs text-aura-text-secondary mb-4">
+        More than one transaction could have paid these bills. Pick the right one.
+      </p>
+
+      <div className="space-y-3">
+        {localMatches.map((m) => (
+          <div key={m.billId} className="p-3 rounded-lg bg-aura-background border border-aura-border">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <p className="text-sm text-aura-text truncate">
+                {m.billName} <span className="text-xs text-aura-text-secondary">· due {formatDate(m.dueDate)}</span>
+              </p>
+              <span className="text-amount text-sm text-aura-text shrink-0">{formatCurrency(m.billAmount, m.billCurrency)}</span>
+            </div>
+
+            <div className="space-y-1">
+              {m.candidates.map((c) => (
+                <div key={c.matchId} className="flex items-center justify-between gap-3 text-xs">
+                  <span className="text-aura-text-secondary truncate">
+                    {formatDate(c.transactionDate)} · {c.description}
+                  </span>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    <span className="text-amount text-aura-text">
+                      {formatCurrency(Math.abs(c.amount), c.currency)}
+                    </span>
+                    <button
+                      onClick={() => send(m.billId, { action: 'confirm', matchId: c.matchId })}
+                      disabled={pending === m.billId}
+                      className="p-1 rounded text-aura-text-secondary hover:text-aura-safe hover:bg-aura-safe/10 transition-colors disabled:opacity-50"
+                      title="This paid the bill"
+                    >
+                      <Check size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => send(m.billId, { action: 'reject', billId: m.billId })}
+              disabled={pending === m.billId}
+              className="mt-2 text-xs text-aura-text-dim hover:text-aura-text transition-colors disabled:opacity-50"
+            >
+              None of these
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-aura-danger mt-3">{error}</p>}
+    </div>
+  )
+}
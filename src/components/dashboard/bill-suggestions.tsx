@@ -0,0 +1,125 @@
+'use client'
+
+/**
+ * BillSuggestions — recurring payments Aura found in the user's transactions.
+ *
+ * Each suggestion already exists as an auto-detected bill. The user can
+ * confirm it (keep the bill) or dismiss it (remove the bill and never
+ * propose the same pattern again).
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Check, X, Repeat } from 'lucide-react'
+import { formatNOK } from '@/lib/utils/format-currency'
+
+export interface BillSuggestion {
+  id: string
+  display_name: string
+  recurrence: 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+  average_amount: number
+  next_expected_date: string
+  occurrences: number
+}
+
+interface Props {
+  suggestions: BillSuggestion[]
+}
+
+const RECURRENCE_LABELS: Record<BillSuggestion['recurrence'], string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('nb-NO', {
+    day: '2-digit',
+    month: 'short',
+  })
+}
+
+export function BillSuggestions({ suggestions }: Props) {
+  const router = useRouter()
+  const [localSuggestions, setLocalSuggestions] = useState<BillSuggestion[]>(suggestions)
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleAction(patternId: string, action: 'confirm' | 'dismiss') {
+    setPending(patternId)
+    setError(null)
+    try {
+      const res = await fetch('/api/bills/suggestions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ patternId, action }),
+      })
+      if (res.ok) {
+        setLocalSuggestions((prev) => prev.filter((s) => s.id !== patternId))
+        // Dismissing removes a bill — refresh so bills and forecast update
+        router.refresh()
+      } else {
+        const data = await res.json()
+        setError(data.error ?? 'Could not update suggestion.')
+      }
+    } catch {
+      setError('Network error. Try again.')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  if (localSuggestions.length === 0) return null
+
+  return (
+    <div className="surface p-5 rounded-xl">
+      <div className="flex items-center gap-2 mb-1">
+        <Repeat size={14} className="text-aura-primary" />
+        <p className="text-section-header">Recurring payments found</p>
+      </div>
+      <p className="text-xs text-aura-text-secondary mb-4">
+        Aura spotted these in your transactions and added them as bills. Keep the ones that are right.
+      </p>
+
+      <div className="space-y-2">
+        {localSuggestions.map((s) => (
+          <div
+            key={s.id}
+            className="flex items-center justify-between gap-3 p-3 rounded-lg bg-aura-background border border-aura-border"
+          >
+            <div className="min-w-0">
+              <p className="text-sm text-aura-text truncate">{s.display_name}</p>
+              <p className="text-xs text-aura-text-secondary">
+                {RECURRENCE_LABELS[s.recurrence]} · next {formatDate(s.next_expected_date)} · seen {s.occurrences}×
+              </p>
+            </div>
+            <div className="flex items-center gap-1.5 shrink-0">
+              <span className="text-amount text-sm text-aura-text">
+                {formatNOK(Number(s.average_amount))}
+              </span>
+              <button
+                onClick={() => handleAction(s.id, 'confirm')}
+                disabled={pending === s.id}
+                className="p-1 rounded text-aura-text-secondary hover:text-aura-safe hover:bg-aura-safe/10 transition-colors disabled:opacity-50"
+                title="Keep this bill"
+              >
+                <Check size={14} />
+              </button>
+              <button
+                onClick={() => handleAction(s.id, 'dismiss')}
+                disabled={pending === s.id}
+                className="p-1 rounded text-aura-text-secondary hover:text-aura-danger hover:bg-aura-danger/10 transition-colors disabled:opacity-50"
+                title="Not a bill — don't suggest again"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-aura-danger mt-3">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+/**
+ * BudgetProgress — spent vs. limit per category for the current month.
+ *
+ * Bar color by usage:
+ *   < 80%   → teal
+ *   80–99%  → amber
+ *   ≥ 100%  → red
+ *
+ * Budgets are added/removed inline; the page refreshes to recompute progress.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, X, Trash2 } from 'lucide-react'
+import { formatNOK } from '@/lib/utils/format-currency'
+import {
+  BUDGETABLE_CATEGORY_KEYS,
+  SPENDING_CATEGORIES,
+  type SpendingCategory,
+} from '@/lib/constants/categories'
+import type { BudgetProgress as BudgetProgressItem } from '@/lib/budgets/progress'
+
+interface Props {
+  budgets: BudgetProgressItem[]
+}
+
+function barColor(state: BudgetProgressItem['state']): string {
+  if (state === 'over') return 'bg-aura-danger'
+  if (state === 'warning') return 'bg-aura-warning'
+  return 'bg-aura-primary'
+}
+
+export function BudgetProgress({ budgets }: Props) {
+  const router = useRouter()
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [formCategory, setFormCategory] = useState<SpendingCategory | ''>('')
+  const [formLimit, setFormLimit] = useState('')
+  const [formError, setFormError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [removing, setRemoving] = useState<string | null>(null)
+
+  const usedCategories = new Set(budgets.map((b) => b.category))
+  const availableCategories = BUDGETABLE_CATEGORY_KEYS.filter((key) => !usedCategories.has(key))
+
+  async function handleAddBudget(e: React.FormEvent) {
+    e.preventDefault()
+    setFormError('')
+
+    const monthlyLimit = parseFloat(formLimit)
+    if (!formCategory || isNaN(monthlyLimit) || monthlyLimit <= 0) {
+      setFormError('Pick a category and a positive limit.')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category: formCategory, monthlyLimit }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setFormCategory('')
+        setFormLimit('')
+        setShowAddForm(false)
+        router.refresh()
+      } else {
+        setFormError(data.error || 'Failed to add budget.')
+      }
+    } catch {
+      setFormError('Network error. Try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function handleRemove(id: string) {
+    setRemoving(id)
+    try {
+      const res = await fetch('/api/budgets', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      })
+      if (res.ok) router.refresh()
+    } catch {
+      // Silently fail — budget stays in list
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <div className="surface p-5 rounded-xl">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-section-header">Budgets this month</p>
+        {availableCategories.length > 0 && (
+          <button
+            onClick={() => setShowAddForm((v) => !v)}
+            className="flex items-center gap-1 text-xs text-aura-text-secondary hover:text-aura-primary transition-colors"
+          >
+            {showAddForm ? <X size={12} /> : <Plus size={12} />}
+            {showAddForm ? 'Cancel' : 'Add'}
+          </button>
+        )}
+      </div>
+
+      {/* Add budget form */}
+      {showAddForm && (
+        <form
+          onSubmit={handleAddBudget}
+          className="mb-4 p-3 rounded-lg bg-aura-background border border-aura-border space-y-2"
+        >
+          <div className="flex gap-2">
+            <select
+              value={formCategory}
+              onChange={(e) => setFormCategory(e.target.value as SpendingCategory)}
+              className="flex-1 bg-aura-background border border-aura-border rounded px-2 py-1.5 text-xs text-aura-text focus:outline-none focus:border-aura-primary"
+            >
+              <option value="">Category</option>
+              {availableCategories.map((key) => (
+                <option key={key} value={key}>
+                  {SPENDING_CATEGORIES[key].emoji} {SPENDING_CATEGORIES[key].label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              placeholder="Per month"
+              value={formLimit}
+              onChange={(e) => setFormLimit(e.target.value)}
+              step="1"
+              min="0"
+              className="w-28 bg-transparent border border-aura-border rounded px-2 py-1.5 text-xs text-aura-text placeholder:text-aura-text-dim focus:outline-none focus:border-aura-primary"
+            />
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-3 py-1.5 rounded text-xs font-medium bg-aura-primary text-white hover:bg-aura-primary/80 disabled:opacity-50 transition-colors"
+            >
+              {submitting ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+          {formError && <p className="text-xs text-aura-danger">{formError}</p>}
+        </form>
+      )}
+
+      {/* Empty state */}
+      {budgets.length === 0 && !showAddForm && (
+        <p className="text-aura-text-secondary text-sm">
+          No budgets yet. Set a monthly limit for a category to track it here.
+        </p>
+      )}
+
+      {/* Budget bars */}
+      <div className="space-y-3">
+        {budgets.map((b) => (
+          <div key={b.budgetId} className="group">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-aura-text truncate">
+                {SPENDING_CATEGORIES[b.category].emoji} {b.label}
+              </span>
+              <div className="flex items-center gap-1.5 shrink-0 ml-3">
+                <span className="text-amount text-xs text-aura-text-secondary">
+                  {formatNOK(b.spent)} / {formatNOK(b.limit)}
+                </span>
+                <button
+                  onClick={() => handleRemove(b.budgetId)}
+                  disabled={removing === b.budgetId}
+                  className="p-0.5 rounded text-aura-text-secondary hover:text-aura-danger transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-50"
+                  title="Remove budget"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-aura-border overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${barColor(b.state)}`}
+                style={{ width: `${Math.min(100, b.percent)}%` }}
+              />
+            </div>
+            {b.state === 'over' && (
+              <p className="text-[10px] text-aura-danger mt-1">
+                {formatNOK(Math.abs(b.remaining))} over budget
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
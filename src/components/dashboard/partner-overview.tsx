@@ -1,8 +1,9 @@
-import { formatNOK } from '@/lib/utils/format-currency'
+import { formatNOK, formatCurrency } from '@/lib/utils/format-currency'
 
 interface PartnerAccount {
   account_name: string
   balance: number
+  currency: string
 }
 
 interface Props {
@@ -43,7 +44,7 @@ export function PartnerOverview({
         {accounts.map((a) => (
           <div key={a.account_name} className="flex justify-between text-xs">
             <span className="text-aura-text-secondary">{a.account_name}</span>
-            <span className="text-amount text-sm">{formatNOK(Number(a.balance))}</span>
+            <span className="text-amount text-sm">{formatCurrency(Number(a.balance), a.currency)}</span>
           </div>
         ))}
       </div>
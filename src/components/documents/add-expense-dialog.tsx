@@ -38,6 +38,19 @@ const RECURRENCE_OPTIONS = [
   { value: 'yearly', label: 'Yearly' },
 ]
 
+const PERIOD_LABELS: Record<string, string> = {
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  quarterly: 'quarter(s)',
+  yearly: 'year(s)',
+}
+
+const SHIFT_OPTIONS = [
+  { value: 'none', label: 'Keep the date' },
+  { value: 'before', label: 'Move to the business day before' },
+  { value: 'after', label: 'Move to the business day after' },
+]
+
 export function AddExpenseDialog({ doc, onClose, onAdded }: Props) {
   const extract = doc.ai_flags?.financial_extract
 
@@ -54,6 +67,12 @@ export function AddExpenseDialog({ doc, onClose, onAdded }: Props) {
     DOC_TYPE_CATEGORY_MAP[doc.document_type ?? ''] ?? ''
   )
   const [recurrence, setRecurrence] = useState('once')
+  const [intervalStr, setIntervalStr] = useState('1')
+  const [monthEnd, setMonthEnd] = useState(false)
+  const [shift, setShift] = useState('none')
+  const [ends, setEnds] = useState<'never' | 'until' | 'count'>('never')
+  const [until, setUntil] = useState('')
+  const [countStr, setCountStr] = useState('')
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -75,6 +94,23 @@ export function AddExpenseDialog({ doc, onClose, onAdded }: Props) {
       return
     }
 
+    const interval = parseInt(intervalStr, 10)
+    const count = parseInt(countStr, 10)
+    if (recurrence !== 'once') {
+      if (isNaN(interval) || interval < 1 || interval > 52) {
+        setError('Repeat every 1 to 52 periods.')
+        return
+      }
+      if (ends === 'until' && (!until || until < dueDate)) {
+        setError('The end date must be on or after the due date.')
+        return
+      }
+      if (ends === 'count' && (isNaN(count) || count < 1)) {
+        setError('Number of payments must be at least 1.')
+        return
+      }
+    }
+
     setSaving(true)
     try {
       const res = await fetch('/api/bills', {
@@ -86,6 +122,13 @@ export function AddExpenseDialog({ doc, onClose, onAdded }: Props) {
           dueDate,
           category: category || null,
           recurrence,
+          ...(recurrence !== 'once' && {
+            interval,
+            monthEnd,
+            until: ends === 'until' ? until : null,
+            count: ends === 'count' ? count : null,
+          }),
+          shift,
           sourceDocumentId: doc.id,
         }),
       })
@@ -194,6 +237,73 @@ export function AddExpenseDialog({ doc, onClose, onAdded }: Props) {
             </select>
           </div>
 
+          {/* Repeat rule — interval, month end and when it stops */}
+          {recurrence !== 'once' && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-aura-text-secondary">Every</span>
+                <input
+                  type="number"
+                  value={intervalStr}
+                  onChange={(e) => setIntervalStr(e.target.value)}
+                  min="1"
+                  max="52"
+                  className="w-16 bg-aura-background border border-aura-border rounded-lg px-2 py-1.5 text-sm text-aura-text focus:outline-none focus:border-aura-primary"
+                />
+                <span className="text-xs text-aura-text-secondary">{PERIOD_LABELS[recurrence]}</span>
+              </div>
+              {recurrence !== 'weekly' && (
+                <label className="flex items-center gap-2 text-xs text-aura-text-secondary">
+                  <input type="checkbox" checked={monthEnd} onChange={(e) => setMonthEnd(e.target.checked)} />
+                  Always the last day of the month
+                </label>
+              )}
+              <div className="flex gap-2">
+                <select
+                  value={ends}
+                  onChange={(e) => setEnds(e.target.value as typeof ends)}
+                  className="w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text focus:outline-none focus:border-aura-primary [color-scheme:dark]"
+                >
+                  <option value="never">No end</option>
+                  <option value="until">Ends on a date</option>
+                  <option value="count">Ends after a number of payments</option>
+                </select>
+                {ends === 'until' && (
+                  <input
+                    type="date"
+                    value={until}
+                    onChange={(e) => setUntil(e.target.value)}
+                    className="w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text focus:outline-none focus:border-aura-primary [color-scheme:dark]"
+                  />
+                )}
+                {ends === 'count' && (
+                  <input
+                    type="number"
+                    value={countStr}
+                    onChange={(e) => setCountStr(e.target.value)}
+                    min="1"
+                    placeholder="Payments"
+                    className="w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text focus:outline-none focus:border-aura-primary [color-scheme:dark]"
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Weekends and public holidays */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">On weekends and holidays</label>
+            <select
+              value={shift}
+              onChange={(e) => setShift(e.target.value)}
+              className="w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text focus:outline-none focus:border-aura-primary [color-scheme:dark]"
+            >
+              {SHIFT_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Error */}
           {error && (
             <p className="text-xs text-aura-danger">{error}</p>
@@ -5,7 +5,7 @@
  *
  * Renders a single document through all stages of the Privacy Shield flow:
  *
- *   uploaded          → shouldn't normally be visible (detect-pii runs immediately after upload)
+ *   uploaded          → a scan the user didn't send for remote OCR — offers to send it now
  *   pii_detected      → shows RedactionPreview inline (user must review before analysis)
  *   redaction_confirmed → shows "Analyzing..." spinner
  *   analyzing         → shows spinner
@@ -18,6 +18,7 @@ import { Plus, Check, Trash2, Download } from 'lucide-react'
 import { RedactionPreview } from './redaction-preview'
 import { AddExpenseDialog } from './add-expense-dialog'
 import type { PIIDetection } from '@/lib/redaction/pii-detector'
+import { EXTRACTION_METHOD_META, type ExtractionMethod } from '@/lib/constants/extraction-methods'
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -28,6 +29,7 @@ export interface DocumentRecord {
   mime_type: string | null
   document_type: 'contract' | 'letter' | 'invoice' | 'tax' | 'bank_statement' | 'inkasso' | 'other' | null
   extracted_text: string | null
+  extraction_method: ExtractionMethod | null
   ai_summary: string | null
   ai_flags: {
     concerns?: string[]
@@ -103,6 +105,8 @@ export function DocumentCard({ doc, onRefresh, onRetryAnalysis, retrying = false
   const [confirmDelete, setConfirmDelete] = useState(false)
   const [deleting, setDeleting] = useState(false)
   const [downloading, setDownloading] = useState(false)
+  const [transcribing, setTranscribing] = useState(false)
+  const [transcribeError, setTranscribeError] = useState<string | null>(null)
   const [showRedactionPreview, setShowRedactionPreview] = useState(
     doc.status === 'pii_detected'
   )
@@ -120,6 +124,30 @@ export function DocumentCard({ doc, onRefresh, onRetryAnalysis, retrying = false
     }
   }
 
+  // Remote OCR for a scan that was kept unread at upload
+  async function handleTranscribe() {
+    setTranscribing(true)
+    setTranscribeError(null)
+    try {
+      const res = await fetch('/api/documents/detect-pii', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: doc.id, allowRemoteOcr: true }),
+      })
+      if (res.ok) {
+        setShowRedactionPreview(true)
+        onRefresh()
+      } else {
+        const data = await res.json()
+        setTranscribeError(data.error ?? 'Transcription failed. Please try again.')
+      }
+    } catch {
+      setTranscribeError('Transcription failed. Please try again.')
+    } finally {
+      setTranscribing(false)
+    }
+  }
+
   async function handleDelete() {
     setDeleting(true)
     try {
@@ -157,6 +185,9 @@ export function DocumentCard({ doc, onRefresh, onRetryAnalysis, retrying = false
 
           {/* Status badge + delete */}
           <div className="flex-shrink-0 flex items-center gap-2">
+            {doc.status === 'uploaded' && (
+              <span className="text-xs text-aura-text-secondary">Not read</span>
+            )}
             {doc.status === 'pii_detected' && (
               <span className="text-xs text-aura-warning">🛡️ Review PII</span>
             )}
@@ -218,12 +249,31 @@ export function DocumentCard({ doc, onRefresh, onRetryAnalysis, retrying = false
         </div>
       )}
 
+      {/* ── Unread scan (uploaded) ───────────────────────────────────────── */}
+      {doc.status === 'uploaded' && (
+        <div className="px-4 pb-4 border-t border-aura-border pt-3">
+          <p className="text-xs text-aura-text-secondary leading-relaxed">
+            This file has no text Aura can read on its own server. To analyze it, it has to be sent
+            unredacted to Claude to be transcribed first.
+          </p>
+          <button
+            onClick={handleTranscribe}
+            disabled={transcribing}
+            className="mt-2 text-xs text-aura-primary hover:text-aura-primary-light underline disabled:opacity-50"
+          >
+            {transcribing ? 'Transcribing...' : 'Send for transcription'}
+          </button>
+          {transcribeError && <p className="text-xs text-aura-danger mt-1">{transcribeError}</p>}
+        </div>
+      )}
+
       {/* ── Privacy Shield review (pii_detected) ────────────────────────── */}
       {doc.status === 'pii_detected' && showRedactionPreview && doc.extracted_text && (
         <div className="px-4 pb-4 border-t border-aura-border pt-4">
           <RedactionPreview
             documentId={doc.id}
             extractedText={doc.extracted_text}
+            extractionMethod={doc.extraction_method}
             detections={doc.pii_detections ?? []}
             onComplete={() => {
               setShowRedactionPreview(false)
@@ -259,6 +309,11 @@ export function DocumentCard({ doc, onRefresh, onRetryAnalysis, retrying = false
 
           <div className="px-4 pb-3 border-t border-aura-border">
             <p className="text-xs text-aura-text-secondary leading-relaxed mt-3">{doc.ai_summary}</p>
+            {doc.extraction_method && (
+              <p className="text-[10px] text-aura-text-dim mt-1">
+                Text: {EXTRACTION_METHOD_META[doc.extraction_method].label}
+              </p>
+            )}
 
             {(doc.ai_flags?.concerns?.length || doc.ai_flags?.deadlines?.length || doc.ai_flags?.recommended_action) && (
               <button onClick={() => setExpanded((v) => !v)} className="mt-2 text-xs text-aura-text-secondary hover:text-aura-primary underline">
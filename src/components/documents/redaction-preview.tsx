@@ -9,7 +9,9 @@
  * Flow:
  *   1. Shows extracted text with highlighted spans for each PII item
  *   2. Lists all detections below with type, original (truncated), and mask
- *   3. User can uncheck any detection they don't want redacted
+ *   3. User can uncheck any detection they don't want redacted. Matches whose
+ *      check digits don't add up (likely invoice or reference numbers) start
+ *      unchecked as suggestions
  *   4. "Confirm & Analyze" → POST /api/documents/confirm-redaction → POST /api/documents/analyze
  *   5. "Skip redaction" → skips with a warning, proceeds to analysis
  *
@@ -19,10 +21,12 @@
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import type { PIIDetection } from '@/lib/redaction/pii-detector'
+import { EXTRACTION_METHOD_META, type ExtractionMethod } from '@/lib/constants/extraction-methods'
 
 interface Props {
   documentId: string
   extractedText: string
+  extractionMethod?: ExtractionMethod | null
   detections: PIIDetection[]
   onComplete: () => void
   onCancel: () => void
@@ -36,6 +40,8 @@ const PII_TYPE_LABELS: Record<string, string> = {
   email: 'Email address',
   address: 'Address',
   orgNumber: 'Organisation number',
+  kid: 'KID (payment reference)',
+  person: 'Person name',
 }
 
 const PII_TYPE_COLORS: Record<string, string> = {
@@ -46,11 +52,14 @@ const PII_TYPE_COLORS: Record<string, string> = {
   email: 'bg-yellow-500/20 border-yellow-500/40 text-yellow-300',
   address: 'bg-blue-500/20 border-blue-500/40 text-blue-300',
   orgNumber: 'bg-purple-500/20 border-purple-500/40 text-purple-300',
+  kid: 'bg-purple-500/20 border-purple-500/40 text-purple-300',
+  person: 'bg-red-500/20 border-red-500/40 text-red-300',
 }
 
 export function RedactionPreview({
   documentId,
   extractedText,
+  extractionMethod,
   detections: initialDetections,
   onComplete,
   onCancel,
@@ -60,6 +69,8 @@ export function RedactionPreview({
   const [error, setError] = useState<string | null>(null)
 
   const confirmedCount = detections.filter((d) => d.confirmed).length
+  // Failed check digits — these start unchecked, as suggestions
+  const suggestionCount = initialDetections.filter((d) => d.checksum === 'invalid').length
 
   // ── Toggle a single detection ────────────────────────────────────────────
   function toggleDetection(index: number) {
@@ -145,7 +156,18 @@ export function RedactionPreview({
             ? 'No personal information was detected. You can proceed directly to analysis.'
             : `${detections.length} item${detections.length !== 1 ? 's' : ''} detected. Highlighted items will be masked before the document is analyzed.`
           }
+          {suggestionCount > 0 &&
+            ` ${suggestionCount} failed the check-digit test and ${suggestionCount === 1 ? 'is' : 'are'} left unchecked — tick to mask anyway.`}
         </p>
+        {extractionMethod && (
+          <p
+            className={`text-[10px] mt-1 ${
+              EXTRACTION_METHOD_META[extractionMethod].leftServer ? 'text-aura-warning' : 'text-aura-text-dim'
+            }`}
+          >
+            Text: {EXTRACTION_METHOD_META[extractionMethod].label}
+          </p>
+        )}
       </div>
 
       {/* Extracted text with highlights */}
@@ -191,6 +213,16 @@ export function RedactionPreview({
                   <span className={`text-[10px] px-1.5 py-0.5 rounded border ${PII_TYPE_COLORS[det.type] ?? 'bg-yellow-500/20 border-yellow-500/40 text-yellow-300'}`}>
                     {PII_TYPE_LABELS[det.type] ?? det.type}
                   </span>
+                  {det.checksum === 'invalid' && (
+                    <span className="text-[10px] text-aura-text-dim">
+                      Check digits don&apos;t match — probably not an ID
+                    </span>
+                  )}
+                  {det.checksum !== 'invalid' && det.confidence !== undefined && det.confidence < 0.9 && (
+                    <span className="text-[10px] text-aura-text-dim">
+                      {Math.round(det.confidence * 100)}% sure
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 mt-1">
                   <span className="text-xs text-aura-text-secondary font-mono truncate max-w-[120px]">
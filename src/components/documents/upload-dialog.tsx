@@ -8,6 +8,10 @@
  * Then closes — the document card in the list will show the Privacy Shield review.
  *
  * Does NOT trigger analysis — that happens after the user reviews redactions.
+ *
+ * Scans and photos can't be read on Aura's server. Unless remote OCR is on
+ * in Settings, detect-pii answers needsRemoteOcr and the dialog asks before
+ * sending this one file to Claude for transcription.
  */
 
 import { useState, useCallback } from 'react'
@@ -19,7 +23,7 @@ interface Props {
   onCancel: () => void
 }
 
-type UploadState = 'idle' | 'uploading' | 'extracting' | 'done' | 'error'
+type UploadState = 'idle' | 'uploading' | 'extracting' | 'needs_ocr' | 'done' | 'error'
 
 const ACCEPTED_TYPES = {
   'application/pdf': ['.pdf'],
@@ -32,6 +36,7 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
   const [uploadState, setUploadState] = useState<UploadState>('idle')
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [documentId, setDocumentId] = useState<string | null>(null)
 
   async function processFile(file: File) {
     setSelectedFile(file)
@@ -52,6 +57,7 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
         return
       }
       documentId = data.documentId
+      setDocumentId(documentId)
     } catch {
       setErrorMessage('Upload failed. Please check your connection and try again.')
       setUploadState('error')
@@ -59,15 +65,23 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
     }
 
     // Step 2: Extract text and detect PII
+    await scanDocument(documentId, false)
+  }
+
+  async function scanDocument(documentId: string, allowRemoteOcr: boolean) {
     setUploadState('extracting')
     try {
       const res = await fetch('/api/documents/detect-pii', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ documentId }),
+        body: JSON.stringify({ documentId, allowRemoteOcr }),
       })
       if (!res.ok) {
         const data = await res.json()
+        if (data.needsRemoteOcr) {
+          setUploadState('needs_ocr')
+          return
+        }
         setErrorMessage(data.error ?? 'Privacy scan failed. Please try again.')
         setUploadState('error')
         return
@@ -101,10 +115,13 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
   const dropzoneError = fileRejections[0]?.errors[0]?.message ?? null
 
   function resetAndCancel() {
+    // A scan the user didn't send is still in the vault, so the list needs a refresh
+    const keptUnread = uploadState === 'needs_ocr'
     setUploadState('idle')
     setSelectedFile(null)
     setErrorMessage(null)
-    onCancel()
+    if (keptUnread) onSuccess()
+    else onCancel()
   }
 
   return (
@@ -165,6 +182,17 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
           </div>
         )}
 
+        {uploadState === 'needs_ocr' && (
+          <div className="p-4 rounded-lg bg-aura-warning-muted border border-aura-warning/30 mb-4">
+            <p className="text-sm text-aura-text mb-1">This looks like a scan or a photo</p>
+            <p className="text-xs text-aura-text-secondary leading-relaxed">
+              Aura can only read its text by sending the file — unredacted — to Claude to be transcribed.
+              The transcript is then scanned for personal information like any other document.
+              If you&apos;d rather not, the file stays in your vault unread.
+            </p>
+          </div>
+        )}
+
         {uploadState === 'done' && (
           <div className="flex flex-col items-center justify-center min-h-[120px] gap-2">
             <div className="text-3xl">🛡️</div>
@@ -182,8 +210,13 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
         {/* Footer */}
         <div className="flex justify-end gap-2 mt-2">
           <Button variant="ghost" size="sm" onClick={resetAndCancel} className="text-aura-text-secondary hover:text-aura-text text-xs">
-            {uploadState === 'done' ? 'Close' : 'Cancel'}
+            {uploadState === 'done' ? 'Close' : uploadState === 'needs_ocr' ? 'Not now' : 'Cancel'}
           </Button>
+          {uploadState === 'needs_ocr' && documentId && (
+            <Button size="sm" onClick={() => scanDocument(documentId, true)} className="bg-aura-primary hover:bg-aura-primary-light text-white text-xs">
+              Send for transcription
+            </Button>
+          )}
           {uploadState === 'error' && (
             <Button size="sm" onClick={() => { setUploadState('idle'); setSelectedFile(null); setErrorMessage(null) }} className="bg-aura-primary hover:bg-aura-primary-light text-white text-xs">
               Try again
@@ -194,7 +227,8 @@ export function UploadDialog({ onSuccess, onCancel }: Props) {
         {(uploadState === 'idle' || uploadState === 'error') && (
           <p className="mt-4 text-[10px] text-aura-text-dim text-center leading-relaxed">
             Aura scans for personal information before any AI analysis.
-            You review and confirm what gets masked.
+            You review and confirm what gets masked. Digital PDFs are read on
+            Aura&apos;s server; scans are sent for transcription only if you agree.
           </p>
         )}
       </div>
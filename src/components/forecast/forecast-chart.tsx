@@ -8,6 +8,10 @@
  *
  * Color zones: green (safe), amber (caution), red (danger) based on
  * projected balance thresholds matching SafeToSpend logic.
+ *
+ * The shaded band is the likely range (10th–90th percentile) once variable
+ * spending is included. The risk date is the first day its low edge drops
+ * below zero — a 1 in 10 chance of being overdrawn by then.
  */
 
 import { useState, useMemo } from 'react'
@@ -37,6 +41,10 @@ interface Props {
   points: ForecastPoint[]
 }
 
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('nb-NO', { day: 'numeric', month: 'short' })
+}
+
 // ── Custom tooltip ───────────────────────────────────────────────────────────
 
 function ChartTooltip({
@@ -67,6 +75,11 @@ function ChartTooltip({
       <p className="text-sm font-medium" style={{ color: balanceColor }}>
         {formatNOK(point.balance)}
       </p>
+      {point.low !== point.high && (
+        <p className="text-[10px] text-aura-text-dim">
+          Likely {formatNOK(point.low)} – {formatNOK(point.high)}
+        </p>
+      )}
       {point.events.length > 0 && (
         <div className="mt-1.5 pt-1.5 border-t border-aura-border">
           {point.events.map((e, i) => (
@@ -123,6 +136,11 @@ export function ForecastChart({ points }: Props) {
     return lowest
   }, [filteredPoints])
 
+  // First day with a real chance of going below zero, and the expected crossing
+  const riskPoint = useMemo(() => filteredPoints.find((p) => p.low < 0) ?? null, [filteredPoints])
+  const negativePoint = useMemo(() => filteredPoints.find((p) => p.balance < 0) ?? null, [filteredPoints])
+  const hasBand = filteredPoints.some((p) => p.low !== p.high)
+
   let lowestColor = 'text-aura-positive'
   if (lowestPoint.balance < DANGER_THRESHOLD) lowestColor = 'text-aura-danger'
   else if (lowestPoint.balance < WARNING_THRESHOLD) lowestColor = 'text-aura-warning'
@@ -190,6 +208,29 @@ export function ForecastChart({ points }: Props) {
 
           <Tooltip content={<ChartTooltip colors={colors} />} />
 
+          {/* Likely range (10th–90th percentile) */}
+          {hasBand && (
+            <Area
+              type="monotone"
+              dataKey={(p: ForecastPoint) => [p.low, p.high]}
+              stroke="none"
+              fill={colors.primary}
+              fillOpacity={0.12}
+              activeDot={false}
+              isAnimationActive={false}
+            />
+          )}
+
+          {/* Risk of going below zero */}
+          {riskPoint && (
+            <ReferenceLine
+              x={riskPoint.label}
+              stroke={colors.danger}
+              strokeDasharray="2 4"
+              strokeOpacity={0.7}
+            />
+          )}
+
           {/* Warning threshold line */}
           {minBal < WARNING_THRESHOLD && maxBal > WARNING_THRESHOLD && (
             <ReferenceLine
@@ -231,6 +272,23 @@ export function ForecastChart({ points }: Props) {
           </span>
         )}
       </div>
+
+      {/* Risk of going below zero */}
+      {riskPoint && (
+        <p className="mt-1 text-xs text-aura-danger">
+          {negativePoint
+            ? `Expected to go below zero on ${formatShortDate(negativePoint.date)}`
+            : `Risk of going below zero from ${formatShortDate(riskPoint.date)}`}
+          {negativePoint && negativePoint.date !== riskPoint.date && (
+            <span className="text-aura-text-secondary"> · at risk from {formatShortDate(riskPoint.date)}</span>
+          )}
+        </p>
+      )}
+      {hasBand && (
+        <p className="mt-1 text-[10px] text-aura-text-dim">
+          Includes typical day-to-day spending. Shaded area shows the likely range.
+        </p>
+      )}
     </div>
   )
 }
@@ -0,0 +1,250 @@
+'use client'
+
+/**
+ * ScenarioComparison — saved what-if scenarios plotted against the baseline.
+ *
+ * Pick up to four scenarios; the server runs the forecast for each
+ * (/api/forecast/scenarios/compare) and the chart shows one expected-balance
+ * line per scenario, with end balance, lowest point and risk date below.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Pencil, Plus } from 'lucide-react'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+} from 'recharts'
+import { formatNOK, formatNOKCompact, formatNOKDelta } from '@/lib/utils/format-currency'
+import { useThemeColors } from '@/hooks/use-theme-colors'
+import { describeAdjustment, type ForecastScenario, type ScenarioResult } from '@/lib/forecast/scenarios'
+import { ScenarioDialog } from './scenario-dialog'
+
+interface Props {
+  scenarios: ForecastScenario[]
+  billNames: string[]
+  incomeNames: string[]
+}
+
+const MAX_COMPARED = 4
+
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('nb-NO', { day: 'numeric', month: 'short' })
+}
+
+export function ScenarioComparison({ scenarios, billNames, incomeNames }: Props) {
+  const router = useRouter()
+  const colors = useThemeColors()
+  const [selected, setSelected] = useState<string[]>([])
+  const [results, setResults] = useState<{ baseline: ScenarioResult; scenarios: ScenarioResult[] } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [dialog, setDialog] = useState<{ scenario: ForecastScenario | null } | null>(null)
+
+  const palette = [colors.warning, colors.danger, colors.positive, colors.textSecondary]
+
+  // Drop selections for scenarios that were deleted
+  const selectedIds = useMemo(
+    () => selected.filter((id) => scenarios.some((s) => s.id === id)),
+    [selected, scenarios]
+  )
+
+  useEffect(() => {
+    if (selectedIds.length === 0) {
+      setResults(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    fetch('/api/forecast/scenarios/compare', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scenarioIds: selectedIds, days: 90 }),
+    })
+      .then(async (res) => {
+        const data = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(data.error ?? 'Failed to compare scenarios.')
+          return
+        }
+        setResults(data)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to compare scenarios.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedIds, scenarios])
+
+  function toggle(id: string) {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : prev.length < MAX_COMPARED ? [...prev, id] : prev
+    )
+  }
+
+  // One row per day: baseline plus a column per scenario id
+  const chartData = useMemo(() => {
+    if (!results) return []
+    return results.baseline.points.map((p, i) => {
+      const row: Record<string, string | number> = { label: p.label, baseline: p.balance }
+      for (const s of results.scenarios) {
+        if (s.points[i]) row[s.id] = s.points[i].balance
+      }
+      return row
+    })
+  }, [results])
+
+  const rows = results ? [results.baseline, ...results.scenarios] : []
+
+  return (
+    <div className="surface p-5 rounded-xl mt-4">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-section-header">What if?</p>
+        <button
+          onClick={() => setDialog({ scenario: null })}
+          className="flex items-center gap-1.5 text-xs text-aura-primary hover:text-aura-primary-light transition-colors"
+        >
+          <Plus size={14} />
+          New scenario
+        </button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-aura-text-secondary text-sm">
+          Try out a big purchase, a cancelled subscription or a change in income without touching your real plan.
+        </p>
+      ) : (
+        <>
+          {/* Scenario list — tick to compare */}
+          <div className="space-y-1 mb-4">
+            {scenarios.map((s) => {
+              const index = selectedIds.indexOf(s.id)
+              return (
+                <div key={s.id} className="flex items-start gap-2 py-1.5">
+                  <input
+                    type="checkbox"
+                    checked={index >= 0}
+                    disabled={index < 0 && selectedIds.length >= MAX_COMPARED}
+                    onChange={() => toggle(s.id)}
+                    className="mt-0.5"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-aura-text flex items-center gap-2">
+                      {index >= 0 && (
+                        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: palette[index] }} />
+                      )}
+                      {s.name}
+                    </p>
+                    <p className="text-[11px] text-aura-text-dim truncate">
+                      {s.adjustments.map(describeAdjustment).join(' · ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setDialog({ scenario: s })}
+                    className="text-aura-text-dim hover:text-aura-text transition-colors"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+
+          {error && <p className="text-xs text-aura-danger mb-2">{error}</p>}
+
+          {selectedIds.length === 0 ? (
+            <p className="text-xs text-aura-text-secondary">Tick up to {MAX_COMPARED} scenarios to compare them with your current plan.</p>
+          ) : loading && !results ? (
+            <p className="text-xs text-aura-text-secondary">Calculating...</p>
+          ) : results && (
+            <>
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fill: colors.chartAxis, fontSize: 11 }}
+                    axisLine={false}
+                    tickLine={false}
+                    interval={Math.max(1, Math.floor(chartData.length / 6))}
+                  />
+                  <YAxis
+                    tickFormatter={(v: number) => formatNOKCompact(v)}
+                    tick={{ fill: colors.chartAxis, fontSize: 11 }}
+                    axisLine={false}
+                    tickLine={false}
+                    width={70}
+                  />
+                  <Tooltip
+                    formatter={(value: number, key: string) => [
+                      formatNOK(value),
+                      key === 'baseline' ? 'Baseline' : results.scenarios.find((s) => s.id === key)?.name ?? key,
+                    ]}
+                    contentStyle={{ background: colors.surface, border: `1px solid ${colors.border}`, borderRadius: 8, fontSize: 12 }}
+                    labelStyle={{ color: colors.textSecondary }}
+                  />
+                  <ReferenceLine y={0} stroke={colors.danger} strokeDasharray="4 4" strokeOpacity={0.5} />
+                  <Line type="monotone" dataKey="baseline" stroke={colors.primary} strokeWidth={2} dot={false} />
+                  {results.scenarios.map((s, i) => (
+                    <Line
+                      key={s.id}
+                      type="monotone"
+                      dataKey={s.id}
+                      stroke={palette[selectedIds.indexOf(s.id)] ?? palette[i]}
+                      strokeWidth={1.5}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+
+              {/* Outcome per scenario */}
+              <div className="mt-3 space-y-1">
+                {rows.map((r) => {
+                  const diff = r.summary.endBalance - results.baseline.summary.endBalance
+                  return (
+                    <div key={r.id} className="flex items-center justify-between gap-3 text-xs">
+                      <span className="text-aura-text truncate">{r.name}</span>
+                      <span className="text-aura-text-secondary shrink-0 tabular-nums">
+                        End {formatNOK(r.summary.endBalance)}
+                        {r.id !== 'baseline' && diff !== 0 && (
+                          <span className={diff < 0 ? 'text-aura-danger' : 'text-aura-positive'}> ({formatNOKDelta(diff)})</span>
+                        )}
+                        {' · '}Lowest {formatNOK(r.summary.lowestBalance)}
+                        {r.summary.riskDate && (
+                          <span className="text-aura-danger"> · at risk from {formatShortDate(r.summary.riskDate)}</span>
+                        )}
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {dialog && (
+        <ScenarioDialog
+          scenario={dialog.scenario}
+          billNames={billNames}
+          incomeNames={incomeNames}
+          onClose={() => setDialog(null)}
+          onSaved={() => { setDialog(null); router.refresh() }}
+        />
+      )}
+    </div>
+  )
+}
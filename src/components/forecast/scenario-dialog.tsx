@@ -0,0 +1,391 @@
+'use client'
+
+/**
+ * ScenarioDialog — create, edit or delete a what-if scenario: a name and a
+ * list of adjustments (an extra expense or income, a cancelled bill, an
+ * income change). Nothing here touches real bills or planned events.
+ */
+
+import { useState } from 'react'
+import { Plus, Trash2, X } from 'lucide-react'
+import type { ForecastScenario, ScenarioAdjustment, ScenarioRecurrence } from '@/lib/forecast/scenarios'
+
+interface Props {
+  scenario: ForecastScenario | null // null = create, non-null = edit
+  billNames: string[]
+  incomeNames: string[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+/** Form state — amounts stay strings while the user types */
+type Draft =
+  | { type: 'event'; name: string; amount: string; isExpense: boolean; date: string; recurrence: ScenarioRecurrence }
+  | { type: 'cancel-bill'; billName: string; fromDate: string }
+  | { type: 'income-change'; incomeName: string; percent: string; fromDate: string } // '' = all income
+
+const RECURRENCE_OPTIONS: Array<{ value: ScenarioRecurrence; label: string }> = [
+  { value: 'once', label: 'One time' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+]
+
+const inputClass =
+  'w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text placeholder:text-aura-text-dim focus:outline-none focus:border-aura-primary [color-scheme:dark]'
+
+const today = () => new Date().toISOString().split('T')[0]
+
+function toDraft(adj: ScenarioAdjustment): Draft {
+  switch (adj.type) {
+    case 'event':
+      return { ...adj, amount: String(Math.abs(adj.amount)), isExpense: adj.amount < 0 }
+    case 'cancel-bill':
+      return adj
+    case 'income-change':
+      return { ...adj, incomeName: adj.incomeName ?? '', percent: String(adj.percent) }
+  }
+}
+
+/** The adjustment, or an error message for the first invalid field */
+function fromDraft(draft: Draft): ScenarioAdjustment | string {
+  switch (draft.type) {
+    case 'event': {
+      const amount = Number(draft.amount.replace(/\s/g, '').replace(',', '.'))
+      if (!draft.name.trim()) return 'Give each expense or income a name.'
+      if (!Number.isFinite(amount) || amount <= 0) return 'Amounts must be above 0.'
+      return {
+        type: 'event',
+        name: draft.name.trim(),
+        amount: draft.isExpense ? -amount : amount,
+        date: draft.date,
+        recurrence: draft.recurrence,
+      }
+    }
+    case 'cancel-bill':
+      if (!draft.billName) return 'Choose the bill to cancel.'
+      return draft
+    case 'income-change': {
+      const percent = Number(draft.percent.replace(',', '.'))
+      if (!Number.isFinite(percent) || percent === 0 || percent < -100) {
+        return 'Income changes must be a percentage (−100 stops the income).'
+      }
+      return { type: 'income-change', incomeName: draft.incomeName || null, percent, fromDate: draft.fromDate }
+    }
+  }
+}
+
+export function ScenarioDialog({ scenario, billNames, incomeNames, onClose, onSaved }: Props) {
+  const isEdit = scenario !== null
+
+  const [name, setName] = useState(scenario?.name ?? '')
+  const [description, setDescription] = useState(scenario?.description ?? '')
+  const [drafts, setDrafts] = useState<Draft[]>(() => scenario?.adjustments.map(toDraft) ?? [])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  function update(index: number, patch: Partial<Draft>) {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? ({ ...d, ...patch } as Draft) : d)))
+  }
+
+  function remove(index: number) {
+    setDrafts((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  function add(type: Draft['type']) {
+    const draft: Draft =
+      type === 'event'
+        ? { type, name: '', amount: '', isExpense: true, date: today(), recurrence: 'once' }
+        : type === 'cancel-bill'
+          ? { type, billName: billNames[0] ?? '', fromDate: today() }
+          : { type, incomeName: '', percent: '-10', fromDate: today() }
+    setDrafts((prev) => [...prev, draft])
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+
+    if (!name.trim()) {
+      setError('Name is required.')
+      return
+    }
+    if (drafts.length === 0) {
+      setError('Add at least one change.')
+      return
+    }
+    const adjustments: ScenarioAdjustment[] = []
+    for (const draft of drafts) {
+      const result = fromDraft(draft)
+      if (typeof result === 'string') {
+        setError(result)
+        return
+      }
+      adjustments.push(result)
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch('/api/forecast/scenarios', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(isEdit && { id: scenario.id }),
+          name: name.trim(),
+          description: description.trim() || null,
+          adjustments,
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error ?? 'Failed to save scenario.')
+        return
+      }
+      onSaved()
+    } catch {
+      setError('Failed to save scenario.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!scenario) return
+    if (!confirm(`Delete the scenario "${scenario.name}"?`)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/forecast/scenarios', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: scenario.id }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error ?? 'Failed to delete scenario.')
+        return
+      }
+      onSaved()
+    } catch {
+      setError('Failed to delete scenario.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative bg-aura-surface border border-aura-border rounded-xl w-full max-w-lg p-5 shadow-2xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-display text-lg text-aura-text">
+            {isEdit ? 'Edit scenario' : 'New scenario'}
+          </h3>
+          <button onClick={onClose} className="text-aura-text-secondary hover:text-aura-text transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name + description */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Buy a car in March"
+              maxLength={100}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">Notes (optional)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              className={inputClass}
+            />
+          </div>
+
+          {/* Adjustments */}
+          <div className="space-y-2">
+            <p className="text-xs text-aura-text-secondary">Changes</p>
+            {drafts.map((draft, i) => (
+              <div key={i} className="border border-aura-border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] uppercase tracking-wide text-aura-text-dim">
+                    {draft.type === 'event' ? 'Expense or income' : draft.type === 'cancel-bill' ? 'Cancel bill' : 'Income change'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => remove(i)}
+                    className="text-aura-text-dim hover:text-aura-danger transition-colors"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+
+                {draft.type === 'event' && (
+                  <>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => update(i, { name: e.target.value })}
+                        placeholder="e.g. Car"
+                        maxLength={100}
+                        className={inputClass}
+                      />
+                      <select
+                        value={draft.isExpense ? 'out' : 'in'}
+                        onChange={(e) => update(i, { isExpense: e.target.value === 'out' })}
+                        className={`${inputClass} w-32`}
+                      >
+                        <option value="out">Expense</option>
+                        <option value="in">Income</option>
+                      </select>
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={draft.amount}
+                        onChange={(e) => update(i, { amount: e.target.value })}
+                        placeholder="Amount (kr)"
+                        className={inputClass}
+                      />
+                      <input
+                        type="date"
+                        value={draft.date}
+                        onChange={(e) => update(i, { date: e.target.value })}
+                        className={inputClass}
+                      />
+                      <select
+                        value={draft.recurrence}
+                        onChange={(e) => update(i, { recurrence: e.target.value as ScenarioRecurrence })}
+                        className={inputClass}
+                      >
+                        {RECURRENCE_OPTIONS.map((o) => (
+                          <option key={o.value} value={o.value}>{o.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                )}
+
+                {draft.type === 'cancel-bill' && (
+                  <div className="flex gap-2">
+                    <select
+                      value={draft.billName}
+                      onChange={(e) => update(i, { billName: e.target.value })}
+                      className={inputClass}
+                    >
+                      {billNames.map((b) => (
+                        <option key={b} value={b}>{b}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="date"
+                      value={draft.fromDate}
+                      onChange={(e) => update(i, { fromDate: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                {draft.type === 'income-change' && (
+                  <div className="flex gap-2">
+                    <select
+                      value={draft.incomeName}
+                      onChange={(e) => update(i, { incomeName: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">All income</option>
+                      {incomeNames.map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.percent}
+                      onChange={(e) => update(i, { percent: e.target.value })}
+                      placeholder="%"
+                      className={`${inputClass} w-20`}
+                    />
+                    <input
+                      type="date"
+                      value={draft.fromDate}
+                      onChange={(e) => update(i, { fromDate: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-3 pt-1">
+              <button
+                type="button"
+                onClick={() => add('event')}
+                className="flex items-center gap-1 text-xs text-aura-primary hover:text-aura-primary-light transition-colors"
+              >
+                <Plus size={12} /> Expense or income
+              </button>
+              {billNames.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => add('cancel-bill')}
+                  className="flex items-center gap-1 text-xs text-aura-primary hover:text-aura-primary-light transition-colors"
+                >
+                  <Plus size={12} /> Cancel a bill
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => add('income-change')}
+                className="flex items-center gap-1 text-xs text-aura-primary hover:text-aura-primary-light transition-colors"
+              >
+                <Plus size={12} /> Income change
+              </button>
+            </div>
+          </div>
+
+          {/* Error */}
+          {error && (
+            <p className="text-xs text-aura-danger">{error}</p>
+          )}
+
+          {/* Submit */}
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-aura-primary hover:bg-aura-primary-light text-white text-sm font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : isEdit ? 'Update scenario' : 'Save scenario'}
+          </button>
+
+          {isEdit && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={saving}
+              className="w-full text-xs text-aura-danger hover:underline disabled:opacity-50"
+            >
+              Delete scenario
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+/**
+ * GoalDialog — form for creating or editing a savings goal.
+ *
+ * Renders as an overlay modal. Fields: name, type, target amount, deadline,
+ * linked account, monthly contribution and the day it goes out.
+ */
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { GOAL_TYPE_LABELS, type GoalProgress, type GoalType } from '@/lib/savings/goals'
+
+export interface LinkableAccount {
+  id: string
+  account_name: string | null
+}
+
+interface Props {
+  goal: GoalProgress | null // null = create, non-null = edit
+  accounts: LinkableAccount[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+const GOAL_TYPE_OPTIONS = (Object.keys(GOAL_TYPE_LABELS) as GoalType[]).map((value) => ({
+  value,
+  label: GOAL_TYPE_LABELS[value],
+}))
+
+const inputClass =
+  'w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text placeholder:text-aura-text-dim focus:outline-none focus:border-aura-primary [color-scheme:dark]'
+
+export function GoalDialog({ goal, accounts, onClose, onSaved }: Props) {
+  const isEdit = goal !== null
+
+  const [name, setName] = useState(goal?.name ?? '')
+  const [goalType, setGoalType] = useState<GoalType>(goal?.goalType ?? 'buffer')
+  const [targetStr, setTargetStr] = useState(goal ? String(goal.target) : '')
+  const [deadline, setDeadline] = useState(goal?.deadline ?? '')
+  const [linkedAccountId, setLinkedAccountId] = useState(goal?.linkedAccountId ?? '')
+  const [monthlyStr, setMonthlyStr] = useState(
+    goal?.monthlyContribution ? String(goal.monthlyContribution) : ''
+  )
+  const [contributionDay, setContributionDay] = useState(goal?.contributionDay ?? 25)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const targetAmount = parseFloat(targetStr)
+    const monthlyContribution = monthlyStr ? parseFloat(monthlyStr) : null
+    if (!name.trim()) {
+      setError('Name is required.')
+      return
+    }
+    if (isNaN(targetAmount) || targetAmount <= 0) {
+      setError('Target must be a positive number.')
+      return
+    }
+    if (monthlyContribution !== null && (isNaN(monthlyContribution) || monthlyContribution <= 0)) {
+      setError('Monthly contribution must be a positive number.')
+      return
+    }
+
+    const fields = {
+      name: name.trim(),
+      goalType,
+      targetAmount,
+      deadline: deadline || null,
+      linkedAccountId: linkedAccountId || null,
+      monthlyContribution,
+      contributionDay,
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch('/api/goals', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isEdit ? { id: goal!.goalId, ...fields } : fields),
+      })
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error ?? 'Failed to save goal.')
+        return
+      }
+
+      onSaved()
+    } catch {
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Dialog card */}
+      <div className="relative bg-aura-surface border border-aura-border rounded-xl w-full max-w-md p-5 shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-display text-lg text-aura-text">
+            {isEdit ? 'Edit goal' : 'New savings goal'}
+          </h3>
+          <button onClick={onClose} className="text-aura-text-secondary hover:text-aura-text transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name + type */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Buffer, Summer trip"
+                maxLength={100}
+                className={inputClass}
+              />
+            </div>
+            <div className="w-32">
+              <label className="text-xs text-aura-text-secondary block mb-1">Type</label>
+              <select
+                value={goalType}
+                onChange={(e) => setGoalType(e.target.value as GoalType)}
+                className={inputClass}
+              >
+                {GOAL_TYPE_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Target + deadline */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Target (kr)</label>
+              <input
+                type="number"
+                value={targetStr}
+                onChange={(e) => setTargetStr(e.target.value)}
+                placeholder="0"
+                min="0"
+                step="1"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Deadline (optional)</label>
+              <input
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Linked account */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">Savings account</label>
+            <select
+              value={linkedAccountId}
+              onChange={(e) => setLinkedAccountId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Not linked</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>{a.account_name ?? 'Unnamed account'}</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-aura-text-dim mt-1">
+              Progress is read from this account&apos;s balance.
+            </p>
+          </div>
+
+          {/* Monthly contribution + day */}
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-xs text-aura-text-secondary block mb-1">Monthly contribution (optional)</label>
+              <input
+                type="number"
+                value={monthlyStr}
+                onChange={(e) => setMonthlyStr(e.target.value)}
+                placeholder="0"
+                min="0"
+                step="1"
+                className={inputClass}
+              />
+            </div>
+            <div className="w-24">
+              <label className="text-xs text-aura-text-secondary block mb-1">Day</label>
+              <select
+                value={contributionDay}
+                onChange={(e) => setContributionDay(Number(e.target.value))}
+                className={inputClass}
+              >
+                {Array.from({ length: 28 }, (_, i) => i + 1).map((d) => (
+                  <option key={d} value={d}>{d}.</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Error */}
+          {error && (
+            <p className="text-xs text-aura-danger">{error}</p>
+          )}
+
+          {/* Submit */}
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-aura-primary hover:bg-aura-primary-light text-white text-sm font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : isEdit ? 'Update goal' : 'Add goal'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+/**
+ * GoalList — savings goals with progress bars and deadline tracking.
+ *
+ * Each card shows saved vs. target (from the linked account) and, for goals
+ * with a deadline, whether the monthly contribution gets there in time.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Pencil, Trash2, Plus } from 'lucide-react'
+import { formatNOK } from '@/lib/utils/format-currency'
+import { GOAL_TYPE_LABELS, type GoalProgress, type GoalStatus } from '@/lib/savings/goals'
+import { GoalDialog, type LinkableAccount } from './goal-dialog'
+
+interface Props {
+  goals: GoalProgress[]
+  accounts: LinkableAccount[]
+}
+
+const STATUS_STYLES: Record<GoalStatus, { label: string; badge: string; bar: string }> = {
+  reached: { label: 'Reached', badge: 'bg-aura-safe-muted text-aura-safe', bar: 'bg-aura-safe' },
+  on_track: { label: 'On track', badge: 'bg-aura-primary/15 text-aura-primary', bar: 'bg-aura-primary' },
+  behind: { label: 'Behind', badge: 'bg-aura-warning-muted text-aura-warning', bar: 'bg-aura-warning' },
+  no_deadline: { label: 'No deadline', badge: 'bg-aura-border text-aura-text-secondary', bar: 'bg-aura-primary' },
+  not_linked: { label: 'No account linked', badge: 'bg-aura-border text-aura-text-secondary', bar: 'bg-aura-text-dim' },
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('nb-NO', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+}
+
+export function GoalList({ goals, accounts }: Props) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingGoal, setEditingGoal] = useState<GoalProgress | null>(null)
+  const [deleting, setDeleting] = useState<string | null>(null)
+
+  const handleDelete = async (id: string) => {
+    setDeleting(id)
+    try {
+      const res = await fetch('/api/goals', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      })
+      if (res.ok) {
+        router.refresh()
+      }
+    } catch {
+      // Silent fail — will show stale data until refresh
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-section-header">Your goals</p>
+        <button
+          onClick={() => {
+            setEditingGoal(null)
+            setDialogOpen(true)
+          }}
+          className="flex items-center gap-1.5 text-xs text-aura-primary hover:text-aura-primary-light transition-colors"
+        >
+          <Plus size={14} />
+          Add goal
+        </button>
+      </div>
+
+      {goals.length === 0 ? (
+        <div className="surface p-8 rounded-xl text-center">
+          <p className="text-aura-text-secondary text-sm">
+            No savings goals yet. Add a BSU, buffer or holiday goal to track it here and in your forecast.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {goals.map((g) => {
+            const style = STATUS_STYLES[g.status]
+            return (
+              <div key={g.goalId} className="surface p-5 rounded-xl group">
+                {/* Header */}
+                <div className="flex items-start justify-between gap-2 mb-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-aura-text truncate">{g.name}</p>
+                    <p className="text-xs text-aura-text-secondary">
+                      {GOAL_TYPE_LABELS[g.goalType]}
+                      {g.linkedAccountName && ` · ${g.linkedAccountName}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded-full ${style.badge}`}>
+                      {style.label}
+                    </span>
+                    <button
+                      onClick={() => {
+                        setEditingGoal(g)
+                        setDialogOpen(true)
+                      }}
+                      className="p-1 text-aura-text-secondary hover:text-aura-text transition-colors opacity-0 group-hover:opacity-100"
+                      title="Edit"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(g.goalId)}
+                      disabled={deleting === g.goalId}
+                      className="p-1 text-aura-text-secondary hover:text-aura-danger transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-50"
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Progress */}
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="text-amount text-lg text-aura-text">{formatNOK(g.saved)}</span>
+                  <span className="text-amount text-xs text-aura-text-secondary">of {formatNOK(g.target)}</span>
+                </div>
+                <div className="h-1.5 w-full rounded-full bg-aura-border overflow-hidden mb-3">
+                  <div
+                    className={`h-full rounded-full transition-all ${style.bar}`}
+                    style={{ width: `${g.percent}%` }}
+                  />
+                </div>
+
+                {/* Plan */}
+                <div className="space-y-0.5 text-xs text-aura-text-secondary">
+                  {g.monthlyContribution !== null && (
+                    <p>
+                      Saving {formatNOK(g.monthlyContribution)} on the {g.contributionDay}. each month
+                    </p>
+                  )}
+                  {g.deadline && g.status !== 'reached' && (
+                    <p>
+                      Deadline {formatDate(g.deadline)}
+                      {g.requiredMonthly !== null && g.remaining > 0 && (
+                        <> · needs {formatNOK(g.requiredMonthly)}/month</>
+                      )}
+                    </p>
+                  )}
+                  {g.status === 'behind' && (
+                    <p className="text-aura-warning">
+                      {formatNOK(g.shortfall)} short at the deadline with the current plan
+                    </p>
+                  )}
+                  {g.status === 'not_linked' && (
+                    <p>Link a savings account to track progress.</p>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Add/Edit goal dialog */}
+      {dialogOpen && (
+        <GoalDialog
+          goal={editingGoal}
+          accounts={accounts}
+          onClose={() => {
+            setDialogOpen(false)
+            setEditingGoal(null)
+          }}
+          onSaved={() => {
+            setDialogOpen(false)
+            setEditingGoal(null)
+            router.refresh()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import {
   LayoutDashboard,
   Wallet,
   TrendingUp,
+  PiggyBank,
   ArrowLeftRight,
   MessageCircle,
   FileText,
@@ -48,6 +49,12 @@ const NAV_ITEMS: NavItem[] = [
     icon: TrendingUp,
     description: 'Cash flow projection',
   },
+  {
+    label: 'Goals',
+    href: '/goals',
+    icon: PiggyBank,
+    description: 'Savings goals',
+  },
   {
     label: 'Transactions',
     href: '/transactions',
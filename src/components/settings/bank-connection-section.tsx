@@ -9,12 +9,14 @@
  *   - Bank picker (inline list of Norwegian banks)
  *   - Calling /api/bank/connect and redirecting user to BankID
  *   - Triggering /api/bank/sync and showing results
+ *   - Showing recent sync runs per bank (from sync_runs) with error details
  *   - Handling the ?bank_connected=true / ?bank_error=xxx callback params
  */
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
+import type { SyncRun } from '@/lib/neonomics/sync-runs'
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -28,6 +30,7 @@ interface BankConnection {
   bank_name: string
   bank_id: string
   status: 'pending' | 'active' | 'expired' | 'revoked' | 'error'
+  status_reason?: string | null
   last_synced_at: string | null
   consent_expires_at: string | null
   created_at: string
@@ -35,6 +38,8 @@ interface BankConnection {
 
 interface Props {
   initialConnections: BankConnection[]
+  /** Most recent sync runs per connection ID, newest first */
+  syncHistory?: Record<string, SyncRun[]>
   /** If the page loaded with ?bank_connected=true from the callback */
   justConnected?: boolean
   /** If the page loaded with ?bank_error=xxx from the callback */
@@ -86,10 +91,18 @@ function statusLabel(status: BankConnection['status']): {
   }
 }
 
+const RUN_STATUS_STYLES: Record<SyncRun['status'], { text: string; color: string }> = {
+  running: { text: 'Running', color: 'text-aura-text-secondary' },
+  success: { text: 'OK', color: 'text-aura-safe' },
+  partial: { text: 'Partial', color: 'text-aura-warning' },
+  failed: { text: 'Failed', color: 'text-aura-danger' },
+}
+
 // ── Component ────────────────────────────────────────────────────────────────
 
 export function BankConnectionSection({
   initialConnections,
+  syncHistory = {},
   justConnected = false,
   callbackError = null,
   newConnectionId = null,
@@ -106,6 +119,7 @@ export function BankConnectionSection({
   const [banksError, setBanksError] = useState<string | null>(null)
   const [syncing, setSyncing] = useState(false)
   const [disconnecting, setDisconnecting] = useState<string | null>(null)
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null)
   const [syncMessage, setSyncMessage] = useState<string | null>(null)
   const [errorMessage, setErrorMessage] = useState<string | null>(
     callbackError ? 'Bank authentication failed. Please try again.' : null
@@ -275,65 +289,98 @@ export function BankConnectionSection({
         <div className="space-y-3 mb-6">
           {connections.map((conn) => {
             const { text, color } = statusLabel(conn.status)
+            const runs = syncHistory[conn.id] ?? []
             return (
               <div
                 key={conn.id}
-                className="flex items-start justify-between p-4 rounded-xl bg-aura-surface border border-aura-border"
+                className="p-4 rounded-xl bg-aura-surface border border-aura-border"
               >
-                <div>
-                  <p className="text-aura-text font-medium text-sm">
-                    {conn.bank_name}
-                  </p>
-                  <p className={`text-xs mt-0.5 ${color}`}>{text}</p>
-                  <p className="text-xs text-aura-text-secondary mt-1">
-                    Last synced: {formatDate(conn.last_synced_at)}
-                  </p>
-                  {conn.consent_expires_at && (() => {
-                    const expiry = consentExpiryInfo(conn.consent_expires_at)
-                    return expiry ? (
-                      <p className={`text-xs font-medium ${expiry.color}`}>
-                        {expiry.text} — {formatDate(conn.consent_expires_at)}
-                      </p>
-                    ) : (
-                      <p className="text-xs text-aura-text-secondary">
-                        Consent expires: {formatDate(conn.consent_expires_at)}
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-aura-text font-medium text-sm">
+                      {conn.bank_name}
+                    </p>
+                    <p className={`text-xs mt-0.5 ${color}`}>{text}</p>
+                    {conn.status === 'error' && conn.status_reason && (
+                      <p className="text-xs text-aura-text-secondary mt-0.5">
+                        Reason: {conn.status_reason}
                       </p>
-                    )
-                  })()}
-                </div>
-                {conn.status === 'active' && (
-                  <div className="flex gap-1">
+                    )}
+                    <p className="text-xs text-aura-text-secondary mt-1">
+                      Last synced: {formatDate(conn.last_synced_at)}
+                    </p>
+                    {conn.consent_expires_at && (() => {
+                      const expiry = consentExpiryInfo(conn.consent_expires_at)
+                      return expiry ? (
+                        <p className={`text-xs font-medium ${expiry.color}`}>
+                          {expiry.text} — {formatDate(conn.consent_expires_at)}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-aura-text-secondary">
+                          Consent expires: {formatDate(conn.consent_expires_at)}
+                        </p>
+                      )
+                    })()}
+                  </div>
+                  {(conn.status === 'active' || conn.status === 'error') && (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => triggerSync(conn.id)}
+                        disabled={syncing}
+                        className="text-xs text-aura-text-secondary hover:text-aura-primary"
+                      >
+                        Sync
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDisconnect(conn.id, conn.bank_name)}
+                        disabled={syncing || disconnecting === conn.id}
+                        className="text-xs text-aura-text-secondary hover:text-aura-danger"
+                      >
+                        {disconnecting === conn.id ? 'Disconnecting...' : 'Disconnect'}
+                      </Button>
+                      {/* Errored connections may need a fresh consent too */}
+                      {conn.status === 'error' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleConnectBank(conn.bank_id, conn.bank_name)}
+                          disabled={!!connectingBankId}
+                          className="text-xs text-aura-warning hover:text-aura-text"
+                        >
+                          Re-connect
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {conn.status === 'expired' && (
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => triggerSync(conn.id)}
-                      disabled={syncing}
-                      className="text-xs text-aura-text-secondary hover:text-aura-primary"
+                      onClick={() => handleConnectBank(conn.bank_id, conn.bank_name)}
+                      disabled={!!connectingBankId}
+                      className="text-xs text-aura-warning hover:text-aura-text"
                     >
-                      Sync
+                      Re-connect
                     </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDisconnect(conn.id, conn.bank_name)}
-                      disabled={syncing || disconnecting === conn.id}
-                      className="text-xs text-aura-text-secondary hover:text-aura-danger"
+                  )}
+                </div>
+
+                {/* Sync history */}
+                {runs.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-aura-border">
+                    <button
+                      onClick={() => setHistoryOpen(historyOpen === conn.id ? null : conn.id)}
+                      className="text-xs text-aura-text-secondary hover:text-aura-primary"
                     >
-                      {disconnecting === conn.id ? 'Disconnecting...' : 'Disconnect'}
-                    </Button>
+                      {historyOpen === conn.id ? 'Hide sync history' : `Sync history (${runs.length})`}
+                    </button>
+                    {historyOpen === conn.id && <SyncHistory runs={runs} />}
                   </div>
                 )}
-                {conn.status === 'expired' && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleConnectBank(conn.bank_id, conn.bank_name)}
-                    disabled={!!connectingBankId}
-                    className="text-xs text-aura-warning hover:text-aura-text"
-                  >
-                    Re-connect
-                  </Button>
-                )}
               </div>
             )
           })}
@@ -458,3 +505,35 @@ export function BankConnectionSection({
     </section>
   )
 }
+
+// ── Sync History ────────────────────────────────────────────────────────────
+
+function SyncHistory({ runs }: { runs: SyncRun[] }) {
+  return (
+    <ul className="mt-2 space-y-2">
+      {runs.map((run) => {
+        const { text, color } = RUN_STATUS_STYLES[run.status]
+        return (
+          <li key={run.id} className="text-xs">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-aura-text-secondary">
+                {formatDate(run.started_at)} · {run.trigger_source === 'cron' ? 'Automatic' : 'Manual'}
+              </span>
+              <span className={`font-medium ${color}`}>{text}</span>
+            </div>
+            <p className="text-aura-text-dim">
+              {run.accounts_synced} accounts · {run.transactions_synced} transactions
+            </p>
+            {run.errors.length > 0 && (
+              <ul className="mt-1 pl-3 border-l border-aura-border space-y-0.5">
+                {run.errors.map((err, i) => (
+                  <li key={i} className="text-aura-danger break-words">{err}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
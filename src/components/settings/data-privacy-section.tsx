@@ -4,14 +4,44 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { useRouter } from 'next/navigation'
 
-export function DataPrivacySection() {
+interface Props {
+  allowRemoteOcr: boolean
+}
+
+export function DataPrivacySection({ allowRemoteOcr: initialAllowRemoteOcr }: Props) {
   const router = useRouter()
+  const [allowRemoteOcr, setAllowRemoteOcr] = useState(initialAllowRemoteOcr)
+  const [savingOcr, setSavingOcr] = useState(false)
   const [exporting, setExporting] = useState(false)
   const [confirmDelete, setConfirmDelete] = useState(false)
   const [deleteInput, setDeleteInput] = useState('')
   const [deleting, setDeleting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  async function handleToggleRemoteOcr() {
+    const next = !allowRemoteOcr
+    setSavingOcr(true)
+    setError(null)
+    // Optimistic update
+    setAllowRemoteOcr(next)
+    try {
+      const res = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allowRemoteOcr: next }),
+      })
+      if (!res.ok) {
+        setAllowRemoteOcr(!next)
+        setError('Could not save the setting.')
+      }
+    } catch {
+      setAllowRemoteOcr(!next)
+      setError('Could not save the setting.')
+    } finally {
+      setSavingOcr(false)
+    }
+  }
+
   async function handleExport() {
     setExporting(true)
     setError(null)
@@ -73,8 +103,32 @@ export function DataPrivacySection() {
       </div>
 
       <div className="rounded-xl bg-aura-surface border border-aura-border p-5 space-y-5">
+        {/* Remote OCR opt-in */}
+        <div className="flex items-center justify-between">
+          <div className="flex-1 mr-4">
+            <p className="text-sm text-aura-text font-medium mb-1">Remote OCR for scanned documents</p>
+            <p className="text-xs text-aura-text-secondary">
+              Digital PDFs are read on Aura&apos;s server. Scans and photos have no text layer — with this on, they
+              are sent unredacted to Claude to be transcribed. With it off, Aura asks you for each file.
+            </p>
+          </div>
+          <button
+            onClick={handleToggleRemoteOcr}
+            disabled={savingOcr}
+            className={`relative w-11 h-6 rounded-full transition-colors flex-shrink-0 ${
+              allowRemoteOcr ? 'bg-aura-primary' : 'bg-aura-border'
+            } ${savingOcr ? 'opacity-50' : ''}`}
+          >
+            <span
+              className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform ${
+                allowRemoteOcr ? 'translate-x-5' : 'translate-x-0'
+              }`}
+            />
+          </button>
+        </div>
+
         {/* Export data */}
-        <div>
+        <div className="pt-5 border-t border-aura-border">
           <p className="text-sm text-aura-text font-medium mb-1">Export your data</p>
           <p className="text-xs text-aura-text-secondary mb-3">
             Download all your Aura data as a JSON file — profile, accounts, transactions, bills, documents, and chat history.
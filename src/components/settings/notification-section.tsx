@@ -11,7 +11,7 @@ export function NotificationSection({ preferences: initial }: Props) {
   const [prefs, setPrefs] = useState<NotificationPreferences>(initial)
   const [saving, setSaving] = useState<string | null>(null)
 
-  const toggle = async (key: 'email_critical' | 'email_informational', value: boolean) => {
+  const toggle = async (key: 'email_critical' | 'email_informational' | 'budget_alerts', value: boolean) => {
     setSaving(key)
     const previous = prefs[key]
 
@@ -74,6 +74,15 @@ export function NotificationSection({ preferences: initial }: Props) {
           onToggle={(v) => toggle('email_informational', v)}
         />
 
+        {/* Budget alerts */}
+        <ToggleRow
+          label="Budget alerts"
+          description="When a category reaches 80% and 100% of its monthly budget"
+          checked={prefs.budget_alerts !== false}
+          loading={saving === 'budget_alerts'}
+          onToggle={(v) => toggle('budget_alerts', v)}
+        />
+
         {/* Quiet hours */}
         <div className="border-t border-aura-border pt-4">
           <p className="text-sm text-aura-text mb-1">Quiet hours</p>
@@ -0,0 +1,352 @@
+'use client'
+
+/**
+ * ImportDialog — upload a bank statement file into a manual account.
+ *
+ * Two steps: the file is first sent with action=preview, which shows the
+ * detected format, the CSV column mapping (editable) and a sample of parsed
+ * rows. Nothing is saved until the user picks an account and confirms.
+ *
+ * ImportStatementButton is the page-level trigger; it refreshes the server
+ * components once an import lands.
+ */
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Upload, X } from 'lucide-react'
+import { formatNOK } from '@/lib/utils/format-currency'
+import type { ColumnMapping, StatementFormat } from '@/lib/import/statement'
+
+export interface ManualAccount {
+  id: string
+  account_name: string | null
+}
+
+interface Props {
+  accounts: ManualAccount[]
+  onClose: () => void
+  onImported: () => void
+}
+
+interface Preview {
+  format: StatementFormat
+  bank: string | null
+  headers: string[]
+  mapping: ColumnMapping | null
+  closingBalance: number | null
+  rowCount: number
+  dateRange: { from: string; to: string } | null
+  sample: Array<{
+    date: string
+    amount: number
+    description: string | null
+    counterpart: string | null
+  }>
+  warnings: string[]
+}
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  camt053: 'CAMT.053',
+}
+
+const MAPPING_FIELDS: Array<{ key: keyof ColumnMapping; label: string }> = [
+  { key: 'date', label: 'Date' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'debit', label: 'Out' },
+  { key: 'credit', label: 'In' },
+  { key: 'description', label: 'Description' },
+  { key: 'counterpart', label: 'Counterpart' },
+  { key: 'reference', label: 'Reference' },
+]
+
+const NEW_ACCOUNT = '__new__'
+
+const inputClass =
+  'w-full bg-aura-background border border-aura-border rounded-lg px-3 py-2 text-sm text-aura-text placeholder:text-aura-text-dim focus:outline-none focus:border-aura-primary [color-scheme:dark]'
+
+export function ImportDialog({ accounts, onClose, onImported }: Props) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({})
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? NEW_ACCOUNT)
+  const [accountName, setAccountName] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<{ imported: number; duplicates: number } | null>(null)
+
+  async function send(action: 'preview' | 'import', selected: File, override?: Partial<ColumnMapping>) {
+    const formData = new FormData()
+    formData.append('file', selected)
+    formData.append('action', action)
+    if (override?.date) formData.append('mapping', JSON.stringify(override))
+    if (action === 'import') {
+      if (accountId === NEW_ACCOUNT) formData.append('accountName', accountName.trim())
+      else formData.append('accountId', accountId)
+    }
+
+    const res = await fetch('/api/transactions/import', { method: 'POST', body: formData })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error ?? 'Something went wrong. Please try again.')
+    return data
+  }
+
+  async function loadPreview(selected: File, override?: Partial<ColumnMapping>) {
+    setLoading(true)
+    setError(null)
+    try {
+      const data: Preview = await send('preview', selected, override)
+      setPreview(data)
+      setMapping(data.mapping ?? {})
+    } catch (err) {
+      setPreview(null)
+      setError(err instanceof Error ? err.message : 'Could not read the file.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function handleFile(selected: File | undefined) {
+    if (!selected) return
+    setFile(selected)
+    setResult(null)
+    if (!accountName) setAccountName(selected.name.replace(/\.[^.]+$/, '').slice(0, 100))
+    loadPreview(selected)
+  }
+
+  function updateMapping(key: keyof ColumnMapping, header: string) {
+    setMapping((prev) => ({ ...prev, [key]: header || undefined }))
+  }
+
+  async function handleImport() {
+    if (!file || !preview) return
+    if (accountId === NEW_ACCOUNT && !accountName.trim()) {
+      setError('Give the new account a name.')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await send('import', file, preview.format === 'csv' ? mapping : undefined)
+      setResult({ imported: data.imported, duplicates: data.duplicates })
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const mappingChanged = preview?.format === 'csv' && JSON.stringify(mapping) !== JSON.stringify(preview.mapping ?? {})
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="relative bg-aura-surface border border-aura-border rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-5 shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-display text-lg text-aura-text">Import statement</h3>
+          <button onClick={onClose} className="text-aura-text-secondary hover:text-aura-text transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {/* File */}
+          <div>
+            <label className="text-xs text-aura-text-secondary block mb-1">Statement file</label>
+            <input
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx,.xml"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-aura-text-dim mt-1">
+              CSV export from DNB, Nordea or SpareBank 1, OFX, or CAMT.053 — max 5 MB.
+              The file is read once and not stored.
+            </p>
+          </div>
+
+          {loading && !preview && (
+            <p className="text-xs text-aura-text-secondary">Reading file...</p>
+          )}
+
+          {preview && (
+            <>
+              {/* Summary */}
+              <div className="text-xs text-aura-text-secondary">
+                {FORMAT_LABELS[preview.format]}
+                {preview.bank && ` · ${preview.bank}`}
+                {` · ${preview.rowCount} transaction${preview.rowCount === 1 ? '' : 's'}`}
+                {preview.dateRange && ` · ${preview.dateRange.from} – ${preview.dateRange.to}`}
+                {preview.closingBalance !== null && ` · closing balance ${formatNOK(preview.closingBalance)}`}
+              </div>
+
+              {/* Column mapping (CSV only) */}
+              {preview.format === 'csv' && preview.headers.length > 0 && (
+                <div>
+                  <p className="text-xs text-aura-text-secondary mb-2">Columns</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {MAPPING_FIELDS.map(({ key, label }) => (
+                      <div key={key}>
+                        <label className="text-[10px] text-aura-text-dim block mb-0.5">{label}</label>
+                        <select
+                          value={mapping[key] ?? ''}
+                          onChange={(e) => updateMapping(key, e.target.value)}
+                          className={inputClass}
+                        >
+                          <option value="">—</option>
+                          {preview.headers.map((h) => (
+                            <option key={h} value={h}>{h}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {mappingChanged && (
+                    <button
+                      type="button"
+                      disabled={loading || !mapping.date}
+                      onClick={() => file && loadPreview(file, mapping)}
+                      className="mt-2 text-xs text-aura-primary hover:text-aura-primary-light disabled:opacity-50"
+                    >
+                      Apply columns
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Warnings */}
+              {preview.warnings.map((w) => (
+                <p key={w} className="text-xs text-aura-warning">{w}</p>
+              ))}
+
+              {/* Sample rows */}
+              {preview.sample.length > 0 && (
+                <div className="border border-aura-border rounded-lg overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead className="bg-aura-background text-aura-text-dim">
+                      <tr>
+                        <th className="text-left font-normal px-3 py-1.5">Date</th>
+                        <th className="text-left font-normal px-3 py-1.5">Description</th>
+                        <th className="text-right font-normal px-3 py-1.5">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.sample.map((row, i) => (
+                        <tr key={i} className="border-t border-aura-border">
+                          <td className="px-3 py-1.5 text-aura-text-secondary whitespace-nowrap">{row.date}</td>
+                          <td className="px-3 py-1.5 text-aura-text truncate max-w-[240px]">
+                            {row.counterpart ?? row.description ?? '—'}
+                          </td>
+                          <td className={`px-3 py-1.5 text-right whitespace-nowrap ${row.amount < 0 ? 'text-aura-text' : 'text-aura-safe'}`}>
+                            {formatNOK(row.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.rowCount > preview.sample.length && (
+                    <p className="text-[10px] text-aura-text-dim px-3 py-1.5 border-t border-aura-border">
+                      Showing {preview.sample.length} of {preview.rowCount}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Target account */}
+              {preview.rowCount > 0 && (
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="text-xs text-aura-text-secondary block mb-1">Import into</label>
+                    <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+                      {accounts.map((a) => (
+                        <option key={a.id} value={a.id}>{a.account_name ?? 'Manual account'}</option>
+                      ))}
+                      <option value={NEW_ACCOUNT}>New account...</option>
+                    </select>
+                  </div>
+                  {accountId === NEW_ACCOUNT && (
+                    <div className="flex-1">
+                      <label className="text-xs text-aura-text-secondary block mb-1">Account name</label>
+                      <input
+                        type="text"
+                        value={accountName}
+                        onChange={(e) => setAccountName(e.target.value)}
+                        maxLength={100}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Error */}
+          {error && (
+            <p className="text-xs text-aura-danger">{error}</p>
+          )}
+
+          {/* Result */}
+          {result && (
+            <p className="text-xs text-aura-safe">
+              Imported {result.imported} transaction{result.imported === 1 ? '' : 's'}
+              {result.duplicates > 0 && ` (${result.duplicates} already stored)`}.
+            </p>
+          )}
+
+          {/* Submit */}
+          {result ? (
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full bg-aura-primary hover:bg-aura-primary-light text-white text-sm font-medium py-2.5 rounded-lg transition-colors"
+            >
+              Done
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={loading || !preview || preview.rowCount === 0 || mappingChanged}
+              className="w-full bg-aura-primary hover:bg-aura-primary-light text-white text-sm font-medium py-2.5 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading && preview ? 'Importing...' : preview ? `Import ${preview.rowCount} transactions` : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function ImportStatementButton({ accounts }: { accounts: ManualAccount[] }) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [, startTransition] = useTransition()
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 text-xs text-aura-primary hover:text-aura-primary-light font-medium transition-colors"
+      >
+        <Upload size={14} />
+        Import statement
+      </button>
+      {open && (
+        <ImportDialog
+          accounts={accounts}
+          onClose={() => setOpen(false)}
+          onImported={() => startTransition(() => router.refresh())}
+        />
+      )}
+    </>
+  )
+}
@@ -8,7 +8,8 @@
 import { useState, useMemo } from 'react'
 import { Search, ArrowUpDown, RefreshCw } from 'lucide-react'
 import { SPENDING_CATEGORIES } from '@/lib/constants/categories'
-import { formatNOK } from '@/lib/utils/format-currency'
+import { formatNOK, formatCurrency } from '@/lib/utils/format-currency'
+import { isBaseCurrency } from '@/lib/currency/convert'
 import Link from 'next/link'
 
 interface Transaction {
@@ -16,9 +17,13 @@ interface Transaction {
   transaction_date: string
   description: string | null
   amount: number
+  currency: string
+  /** Converted on the server — null when there is no rate for the currency */
+  amountNOK: number | null
   category: string | null
   counterpart_name: string | null
   is_recurring: boolean
+  status: 'pending' | 'booked'
 }
 
 interface Props {
@@ -170,6 +175,9 @@ export function TransactionList({ transactions }: Props) {
                   {tx.counterpart_name && (
                     <p className="text-[11px] text-aura-text-dim truncate">{tx.counterpart_name}</p>
                   )}
+                  {tx.status === 'pending' && (
+                    <span className="text-[10px] text-aura-warning">Pending</span>
+                  )}
                   {tx.is_recurring && (
                     <span className="flex items-center gap-0.5 text-[10px] text-aura-primary">
                       <RefreshCw size={9} />
@@ -185,13 +193,18 @@ export function TransactionList({ transactions }: Props) {
               </span>
 
               {/* Amount */}
-              <span
-                className={`text-sm font-medium flex-shrink-0 tabular-nums ${
-                  isPositive ? 'text-aura-positive' : 'text-aura-text'
-                }`}
-              >
-                {isPositive ? '+' : ''}{formatNOK(tx.amount)}
-              </span>
+              <div className="flex-shrink-0 text-right">
+                <span
+                  className={`text-sm font-medium tabular-nums ${
+                    isPositive ? 'text-aura-positive' : 'text-aura-text'
+                  }`}
+                >
+                  {isPositive ? '+' : ''}{formatCurrency(tx.amount, tx.currency)}
+                </span>
+                {!isBaseCurrency(tx.currency) && tx.amountNOK !== null && (
+                  <p className="text-[10px] text-aura-text-dim tabular-nums">≈ {formatNOK(tx.amountNOK)}</p>
+                )}
+              </div>
             </div>
           )
         })}
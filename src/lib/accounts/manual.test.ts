@@ -0,0 +1,102 @@
+/**
+ * Manual balance adjustments — migration 020 runs in PGlite, so the
+ * increment is the deployed adjust_manual_balance function.
+ */
+
+import { readFileSync } from 'fs'
+import { PGlite } from '@electric-sql/pglite'
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { adjustManualBalance } from './manual'
+
+const MIGRATION_020 = readFileSync(
+  new URL('../../../supabase/migrations/020_manual_accounts.sql', import.meta.url),
+  'utf8'
+)
+
+/** Just enough of the earlier schema for migration 020 to apply */
+const BASE_SCHEMA = `
+  CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+  CREATE TABLE public.accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    balance DECIMAL(15, 2) DEFAULT 0,
+    is_manual BOOLEAN NOT NULL DEFAULT false,
+    last_updated_at TIMESTAMPTZ DEFAULT NOW()
+  );
+  CREATE TABLE public.transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source TEXT
+  );
+`
+
+let db: PGlite
+
+/** Only rpc — the function under test calls nothing else */
+const client = {
+  rpc: async (fn: string, args: Record<string, unknown>) => {
+    try {
+      const names = Object.keys(args)
+      const { rows } = await db.query<{ result: string | null }>(
+        `SELECT public.${fn}(${names.map((name, i) => `${name} => $${i + 1}`).join(', ')}) AS result`,
+        Object.values(args)
+      )
+      return { data: rows[0].result, error: null }
+    } catch (error) {
+      return { data: null, error: { message: (error as Error).message } }
+    }
+  },
+} as unknown as SupabaseClient
+
+async function createAccount(balance: number, isManual = true): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    'INSERT INTO public.accounts (balance, is_manual) VALUES ($1, $2) RETURNING id',
+    [balance, isManual]
+  )
+  return rows[0].id
+}
+
+async function balanceOf(accountId: string): Promise<number> {
+  const { rows } = await db.query<{ balance: string }>('SELECT balance FROM public.accounts WHERE id = $1', [accountId])
+  return Number(rows[0].balance)
+}
+
+// Starting Postgres takes a few seconds
+beforeAll(async () => {
+  db = new PGlite({ extensions: { uuid_ossp } })
+  await db.exec(BASE_SCHEMA)
+  await db.exec(MIGRATION_020)
+}, 60_000)
+
+afterAll(async () => {
+  await db.close()
+})
+
+beforeEach(async () => {
+  await db.exec('TRUNCATE public.accounts')
+})
+
+describe('adjustManualBalance', () => {
+  it('adds a new transaction and takes a deleted one back out', async () => {
+    const accountId = await createAccount(1000)
+
+    expect(await adjustManualBalance(client, accountId, -249.9)).toBe(750.1)
+    expect(await adjustManualBalance(client, accountId, 249.9)).toBe(1000)
+    expect(await balanceOf(accountId)).toBe(1000)
+  })
+
+  it('counts every adjustment when several are saved at once', async () => {
+    const accountId = await createAccount(0)
+
+    await Promise.all(Array.from({ length: 10 }, () => adjustManualBalance(client, accountId, 10.1)))
+
+    expect(await balanceOf(accountId)).toBe(101)
+  })
+
+  it('leaves synced accounts alone', async () => {
+    const accountId = await createAccount(500, false)
+
+    await expect(adjustManualBalance(client, accountId, 100)).rejects.toThrow('manual account not found')
+    expect(await balanceOf(accountId)).toBe(500)
+  })
+})
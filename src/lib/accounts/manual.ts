@@ -0,0 +1,83 @@
+/**
+ * Manual accounts — balances the user keeps track of by hand: a cash wallet,
+ * a Vipps balance, a loan at a lender we can't sync, statement imports.
+ *
+ * They have no bank connection, so nothing refreshes the balance; it is set
+ * by the user and moved by hand-entered transactions (adjustManualBalance).
+ *
+ * Loans are tracked as negative balances. They count towards the net total
+ * on the Accounts page but not towards money available to spend — instalments
+ * already show up as bills.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sumNOK } from '@/lib/currency/convert'
+import type { RateTable } from '@/lib/currency/rates'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type ManualAccountType = 'cash' | 'wallet' | 'savings' | 'loan' | 'other'
+
+export const MANUAL_ACCOUNT_TYPE_LABELS: Record<ManualAccountType, string> = {
+  cash: 'Cash',
+  wallet: 'Wallet (Vipps etc.)',
+  savings: 'Savings',
+  loan: 'Loan',
+  other: 'Other',
+}
+
+/** The fields the balance helpers need — any accounts select that includes them */
+export interface BalanceAccount {
+  balance: number | string
+  currency: string | null
+  account_type: string | null
+  is_manual: boolean | null
+}
+
+// ── Balances ────────────────────────────────────────────────────────────────
+
+/** Loans owe money rather than hold it */
+export function isSpendable(account: BalanceAccount): boolean {
+  return !(account.is_manual && account.account_type === 'loan')
+}
+
+/**
+ * Sum in NOK of balances that count as money available — used for
+ * safe-to-spend and the forecast. Foreign-currency accounts are converted.
+ */
+export function spendableBalance(accounts: BalanceAccount[], rates: RateTable): number {
+  return sumNOK(
+    accounts.filter(isSpendable).map((a) => ({ amount: a.balance, currency: a.currency })),
+    rates
+  )
+}
+
+/** A loan is entered as the amount owed; it is stored negative */
+export function normalizeManualBalance(type: ManualAccountType, balance: number): number {
+  return type === 'loan' ? -Math.abs(balance) : balance
+}
+
+/**
+ * Moves a manual account's balance by `delta` after a hand-entered
+ * transaction is added (delta = amount) or removed (delta = -amount).
+ * The addition happens in the database (adjust_manual_balance), so two
+ * transactions saved at once both count.
+ */
+export async function adjustManualBalance(
+  supabase: SupabaseClient,
+  accountId: string,
+  delta: number
+): Promise<number> {
+  const { data: balance, error } = await supabase.rpc('adjust_manual_balance', {
+    p_account_id: accountId,
+    p_delta: delta,
+  })
+
+  if (error) {
+    throw new Error(`Failed to update balance: ${error.message}`)
+  }
+  if (balance === null) {
+    throw new Error('Failed to update balance: manual account not found')
+  }
+  return Number(balance)
+}
@@ -1,6 +1,14 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
-import { formatNOK } from '@/lib/utils/format-currency'
+import { formatNOK, formatCurrency } from '@/lib/utils/format-currency'
 import { LEGAL_REFERENCES, type LegalReference } from '@/lib/constants/legal-references'
+import { getBudgetProgress } from '@/lib/budgets/progress'
+import { getGoalProgress, GOAL_TYPE_LABELS, outsideGoalAccounts } from '@/lib/savings/goals'
+import { spendableBalance, isSpendable } from '@/lib/accounts/manual'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { toNOK, sumNOK, isBaseCurrency, missingCurrencies } from '@/lib/currency/convert'
+import { loadForecastData } from '@/lib/forecast/input'
+import { compareScenarios, describeAdjustment, type ForecastScenario } from '@/lib/forecast/scenarios'
+import { calculateLateCost, LATE_STAGE_LABELS, type LateCost } from '@/lib/bills/late-costs'
 
 /**
  * Maps user situations (document types, financial status) to relevant law keys.
@@ -96,15 +104,15 @@ export async function buildFinancialContext(
   thirtyDaysAhead.setDate(thirtyDaysAhead.getDate() + 30)
 
   // Fetch all data in parallel for speed
-  const [accountsRes, billsRes, transactionsRes, docsRes, allDocTypesRes, partnerAccountsRes] = await Promise.all([
+  const [accountsRes, billsRes, transactionsRes, docsRes, allDocTypesRes, partnerAccountsRes, scenariosRes, budgets, goals, rates] = await Promise.all([
     supabase
       .from('accounts')
-      .select('balance, account_name, currency')
+      .select('id, balance, account_name, currency, account_type, is_manual')
       .eq('user_id', userId),
 
     supabase
       .from('bills_upcoming')
-      .select('name, amount, due_date, priority')
+      .select('name, amount, currency, due_date, priority')
       .eq('user_id', userId)
       .eq('is_paid', false)
       .lte('due_date', thirtyDaysAhead.toISOString().split('T')[0])
@@ -112,7 +120,7 @@ export async function buildFinancialContext(
 
     supabase
       .from('transactions')
-      .select('amount, category, transaction_date')
+      .select('amount, currency, category, transaction_date')
       .eq('user_id', userId)
       .gte('transaction_date', thirtyDaysAgo.toISOString().split('T')[0]),
 
@@ -134,9 +142,23 @@ export async function buildFinancialContext(
     // Partner's shared accounts (RLS enforces access)
     supabase
       .from('accounts')
-      .select('account_name, balance')
+      .select('account_name, balance, currency')
       .neq('user_id', userId)
       .eq('is_shared_with_partner', true),
+
+    // Saved what-if scenarios (forecast page)
+    supabase
+      .from('forecast_scenarios')
+      .select('id, name, description, adjustments')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true }),
+
+    getBudgetProgress(supabase, userId, now),
+
+    getGoalProgress(supabase, userId, now),
+
+    getExchangeRates(),
   ])
 
   const accounts = accountsRes.data ?? []
@@ -145,13 +167,23 @@ export async function buildFinancialContext(
   const recentDocs = docsRes.data ?? []
   const allDocTypes = allDocTypesRes.data ?? []
   const partnerAccounts = partnerAccountsRes.data ?? []
+  const scenarios = (scenariosRes.data ?? []) as ForecastScenario[]
 
   // Deduplicated list of document types the user has
   const userDocTypes = [...new Set(allDocTypes.map((d) => d.document_type).filter(Boolean))]
 
-  // Check if any bills are overdue (due_date in the past)
+  // Split overdue bills (past the last day to pay) from upcoming ones. The
+  // query has no lower bound, so both come back together.
   const today = now.toISOString().split('T')[0]
-  const hasOverdueBills = bills.some((b) => b.due_date < today)
+  const overdueBills: Array<{ bill: (typeof bills)[number]; cost: LateCost }> = []
+  const upcomingBills: typeof bills = []
+  for (const b of bills) {
+    // Late costs are NOK rules (fee caps, NOK interest) — work on the NOK amount
+    const cost = calculateLateCost(toNOK(Number(b.amount), b.currency, rates) ?? 0, b.due_date, today)
+    if (cost) overdueBills.push({ bill: b, cost })
+    else upcomingBills.push(b)
+  }
+  const hasOverdueBills = overdueBills.length > 0
 
   // If no bank data yet, return a "not connected" context
   if (accounts.length === 0) {
@@ -163,18 +195,30 @@ If they ask about their finances, gently suggest connecting their bank in Settin
 You can still answer general financial and legal questions.`
   }
 
-  // Aggregate balances
-  const totalBalance = accounts.reduce((sum, a) => sum + Number(a.balance), 0)
-  const totalUpcomingBills = bills.reduce((sum, b) => sum + Number(b.amount), 0)
+  // Aggregate balances — goal savings are listed with the goals, not as spendable
+  const availableAccounts = outsideGoalAccounts(accounts, goals)
+  const goalAccountCount = accounts.length - availableAccounts.length
+  const totalBalance = spendableBalance(availableAccounts, rates)
+  const totalUpcomingBills = sumNOK(bills, rates)
   const safeToSpend = Math.max(0, totalBalance - totalUpcomingBills)
 
+  // Manual accounts have user-entered balances that may be out of date
+  const manualCount = accounts.filter((a) => a.is_manual).length
+  const manualLoans = accounts.filter((a) => !isSpendable(a))
+  const loanTotal = Math.abs(sumNOK(manualLoans.map((a) => ({ amount: a.balance, currency: a.currency })), rates))
+
+  // Foreign-currency accounts — listed with their own amount so Claude knows
+  // the NOK total includes a conversion
+  const foreignAccounts = accounts.filter((a) => !isBaseCurrency(a.currency))
+  const unconverted = missingCurrencies([...accounts, ...bills], rates)
+
   // Separate income and expenses
   const spendingByCategory: Record<string, number> = {}
   let totalMonthlyIncome = 0
   let totalMonthlyExpenses = 0
 
   for (const tx of transactions) {
-    const amount = Number(tx.amount)
+    const amount = toNOK(Number(tx.amount), tx.currency, rates) ?? 0
     if (amount > 0) {
       totalMonthlyIncome += amount
     } else {
@@ -189,18 +233,31 @@ You can still answer general financial and legal questions.`
 
 Total available balance: ${formatNOK(totalBalance)}
 Safe to spend (after upcoming bills): ${formatNOK(safeToSpend)}
-Connected accounts: ${accounts.length}
-
+Accounts: ${accounts.length}${manualCount > 0 ? ` (${manualCount} tracked manually — balances entered by the user)` : ''}
+${goalAccountCount > 0 ? `Savings accounts linked to goals (not included above): ${goalAccountCount} — see savings goals\n` : ''}${manualLoans.length > 0 ? `Loans tracked manually (not included above): ${formatNOK(loanTotal)} owed\n` : ''}${foreignAccounts.length > 0 ? `Foreign-currency balances (converted to NOK above at ${rates.source} rates from ${rates.date}): ${foreignAccounts.map((a) => formatCurrency(Number(a.balance), a.currency)).join(', ')}\n` : ''}${unconverted.length > 0 ? `No exchange rate for ${unconverted.join(', ')} — those balances and bills are left out of the totals\n` : ''}
 Income last 30 days: ${formatNOK(totalMonthlyIncome)}
 Expenses last 30 days: ${formatNOK(totalMonthlyExpenses)}
 `
 
-  if (bills.length > 0) {
+  if (overdueBills.length > 0) {
+    const lateTotal = overdueBills.reduce((sum, o) => sum + o.cost.total, 0)
+    context += `\nOverdue bills (late cost so far is the maximum a creditor may charge — forsinkelsesrente plus capped fees):\n`
+    for (const { bill: b, cost } of overdueBills) {
+      const dueDate = new Date(b.due_date).toLocaleDateString('nb-NO')
+      const nextStep = cost.next
+        ? `; next: ${LATE_STAGE_LABELS[cost.next.stage]} possible from ${new Date(cost.next.date).toLocaleDateString('nb-NO')} (+${formatNOK(cost.next.fee)})`
+        : ''
+      context += `- ${b.name}: ${formatCurrency(Number(b.amount), b.currency ?? 'NOK')} — due ${dueDate}, ${cost.daysOverdue} days overdue, stage: ${LATE_STAGE_LABELS[cost.stage]}; late cost ${formatNOK(cost.total)} (interest ${formatNOK(cost.interest)} at ${cost.rate} %, fees ${formatNOK(cost.fees)})${nextStep}\n`
+    }
+    context += `Total late cost so far: ${formatNOK(lateTotal)}\n`
+  }
+
+  if (upcomingBills.length > 0) {
     context += `\nUpcoming bills (next 30 days):\n`
-    for (const b of bills) {
+    for (const b of upcomingBills) {
       const dueDate = new Date(b.due_date).toLocaleDateString('nb-NO')
       const priorityTag = b.priority && b.priority !== 'normal' ? ` [priority: ${b.priority}]` : ''
-      context += `- ${b.name}: ${formatNOK(Number(b.amount))} — due ${dueDate}${priorityTag}\n`
+      context += `- ${b.name}: ${formatCurrency(Number(b.amount), b.currency ?? 'NOK')} — due ${dueDate}${priorityTag}\n`
     }
   } else {
     context += `\nNo upcoming bills recorded.\n`
@@ -217,6 +274,34 @@ Expenses last 30 days: ${formatNOK(totalMonthlyExpenses)}
     }
   }
 
+  if (budgets.length > 0) {
+    context += `\nMonthly budgets (this month so far):\n`
+    for (const b of budgets) {
+      const stateTag = b.state === 'over' ? ' [over budget]' : b.state === 'warning' ? ' [close to limit]' : ''
+      context += `- ${b.label}: ${formatNOK(b.spent)} of ${formatNOK(b.limit)} (${b.percent}%)${stateTag}\n`
+    }
+  }
+
+  if (goals.length > 0) {
+    context += `\nSavings goals:\n`
+    for (const g of goals) {
+      let line = `- ${g.name} (${GOAL_TYPE_LABELS[g.goalType]}): `
+      if (g.status === 'not_linked') {
+        line += `target ${formatNOK(g.target)}, no savings account linked so progress is unknown`
+      } else {
+        line += `${formatNOK(g.saved)} of ${formatNOK(g.target)} (${g.percent}%)`
+      }
+      if (g.monthlyContribution !== null) line += `, saving ${formatNOK(g.monthlyContribution)}/month`
+      if (g.deadline) line += `, deadline ${new Date(g.deadline).toLocaleDateString('nb-NO')}`
+      if (g.status === 'reached') line += ' [reached]'
+      if (g.status === 'on_track') line += ' [on track]'
+      if (g.status === 'behind') {
+        line += ` [behind: ${formatNOK(g.shortfall)} short at deadline, needs ${formatNOK(g.requiredMonthly ?? 0)}/month]`
+      }
+      context += `${line}\n`
+    }
+  }
+
   if (recentDocs.length > 0) {
     context += `\nRecently analyzed documents:\n`
     for (const d of recentDocs) {
@@ -226,18 +311,44 @@ Expenses last 30 days: ${formatNOK(totalMonthlyExpenses)}
   }
 
   if (partnerAccounts.length > 0) {
-    const partnerTotal = partnerAccounts.reduce((sum, a) => sum + Number(a.balance), 0)
+    const partnerTotal = sumNOK(partnerAccounts.map((a) => ({ amount: a.balance, currency: a.currency })), rates)
     const householdTotal = totalBalance + partnerTotal
 
     context += `\n## PARTNER'S SHARED ACCOUNTS\n`
     context += `Shared accounts: ${partnerAccounts.length}\n`
     context += `Partner shared balance: ${formatNOK(partnerTotal)}\n`
     for (const a of partnerAccounts) {
-      context += `- ${a.account_name}: ${formatNOK(Number(a.balance))}\n`
+      context += `- ${a.account_name}: ${formatCurrency(Number(a.balance), a.currency)}\n`
     }
     context += `Combined household balance: ${formatNOK(householdTotal)}\n`
   }
 
+  // ── What-if scenarios ─────────────────────────────────────────────────
+  // Run against the same baseline as /forecast so the user can ask about them by name
+  if (scenarios.length > 0) {
+    try {
+      const { input } = await loadForecastData(supabase, userId, 90, now)
+      const comparison = compareScenarios(input, scenarios, now)
+      const base = comparison.baseline.summary
+      const fmtDate = (d: string) => new Date(d).toLocaleDateString('nb-NO')
+
+      context += `\n## SAVED WHAT-IF SCENARIOS (90-day forecast — hypothetical, not part of the user's real plan)\n`
+      context += `Baseline: ends at ${formatNOK(base.endBalance)}, lowest ${formatNOK(base.lowestBalance)} on ${fmtDate(base.lowestDate)}\n`
+      for (const [i, result] of comparison.scenarios.entries()) {
+        const { summary } = result
+        const diff = summary.endBalance - base.endBalance
+        let line = `- "${result.name}" (${scenarios[i].adjustments.map(describeAdjustment).join('; ')}): `
+        line += `ends at ${formatNOK(summary.endBalance)} (${diff >= 0 ? '+' : '−'}${formatNOK(Math.abs(diff))} vs baseline), `
+        line += `lowest ${formatNOK(summary.lowestBalance)} on ${fmtDate(summary.lowestDate)}`
+        if (summary.riskDate) line += `, risk of going below zero from ${fmtDate(summary.riskDate)}`
+        context += `${line}\n`
+      }
+    } catch (error) {
+      // The rest of the context is still useful without the scenarios
+      console.error(`[CHAT_CONTEXT] Scenario forecast failed for user ${userId}:`, error instanceof Error ? error.message : 'Unknown')
+    }
+  }
+
   // ── Situation-aware legal references ──────────────────────────────────
   const relevantLaws = getRelevantLaws(userDocTypes, hasOverdueBills, safeToSpend)
 
@@ -0,0 +1,33 @@
+/**
+ * Prompts for the model fallback step of transaction categorization.
+ *
+ * IMPORTANT: Claude only receives sanitized merchant text and the direction of
+ * each transaction (see categorizer.ts) — never amounts, dates, account numbers,
+ * references or database IDs. Items are identified by their position in the batch.
+ */
+
+import { CATEGORY_KEYS, SPENDING_CATEGORIES } from '@/lib/constants/categories'
+
+const CATEGORY_LIST = CATEGORY_KEYS.filter((key) => key !== 'ukategorisert')
+  .map((key) => `- ${key}: ${SPENDING_CATEGORIES[key].label}`)
+  .join('\n')
+
+export const TRANSACTION_CATEGORIZATION_SYSTEM_PROMPT = `
+You are Aura's transaction categorization module. You classify Norwegian bank
+transactions into spending categories based on the merchant text only.
+
+Allowed category keys:
+${CATEGORY_LIST}
+
+Rules:
+- Use ONLY the keys listed above
+- Incoming money ("income") is usually "inntekt" or "overforinger"
+- If the text is too vague to decide, use "annet" with a low confidence
+- Confidence is a number between 0 and 1
+
+Respond with ONLY a JSON array, no prose and no code fences:
+[{"i": 0, "category": "mat", "confidence": 0.9}, ...]
+`.trim()
+
+export const TRANSACTION_CATEGORIZATION_USER_PROMPT =
+  'Categorize each transaction below. Each line is "index | direction | merchant text".'
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { calculateLateCost, collectionFeeCap, isOverdue, lastDayToPay, lateInterestRate } from './late-costs'
+
+describe('lateInterestRate', () => {
+  it('uses the half-year rate in force on the date', () => {
+    expect(lateInterestRate('2025-06-30')).toBe(12.5)
+    expect(lateInterestRate('2025-07-01')).toBe(12.25)
+    expect(lateInterestRate('2025-12-31')).toBe(12.25)
+    expect(lateInterestRate('2026-03-01')).toBe(12)
+  })
+
+  it('falls back to the oldest rate before the table starts', () => {
+    expect(lateInterestRate('2023-06-01')).toBe(12.5)
+  })
+})
+
+describe('collectionFeeCap', () => {
+  it.each([
+    [500, 175],
+    [501, 350],
+    [2_500, 350],
+    [10_000, 700],
+    [10_001, 1_400],
+    [300_000, 5_600],
+  ])('caps a claim of %i kr at %i kr', (amount, cap) => {
+    expect(collectionFeeCap(amount)).toBe(cap)
+  })
+})
+
+describe('lastDayToPay / isOverdue', () => {
+  it('moves a due date on a weekend or holiday to the next business day', () => {
+    expect(lastDayToPay('2025-05-17')).toBe('2025-05-19')
+    expect(lastDayToPay('2025-03-14')).toBe('2025-03-14')
+  })
+
+  it('is overdue only after the last day to pay', () => {
+    expect(isOverdue('2025-05-17', '2025-05-19')).toBe(false)
+    expect(isOverdue('2025-05-17', '2025-05-20')).toBe(true)
+  })
+})
+
+describe('calculateLateCost', () => {
+  it('returns null when the bill is not overdue', () => {
+    expect(calculateLateCost(10_000, '2025-03-14', '2025-03-14')).toBeNull()
+  })
+
+  it('accrues a day of interest the day after the last day to pay', () => {
+    expect(calculateLateCost(10_000, '2025-03-14', '2025-03-15')).toEqual({
+      lastDayToPay: '2025-03-14',
+      daysOverdue: 1,
+      rate: 12.5,
+      interest: 3.42,
+      fees: 0,
+      total: 3.42,
+      stage: 'overdue',
+      next: { stage: 'reminder', date: '2025-03-28', fee: 35 },
+    })
+  })
+
+  it('charges each day at the rate that applied that day', () => {
+    // Three days at 12.5 % in June, one at 12.25 % in July
+    const cost = calculateLateCost(10_000, '2025-06-27', '2025-07-01')!
+
+    expect(cost.rate).toBe(12.25)
+    expect(cost.interest).toBe(13.63)
+  })
+
+  it('adds the fee of every escalation step that has been reached', () => {
+    const notice = calculateLateCost(10_000, '2025-03-14', '2025-04-11')!
+    expect(notice.stage).toBe('collection_notice')
+    expect(notice.fees).toBe(70)
+    expect(notice.next).toEqual({ stage: 'collection', date: '2025-04-25', fee: 700 })
+
+    const collection = calculateLateCost(10_000, '2025-03-14', '2025-04-25')!
+    expect(collection.stage).toBe('collection')
+    expect(collection.fees).toBe(770)
+    expect(collection.next).toBeNull()
+    expect(collection.total).toBe(Math.round((collection.interest + 770) * 100) / 100)
+  })
+})
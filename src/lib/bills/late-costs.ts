@@ -0,0 +1,155 @@
+/**
+ * Overdue bills and what being late costs under Norwegian rules.
+ *
+ * A bill is overdue the day after its last day to pay (the due date, or the
+ * next business day when it falls on a weekend or holiday). From then on:
+ *   - forsinkelsesrente accrues daily (forsinkelsesrenteloven § 3 — the rate
+ *     is set per half-year)
+ *   - the creditor can escalate, each step with a capped fee (inkassoloven,
+ *     inkassoforskriften): purring → inkassovarsel → inkasso
+ *
+ * Escalation dates assume the creditor uses every step at the earliest
+ * allowed time, and fees are the legal maximums — so the cost shown is what
+ * being late *can* cost, not what a given creditor will charge.
+ *
+ * IMPORTANT: rates and caps change. Same rule as LEGAL_REFERENCES — check
+ * LATE_COSTS_LAST_VERIFIED and update from lovdata.no / regjeringen.no.
+ * Pure logic (no DB calls).
+ */
+
+import { addDays, businessDayOnOrAfter } from '@/lib/utils/norwegian-calendar'
+
+// ── Rates and caps ──────────────────────────────────────────────────────────
+
+export const LATE_COSTS_LAST_VERIFIED = '2026-01-15'
+
+/** Forsinkelsesrente in % per year, from each half-year (policy rate + 8 pp) */
+const LATE_INTEREST_RATES: Array<{ from: string; rate: number }> = [
+  { from: '2024-01-01', rate: 12.5 },
+  { from: '2024-07-01', rate: 12.5 },
+  { from: '2025-01-01', rate: 12.5 },
+  { from: '2025-07-01', rate: 12.25 },
+  { from: '2026-01-01', rate: 12.0 },
+]
+
+/** Inkassosatsen (I) — collection fee caps are multiples of it */
+export const INKASSOSATS = 700
+
+/** Cap for a purregebyr, and for the fee on an inkassovarsel */
+export const REMINDER_FEE_CAP = 35
+
+/** Cap on the collection fee (lett salær) by claim size, as a multiple of I */
+const COLLECTION_FEE_BANDS: Array<{ upTo: number; factor: number }> = [
+  { upTo: 500, factor: 0.25 },
+  { upTo: 2_500, factor: 0.5 },
+  { upTo: 10_000, factor: 1 },
+  { upTo: 50_000, factor: 2 },
+  { upTo: 250_000, factor: 4 },
+  { upTo: Infinity, factor: 8 },
+]
+
+/** Days between escalation steps — each notice gives 14 days to pay */
+const NOTICE_DAYS = 14
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type LateStage = 'overdue' | 'reminder' | 'collection_notice' | 'collection'
+
+export const LATE_STAGE_LABELS: Record<LateStage, string> = {
+  overdue: 'Overdue',
+  reminder: 'Reminder (purring)',
+  collection_notice: 'Debt collection notice (inkassovarsel)',
+  collection: 'Debt collection (inkasso)',
+}
+
+export interface LateCost {
+  lastDayToPay: string // ISO "yyyy-mm-dd"
+  daysOverdue: number
+  /** Forsinkelsesrente in force today, % per year */
+  rate: number
+  interest: number
+  fees: number
+  total: number // interest + fees, on top of the bill itself
+  stage: LateStage
+  /** The next escalation and the fee it can add — null once in collection */
+  next: { stage: LateStage; date: string; fee: number } | null
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / (24 * 60 * 60 * 1000))
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/** Forsinkelsesrente (% per year) in force on a date */
+export function lateInterestRate(dateStr: string): number {
+  let rate = LATE_INTEREST_RATES[0].rate
+  for (const period of LATE_INTEREST_RATES) {
+    if (period.from <= dateStr) rate = period.rate
+  }
+  return rate
+}
+
+/** Maximum collection fee for a claim of this size */
+export function collectionFeeCap(amount: number): number {
+  const band = COLLECTION_FEE_BANDS.find((b) => amount <= b.upTo)!
+  return Math.round(INKASSOSATS * band.factor)
+}
+
+/** A due date on a weekend or public holiday moves to the next business day */
+export function lastDayToPay(dueDate: string): string {
+  return businessDayOnOrAfter(dueDate)
+}
+
+export function isOverdue(dueDate: string, today: string): boolean {
+  return today > lastDayToPay(dueDate)
+}
+
+// ── Calculator ──────────────────────────────────────────────────────────────
+
+/**
+ * Interest and fees a bill has built up by `today`, and the next step.
+ * Null when the bill isn't overdue.
+ */
+export function calculateLateCost(amount: number, dueDate: string, today: string): LateCost | null {
+  if (!isOverdue(dueDate, today)) return null
+
+  const payBy = lastDayToPay(dueDate)
+  const daysOverdue = daysBetween(payBy, today)
+
+  // Daily interest, at whichever half-year rate applied that day
+  let interest = 0
+  for (let day = addDays(payBy, 1); day <= today; day = addDays(day, 1)) {
+    interest += (amount * lateInterestRate(day)) / 100 / 365
+  }
+
+  const steps: Array<{ stage: LateStage; date: string; fee: number }> = [
+    { stage: 'reminder', date: addDays(payBy, NOTICE_DAYS), fee: REMINDER_FEE_CAP },
+    { stage: 'collection_notice', date: addDays(payBy, 2 * NOTICE_DAYS), fee: REMINDER_FEE_CAP },
+    { stage: 'collection', date: addDays(payBy, 3 * NOTICE_DAYS), fee: collectionFeeCap(amount) },
+  ]
+
+  let stage: LateStage = 'overdue'
+  let fees = 0
+  for (const step of steps) {
+    if (step.date > today) break
+    stage = step.stage
+    fees += step.fee
+  }
+
+  interest = round2(interest)
+  return {
+    lastDayToPay: payBy,
+    daysOverdue,
+    rate: lateInterestRate(today),
+    interest,
+    fees,
+    total: round2(interest + fees),
+    stage,
+    next: steps.find((s) => s.date > today) ?? null,
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Bill lifecycle — marking a bill paid and rolling a recurring bill forward.
+ *
+ * A bills_upcoming row is one occurrence. When it is paid, a recurring bill
+ * gets a new row for the next occurrence on its schedule (same series anchor,
+ * so month-end and count rules carry over) and the detector's pattern follows
+ * it. The "Mark as paid" button, the payment reconciler and the match review
+ * all go through markBillPaid, so they behave the same.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { billSchedule, followingOccurrence, BILL_SCHEDULE_COLUMNS, type BillScheduleRow } from '@/lib/recurrence/schedule'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface MarkPaidResult {
+  found: boolean
+  /** The row for the next occurrence — null for one-off bills and ended series */
+  nextBillId: string | null
+  error: string | null
+}
+
+interface BillRow extends BillScheduleRow {
+  id: string
+  name: string
+  amount: number
+  currency: string
+  category: string | null
+  priority: string
+  is_auto_detected: boolean
+}
+
+const BILL_COLUMNS = `id, name, amount, currency, category, priority, is_auto_detected, ${BILL_SCHEDULE_COLUMNS}`
+
+/** Postgres unique_violation — the bill was already rolled forward */
+const UNIQUE_VIOLATION = '23505'
+
+// ── Mark paid ───────────────────────────────────────────────────────────────
+
+/**
+ * Marks a bill paid (optionally by a specific transaction), settles its
+ * payment matches and creates the next occurrence. Safe to call twice: a
+ * bill rolls forward at most once (unique previous_bill_id).
+ */
+export async function markBillPaid(
+  supabase: SupabaseClient,
+  userId: string,
+  billId: string,
+  transactionId: string | null = null,
+  now: Date = new Date()
+): Promise<MarkPaidResult> {
+  const { data: bill, error: loadError } = await supabase
+    .from('bills_upcoming')
+    .select(BILL_COLUMNS)
+    .eq('id', billId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (loadError) return { found: false, nextBillId: null, error: loadError.message }
+  if (!bill) return { found: false, nextBillId: null, error: null }
+  const row = bill as BillRow
+
+  // 1. Mark paid
+  const { error: updateError } = await supabase
+    .from('bills_upcoming')
+    .update({
+      is_paid: true,
+      paid_at: now.toISOString(),
+      ...(transactionId && { paid_transaction_id: transactionId }),
+    })
+    .eq('id', billId)
+    .eq('user_id', userId)
+
+  if (updateError) return { found: true, nextBillId: null, error: updateError.message }
+
+  // 2. Settle matches — the chosen pair is confirmed; other open candidates
+  //    for this bill, or for a transaction that is now spoken for, go away
+  if (transactionId) {
+    await supabase
+      .from('bill_payment_matches')
+      .update({ status: 'confirmed' })
+      .eq('user_id', userId)
+      .eq('bill_id', billId)
+      .eq('transaction_id', transactionId)
+    await supabase
+      .from('bill_payment_matches')
+      .delete()
+      .eq('user_id', userId)
+      .eq('transaction_id', transactionId)
+      .eq('status', 'pending')
+  }
+  await supabase
+    .from('bill_payment_matches')
+    .delete()
+    .eq('user_id', userId)
+    .eq('bill_id', billId)
+    .eq('status', 'pending')
+
+  // 3. Roll forward
+  const nextDue = followingOccurrence(billSchedule(row))
+  if (!nextDue) return { found: true, nextBillId: null, error: null }
+
+  const { data: next, error: insertError } = await supabase
+    .from('bills_upcoming')
+    .insert({
+      user_id: userId,
+      name: row.name,
+      amount: row.amount,
+      currency: row.currency,
+      due_date: nextDue,
+      is_auto_detected: row.is_auto_detected,
+      is_paid: false,
+      category: row.category,
+      priority: row.priority,
+      recurrence: row.recurrence,
+      recurrence_interval: row.recurrence_interval ?? 1,
+      recurrence_month_end: row.recurrence_month_end ?? false,
+      recurrence_shift: row.recurrence_shift ?? 'none',
+      recurrence_until: row.recurrence_until,
+      recurrence_count: row.recurrence_count,
+      recurrence_anchor: row.recurrence_anchor ?? row.due_date,
+      previous_bill_id: row.id,
+    })
+    .select('id')
+    .single()
+
+  if (insertError) {
+    if (insertError.code !== UNIQUE_VIOLATION) {
+      return { found: true, nextBillId: null, error: insertError.message }
+    }
+    const { data: existing } = await supabase
+      .from('bills_upcoming')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('previous_bill_id', row.id)
+      .maybeSingle()
+    return { found: true, nextBillId: existing?.id ?? null, error: null }
+  }
+
+  // 4. A detected pattern follows its bill, so dismissing it removes the live row
+  await supabase
+    .from('recurring_patterns')
+    .update({ bill_id: next.id })
+    .eq('user_id', userId)
+    .eq('bill_id', row.id)
+
+  return { found: true, nextBillId: next.id, error: null }
+}
+
+/** Undo a payment — the next occurrence, if one was created, stays */
+export async function markBillUnpaid(
+  supabase: SupabaseClient,
+  userId: string,
+  billId: string
+): Promise<{ found: boolean; error: string | null }> {
+  const { error, count } = await supabase
+    .from('bills_upcoming')
+    .update({ is_paid: false, paid_at: null, paid_transaction_id: null }, { count: 'exact' })
+    .eq('id', billId)
+    .eq('user_id', userId)
+
+  if (error) return { found: true, error: error.message }
+  return { found: (count ?? 0) > 0, error: null }
+}
@@ -0,0 +1,405 @@
+/**
+ * Bill reconciliation — finds the transaction that paid each open bill.
+ *
+ * Runs after every sync and import:
+ *   1. Candidates: outgoing transactions near the bill's due date whose amount
+ *      is within tolerance, scored on amount, name and date
+ *   2. One clear winner → the bill is marked paid, linked to the transaction
+ *      and rolled forward (lifecycle.ts)
+ *   3. Several plausible payments, or one transaction fitting several bills →
+ *      stored in bill_payment_matches for the user to confirm
+ *
+ * `matchBillPayments` is pure logic (no DB calls).
+ * `runBillReconciliation` loads the data and applies the results.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { normalizeName } from '@/lib/recurring/detector'
+import { markBillPaid } from './lifecycle'
+import { billSchedule, nextOccurrence, BILL_SCHEDULE_COLUMNS, type BillScheduleRow } from '@/lib/recurrence/schedule'
+import { addDays } from '@/lib/utils/norwegian-calendar'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { sameCurrency, toNOK } from '@/lib/currency/convert'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface ReconcileBill {
+  id: string
+  name: string
+  amount: number // Always positive, in the bill's currency
+  currency: string
+  amountNOK: number | null // null when there is no rate
+  dueDate: string // ISO "yyyy-mm-dd", after any business-day shift
+}
+
+export interface ReconcileTransaction {
+  id: string
+  transaction_date: string // ISO "yyyy-mm-dd"
+  amount: number // As booked, negative (outgoing)
+  currency: string
+  amountNOK: number | null // null when there is no rate
+  description: string | null
+  counterpart_name: string | null
+}
+
+export interface PaymentCandidate {
+  billId: string
+  transactionId: string
+  score: number // 0–1
+}
+
+export interface PaymentMatches {
+  /** Clear matches — safe to mark paid */
+  matches: PaymentCandidate[]
+  /** Bills with more than one plausible payment, best first */
+  ambiguous: Array<{ billId: string; candidates: PaymentCandidate[] }>
+}
+
+export interface BillReconciliationResult {
+  billsPaid: number
+  billsRolledForward: number
+  matchesProposed: number
+  errors: string[]
+}
+
+// ── Tuning ──────────────────────────────────────────────────────────────────
+
+/** Relative and absolute amount tolerance (fees, rounding, small price changes) */
+const AMOUNT_TOLERANCE = 0.05
+const AMOUNT_TOLERANCE_ABS = 5
+/** Payments this many days before the due date or after it still count */
+const DAYS_BEFORE_DUE = 10
+const DAYS_AFTER_DUE = 30
+/** Below this score a transaction is not a candidate at all */
+const MIN_SCORE = 0.5
+/** A clear match needs this score and this lead over the runner-up */
+const AUTO_MATCH_SCORE = 0.75
+const AUTO_MATCH_MARGIN = 0.2
+/** How many candidates a user is asked to choose between */
+const MAX_CANDIDATES = 3
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((new Date(b).getTime() - new Date(a).getTime()) / (1000 * 60 * 60 * 24))
+}
+
+/** 1 when one name contains the other, 0.6 when they share a word, else 0 */
+function nameSimilarity(billName: string, tx: ReconcileTransaction): number {
+  const bill = normalizeName({ counterpart_name: billName, description: null })
+  if (!bill) return 0
+  const names = [tx.counterpart_name, tx.description]
+    .map((n) => normalizeName({ counterpart_name: n, description: null }))
+    .filter(Boolean)
+
+  if (names.some((n) => n.includes(bill) || bill.includes(n))) return 1
+
+  // Short words ("as", "no", "bank") say nothing about the payee
+  const billWords = new Set(bill.split(' ').filter((w) => w.length >= 4))
+  return names.some((n) => n.split(' ').some((w) => billWords.has(w))) ? 0.6 : 0
+}
+
+/**
+ * Bill and payment amounts in one currency: the bill's own when the payment
+ * was booked in it, NOK otherwise. Null when a rate is missing.
+ */
+function comparableAmounts(
+  bill: ReconcileBill,
+  tx: ReconcileTransaction
+): { due: number; paid: number } | null {
+  if (sameCurrency(bill.currency, tx.currency)) return { due: bill.amount, paid: Math.abs(tx.amount) }
+  if (bill.amountNOK === null || tx.amountNOK === null) return null
+  return { due: bill.amountNOK, paid: Math.abs(tx.amountNOK) }
+}
+
+/** Score a transaction as the payment for a bill — null if it can't be */
+function scoreCandidate(bill: ReconcileBill, tx: ReconcileTransaction): number | null {
+  if (tx.amount >= 0) return null
+
+  const amounts = comparableAmounts(bill, tx)
+  if (!amounts) return null
+  const diff = Math.abs(amounts.paid - amounts.due)
+  if (diff > Math.max(amounts.due * AMOUNT_TOLERANCE, AMOUNT_TOLERANCE_ABS)) return null
+
+  const days = daysBetween(bill.dueDate, tx.transaction_date)
+  if (days < -DAYS_BEFORE_DUE || days > DAYS_AFTER_DUE) return null
+
+  const amountScore = diff <= 1 ? 0.4 : 0.25
+  const nameScore = 0.4 * nameSimilarity(bill.name, tx)
+  const dateScore = Math.abs(days) <= 3 ? 0.2 : days <= 10 ? 0.1 : 0
+
+  return Math.round((amountScore + nameScore + dateScore) * 100) / 100
+}
+
+// ── Matching ────────────────────────────────────────────────────────────────
+
+/**
+ * Pairs open bills with the transactions that paid them. Each transaction
+ * pays at most one bill; pairs in `rejected` ("billId:transactionId") were
+ * turned down by the user and are never proposed again.
+ */
+export function matchBillPayments(
+  bills: ReconcileBill[],
+  transactions: ReconcileTransaction[],
+  rejected: Set<string> = new Set()
+): PaymentMatches {
+  // 1. Score every plausible pair
+  const byBill = new Map<string, PaymentCandidate[]>()
+
+  for (const bill of bills) {
+    const candidates: PaymentCandidate[] = []
+    for (const tx of transactions) {
+      if (rejected.has(`${bill.id}:${tx.id}`)) continue
+      const score = scoreCandidate(bill, tx)
+      if (score === null || score < MIN_SCORE) continue
+      candidates.push({ billId: bill.id, transactionId: tx.id, score })
+    }
+    if (candidates.length === 0) continue
+
+    candidates.sort((a, b) => b.score - a.score)
+    byBill.set(bill.id, candidates)
+  }
+
+  // 2. Decide, strongest bills first, so a clear match claims its transaction
+  const result: PaymentMatches = { matches: [], ambiguous: [] }
+  const used = new Set<string>()
+  const settled = new Set<string>()
+  const ordered = [...byBill.entries()].sort((a, b) => b[1][0].score - a[1][0].score)
+
+  for (const [billId, all] of ordered) {
+    const candidates = all.filter((c) => !used.has(c.transactionId))
+    if (candidates.length === 0) continue
+
+    const [best, runnerUp] = candidates
+    // Another open bill fits this transaction at least as well
+    const contested = [...byBill.entries()].some(
+      ([otherId, other]) =>
+        otherId !== billId &&
+        !settled.has(otherId) &&
+        other.some((c) => c.transactionId === best.transactionId && c.score >= best.score)
+    )
+    const clear =
+      best.score >= AUTO_MATCH_SCORE &&
+      (!runnerUp || best.score - runnerUp.score >= AUTO_MATCH_MARGIN) &&
+      !contested
+
+    if (clear) {
+      result.matches.push(best)
+      used.add(best.transactionId)
+      settled.add(billId)
+    } else {
+      result.ambiguous.push({ billId, candidates: candidates.slice(0, MAX_CANDIDATES) })
+    }
+  }
+
+  return result
+}
+
+// ── Apply to the database ────────────────────────────────────────────────────
+
+/**
+ * Reconciles one user's open bills against recent outgoing transactions:
+ * clear matches are marked paid and rolled forward, the rest are proposed
+ * for confirmation. Transactions already linked to a bill are skipped.
+ */
+export async function runBillReconciliation(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<BillReconciliationResult> {
+  const result: BillReconciliationResult = {
+    billsPaid: 0,
+    billsRolledForward: 0,
+    matchesProposed: 0,
+    errors: [],
+  }
+
+  const todayStr = now.toISOString().split('T')[0]
+  const since = addDays(todayStr, -(DAYS_AFTER_DUE + DAYS_BEFORE_DUE + 30))
+
+  // 1. Load open bills (due soon or overdue), recent payments and earlier decisions
+  const [billsRes, txRes, linkedRes, matchesRes, rates] = await Promise.all([
+    supabase
+      .from('bills_upcoming')
+      .select(`id, name, amount, currency, ${BILL_SCHEDULE_COLUMNS}`)
+      .eq('user_id', userId)
+      .eq('is_paid', false)
+      .lte('due_date', addDays(todayStr, DAYS_BEFORE_DUE)),
+
+    supabase
+      .from('transactions')
+      .select('id, transaction_date, amount, currency, description, counterpart_name')
+      .eq('user_id', userId)
+      .lt('amount', 0)
+      .gte('transaction_date', since),
+
+    supabase
+      .from('bills_upcoming')
+      .select('paid_transaction_id')
+      .eq('user_id', userId)
+      .not('paid_transaction_id', 'is', null),
+
+    supabase
+      .from('bill_payment_matches')
+      .select('bill_id, transaction_id, status')
+      .eq('user_id', userId)
+      .in('status', ['pending', 'rejected']),
+
+    getExchangeRates(),
+  ])
+
+  const loadError = billsRes.error ?? txRes.error ?? linkedRes.error ?? matchesRes.error
+  if (loadError) {
+    result.errors.push(`Failed to load data: ${loadError.message}`)
+    return result
+  }
+
+  // The due date this row stands for, after any business-day shift
+  const bills: ReconcileBill[] = []
+  type BillRow = BillScheduleRow & { id: string; name: string; amount: number; currency: string | null }
+  for (const row of (billsRes.data ?? []) as BillRow[]) {
+    const dueDate = nextOccurrence(billSchedule(row), addDays(row.due_date, -7))
+    if (!dueDate) continue
+    const amount = Number(row.amount)
+    const currency = row.currency ?? 'NOK'
+    bills.push({ id: row.id, name: row.name, amount, currency, amountNOK: toNOK(amount, currency, rates), dueDate })
+  }
+  if (bills.length === 0) return result
+
+  const linked = new Set((linkedRes.data ?? []).map((b) => b.paid_transaction_id))
+  const transactions: ReconcileTransaction[] = []
+  for (const tx of txRes.data ?? []) {
+    if (linked.has(tx.id)) continue
+    const amount = Number(tx.amount)
+    transactions.push({
+      id: tx.id,
+      transaction_date: tx.transaction_date,
+      amount,
+      currency: tx.currency,
+      amountNOK: toNOK(amount, tx.currency, rates),
+      description: tx.description,
+      counterpart_name: tx.counterpart_name,
+    })
+  }
+
+  const rejected = new Set<string>()
+  const proposed = new Set<string>()
+  for (const m of matchesRes.data ?? []) {
+    ;(m.status === 'rejected' ? rejected : proposed).add(`${m.bill_id}:${m.transaction_id}`)
+  }
+
+  const { matches, ambiguous } = matchBillPayments(bills, transactions, rejected)
+
+  // 2. Clear matches — mark paid, link, roll forward
+  for (const match of matches) {
+    const paid = await markBillPaid(supabase, userId, match.billId, match.transactionId, now)
+    if (paid.error) {
+      result.errors.push(`Failed to mark bill paid: ${paid.error}`)
+      continue
+    }
+    result.billsPaid++
+    if (paid.nextBillId) result.billsRolledForward++
+  }
+
+  // 3. Ambiguous — propose the candidates that aren't waiting already
+  const rows = ambiguous
+    .flatMap((a) => a.candidates)
+    .filter((c) => !proposed.has(`${c.billId}:${c.transactionId}`))
+    .map((c) => ({ user_id: userId, bill_id: c.billId, transaction_id: c.transactionId, score: c.score }))
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('bill_payment_matches')
+      .upsert(rows, { onConflict: 'bill_id,transaction_id', ignoreDuplicates: true })
+    if (error) {
+      result.errors.push(`Failed to propose matches: ${error.message}`)
+    } else {
+      result.matchesProposed = rows.length
+    }
+  }
+
+  return result
+}
+
+// ── Review ──────────────────────────────────────────────────────────────────
+
+export interface PendingBillMatch {
+  billId: string
+  billName: string
+  billAmount: number
+  billCurrency: string
+  dueDate: string
+  candidates: Array<{
+    matchId: string
+    transactionDate: string
+    amount: number // As booked, in the transaction's currency
+    currency: string
+    description: string
+    score: number
+  }>
+}
+
+interface PendingMatchRow {
+  id: string
+  bill_id: string
+  score: number
+  bills_upcoming: { name: string; amount: number; currency: string | null; due_date: string; is_paid: boolean } | null
+  transactions: {
+    transaction_date: string
+    amount: number
+    currency: string
+    description: string | null
+    counterpart_name: string | null
+  } | null
+}
+
+/** Matches waiting for the user, grouped per bill, best candidate first */
+export async function getPendingPaymentMatches(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<PendingBillMatch[]> {
+  const { data, error } = await supabase
+    .from('bill_payment_matches')
+    .select(`
+      id,
+      bill_id,
+      score,
+      bills_upcoming (name, amount, currency, due_date, is_paid),
+      transactions (transaction_date, amount, currency, description, counterpart_name)
+    `)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .order('score', { ascending: false })
+
+  if (error) throw new Error(`Failed to load payment matches: ${error.message}`)
+
+  const byBill = new Map<string, PendingBillMatch>()
+  for (const row of (data ?? []) as unknown as PendingMatchRow[]) {
+    const bill = row.bills_upcoming
+    const tx = row.transactions
+    if (!bill || !tx || bill.is_paid) continue
+
+    let group = byBill.get(row.bill_id)
+    if (!group) {
+      group = {
+        billId: row.bill_id,
+        billName: bill.name,
+        billAmount: Number(bill.amount),
+        billCurrency: bill.currency ?? 'NOK',
+        dueDate: bill.due_date,
+        candidates: [],
+      }
+      byBill.set(row.bill_id, group)
+    }
+    group.candidates.push({
+      matchId: row.id,
+      transactionDate: tx.transaction_date,
+      amount: Number(tx.amount),
+      currency: tx.currency,
+      description: tx.counterpart_name || tx.description || 'Payment',
+      score: Number(row.score),
+    })
+  }
+
+  return [...byBill.values()].sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+}
@@ -0,0 +1,132 @@
+/**
+ * Budget progress — spent vs. limit per category for the current month.
+ *
+ * Shared by the dashboard widget, the notification engine (80% / 100% alerts)
+ * and the chat context builder, so all three agree on the numbers.
+ *
+ * `computeBudgetProgress` is pure; `getBudgetProgress` fetches what it needs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { SPENDING_CATEGORIES, type SpendingCategory } from '@/lib/constants/categories'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { toNOK } from '@/lib/currency/convert'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type BudgetState = 'ok' | 'warning' | 'over'
+
+export interface BudgetProgress {
+  budgetId: string
+  category: SpendingCategory
+  label: string
+  limit: number
+  spent: number
+  remaining: number // Negative when over budget
+  percent: number // 0–100+, rounded
+  state: BudgetState
+}
+
+interface BudgetRow {
+  id: string
+  category: string
+  monthly_limit: number
+}
+
+interface SpendRow {
+  amount: number
+  category: string | null
+}
+
+/** Alert thresholds (percent of the monthly limit) */
+export const BUDGET_WARNING_PERCENT = 80
+export const BUDGET_OVER_PERCENT = 100
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** First day of the month containing `date`, as "yyyy-mm-dd" */
+export function startOfMonthISO(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  return `${y}-${m}-01`
+}
+
+// ── Pure computation ─────────────────────────────────────────────────────────
+
+/**
+ * Sums expenses per category and compares them against each budget.
+ * Sorted with the most-used budget first.
+ */
+export function computeBudgetProgress(
+  budgets: BudgetRow[],
+  transactions: SpendRow[]
+): BudgetProgress[] {
+  const spentByCategory: Record<string, number> = {}
+  for (const tx of transactions) {
+    const amount = Number(tx.amount)
+    if (amount >= 0 || !tx.category) continue
+    spentByCategory[tx.category] = (spentByCategory[tx.category] ?? 0) + Math.abs(amount)
+  }
+
+  return budgets
+    .filter((b) => b.category in SPENDING_CATEGORIES)
+    .map((b) => {
+      const category = b.category as SpendingCategory
+      const limit = Number(b.monthly_limit)
+      const spent = Math.round(spentByCategory[category] ?? 0)
+      const percent = limit > 0 ? Math.round((spent / limit) * 100) : 0
+
+      let state: BudgetState = 'ok'
+      if (percent >= BUDGET_OVER_PERCENT) state = 'over'
+      else if (percent >= BUDGET_WARNING_PERCENT) state = 'warning'
+
+      return {
+        budgetId: b.id,
+        category,
+        label: SPENDING_CATEGORIES[category].label,
+        limit,
+        spent,
+        remaining: limit - spent,
+        percent,
+        state,
+      }
+    })
+    .sort((a, b) => b.percent - a.percent)
+}
+
+// ── Data fetching ────────────────────────────────────────────────────────────
+
+/**
+ * Loads the user's budgets and this month's expenses, returns progress.
+ * Returns an empty array if the user has no budgets (skips the tx query).
+ * Budgets are in NOK, so foreign-currency spending is converted first.
+ */
+export async function getBudgetProgress(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<BudgetProgress[]> {
+  const { data: budgets } = await supabase
+    .from('budgets')
+    .select('id, category, monthly_limit')
+    .eq('user_id', userId)
+
+  if (!budgets || budgets.length === 0) return []
+
+  const [{ data: transactions }, rates] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('amount, currency, category')
+      .eq('user_id', userId)
+      .lt('amount', 0)
+      .gte('transaction_date', startOfMonthISO(now))
+      .in('category', budgets.map((b) => b.category)),
+    getExchangeRates(),
+  ])
+
+  const spend = (transactions ?? []).map((tx) => ({
+    amount: toNOK(Number(tx.amount), tx.currency, rates) ?? 0,
+    category: tx.category,
+  }))
+  return computeBudgetProgress(budgets, spend)
+}
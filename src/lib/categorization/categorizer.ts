@@ -0,0 +1,258 @@
+/**
+ * Transaction categorization pipeline — runs after bank sync.
+ *
+ * 1. Deterministic rules (rules.ts) for well-known merchants and keywords
+ * 2. Batched Claude fallback for whatever the rules could not place
+ *
+ * Writes category, category_confidence and category_source.
+ *
+ * SECURITY:
+ * - Only transactions with category IS NULL are ever touched, and every update
+ *   repeats that filter — a category set by the user (category_source = 'user')
+ *   is never overwritten, even if it changes mid-run
+ * - The model only sees sanitized merchant text + direction (expense/income):
+ *   digits, emails and URLs are stripped, and incoming transfers are sent
+ *   without the counterpart name (usually a private person)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { anthropic } from '@/lib/anthropic/client'
+import {
+  TRANSACTION_CATEGORIZATION_SYSTEM_PROMPT,
+  TRANSACTION_CATEGORIZATION_USER_PROMPT,
+} from '@/lib/anthropic/prompts/transaction-categorization'
+import { CATEGORY_KEYS, type SpendingCategory } from '@/lib/constants/categories'
+import { categorizeByRules } from './rules'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface CategorizationResult {
+  ruleCategorized: number
+  aiCategorized: number
+  remaining: number
+  errors: string[]
+}
+
+interface UncategorizedRow {
+  id: string
+  amount: number
+  description: string | null
+  counterpart_name: string | null
+}
+
+interface CategoryAssignment {
+  id: string
+  category: SpendingCategory
+  confidence: number
+}
+
+// ── Limits ──────────────────────────────────────────────────────────────────
+
+/** Max uncategorized transactions processed per run (newest first) */
+const MAX_PER_RUN = 500
+/** Transactions per Claude call */
+const AI_BATCH_SIZE = 50
+/** Below this confidence the model's answer is stored as 'ukategorisert' */
+const MIN_AI_CONFIDENCE = 0.5
+
+// ── PII-free model input ─────────────────────────────────────────────────────
+
+/**
+ * Build the text Claude sees for one transaction.
+ * Strips anything that could identify the user or a counterparty's account.
+ */
+function toModelSafeText(tx: UncategorizedRow): string {
+  // Incoming money: the counterpart is typically a person (employer names are
+  // caught by the rules). Only send the bank description.
+  const raw = tx.amount < 0
+    ? `${tx.counterpart_name ?? ''} ${tx.description ?? ''}`
+    : tx.description ?? ''
+
+  return raw
+    .replace(/\b[\w.\-+]+@[\w.\-]+\.\w{2,}\b/g, ' ') // emails
+    .replace(/https?:\/\/\S+/g, ' ') // URLs
+    .replace(/\d+/g, ' ') // account numbers, KID, card numbers, dates
+    .replace(/[|\n\r]/g, ' ') // keep the one-line batch format intact
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80)
+}
+
+// ── Model fallback ───────────────────────────────────────────────────────────
+
+const VALID_CATEGORIES = new Set<string>(CATEGORY_KEYS)
+
+/**
+ * Ask Claude to categorize one batch. Returns assignments for the items it
+ * answered validly — anything malformed is simply left uncategorized.
+ */
+async function categorizeBatchWithAI(batch: UncategorizedRow[]): Promise<CategoryAssignment[]> {
+  const lines = batch.map((tx, i) => {
+    const direction = tx.amount < 0 ? 'expense' : 'income'
+    return `${i} | ${direction} | ${toModelSafeText(tx) || '(no text)'}`
+  })
+
+  const response = await anthropic.messages.create({
+    // Small, cheap model — this is short-label classification, not advice
+    model: 'claude-haiku-4-5',
+    max_tokens: 2000,
+    system: TRANSACTION_CATEGORIZATION_SYSTEM_PROMPT,
+    messages: [{
+      role: 'user',
+      content: `${TRANSACTION_CATEGORIZATION_USER_PROMPT}\n\n${lines.join('\n')}`,
+    }],
+  })
+
+  const rawText = response.content[0]?.type === 'text' ? response.content[0].text : ''
+  const cleaned = rawText.replace(/^```json\s*/i, '').replace(/\s*```$/, '').trim()
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(cleaned)
+  } catch {
+    throw new Error('Model returned non-JSON categorization output')
+  }
+  if (!Array.isArray(parsed)) return []
+
+  const assignments: CategoryAssignment[] = []
+  for (const item of parsed as Array<Record<string, unknown>>) {
+    const index = Number(item?.i)
+    const tx = batch[index]
+    if (!tx || typeof item.category !== 'string' || !VALID_CATEGORIES.has(item.category)) continue
+
+    const confidence = Math.min(1, Math.max(0, Number(item.confidence) || 0))
+    assignments.push({
+      id: tx.id,
+      category: confidence >= MIN_AI_CONFIDENCE ? (item.category as SpendingCategory) : 'ukategorisert',
+      confidence,
+    })
+  }
+
+  return assignments
+}
+
+// ── DB writes ────────────────────────────────────────────────────────────────
+
+/**
+ * Write assignments grouped by (category, confidence) — one UPDATE per group
+ * instead of one per row. The `category IS NULL` guard protects manual edits.
+ */
+async function writeAssignments(
+  supabase: SupabaseClient,
+  userId: string,
+  assignments: CategoryAssignment[],
+  source: 'rule' | 'ai',
+  errors: string[]
+): Promise<number> {
+  const groups = new Map<string, CategoryAssignment[]>()
+  for (const a of assignments) {
+    const key = `${a.category}:${a.confidence.toFixed(2)}`
+    const group = groups.get(key) ?? []
+    group.push(a)
+    groups.set(key, group)
+  }
+
+  let written = 0
+  for (const group of groups.values()) {
+    const { category, confidence } = group[0]
+    const { error, count } = await supabase
+      .from('transactions')
+      .update(
+        {
+          category,
+          category_confidence: Number(confidence.toFixed(2)),
+          category_source: source,
+        },
+        { count: 'exact' }
+      )
+      .eq('user_id', userId)
+      .in('id', group.map((a) => a.id))
+      .is('category', null)
+
+    if (error) {
+      errors.push(`Failed to write ${source} categories: ${error.message}`)
+    } else {
+      written += count ?? 0
+    }
+  }
+
+  return written
+}
+
+// ── Main pipeline ────────────────────────────────────────────────────────────
+
+/**
+ * Categorizes the user's uncategorized transactions (newest first).
+ *
+ * @param supabase - Supabase client scoped to the user (or a service client)
+ * @param userId   - The user whose transactions to categorize
+ * @param options.useAI - Set false to run the deterministic rules only
+ */
+export async function categorizeTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { useAI?: boolean } = {}
+): Promise<CategorizationResult> {
+  const { useAI = true } = options
+  const result: CategorizationResult = {
+    ruleCategorized: 0,
+    aiCategorized: 0,
+    remaining: 0,
+    errors: [],
+  }
+
+  // 1. Load uncategorized transactions
+  const { data: rows, error: fetchError } = await supabase
+    .from('transactions')
+    .select('id, amount, description, counterpart_name')
+    .eq('user_id', userId)
+    .is('category', null)
+    .order('transaction_date', { ascending: false })
+    .limit(MAX_PER_RUN)
+
+  if (fetchError) {
+    result.errors.push(`Failed to load uncategorized transactions: ${fetchError.message}`)
+    return result
+  }
+
+  const transactions: UncategorizedRow[] = (rows ?? []).map((r) => ({
+    id: r.id,
+    amount: Number(r.amount),
+    description: r.description,
+    counterpart_name: r.counterpart_name,
+  }))
+
+  if (transactions.length === 0) return result
+
+  // 2. Deterministic rules
+  const ruleAssignments: CategoryAssignment[] = []
+  const leftovers: UncategorizedRow[] = []
+
+  for (const tx of transactions) {
+    const match = categorizeByRules(tx)
+    if (match) {
+      ruleAssignments.push({ id: tx.id, ...match })
+    } else {
+      leftovers.push(tx)
+    }
+  }
+
+  result.ruleCategorized = await writeAssignments(supabase, userId, ruleAssignments, 'rule', result.errors)
+
+  // 3. Model fallback for leftovers, in batches
+  if (useAI && leftovers.length > 0 && process.env.ANTHROPIC_API_KEY) {
+    for (let i = 0; i < leftovers.length; i += AI_BATCH_SIZE) {
+      const batch = leftovers.slice(i, i + AI_BATCH_SIZE)
+      try {
+        const aiAssignments = await categorizeBatchWithAI(batch)
+        result.aiCategorized += await writeAssignments(supabase, userId, aiAssignments, 'ai', result.errors)
+      } catch (err) {
+        // Non-fatal: these rows stay NULL and are retried on the next sync
+        result.errors.push(`AI categorization batch failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+  }
+
+  result.remaining = transactions.length - result.ruleCategorized - result.aiCategorized
+  return result
+}
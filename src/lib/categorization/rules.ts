@@ -0,0 +1,181 @@
+/**
+ * Deterministic categorization rules — first pass of the categorization pipeline.
+ *
+ * Matches well-known Norwegian merchants and keywords in the counterpart name
+ * and bank description, and maps them to SPENDING_CATEGORIES keys.
+ * Pure logic, no DB or network calls.
+ *
+ * Rules are checked in order — put specific merchants before broad keywords
+ * (e.g. "vipps" transfers before generic "betaling").
+ */
+
+import type { SpendingCategory } from '@/lib/constants/categories'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface CategorizationRule {
+  category: SpendingCategory
+  /** Lowercase substrings — any match assigns the category */
+  keywords: string[]
+  /** Restrict the rule to outgoing (expense) or incoming (income) amounts */
+  direction?: 'expense' | 'income'
+  /** Confidence written to transactions.category_confidence */
+  confidence: number
+}
+
+export interface RuleInput {
+  amount: number
+  description: string | null
+  counterpart_name: string | null
+}
+
+export interface RuleMatch {
+  category: SpendingCategory
+  confidence: number
+}
+
+// ── Rule table ──────────────────────────────────────────────────────────────
+
+export const CATEGORIZATION_RULES: CategorizationRule[] = [
+  // Income
+  {
+    category: 'inntekt',
+    keywords: ['lønn', 'lonn', 'salary', 'feriepenger', 'nav ', 'dagpenger', 'sykepenger', 'foreldrepenger', 'skatteoppgjør', 'tilbakebetaling skatt'],
+    direction: 'income',
+    confidence: 0.95,
+  },
+
+  // Person-to-person transfers (also keeps personal names away from the model)
+  {
+    category: 'overforinger',
+    keywords: ['vipps', 'overføring', 'overforing', 'egen konto', 'straksbetaling', 'mobilepay'],
+    confidence: 0.9,
+  },
+
+  // Savings
+  {
+    category: 'sparing',
+    keywords: ['bsu', 'sparekonto', 'høyrente', 'hoyrente', 'aksjesparekonto', 'fondssparing', 'nordnet', 'kron ', 'firi'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Groceries
+  {
+    category: 'mat',
+    keywords: ['rema 1000', 'rema1000', 'kiwi', 'meny', 'coop', 'extra ', 'obs ', 'spar ', 'joker', 'bunnpris', 'oda.com', 'oda ', 'europris', 'matkroken', 'nærbutikken'],
+    direction: 'expense',
+    confidence: 0.95,
+  },
+
+  // Restaurants & takeaway
+  {
+    category: 'restaurant',
+    keywords: ['foodora', 'wolt', 'just eat', 'mcdonald', 'burger king', 'max burgers', 'peppes', 'dolly dimple', 'starbucks', 'espresso house', 'kaffebrenneriet', 'restaurant', 'kafe', 'café', 'sushi', 'pizza'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Transport
+  {
+    category: 'transport',
+    keywords: ['ruter', 'vy ', 'vy.no', 'skyss', 'atb ', 'kolumbus', 'flytoget', 'norwegian air', 'sas ', 'widerøe', 'wideroe', 'circle k', 'esso', 'shell', 'uno-x', 'yx ', 'bompenger', 'autopass', 'fjellinjen', 'easypark', 'apcoa', 'onepark', 'taxi', 'uber', 'bolt'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Electricity & energy
+  {
+    category: 'strom',
+    keywords: ['tibber', 'fjordkraft', 'hafslund', 'elvia', 'fortum', 'ishavskraft', 'lyse', 'nettleie', 'strøm', 'strom '],
+    direction: 'expense',
+    confidence: 0.95,
+  },
+
+  // Housing
+  {
+    category: 'bolig',
+    keywords: ['husleie', 'felleskostnader', 'borettslag', 'obos', 'usbl', 'kommunale avgifter', 'eiendomsskatt'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Insurance
+  {
+    category: 'forsikring',
+    keywords: ['forsikring', 'gjensidige', 'if skadeforsikring', 'tryg', 'fremtind', 'storebrand forsikring', 'frende'],
+    direction: 'expense',
+    confidence: 0.95,
+  },
+
+  // Loans & interest
+  {
+    category: 'lan',
+    keywords: ['lånekassen', 'lanekassen', 'avdrag', 'renter', 'kredittkort', 'santander', 'bank norwegian', 'komplett bank', 'instabank'],
+    direction: 'expense',
+    confidence: 0.85,
+  },
+
+  // Subscriptions
+  {
+    category: 'abonnement',
+    keywords: ['netflix', 'spotify', 'hbo', 'max.com', 'disney', 'viaplay', 'tv 2 play', 'tv2 play', 'apple.com', 'google one', 'youtube premium', 'telenor', 'telia', 'ice.no', 'talkmore', 'altibox', 'get ', 'chatgpt', 'adobe'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Fitness
+  {
+    category: 'trening',
+    keywords: ['sats', 'evo fitness', 'fresh fitness', '3t ', 'actic', 'treningssenter'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Health
+  {
+    category: 'helse',
+    keywords: ['apotek', 'vitusapotek', 'boots', 'legesenter', 'legevakt', 'tannlege', 'fysioterapi', 'optiker', 'specsavers'],
+    direction: 'expense',
+    confidence: 0.9,
+  },
+
+  // Clothing
+  {
+    category: 'klaer',
+    keywords: ['h&m', 'zara', 'cubus', 'dressmann', 'carlings', 'bik bok', 'vivikes', 'zalando', 'xxl', 'intersport', 'skoringen', 'eurosko'],
+    direction: 'expense',
+    confidence: 0.85,
+  },
+
+  // Entertainment
+  {
+    category: 'underholdning',
+    keywords: ['kino', 'nordisk film', 'ticketmaster', 'billettservice', 'steam', 'playstation', 'xbox', 'nintendo'],
+    direction: 'expense',
+    confidence: 0.85,
+  },
+]
+
+// ── Matcher ─────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the first rule matching a transaction, or null if no rule applies.
+ * Matching is case-insensitive on "counterpart + description".
+ */
+export function categorizeByRules(tx: RuleInput): RuleMatch | null {
+  // Pad with spaces so keywords ending in a space ("vy ", "obs ") also match at the end
+  const haystack = ` ${tx.counterpart_name ?? ''} ${tx.description ?? ''} `.toLowerCase()
+  if (haystack.trim() === '') return null
+
+  const direction = tx.amount < 0 ? 'expense' : 'income'
+
+  for (const rule of CATEGORIZATION_RULES) {
+    if (rule.direction && rule.direction !== direction) continue
+    if (rule.keywords.some((kw) => haystack.includes(kw))) {
+      return { category: rule.category, confidence: rule.confidence }
+    }
+  }
+
+  return null
+}
@@ -113,3 +113,8 @@ export type SpendingCategory = keyof typeof SPENDING_CATEGORIES
 
 /** All category keys as an array (useful for Zod enums and selects) */
 export const CATEGORY_KEYS = Object.keys(SPENDING_CATEGORIES) as SpendingCategory[]
+
+/** Categories a user can set a monthly budget for (excludes income, transfers, uncategorized) */
+export const BUDGETABLE_CATEGORY_KEYS = CATEGORY_KEYS.filter(
+  (key) => !['inntekt', 'overforinger', 'ukategorisert'].includes(key)
+) as [SpendingCategory, ...SpendingCategory[]]
@@ -0,0 +1,16 @@
+/**
+ * How a document's extracted_text was produced — single source of truth.
+ *
+ * Used by: text extraction (server), detect-pii route, DocumentCard,
+ * RedactionPreview. Kept apart from lib/redaction/text-extraction so client
+ * components can show the label without bundling the PDF reader.
+ */
+
+export const EXTRACTION_METHODS = ['pdf_text_layer', 'plain_text', 'remote_ocr'] as const
+export type ExtractionMethod = (typeof EXTRACTION_METHODS)[number]
+
+export const EXTRACTION_METHOD_META: Record<ExtractionMethod, { label: string; leftServer: boolean }> = {
+  pdf_text_layer: { label: "Read on Aura's server from the PDF's text layer", leftServer: false },
+  plain_text: { label: "Read on Aura's server as plain text", leftServer: false },
+  remote_ocr: { label: 'Transcribed by Claude (remote OCR) — the unredacted file was sent', leftServer: true },
+}
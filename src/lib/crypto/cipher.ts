@@ -0,0 +1,78 @@
+/**
+ * Encryption primitives for data stored in the database.
+ *
+ * AES-256-GCM with a fresh 96-bit IV per value. Ciphertexts are stored as
+ * "v1.<iv>.<tag>.<data>" (base64url) so the format can change later.
+ *
+ * The master key (ENCRYPTION_MASTER_KEY) only wraps per-user data keys —
+ * see envelope.ts. During a rotation the outgoing key is kept in
+ * ENCRYPTION_MASTER_KEY_PREVIOUS until /api/account/rotate-keys has
+ * re-wrapped every data key.
+ *
+ * IMPORTANT: This module is server-side only.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const VERSION = 'v1'
+
+/** "v1." + 12-byte IV + 16-byte tag, base64url */
+const CIPHERTEXT_FORMAT = /^v1\.[\w-]{16}\.[\w-]{22}\.[\w-]*$/
+
+export interface MasterKey {
+  /** Fingerprint stored next to each wrapped key, to pick the key that unwraps it */
+  id: string
+  key: Buffer
+}
+
+function parseMasterKey(name: string, required: boolean): MasterKey | null {
+  const hex = process.env[name]
+  if (!hex && !required) return null
+  if (!hex || !/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error(
+      `${name} environment variable must be 32 bytes of hex. ` +
+      'Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"'
+    )
+  }
+  const key = Buffer.from(hex, 'hex')
+  return { id: keyedHash('master-key-id', key).slice(0, 16), key }
+}
+
+export function getMasterKeys(): { current: MasterKey; previous: MasterKey | null } {
+  return {
+    current: parseMasterKey('ENCRYPTION_MASTER_KEY', true)!,
+    previous: parseMasterKey('ENCRYPTION_MASTER_KEY_PREVIOUS', false),
+  }
+}
+
+/** A subkey for one purpose, so no key is used for both encryption and hashing */
+export function deriveKey(key: Buffer, purpose: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), purpose, 32))
+}
+
+export function isCiphertext(value: unknown): value is string {
+  return typeof value === 'string' && CIPHERTEXT_FORMAT.test(value)
+}
+
+export function encryptText(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return [VERSION, ...[iv, tag, data].map((part) => part.toString('base64url'))].join('.')
+}
+
+/** Throws if the payload was tampered with or encrypted under another key */
+export function decryptText(payload: string, key: Buffer): string {
+  if (!isCiphertext(payload)) throw new Error('Unrecognised ciphertext format')
+  const [, iv, tag, data] = payload.split('.')
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf-8')
+}
+
+/** Deterministic HMAC-SHA256 — for finding a value without decrypting every row */
+export function keyedHash(value: string, key: Buffer): string {
+  return createHmac('sha256', key).update(value).digest('hex')
+}
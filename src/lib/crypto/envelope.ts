@@ -0,0 +1,122 @@
+/**
+ * Envelope encryption — one data key per user, wrapped by the master key.
+ *
+ * The most sensitive columns are encrypted with the owner's data key:
+ *   - documents.extracted_text, redaction_map, pii_detections
+ *   - accounts.iban
+ *   - transactions.raw_data
+ *   - pii_entities (the Privacy Shield registry)
+ * The data key is stored only wrapped (user_data_keys, migration 025), so a
+ * database dump reads nothing without the server's master key, and deleting
+ * a user's key row makes everything encrypted under it unrecoverable.
+ *
+ * Rows written before migration 026 are still plaintext. `decrypt` passes
+ * them through until /api/account/rotate-keys has encrypted them.
+ *
+ * IMPORTANT: This module is server-side only.
+ */
+
+import { randomBytes } from 'crypto'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import {
+  decryptText,
+  deriveKey,
+  encryptText,
+  getMasterKeys,
+  isCiphertext,
+  keyedHash,
+  type MasterKey,
+} from './cipher'
+
+export interface UserCipher {
+  encrypt(plaintext: string): string
+  /** Plaintext from before migration 026 is returned as is */
+  decrypt(value: string): string
+  /** For JSONB columns — the ciphertext is stored as a JSON string */
+  encryptJson(value: unknown): string
+  decryptJson<T>(value: T | string): T
+  /** Keyed hash for lookups — tied to the data key, so it dies with it too */
+  hash(value: string): string
+}
+
+export function wrapDataKey(dataKey: Buffer, master: MasterKey): string {
+  return encryptText(dataKey.toString('base64'), master.key)
+}
+
+/** Unwraps with whichever master key wrapped it — current, or previous mid-rotation */
+export function unwrapDataKey(wrappedKey: string, masterKeyId: string): Buffer {
+  const { current, previous } = getMasterKeys()
+  const master = [current, previous].find((k) => k?.id === masterKeyId)
+  if (!master) {
+    throw new Error('Data key was wrapped by an unknown master key. Set ENCRYPTION_MASTER_KEY_PREVIOUS to the old key.')
+  }
+  return Buffer.from(decryptText(wrappedKey, master.key), 'base64')
+}
+
+export function createUserCipher(dataKey: Buffer): UserCipher {
+  const hashKey = deriveKey(dataKey, 'lookup-hash')
+
+  return {
+    encrypt: (plaintext) => encryptText(plaintext, dataKey),
+    decrypt: (value) => (isCiphertext(value) ? decryptText(value, dataKey) : value),
+    encryptJson: (value) => encryptText(JSON.stringify(value), dataKey),
+    decryptJson: <T>(value: T | string) =>
+      isCiphertext(value) ? (JSON.parse(decryptText(value, dataKey)) as T) : (value as T),
+    hash: (value) => keyedHash(value, hashKey),
+  }
+}
+
+// Service role client — users can read their wrapped key, but only the server
+// creates or deletes one
+function createServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
+
+/**
+ * The user's cipher, creating their data key on first use. Reads with the
+ * client passed in (the user's own, or the service role); a missing key is
+ * created through the service role.
+ */
+export async function getUserCipher(supabase: SupabaseClient, userId: string): Promise<UserCipher> {
+  const { data: existing, error } = await supabase
+    .from('user_data_keys')
+    .select('wrapped_key, master_key_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load data key: ${error.message}`)
+  if (existing) return createUserCipher(unwrapDataKey(existing.wrapped_key, existing.master_key_id))
+
+  const service = createServiceClient()
+  const { current } = getMasterKeys()
+  const { error: insertError } = await service
+    .from('user_data_keys')
+    .upsert(
+      { user_id: userId, wrapped_key: wrapDataKey(randomBytes(32), current), master_key_id: current.id },
+      { onConflict: 'user_id', ignoreDuplicates: true }
+    )
+  if (insertError) throw new Error(`Failed to create data key: ${insertError.message}`)
+
+  // Read back rather than use the generated key — a concurrent request may have won
+  const { data: created, error: reloadError } = await service
+    .from('user_data_keys')
+    .select('wrapped_key, master_key_id')
+    .eq('user_id', userId)
+    .single()
+  if (reloadError || !created) throw new Error(`Failed to load data key: ${reloadError?.message}`)
+
+  return createUserCipher(unwrapDataKey(created.wrapped_key, created.master_key_id))
+}
+
+/**
+ * Crypto-shredding: once the key row is gone, nothing encrypted under it
+ * can be decrypted again — including copies of the rows in logs or exports.
+ * Needs a service role client; users can't delete their own key.
+ */
+export async function destroyUserDataKey(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase.from('user_data_keys').delete().eq('user_id', userId)
+  if (error) throw new Error(`Failed to delete data key: ${error.message}`)
+}
@@ -0,0 +1,146 @@
+/**
+ * Key rotation, plus the encryption backfill for migration 026.
+ *
+ * 1. Re-wraps every data key that isn't wrapped by the current master key.
+ *    To rotate the master key: move the old value to
+ *    ENCRYPTION_MASTER_KEY_PREVIOUS, set a new ENCRYPTION_MASTER_KEY, deploy,
+ *    run this job, then remove the previous key. Data keys stay the same, so
+ *    no data has to be re-encrypted.
+ * 2. Encrypts values still stored in plaintext from before migration 026.
+ *
+ * Safe to re-run — once everything is current it changes nothing.
+ * Must be called with a service role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getMasterKeys, isCiphertext } from './cipher'
+import { getUserCipher, unwrapDataKey, wrapDataKey, type UserCipher } from './envelope'
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+const PAGE_SIZE = 500
+/** Cursor start for keyset pagination over UUID keys */
+const FIRST_ID = '00000000-0000-0000-0000-000000000000'
+
+/** Columns encrypted with the owner's data key (text as is, JSONB as JSON) */
+const ENCRYPTED_COLUMNS = [
+  { table: 'documents', columns: ['extracted_text', 'redaction_map', 'pii_detections'] },
+  { table: 'accounts', columns: ['iban'] },
+  { table: 'transactions', columns: ['raw_data'] },
+] as const
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface KeyRotationSummary {
+  keysRewrapped: number
+  valuesEncrypted: number
+  errors: string[]
+}
+
+// ── 1. Re-wrap data keys ────────────────────────────────────────────────────
+
+async function rewrapDataKeys(supabase: SupabaseClient, summary: KeyRotationSummary): Promise<void> {
+  const { current } = getMasterKeys()
+  let after = FIRST_ID
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('user_data_keys')
+      .select('user_id, wrapped_key, master_key_id')
+      .neq('master_key_id', current.id)
+      .gt('user_id', after)
+      .order('user_id', { ascending: true })
+      .limit(PAGE_SIZE)
+
+    if (error) throw new Error(`Failed to load data keys: ${error.message}`)
+    const rows = data ?? []
+
+    for (const row of rows) {
+      try {
+        const dataKey = unwrapDataKey(row.wrapped_key, row.master_key_id)
+        const { error: updateError } = await supabase
+          .from('user_data_keys')
+          .update({ wrapped_key: wrapDataKey(dataKey, current), master_key_id: current.id, rotated_at: new Date().toISOString() })
+          .eq('user_id', row.user_id)
+          .eq('master_key_id', row.master_key_id)
+        if (updateError) throw new Error(updateError.message)
+        summary.keysRewrapped++
+      } catch (err) {
+        summary.errors.push(`Failed to re-wrap a data key: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) return
+    after = rows[rows.length - 1].user_id
+  }
+}
+
+// ── 2. Encrypt plaintext columns ────────────────────────────────────────────
+
+async function encryptPlaintext(
+  supabase: SupabaseClient,
+  ciphers: (userId: string) => Promise<UserCipher>,
+  summary: KeyRotationSummary
+): Promise<void> {
+  for (const { table, columns } of ENCRYPTED_COLUMNS) {
+    let after = FIRST_ID
+
+    for (;;) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(`id, user_id, ${columns.join(', ')}`)
+        .gt('id', after)
+        .order('id', { ascending: true })
+        .limit(PAGE_SIZE)
+
+      if (error) throw new Error(`Failed to load ${table}: ${error.message}`)
+      const rows = (data ?? []) as unknown as Array<Record<string, unknown> & { id: string; user_id: string }>
+
+      for (const row of rows) {
+        const plaintext = columns.filter((c) => row[c] !== null && row[c] !== undefined && !isCiphertext(row[c]))
+        if (plaintext.length === 0) continue
+
+        try {
+          const cipher = await ciphers(row.user_id)
+          const update: Record<string, string> = {}
+          for (const column of plaintext) {
+            const value = row[column]
+            update[column] = typeof value === 'string' ? cipher.encrypt(value) : cipher.encryptJson(value)
+          }
+          const { error: updateError } = await supabase.from(table).update(update).eq('id', row.id)
+          if (updateError) throw new Error(updateError.message)
+          summary.valuesEncrypted += plaintext.length
+        } catch (err) {
+          summary.errors.push(`Failed to encrypt a ${table} row: ${err instanceof Error ? err.message : 'Unknown error'}`)
+        }
+      }
+
+      if (rows.length < PAGE_SIZE) break
+      after = rows[rows.length - 1].id
+    }
+  }
+}
+
+// ── Main entry point ────────────────────────────────────────────────────────
+
+export async function rotateKeys(supabase: SupabaseClient): Promise<KeyRotationSummary> {
+  const summary: KeyRotationSummary = {
+    keysRewrapped: 0,
+    valuesEncrypted: 0,
+    errors: [],
+  }
+
+  // Re-wrap first, so every cipher below unwraps with the current key
+  await rewrapDataKeys(supabase, summary)
+
+  // One cipher per user for the whole run (creates data keys where missing)
+  const cache = new Map<string, Promise<UserCipher>>()
+  const ciphers = (userId: string) => {
+    if (!cache.has(userId)) cache.set(userId, getUserCipher(supabase, userId))
+    return cache.get(userId)!
+  }
+
+  await encryptPlaintext(supabase, ciphers, summary)
+
+  return summary
+}
@@ -0,0 +1,51 @@
+/**
+ * NOK conversion for aggregates.
+ *
+ * Pure functions over a RateTable (see rates.ts) — safe to use in client
+ * components when the server passes the table down. A currency without a
+ * rate is left out of totals rather than summed as if it were NOK; callers
+ * can list those with missingCurrencies() and say so.
+ */
+
+import type { RateTable } from './rates'
+
+export const BASE_CURRENCY = 'NOK'
+
+/** Three-letter code, upper-cased; empty or missing means NOK */
+function normalize(currency: string | null | undefined): string {
+  return currency?.trim().toUpperCase() || BASE_CURRENCY
+}
+
+export function isBaseCurrency(currency: string | null | undefined): boolean {
+  return normalize(currency) === BASE_CURRENCY
+}
+
+export function sameCurrency(a: string | null | undefined, b: string | null | undefined): boolean {
+  return normalize(a) === normalize(b)
+}
+
+/** `amount` in NOK, or null when there is no rate for `currency` */
+export function toNOK(amount: number, currency: string | null | undefined, rates: RateTable): number | null {
+  const code = normalize(currency)
+  if (code === BASE_CURRENCY) return amount
+  const rate = rates.rates[code]
+  return rate ? amount * rate : null
+}
+
+/** Sum in NOK; rows in currencies without a rate are skipped */
+export function sumNOK(
+  rows: Array<{ amount: number | string; currency?: string | null }>,
+  rates: RateTable
+): number {
+  return rows.reduce((sum, row) => sum + (toNOK(Number(row.amount), row.currency, rates) ?? 0), 0)
+}
+
+/** Currencies in `rows` that sumNOK() had to leave out */
+export function missingCurrencies(rows: Array<{ currency?: string | null }>, rates: RateTable): string[] {
+  const missing = new Set<string>()
+  for (const row of rows) {
+    const code = normalize(row.currency)
+    if (code !== BASE_CURRENCY && !rates.rates[code]) missing.add(code)
+  }
+  return [...missing]
+}
@@ -0,0 +1,143 @@
+/**
+ * Exchange rates — how many NOK one unit of a foreign currency is worth.
+ *
+ * Aura aggregates everything in NOK. Accounts and transactions keep their
+ * own currency; totals convert through a RateTable from one of these
+ * providers:
+ *
+ *   - 'norges-bank' (default): Norges Bank's daily reference rates, cached
+ *     in memory for RATE_CACHE_TTL_MS. Falls back to the static table when
+ *     the API can't be reached, so a rate outage never breaks a page.
+ *   - 'static': the bundled static-rates.json snapshot — offline development
+ *     and deterministic runs. Select with EXCHANGE_RATE_PROVIDER=static.
+ *
+ * Server-only: called from pages, API routes and the notification engine.
+ */
+
+import staticRates from './static-rates.json'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface RateTable {
+  /** Date the rates apply to, "yyyy-mm-dd" */
+  date: string
+  /** Where the rates came from — shown next to converted totals */
+  source: string
+  /** NOK per 1 unit of each currency (NOK itself is implicit) */
+  rates: Record<string, number>
+}
+
+export interface ExchangeRateProvider {
+  name: string
+  getRates(): Promise<RateTable>
+}
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+const NORGES_BANK_URL = 'https://data.norges-bank.no/api/data/EXR/B..NOK.SP'
+const RATE_CACHE_TTL_MS = 12 * 60 * 60 * 1000 // Rates are published once per banking day
+const RATE_FETCH_TIMEOUT_MS = 5000
+const RATE_RETRY_MS = 10 * 60 * 1000 // After a failed fetch, don't retry on every request
+
+// ── Providers ───────────────────────────────────────────────────────────────
+
+const STATIC_RATES: RateTable = {
+  date: staticRates.date,
+  source: staticRates.source,
+  rates: staticRates.rates,
+}
+
+export const staticRateProvider: ExchangeRateProvider = {
+  name: 'static',
+  getRates: async () => STATIC_RATES,
+}
+
+/** SDMX-JSON as returned by data.norges-bank.no — only the parts we read */
+interface SdmxResponse {
+  data: {
+    dataSets: Array<{
+      series: Record<string, { attributes: number[]; observations: Record<string, [string]> }>
+    }>
+    structure: {
+      dimensions: {
+        series: Array<{ id: string; values: Array<{ id: string }> }>
+        observation: Array<{ id: string; values: Array<{ id: string }> }>
+      }
+      attributes: { series: Array<{ id: string; values: Array<{ id: string }> }> }
+    }
+  }
+}
+
+/**
+ * Reads the last observation of each BASE_CUR series. Some currencies are
+ * quoted per 100 units (UNIT_MULT = 2, e.g. JPY, SEK) — divided back to 1.
+ */
+export function parseNorgesBankRates(json: SdmxResponse): RateTable {
+  const { dataSets, structure } = json.data
+  const dims = structure.dimensions.series
+  const baseIndex = dims.findIndex((d) => d.id === 'BASE_CUR')
+  const multIndex = structure.attributes.series.findIndex((a) => a.id === 'UNIT_MULT')
+  if (baseIndex < 0 || !dataSets[0]) {
+    throw new Error('Unexpected Norges Bank response')
+  }
+
+  const periods = structure.dimensions.observation.find((d) => d.id === 'TIME_PERIOD')?.values ?? []
+  const rates: Record<string, number> = {}
+  let date = ''
+  for (const [key, series] of Object.entries(dataSets[0].series)) {
+    const currency = dims[baseIndex].values[Number(key.split(':')[baseIndex])]?.id
+    const observations = Object.entries(series.observations)
+    const [periodIndex, last] = observations[observations.length - 1] ?? []
+    const value = Number(last?.[0])
+    if (!currency || !Number.isFinite(value) || value <= 0) continue
+
+    const multValue = multIndex >= 0 ? structure.attributes.series[multIndex].values[series.attributes[multIndex]]?.id : '0'
+    rates[currency] = value / 10 ** Number(multValue ?? 0)
+
+    const period = periods[Number(periodIndex)]?.id
+    if (period && period > date) date = period
+  }
+
+  if (Object.keys(rates).length === 0) {
+    throw new Error('No rates in Norges Bank response')
+  }
+  return { date: date || new Date().toISOString().split('T')[0], source: 'Norges Bank', rates }
+}
+
+let cached: { table: RateTable; expiresAt: number } | null = null
+
+export const norgesBankRateProvider: ExchangeRateProvider = {
+  name: 'norges-bank',
+  async getRates() {
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.table
+    }
+
+    try {
+      const res = await fetch(`${NORGES_BANK_URL}?format=sdmx-json&lastNObservations=1`, {
+        signal: AbortSignal.timeout(RATE_FETCH_TIMEOUT_MS),
+      })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      const table = parseNorgesBankRates(await res.json())
+      cached = { table, expiresAt: Date.now() + RATE_CACHE_TTL_MS }
+      return table
+    } catch (err) {
+      console.error('[FX] Norges Bank rates unavailable, using static rates:', err instanceof Error ? err.message : 'Unknown')
+      // Serve last known rates if we have them, else the bundled snapshot
+      const table = cached?.table ?? STATIC_RATES
+      cached = { table, expiresAt: Date.now() + RATE_RETRY_MS }
+      return table
+    }
+  },
+}
+
+// ── Entry point ─────────────────────────────────────────────────────────────
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  return process.env.EXCHANGE_RATE_PROVIDER === 'static' ? staticRateProvider : norgesBankRateProvider
+}
+
+/** Current rate table from the configured provider */
+export function getExchangeRates(): Promise<RateTable> {
+  return getExchangeRateProvider().getRates()
+}
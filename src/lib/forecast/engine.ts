@@ -1,11 +1,21 @@
 /**
  * Cash flow forecast engine — pure projection logic, no DB calls.
  *
- * Takes the user's current balance, upcoming bills, detected recurring income,
- * and user-created planned events, then projects a day-by-day balance trajectory.
+ * Takes the user's current balance, upcoming bills, learned income streams
+ * (see income.ts), user-created planned events and savings goal contributions,
+ * then projects a day-by-day balance trajectory. Bills and planned events
+ * repeat on the shared schedules in recurrence/schedule.ts.
+ *
+ * With a spending model (see spending.ts) day-to-day spending is drawn down
+ * on top, and each point gets a low/high band: the 10th and 90th percentile
+ * of the balance, widening with the square root of days ahead.
  */
 
 import type { ForecastPoint, ForecastEvent } from '@/types/financial'
+import { projectIncome, type IncomeStream } from './income'
+import type { SpendingModel } from './spending'
+import { occurrencesBetween, type RecurrenceRule } from '@/lib/recurrence/schedule'
+import { toISODate } from '@/lib/utils/date-utils'
 
 // ── Input types ──────────────────────────────────────────────────────────────
 
@@ -14,12 +24,8 @@ interface BillInput {
   amount: number // Always positive (it's a bill)
   dueDate: string // ISO "yyyy-mm-dd"
   recurrence: string | null
-}
-
-interface IncomeInput {
-  name: string
-  amount: number // Always positive
-  lastDate: string // ISO "yyyy-mm-dd" — most recent occurrence
+  rule?: RecurrenceRule // Interval, month-end, business-day shift, end (see recurrence/schedule.ts)
+  endDate?: string | null // ISO "yyyy-mm-dd" — no occurrences after this (cancelled in a scenario)
 }
 
 interface PlannedInput {
@@ -29,91 +35,28 @@ interface PlannedInput {
   recurrence: string | null
 }
 
+export interface SavingsInput {
+  name: string
+  amount: number // Always positive (money moved into savings)
+  day: number // Day of month, 1–28
+  endDate: string | null // ISO "yyyy-mm-dd" — no contributions after this (goal deadline)
+  remaining: number // Stop once this much has been set aside
+}
+
 export interface ForecastInput {
   currentBalance: number
   bills: BillInput[]
-  recurringIncome: IncomeInput[]
+  recurringIncome: IncomeStream[]
   plannedEvents: PlannedInput[]
+  savingsContributions?: SavingsInput[]
+  spending?: SpendingModel | null
   days: number // 30, 60, or 90
 }
 
-// ── Recurrence projection ────────────────────────────────────────────────────
-
-/**
- * Projects future dates for a recurring event.
- * Returns all occurrence dates within [rangeStart, rangeEnd].
- */
-function projectRecurrence(
-  startDateStr: string,
-  recurrence: string | null,
-  rangeStart: Date,
-  rangeEnd: Date
-): string[] {
-  if (!recurrence || recurrence === 'once') {
-    // Single occurrence — include if within range
-    const d = new Date(startDateStr)
-    if (d >= rangeStart && d <= rangeEnd) {
-      return [startDateStr]
-    }
-    return []
-  }
+/** z-score of the 90th percentile — the bands cover the middle 80% of outcomes */
+const BAND_Z = 1.2816
 
-  const dates: string[] = []
-  const start = new Date(startDateStr)
-
-  // Generate occurrences starting from the original date, going forward and backward
-  // to cover the range. We start from the original date and step in both directions.
-  const intervals: Record<string, (d: Date, n: number) => Date> = {
-    weekly: (d, n) => {
-      const r = new Date(d)
-      r.setDate(r.getDate() + 7 * n)
-      return r
-    },
-    monthly: (d, n) => {
-      const r = new Date(d)
-      r.setMonth(r.getMonth() + n)
-      return r
-    },
-    quarterly: (d, n) => {
-      const r = new Date(d)
-      r.setMonth(r.getMonth() + 3 * n)
-      return r
-    },
-    yearly: (d, n) => {
-      const r = new Date(d)
-      r.setFullYear(r.getFullYear() + n)
-      return r
-    },
-  }
-
-  const step = intervals[recurrence]
-  if (!step) return [startDateStr]
-
-  // Find the first occurrence at or after rangeStart
-  let n = 0
-  // Step backward if start is after rangeStart
-  while (step(start, n) > rangeEnd) n--
-  // Step forward to find first occurrence at or after rangeStart
-  while (step(start, n) < rangeStart) n++
-
-  // Collect all occurrences within range
-  let current = step(start, n)
-  while (current <= rangeEnd) {
-    dates.push(toISODate(current))
-    n++
-    current = step(start, n)
-  }
-
-  return dates
-}
-
-/** Convert a Date to "yyyy-mm-dd" string */
-function toISODate(d: Date): string {
-  const y = d.getFullYear()
-  const m = String(d.getMonth() + 1).padStart(2, '0')
-  const day = String(d.getDate()).padStart(2, '0')
-  return `${y}-${m}-${day}`
-}
+// ── Helpers ──────────────────────────────────────────────────────────────────
 
 /** Format as "dd.mm" for chart axis labels */
 function toChartLabel(dateStr: string): string {
@@ -124,7 +67,7 @@ function toChartLabel(dateStr: string): string {
 // ── Main forecast builder ────────────────────────────────────────────────────
 
 export function buildForecast(input: ForecastInput): ForecastPoint[] {
-  const { currentBalance, bills, recurringIncome, plannedEvents, days } = input
+  const { currentBalance, bills, recurringIncome, plannedEvents, savingsContributions = [], spending, days } = input
 
   const today = new Date()
   today.setHours(0, 0, 0, 0)
@@ -139,10 +82,14 @@ export function buildForecast(input: ForecastInput): ForecastPoint[] {
     buckets.set(toISODate(d), [])
   }
 
+  const from = toISODate(today)
+  const to = toISODate(rangeEnd)
+
   // Place bills (negative events)
   for (const bill of bills) {
-    const dates = projectRecurrence(bill.dueDate, bill.recurrence, today, rangeEnd)
+    const dates = occurrencesBetween({ start: bill.dueDate, frequency: bill.recurrence, ...bill.rule }, from, to)
     for (const date of dates) {
+      if (bill.endDate && date > bill.endDate) break
       const bucket = buckets.get(date)
       if (bucket) {
         bucket.push({
@@ -154,16 +101,14 @@ export function buildForecast(input: ForecastInput): ForecastPoint[] {
     }
   }
 
-  // Place recurring income (positive events)
+  // Place recurring income (positive events) on each stream's pay-day rule
   for (const income of recurringIncome) {
-    // Project monthly from the last known occurrence
-    const dates = projectRecurrence(income.lastDate, 'monthly', today, rangeEnd)
-    for (const date of dates) {
-      const bucket = buckets.get(date)
+    for (const payment of projectIncome(income, from, to)) {
+      const bucket = buckets.get(payment.date)
       if (bucket) {
         bucket.push({
-          name: income.name,
-          amount: Math.abs(income.amount),
+          name: payment.note ? `${income.name} (${payment.note})` : income.name,
+          amount: Math.abs(payment.amount),
           source: 'income',
         })
       }
@@ -172,7 +117,7 @@ export function buildForecast(input: ForecastInput): ForecastPoint[] {
 
   // Place planned events
   for (const event of plannedEvents) {
-    const dates = projectRecurrence(event.eventDate, event.recurrence, today, rangeEnd)
+    const dates = occurrencesBetween({ start: event.eventDate, frequency: event.recurrence }, from, to)
     for (const date of dates) {
       const bucket = buckets.get(date)
       if (bucket) {
@@ -185,23 +130,50 @@ export function buildForecast(input: ForecastInput): ForecastPoint[] {
     }
   }
 
-  // Walk chronologically, carrying running balance
+  // Place savings contributions (monthly outflows, capped at what's left of the goal)
+  for (const saving of savingsContributions) {
+    let left = saving.remaining
+    const cursor = new Date(today.getFullYear(), today.getMonth(), saving.day)
+    while (cursor <= rangeEnd && left > 0) {
+      const date = toISODate(cursor)
+      if (saving.endDate && date > saving.endDate) break
+      const bucket = cursor > today ? buckets.get(date) : undefined
+      if (bucket) {
+        const amount = Math.min(saving.amount, left)
+        left -= amount
+        bucket.push({
+          name: saving.name,
+          amount: -amount,
+          source: 'savings',
+        })
+      }
+      cursor.setMonth(cursor.getMonth() + 1)
+    }
+  }
+
+  // Walk chronologically, carrying running balance. Day 0 is today, whose
+  // spending is already in the balance; variable spending starts tomorrow.
   const points: ForecastPoint[] = []
   let balance = currentBalance
 
   const sortedDates = [...buckets.keys()].sort()
-  for (const date of sortedDates) {
+  sortedDates.forEach((date, day) => {
     const events = buckets.get(date)!
     const dayTotal = events.reduce((sum, e) => sum + e.amount, 0)
     balance += dayTotal
 
+    const expected = balance - (spending ? spending.dailyMean * day : 0)
+    const spread = spending ? BAND_Z * Math.sqrt(spending.dailyVariance * day) : 0
+
     points.push({
       date,
-      balance: Math.round(balance), // Round to whole kr for clean display
+      balance: Math.round(expected), // Round to whole kr for clean display
+      low: Math.round(expected - spread),
+      high: Math.round(expected + spread),
       label: toChartLabel(date),
       events,
     })
-  }
+  })
 
   return points
 }
@@ -0,0 +1,280 @@
+/**
+ * Income model — learns when and how much each income stream pays from
+ * transaction history, instead of assuming "same amount, same date, every
+ * month" from the last payment.
+ *
+ * Norwegian pay has a few regular quirks this picks up:
+ *   - Pay-day rules like "the 25th, or the last business day before it" or
+ *     "the last business day of the month" — weekends and helligdager move
+ *     the date (see utils/norwegian-calendar)
+ *   - Feriepenger in June — a different June salary, or a payment of its own
+ *   - Half tax (halv skatt) in November/December — a higher net salary
+ *
+ * Seasonal amounts only come from history: with less than a year of data a
+ * stream pays its usual amount every month.
+ *
+ * Pure logic (no DB calls) — the forecast page loads and converts history.
+ */
+
+import { normalizeName } from '@/lib/recurring/detector'
+import {
+  businessDayOnOrAfter,
+  businessDayOnOrBefore,
+  clampedDayOfMonth,
+  lastBusinessDayOfMonth,
+} from '@/lib/utils/norwegian-calendar'
+import { toISODate } from '@/lib/utils/date-utils'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface IncomeTransaction {
+  transaction_date: string // ISO "yyyy-mm-dd"
+  amount: number // In NOK
+  description: string | null
+  counterpart_name: string | null
+}
+
+export type PayDayRule =
+  | { kind: 'day-of-month'; day: number; shift: 'before' | 'after' } // Shift off non-business days
+  | { kind: 'last-business-day' }
+
+export interface IncomeStream {
+  name: string
+  rule: PayDayRule
+  /** Usual amount — median of recent ordinary months */
+  amount: number
+  /** Month (1–12) → amount, where history shows that month paying differently */
+  seasonalAmounts: Record<number, number>
+  /** Months the stream pays in (holiday pay: [6]); null = every month */
+  months: number[] | null
+  lastDate: string
+}
+
+export interface ProjectedIncome {
+  date: string
+  amount: number
+  /** Why this month differs, e.g. "holiday pay" — null for a regular month */
+  note: string | null
+}
+
+// ── Tuning ──────────────────────────────────────────────────────────────────
+
+/** Months of pay needed before a stream is projected */
+const MIN_MONTHS = 3
+/** Recent ordinary months the usual amount is taken from — short, so a raise shows up quickly */
+const BASE_WINDOW = 3
+/** A stream with no payment for this long has stopped (job change, leave) */
+const STALE_AFTER_DAYS = 45
+/** Share of past payments a pay-day rule must explain to be trusted */
+const MIN_RULE_FIT = 0.6
+/** Seasonal month amounts closer than this to the usual amount are ignored */
+const SEASONAL_THRESHOLD = 0.1
+
+/** Months where Norwegian net pay regularly differs, and why */
+const SEASONAL_MONTHS: Record<number, string> = {
+  6: 'holiday pay',
+  11: 'half tax',
+  12: 'half tax',
+}
+
+const HOLIDAY_PAY_PATTERN = /feriepeng|holiday pay/i
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((new Date(b).getTime() - new Date(a).getTime()) / (1000 * 60 * 60 * 24))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+function monthOf(dateStr: string): number {
+  return Number(dateStr.slice(5, 7))
+}
+
+// ── Pay-day rules ───────────────────────────────────────────────────────────
+
+/** The date a rule pays on in a given month (month is 1–12) */
+export function payDate(rule: PayDayRule, year: number, month: number): string {
+  if (rule.kind === 'last-business-day') return lastBusinessDayOfMonth(year, month)
+  const nominal = clampedDayOfMonth(year, month, rule.day)
+  return rule.shift === 'before' ? businessDayOnOrBefore(nominal) : businessDayOnOrAfter(nominal)
+}
+
+/**
+ * Picks the rule that explains the most past pay dates. Candidates are tried
+ * in order and only replaced by a strictly better fit, so ties go to the
+ * simplest explanation: last business day, then the most common day of month.
+ */
+export function inferPayDayRule(dates: string[]): PayDayRule {
+  const dayCounts = new Map<number, number>()
+  for (const d of dates) {
+    const day = Number(d.slice(8, 10))
+    dayCounts.set(day, (dayCounts.get(day) ?? 0) + 1)
+  }
+  const days = [...dayCounts.entries()].sort((a, b) => b[1] - a[1]).map(([day]) => day)
+
+  // A pay day that always lands on a weekend is never observed itself, so
+  // also try the few days after (shift before) and before (shift after)
+  const candidates: PayDayRule[] = [{ kind: 'last-business-day' }]
+  for (const day of days) {
+    candidates.push({ kind: 'day-of-month', day, shift: 'before' }, { kind: 'day-of-month', day, shift: 'after' })
+  }
+  for (const day of days) {
+    for (let offset = 1; offset <= 3; offset++) {
+      if (day + offset <= 31) candidates.push({ kind: 'day-of-month', day: day + offset, shift: 'before' })
+      if (day - offset >= 1) candidates.push({ kind: 'day-of-month', day: day - offset, shift: 'after' })
+    }
+  }
+
+  const fit = (rule: PayDayRule) =>
+    dates.filter((d) => payDate(rule, Number(d.slice(0, 4)), monthOf(d)) === d).length / dates.length
+
+  let best: PayDayRule | null = null
+  let bestFit = 0
+  for (const rule of candidates) {
+    const f = fit(rule)
+    if (f > bestFit) {
+      best = rule
+      bestFit = f
+    }
+  }
+
+  // Nothing explains the history well — fall back to the usual day, moved
+  // before weekends like most Norwegian employers do
+  if (!best || bestFit < MIN_RULE_FIT) {
+    return { kind: 'day-of-month', day: days[0] ?? 25, shift: 'before' }
+  }
+  return best
+}
+
+// ── Detection ───────────────────────────────────────────────────────────────
+
+/**
+ * Groups incoming payments by payer and learns a stream for each regular
+ * one. Holiday pay paid separately from salary becomes its own June-only
+ * stream.
+ */
+export function detectIncomeStreams(transactions: IncomeTransaction[], today: Date = new Date()): IncomeStream[] {
+  const todayStr = toISODate(today)
+
+  // 1. Group by payer — holiday pay apart, so it isn't mistaken for salary
+  const groups = new Map<string, IncomeTransaction[]>()
+  for (const tx of transactions) {
+    if (tx.amount <= 0) continue
+    const name = normalizeName(tx)
+    if (!name) continue
+    const isHolidayPay = HOLIDAY_PAY_PATTERN.test(`${tx.description ?? ''} ${tx.counterpart_name ?? ''}`)
+    const key = isHolidayPay ? `holiday:${name}` : name
+    const group = groups.get(key) ?? []
+    group.push(tx)
+    groups.set(key, group)
+  }
+
+  const streams: IncomeStream[] = []
+
+  for (const [key, txs] of groups) {
+    // 2. One payment per month — the largest, so an expense refund from the
+    //    employer doesn't count as pay
+    const byMonth = new Map<string, IncomeTransaction>()
+    for (const tx of txs) {
+      const month = tx.transaction_date.slice(0, 7)
+      const existing = byMonth.get(month)
+      if (!existing || tx.amount > existing.amount) byMonth.set(month, tx)
+    }
+    const payments = [...byMonth.values()].sort((a, b) => a.transaction_date.localeCompare(b.transaction_date))
+    const latest = payments[payments.length - 1]
+    const dates = payments.map((p) => p.transaction_date)
+
+    if (key.startsWith('holiday:')) {
+      streams.push({
+        // The description ("Feriepenger") says more than the employer name here
+        name: (latest.description || latest.counterpart_name || 'Holiday pay').slice(0, 200),
+        rule: inferPayDayRule(dates),
+        amount: Math.round(latest.amount),
+        seasonalAmounts: {},
+        months: [monthOf(latest.transaction_date)],
+        lastDate: latest.transaction_date,
+      })
+      continue
+    }
+
+    // 3. Only regular monthly pay that is still coming in
+    if (payments.length < MIN_MONTHS) continue
+    if (daysBetween(latest.transaction_date, todayStr) > STALE_AFTER_DAYS) continue
+    const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d))
+    const typicalGap = median(gaps)
+    if (typicalGap < 26 || typicalGap > 35) continue
+
+    // 4. Usual amount from recent ordinary months, then the seasonal ones
+    //    that stand out from it
+    const ordinary = payments.filter((p) => !(monthOf(p.transaction_date) in SEASONAL_MONTHS))
+    const amount = median((ordinary.length > 0 ? ordinary : payments).slice(-BASE_WINDOW).map((p) => p.amount))
+
+    const seasonalAmounts: Record<number, number> = {}
+    for (const p of payments) {
+      const month = monthOf(p.transaction_date)
+      if (!(month in SEASONAL_MONTHS)) continue
+      // Later years overwrite earlier ones — payments are sorted by date
+      if (Math.abs(p.amount - amount) / amount > SEASONAL_THRESHOLD) {
+        seasonalAmounts[month] = Math.round(p.amount)
+      } else {
+        delete seasonalAmounts[month]
+      }
+    }
+
+    streams.push({
+      name: (latest.counterpart_name || latest.description || 'Income').slice(0, 200),
+      rule: inferPayDayRule(dates),
+      amount: Math.round(amount),
+      seasonalAmounts,
+      months: null,
+      lastDate: latest.transaction_date,
+    })
+  }
+
+  return streams
+}
+
+// ── Projection ──────────────────────────────────────────────────────────────
+
+/**
+ * Future payments of a stream within [from, to] (ISO dates). A month that
+ * has already been paid is skipped, even if the rule's date is still ahead
+ * (pay came early).
+ */
+export function projectIncome(stream: IncomeStream, from: string, to: string): ProjectedIncome[] {
+  const result: ProjectedIncome[] = []
+  const paidThrough = stream.lastDate.slice(0, 7)
+
+  let year = Number(from.slice(0, 4))
+  let month = monthOf(from)
+  const endYear = Number(to.slice(0, 4))
+  const endMonth = monthOf(to)
+
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    const monthKey = `${year}-${String(month).padStart(2, '0')}`
+    if (monthKey > paidThrough && (!stream.months || stream.months.includes(month))) {
+      const date = payDate(stream.rule, year, month)
+      if (date >= from && date <= to) {
+        const seasonal = stream.seasonalAmounts[month]
+        result.push({
+          date,
+          amount: seasonal ?? stream.amount,
+          note: seasonal !== undefined ? SEASONAL_MONTHS[month] : null,
+        })
+      }
+    }
+
+    month++
+    if (month > 12) {
+      month = 1
+      year++
+    }
+  }
+
+  return result
+}
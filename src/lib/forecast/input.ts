@@ -0,0 +1,157 @@
+/**
+ * Loads everything the forecast engine needs for one user and assembles the
+ * baseline ForecastInput — balance, bills, learned income, planned events,
+ * savings contributions and the spending model.
+ *
+ * Shared by the forecast page, the scenario comparison route and the chat
+ * context, so a scenario is always compared against the same baseline the
+ * user sees on /forecast.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ForecastInput } from './engine'
+import { detectIncomeStreams, type IncomeTransaction } from './income'
+import { buildSpendingModel, SPENDING_HISTORY_DAYS } from './spending'
+import { getGoalProgress, outsideGoalAccounts, toForecastContributions } from '@/lib/savings/goals'
+import { spendableBalance } from '@/lib/accounts/manual'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { toNOK } from '@/lib/currency/convert'
+import { toISODate } from '@/lib/utils/date-utils'
+import { billSchedule, BILL_SCHEDULE_COLUMNS, type BillScheduleRow } from '@/lib/recurrence/schedule'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface PlannedEventRow {
+  id: string
+  name: string
+  amount: number
+  event_date: string
+  recurrence: string | null
+  category: string | null
+  notes: string | null
+}
+
+export interface ForecastData {
+  input: ForecastInput
+  /** Raw planned events — the timeline shows and edits these */
+  plannedEvents: PlannedEventRow[]
+  accountCount: number
+}
+
+// ── Loader ──────────────────────────────────────────────────────────────────
+
+export async function loadForecastData(
+  supabase: SupabaseClient,
+  userId: string,
+  days: number,
+  now: Date = new Date()
+): Promise<ForecastData> {
+  // Thirteen months, so last year's June and December are in the history
+  const incomeSince = new Date(now.getFullYear() - 1, now.getMonth() - 1, 1)
+  const spendingSince = new Date(now)
+  spendingSince.setDate(spendingSince.getDate() - SPENDING_HISTORY_DAYS)
+
+  const [accountsRes, billsRes, incomeRes, spendingRes, eventsRes, goals, rates] = await Promise.all([
+    supabase
+      .from('accounts')
+      .select('id, balance, currency, account_type, is_manual')
+      .eq('user_id', userId),
+
+    // All unpaid bills (including future recurring ones)
+    supabase
+      .from('bills_upcoming')
+      .select(`name, amount, currency, ${BILL_SCHEDULE_COLUMNS}`)
+      .eq('user_id', userId)
+      .eq('is_paid', false)
+      .order('due_date', { ascending: true }),
+
+    // Income history: incoming payments flagged recurring or categorized as income
+    supabase
+      .from('transactions')
+      .select('description, counterpart_name, amount, currency, transaction_date')
+      .eq('user_id', userId)
+      .or('is_recurring.eq.true,category.eq.inntekt')
+      .gt('amount', 0)
+      .gte('transaction_date', toISODate(incomeSince))
+      .order('transaction_date', { ascending: true }),
+
+    // Spending history for the variable-spending bands
+    supabase
+      .from('transactions')
+      .select('amount, currency, category, is_recurring, transaction_date')
+      .eq('user_id', userId)
+      .lt('amount', 0)
+      .gte('transaction_date', toISODate(spendingSince)),
+
+    // User's planned events
+    supabase
+      .from('planned_events')
+      .select('id, name, amount, event_date, recurrence, category, notes')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('event_date', { ascending: true }),
+
+    // Savings goals — monthly contributions become planned outflows
+    getGoalProgress(supabase, userId, now),
+
+    getExchangeRates(),
+  ])
+
+  const accounts = accountsRes.data ?? []
+  const bills = (billsRes.data ?? []) as Array<
+    BillScheduleRow & { name: string; amount: number; currency: string | null }
+  >
+  const incomeTransactions = incomeRes.data ?? []
+  const plannedEvents = (eventsRes.data ?? []) as PlannedEventRow[]
+
+  // Goal savings accounts start outside the forecast; contributions fill them
+  const currentBalance = spendableBalance(outsideGoalAccounts(accounts, goals), rates)
+
+  // Learn pay-day rules and seasonal amounts per payer (in NOK; rows without a rate are skipped)
+  const incomeHistory: IncomeTransaction[] = []
+  for (const tx of incomeTransactions) {
+    const amount = toNOK(Number(tx.amount), tx.currency, rates)
+    if (amount === null) continue
+    incomeHistory.push({
+      transaction_date: tx.transaction_date,
+      amount,
+      description: tx.description,
+      counterpart_name: tx.counterpart_name,
+    })
+  }
+  const incomeStreams = detectIncomeStreams(incomeHistory, now)
+
+  const spending = buildSpendingModel(
+    (spendingRes.data ?? []).map((tx) => ({
+      transaction_date: tx.transaction_date,
+      amount: toNOK(Number(tx.amount), tx.currency, rates) ?? 0,
+      category: tx.category,
+      is_recurring: tx.is_recurring ?? false,
+    })),
+    now
+  )
+
+  return {
+    input: {
+      currentBalance,
+      bills: bills.map((b) => {
+        const { start, frequency, ...rule } = billSchedule(b)
+        // In NOK like the balance; a bill in a currency without a rate counts as 0
+        const amount = toNOK(Number(b.amount), b.currency, rates) ?? 0
+        return { name: b.name, amount, dueDate: start, recurrence: frequency, rule }
+      }),
+      recurringIncome: incomeStreams,
+      plannedEvents: plannedEvents.map((e) => ({
+        name: e.name,
+        amount: Number(e.amount),
+        eventDate: e.event_date,
+        recurrence: e.recurrence,
+      })),
+      savingsContributions: toForecastContributions(goals),
+      spending,
+      days,
+    },
+    plannedEvents,
+    accountCount: accounts.length,
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * What-if scenarios — named sets of hypothetical changes laid over the
+ * baseline forecast without touching real data ("buy a car in March",
+ * "cancel the gym", "salary −20% from January").
+ *
+ * A scenario is stored as a list of adjustments (forecast_scenarios,
+ * migration 021). applyScenario() turns the baseline ForecastInput into the
+ * scenario's input; the engine does the rest. Pure logic (no DB calls).
+ */
+
+import { buildForecast, type ForecastInput } from './engine'
+import { projectIncome } from './income'
+import type { ForecastPoint } from '@/types/financial'
+import { toISODate } from '@/lib/utils/date-utils'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type ScenarioRecurrence = 'once' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
+export type ScenarioAdjustment =
+  /** A hypothetical expense (negative) or income (positive) */
+  | { type: 'event'; name: string; amount: number; date: string; recurrence: ScenarioRecurrence }
+  /** Stop a bill — no occurrences on or after fromDate */
+  | { type: 'cancel-bill'; billName: string; fromDate: string }
+  /** Change one income stream (or all, incomeName null) by a percentage from a date; −100 stops it */
+  | { type: 'income-change'; incomeName: string | null; percent: number; fromDate: string }
+
+export interface ForecastScenario {
+  id: string
+  name: string
+  description: string | null
+  adjustments: ScenarioAdjustment[]
+}
+
+export interface ForecastSummary {
+  endBalance: number
+  lowestBalance: number
+  lowestDate: string
+  /** First day the low band drops below zero — null if it never does */
+  riskDate: string | null
+}
+
+export interface ScenarioResult {
+  id: string
+  name: string
+  points: ForecastPoint[]
+  summary: ForecastSummary
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function dayBefore(dateStr: string): string {
+  const d = new Date(`${dateStr}T00:00:00`)
+  d.setDate(d.getDate() - 1)
+  return toISODate(d)
+}
+
+/** Bill and income names are matched loosely — "Netflix" finds "NETFLIX.COM" */
+function nameMatches(candidate: string, wanted: string): boolean {
+  const a = candidate.trim().toLowerCase()
+  const b = wanted.trim().toLowerCase()
+  return a === b || a.includes(b)
+}
+
+// ── Applying a scenario ─────────────────────────────────────────────────────
+
+/**
+ * The baseline input with the scenario's adjustments applied. Income changes
+ * become one-off events next to each affected payment, so the chart tooltip
+ * shows them by name.
+ */
+export function applyScenario(
+  base: ForecastInput,
+  adjustments: ScenarioAdjustment[],
+  today: Date = new Date()
+): ForecastInput {
+  const rangeEnd = new Date(today)
+  rangeEnd.setDate(rangeEnd.getDate() + base.days)
+  const from = toISODate(today)
+  const to = toISODate(rangeEnd)
+
+  let bills = base.bills
+  const plannedEvents = [...base.plannedEvents]
+
+  for (const adj of adjustments) {
+    switch (adj.type) {
+      case 'event':
+        plannedEvents.push({ name: adj.name, amount: adj.amount, eventDate: adj.date, recurrence: adj.recurrence })
+        break
+
+      case 'cancel-bill':
+        bills = bills.map((b) => {
+          if (!nameMatches(b.name, adj.billName)) return b
+          const endDate = dayBefore(adj.fromDate)
+          return { ...b, endDate: b.endDate && b.endDate < endDate ? b.endDate : endDate }
+        })
+        break
+
+      case 'income-change': {
+        const streams = base.recurringIncome.filter((s) => adj.incomeName === null || nameMatches(s.name, adj.incomeName))
+        const start = adj.fromDate > from ? adj.fromDate : from
+        const label = `${adj.percent > 0 ? '+' : ''}${adj.percent}%`
+        for (const stream of streams) {
+          for (const payment of projectIncome(stream, start, to)) {
+            plannedEvents.push({
+              name: `${stream.name} (${label})`,
+              amount: Math.round((payment.amount * adj.percent) / 100),
+              eventDate: payment.date,
+              recurrence: 'once',
+            })
+          }
+        }
+        break
+      }
+    }
+  }
+
+  return { ...base, bills, plannedEvents }
+}
+
+// ── Comparison ──────────────────────────────────────────────────────────────
+
+export function summarizeForecast(points: ForecastPoint[]): ForecastSummary {
+  let lowest = points[0]
+  for (const p of points) {
+    if (p.balance < lowest.balance) lowest = p
+  }
+  return {
+    endBalance: points[points.length - 1]?.balance ?? 0,
+    lowestBalance: lowest?.balance ?? 0,
+    lowestDate: lowest?.date ?? '',
+    riskDate: points.find((p) => p.low < 0)?.date ?? null,
+  }
+}
+
+/** Baseline plus each scenario, all from the same input and day */
+export function compareScenarios(
+  base: ForecastInput,
+  scenarios: ForecastScenario[],
+  today: Date = new Date()
+): { baseline: ScenarioResult; scenarios: ScenarioResult[] } {
+  const run = (id: string, name: string, input: ForecastInput): ScenarioResult => {
+    const points = buildForecast(input)
+    return { id, name, points, summary: summarizeForecast(points) }
+  }
+
+  return {
+    baseline: run('baseline', 'Baseline', base),
+    scenarios: scenarios.map((s) => run(s.id, s.name, applyScenario(base, s.adjustments, today))),
+  }
+}
+
+/** One line per adjustment, for lists and the chat context */
+export function describeAdjustment(adj: ScenarioAdjustment): string {
+  switch (adj.type) {
+    case 'event': {
+      const kind = adj.amount < 0 ? 'expense' : 'income'
+      const repeat = adj.recurrence === 'once' ? '' : `, ${adj.recurrence}`
+      return `${adj.name}: ${kind} of ${Math.abs(adj.amount).toLocaleString('nb-NO')} kr on ${adj.date}${repeat}`
+    }
+    case 'cancel-bill':
+      return `Cancel "${adj.billName}" from ${adj.fromDate}`
+    case 'income-change':
+      return `${adj.incomeName ?? 'All income'} ${adj.percent > 0 ? '+' : ''}${adj.percent}% from ${adj.fromDate}`
+  }
+}
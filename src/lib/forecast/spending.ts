@@ -0,0 +1,107 @@
+/**
+ * Day-to-day spending model — groceries, transport, eating out and other
+ * variable costs that never show up as bills.
+ *
+ * For each category, daily totals over the recent history give a mean and a
+ * variance. Summed over categories (treated as independent), they describe
+ * how much the balance is expected to drift down per day and how uncertain
+ * that is; the engine turns this into expected balance plus low/high bands.
+ *
+ * Fixed costs are left out — rent, power, loans and subscriptions are already
+ * placed as bills, and recurring transactions are whatever the detector
+ * matched to a pattern.
+ *
+ * Pure logic (no DB calls).
+ */
+
+import { toISODate } from '@/lib/utils/date-utils'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface SpendingTransaction {
+  transaction_date: string // ISO "yyyy-mm-dd"
+  amount: number // In NOK, negative = spending
+  category: string | null
+  is_recurring: boolean
+}
+
+export interface CategorySpending {
+  category: string
+  dailyMean: number // Positive kr per day
+  dailyVariance: number
+}
+
+export interface SpendingModel {
+  /** Sorted by dailyMean, largest first */
+  categories: CategorySpending[]
+  dailyMean: number
+  dailyVariance: number
+  /** Days of history the model was built from */
+  historyDays: number
+}
+
+// ── Tuning ──────────────────────────────────────────────────────────────────
+
+/** How far back spending is modelled — long enough to even out a month */
+export const SPENDING_HISTORY_DAYS = 90
+/** Below this much history the averages say too little to project */
+const MIN_HISTORY_DAYS = 14
+
+/** Categories covered by bills, savings goals or that aren't spending at all */
+const FIXED_CATEGORIES = new Set(['bolig', 'strom', 'forsikring', 'abonnement', 'lan', 'sparing', 'overforinger', 'inntekt'])
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function dayIndex(from: string, dateStr: string): number {
+  return Math.round((new Date(dateStr).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24))
+}
+
+// ── Model ───────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the model from completed days before `today` (today is still
+ * being spent). History starts at the first transaction if that is later
+ * than SPENDING_HISTORY_DAYS ago, so a newly connected bank isn't averaged
+ * over empty weeks. Returns null when there is too little history.
+ */
+export function buildSpendingModel(
+  transactions: SpendingTransaction[],
+  today: Date = new Date()
+): SpendingModel | null {
+  const end = toISODate(today)
+  const windowStart = new Date(today)
+  windowStart.setDate(windowStart.getDate() - SPENDING_HISTORY_DAYS)
+
+  const inWindow = transactions.filter((tx) => tx.transaction_date >= toISODate(windowStart) && tx.transaction_date < end)
+  if (inWindow.length === 0) return null
+
+  const start = inWindow.reduce((min, tx) => (tx.transaction_date < min ? tx.transaction_date : min), end)
+  const historyDays = dayIndex(start, end)
+  if (historyDays < MIN_HISTORY_DAYS) return null
+
+  // Daily totals per category, zeros included
+  const daily = new Map<string, number[]>()
+  for (const tx of inWindow) {
+    if (tx.amount >= 0 || tx.is_recurring) continue
+    const category = tx.category ?? 'ukategorisert'
+    if (FIXED_CATEGORIES.has(category)) continue
+    const days = daily.get(category) ?? new Array<number>(historyDays).fill(0)
+    days[dayIndex(start, tx.transaction_date)] += Math.abs(tx.amount)
+    daily.set(category, days)
+  }
+
+  const categories: CategorySpending[] = []
+  for (const [category, days] of daily) {
+    const mean = days.reduce((sum, v) => sum + v, 0) / days.length
+    const variance = days.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (days.length - 1)
+    categories.push({ category, dailyMean: mean, dailyVariance: variance })
+  }
+  categories.sort((a, b) => b.dailyMean - a.dailyMean)
+
+  return {
+    categories,
+    dailyMean: categories.reduce((sum, c) => sum + c.dailyMean, 0),
+    dailyVariance: categories.reduce((sum, c) => sum + c.dailyVariance, 0),
+    historyDays,
+  }
+}
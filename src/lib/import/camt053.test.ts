@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { parseCamt053Statement } from './camt053'
+import { StatementParseError } from './statement'
+
+/** camt.053.001.02 with a namespace prefix */
+const CAMT_V2 = `<?xml version="1.0" encoding="UTF-8"?>
+<ns2:Document xmlns:ns2="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <ns2:BkToCstmrStmt>
+    <ns2:Stmt>
+      <ns2:Acct>
+        <ns2:Ccy>NOK</ns2:Ccy>
+        <ns2:Svcr><ns2:FinInstnId><ns2:Nm>DNB Bank ASA</ns2:Nm></ns2:FinInstnId></ns2:Svcr>
+      </ns2:Acct>
+      <ns2:Bal>
+        <ns2:Tp><ns2:CdOrPrtry><ns2:Cd>OPBD</ns2:Cd></ns2:CdOrPrtry></ns2:Tp>
+        <ns2:Amt Ccy="NOK">1000.00</ns2:Amt>
+        <ns2:CdtDbtInd>CRDT</ns2:CdtDbtInd>
+      </ns2:Bal>
+      <ns2:Bal>
+        <ns2:Tp><ns2:CdOrPrtry><ns2:Cd>CLBD</ns2:Cd></ns2:CdOrPrtry></ns2:Tp>
+        <ns2:Amt Ccy="NOK">250.50</ns2:Amt>
+        <ns2:CdtDbtInd>DBIT</ns2:CdtDbtInd>
+      </ns2:Bal>
+      <ns2:Ntry>
+        <ns2:Amt Ccy="NOK">1250.50</ns2:Amt>
+        <ns2:CdtDbtInd>DBIT</ns2:CdtDbtInd>
+        <ns2:Sts>BOOK</ns2:Sts>
+        <ns2:BookgDt><ns2:Dt>2025-03-14</ns2:Dt></ns2:BookgDt>
+        <ns2:AcctSvcrRef>REF-001</ns2:AcctSvcrRef>
+        <ns2:NtryDtls><ns2:TxDtls>
+          <ns2:RltdPties><ns2:Cdtr><ns2:Nm>Fjordkraft AS</ns2:Nm></ns2:Cdtr></ns2:RltdPties>
+          <ns2:RmtInf><ns2:Ustrd>Strøm</ns2:Ustrd><ns2:Ustrd>mars &amp; april</ns2:Ustrd></ns2:RmtInf>
+        </ns2:TxDtls></ns2:NtryDtls>
+      </ns2:Ntry>
+      <ns2:Ntry>
+        <ns2:Amt Ccy="NOK">99.00</ns2:Amt>
+        <ns2:CdtDbtInd>DBIT</ns2:CdtDbtInd>
+        <ns2:Sts>PDNG</ns2:Sts>
+        <ns2:BookgDt><ns2:Dt>2025-03-15</ns2:Dt></ns2:BookgDt>
+      </ns2:Ntry>
+    </ns2:Stmt>
+  </ns2:BkToCstmrStmt>
+</ns2:Document>
+`
+
+/** camt.053.001.08 — nested status and party, two statements */
+const CAMT_V8 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Ccy>NOK</Ccy></Acct>
+      <Ntry>
+        <NtryRef>NTRY-7</NtryRef>
+        <Amt Ccy="EUR">42.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2025-04-01T08:30:00+02:00</DtTm></BookgDt>
+        <AddtlNtryInf>Refund</AddtlNtryInf>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Dbtr><Pty><Nm>Vinmonopolet</Nm></Pty></Dbtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+    </Stmt>
+    <Stmt>
+      <Acct><Ccy>NOK</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="NOK">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`
+
+describe('parseCamt053Statement', () => {
+  it('reads booked entries with the sign from CdtDbtInd', () => {
+    const statement = parseCamt053Statement(CAMT_V2)
+
+    expect(statement.bank).toBe('DNB Bank ASA')
+    expect(statement.rows).toEqual([
+      expect.objectContaining({
+        date: '2025-03-14',
+        amount: -1250.5,
+        currency: 'NOK',
+        counterpart: 'Fjordkraft AS',
+        description: 'Strøm mars & april',
+        reference: 'REF-001',
+      }),
+    ])
+  })
+
+  it('takes the closing booked balance, signed', () => {
+    expect(parseCamt053Statement(CAMT_V2).closingBalance).toBe(-250.5)
+  })
+
+  it('leaves pending entries out and says so', () => {
+    expect(parseCamt053Statement(CAMT_V2).warnings).toEqual([
+      '1 pending entry was left out — only booked entries are imported.',
+    ])
+  })
+
+  it('reads the v8 layout: nested status, party under Pty and date-times', () => {
+    const [refund] = parseCamt053Statement(CAMT_V8).rows
+
+    expect(refund).toMatchObject({
+      date: '2025-04-01',
+      amount: 42,
+      currency: 'EUR',
+      counterpart: 'Vinmonopolet',
+      description: 'Refund',
+      reference: 'NTRY-7',
+    })
+  })
+
+  it('reads entries from every statement and skips those without a date', () => {
+    const statement = parseCamt053Statement(CAMT_V8)
+
+    expect(statement.rows).toHaveLength(1)
+    expect(statement.warnings).toEqual(['1 entry without a valid date or amount were skipped.'])
+  })
+
+  it('rejects files without a statement', () => {
+    expect(() => parseCamt053Statement('<Document></Document>')).toThrow(StatementParseError)
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * ISO 20022 CAMT.053 (bank-to-customer statement) parser.
+ *
+ * Reads every <Ntry> in the file. Amounts are unsigned in CAMT — the sign
+ * comes from <CdtDbtInd> (CRDT = in, DBIT = out). Only booked entries are
+ * imported; the counterpart is the creditor for payments out and the debtor
+ * for payments in, as in mapTransaction().
+ *
+ * Namespace prefixes (e.g. <ns2:Ntry>) are stripped before parsing, so the
+ * regex lookups below can use plain element names.
+ */
+
+import { StatementParseError, type ParsedStatement } from './statement'
+
+/** Inner XML of the first <name> element in `xml`, or null */
+function element(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`))
+  return match ? match[1] : null
+}
+
+/** Text of a nested path, e.g. path(entry, 'BookgDt', 'Dt') */
+function path(xml: string, ...names: string[]): string | null {
+  let current: string | null = xml
+  for (const name of names) {
+    if (current === null) return null
+    current = element(current, name)
+  }
+  return current === null ? null : decodeEntities(current.trim())
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function allElements(xml: string, name: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g'))].map((m) => m[1])
+}
+
+/** <Amt Ccy="NOK">123.45</Amt> → { amount, currency } */
+function amountWithCurrency(xml: string): { amount: number; currency: string | null } | null {
+  const match = xml.match(/<Amt(?:\s+Ccy="([A-Z]{3})")?[^>]*>([^<]+)<\/Amt>/)
+  if (!match) return null
+  const amount = Number(match[2].trim())
+  return Number.isFinite(amount) ? { amount, currency: match[1] ?? null } : null
+}
+
+/** Party name — the element moved under <Pty> in camt.053.001.08 */
+function partyName(entry: string, role: 'Cdtr' | 'Dbtr'): string | null {
+  return path(entry, 'RltdPties', role, 'Pty', 'Nm') ?? path(entry, 'RltdPties', role, 'Nm')
+}
+
+export function parseCamt053Statement(text: string): ParsedStatement {
+  // Drop namespace prefixes: <ns2:Ntry> → <Ntry>
+  const xml = text.replace(/<(\/?)[A-Za-z0-9_-]+:/g, '<$1')
+
+  // A file can hold several statements (one per day or period)
+  const stmts = allElements(xml, 'Stmt')
+  if (stmts.length === 0) {
+    throw new StatementParseError('No statement found in the CAMT.053 file.')
+  }
+
+  const currency = path(stmts[0], 'Acct', 'Ccy') ?? 'NOK'
+  const statement: ParsedStatement = {
+    format: 'camt053',
+    bank: path(stmts[0], 'Acct', 'Svcr', 'FinInstnId', 'Nm'),
+    headers: [],
+    mapping: null,
+    rows: [],
+    closingBalance: null,
+    currency,
+    warnings: [],
+  }
+
+  // Closing booked balance (Tp/CdOrPrtry/Cd = CLBD) of the last statement
+  for (const bal of allElements(stmts[stmts.length - 1], 'Bal')) {
+    if (path(bal, 'Tp', 'CdOrPrtry', 'Cd') !== 'CLBD') continue
+    const amt = amountWithCurrency(bal)
+    if (amt) {
+      statement.closingBalance = path(bal, 'CdtDbtInd') === 'DBIT' ? -amt.amount : amt.amount
+    }
+  }
+
+  let skipped = 0
+  let pending = 0
+  for (const entry of stmts.flatMap((stmt) => allElements(stmt, 'Ntry'))) {
+    // <Sts>BOOK</Sts> (v2) or <Sts><Cd>BOOK</Cd></Sts> (v8)
+    const rawStatus = element(entry, 'Sts')
+    const status = rawStatus ? (path(rawStatus, 'Cd') ?? rawStatus.trim()) : 'BOOK'
+    if (status !== 'BOOK') {
+      pending++
+      continue
+    }
+
+    const amt = amountWithCurrency(entry)
+    const date = (path(entry, 'BookgDt', 'Dt') ?? path(entry, 'BookgDt', 'DtTm'))?.slice(0, 10) ?? null
+    if (!amt || !date) {
+      skipped++
+      continue
+    }
+
+    const isDebit = path(entry, 'CdtDbtInd') === 'DBIT'
+    const reference = path(entry, 'AcctSvcrRef') ?? path(entry, 'NtryRef') ?? path(entry, 'Refs', 'EndToEndId')
+    const description =
+      allElements(entry, 'Ustrd').map((u) => decodeEntities(u.trim())).join(' ') ||
+      path(entry, 'AddtlNtryInf') ||
+      path(entry, 'AddtlTxInf')
+
+    statement.rows.push({
+      date,
+      amount: isDebit ? -amt.amount : amt.amount,
+      currency: amt.currency ?? currency,
+      description: description || null,
+      counterpart: partyName(entry, isDebit ? 'Cdtr' : 'Dbtr'),
+      // "NOTPROVIDED" is a placeholder, not a reference
+      reference: reference && reference !== 'NOTPROVIDED' ? reference : null,
+      raw: {
+        BookgDt: date,
+        Amt: String(amt.amount),
+        CdtDbtInd: isDebit ? 'DBIT' : 'CRDT',
+        AcctSvcrRef: path(entry, 'AcctSvcrRef') ?? '',
+        NtryRef: path(entry, 'NtryRef') ?? '',
+      },
+    })
+  }
+
+  if (pending > 0) {
+    statement.warnings.push(`${pending} pending entr${pending === 1 ? 'y was' : 'ies were'} left out — only booked entries are imported.`)
+  }
+  if (skipped > 0) {
+    statement.warnings.push(`${skipped} entr${skipped === 1 ? 'y' : 'ies'} without a valid date or amount were skipped.`)
+  }
+  return statement
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import { detectCsvLayout, parseAmount, parseCsv, parseCsvStatement, parseDate } from './csv'
+import { StatementParseError } from './statement'
+
+describe('parseAmount', () => {
+  it.each([
+    ['1 234,56', 1234.56],
+    ['-1.234,56', -1234.56],
+    ['1234.56', 1234.56],
+    ['1,234.56', 1234.56],
+    ['kr 49,00', 49],
+    ['(123,45)', -123.45],
+    ['123,45-', -123.45],
+  ])('parses %s', (input, expected) => {
+    expect(parseAmount(input)).toBe(expected)
+  })
+
+  it('returns null for empty or non-numeric cells', () => {
+    expect(parseAmount('')).toBeNull()
+    expect(parseAmount('  ')).toBeNull()
+    expect(parseAmount('abc')).toBeNull()
+  })
+})
+
+describe('parseDate', () => {
+  it.each([
+    ['14.03.2025', '2025-03-14'],
+    ['14.03.25', '2025-03-14'],
+    ['14/03/2025', '2025-03-14'],
+    ['2025-03-14', '2025-03-14'],
+    ['2025/3/4', '2025-03-04'],
+  ])('parses %s', (input, expected) => {
+    expect(parseDate(input)).toBe(expected)
+  })
+
+  it('rejects impossible dates', () => {
+    expect(parseDate('31.02.2025')).toBeNull()
+    expect(parseDate('not a date')).toBeNull()
+  })
+})
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes and newlines inside quotes', () => {
+    expect(parseCsv('a;"b;c";"say ""hi"""\r\n"multi\nline";2;3\n', ';')).toEqual([
+      ['a', 'b;c', 'say "hi"'],
+      ['multi\nline', '2', '3'],
+    ])
+  })
+
+  it('skips blank lines', () => {
+    expect(parseCsv('a,b\n\n,\n1,2', ',')).toEqual([['a', 'b'], ['1', '2']])
+  })
+})
+
+describe('detectCsvLayout', () => {
+  it('recognises known bank exports with the file’s own header spelling', () => {
+    const { bank, mapping } = detectCsvLayout(['Dato', 'Forklaring', 'Rentedato', 'Ut Fra Konto', 'Inn på konto'])
+
+    expect(bank).toBe('DNB')
+    expect(mapping).toEqual({ date: 'Dato', description: 'Forklaring', debit: 'Ut Fra Konto', credit: 'Inn på konto' })
+  })
+
+  it('maps unknown layouts by header keywords', () => {
+    expect(detectCsvLayout(['Date', 'Text', 'Amount', 'Reference'])).toEqual({
+      bank: null,
+      mapping: { date: 'Date', amount: 'Amount', description: 'Text', reference: 'Reference' },
+    })
+  })
+
+  it('gives up without a date and an amount column', () => {
+    expect(detectCsvLayout(['Date', 'Text']).mapping).toBeNull()
+  })
+})
+
+describe('parseCsvStatement', () => {
+  it('reads a DNB export with separate debit and credit columns', () => {
+    const csv = [
+      '"Dato";"Forklaring";"Rentedato";"Ut fra konto";"Inn på konto"',
+      '"14.03.2025";"VISA Rema 1000";"14.03.2025";"249,90";""',
+      '"15.03.2025";"Lønn";"15.03.2025";"";"32 500,00"',
+    ].join('\n')
+
+    const statement = parseCsvStatement(csv)
+
+    expect(statement.bank).toBe('DNB')
+    expect(statement.warnings).toEqual([])
+    expect(statement.rows.map(({ date, amount, description }) => ({ date, amount, description }))).toEqual([
+      { date: '2025-03-14', amount: -249.9, description: 'VISA Rema 1000' },
+      { date: '2025-03-15', amount: 32500, description: 'Lønn' },
+    ])
+    expect(statement.rows[0].raw['Forklaring']).toBe('VISA Rema 1000')
+  })
+
+  it('reads a Nordea export with a signed amount and a counterpart', () => {
+    const csv = [
+      'Bokføringsdato;Beløp;Avsender;Mottaker;Navn;Tittel;Valuta;Betalingstype',
+      '2025/03/14;-1250,00;;;Fjordkraft;Strøm mars;NOK;Efaktura',
+    ].join('\n')
+
+    const [row] = parseCsvStatement(csv).rows
+
+    expect(row).toMatchObject({ date: '2025-03-14', amount: -1250, counterpart: 'Fjordkraft', description: 'Strøm mars' })
+  })
+
+  it('skips rows without a valid date or amount and says so', () => {
+    const csv = ['Date,Amount', '2025-03-14,10.00', 'Total,10.00', '2025-03-15,'].join('\n')
+
+    const statement = parseCsvStatement(csv)
+
+    expect(statement.rows).toHaveLength(1)
+    expect(statement.warnings).toEqual(['2 lines without a valid date or amount were skipped.'])
+  })
+
+  it('returns the headers for manual mapping when no columns are recognised', () => {
+    const statement = parseCsvStatement('Foo;Bar\n1;2')
+
+    expect(statement.mapping).toBeNull()
+    expect(statement.headers).toEqual(['Foo', 'Bar'])
+    expect(statement.rows).toEqual([])
+  })
+
+  it('uses a mapping override instead of the detected layout', () => {
+    const statement = parseCsvStatement('Foo;Bar\n01.04.2025;-99,50', { date: 'Foo', amount: 'Bar' })
+
+    expect(statement.bank).toBeNull()
+    expect(statement.rows[0]).toMatchObject({ date: '2025-04-01', amount: -99.5 })
+  })
+
+  it('rejects files without transaction rows', () => {
+    expect(() => parseCsvStatement('Dato;Beløp\n')).toThrow(StatementParseError)
+  })
+})
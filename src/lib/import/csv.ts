@@ -0,0 +1,262 @@
+/**
+ * CSV statement parser.
+ *
+ * Norwegian banks export semicolon-separated files with dd.mm.yyyy dates and
+ * decimal commas, and each bank names its columns differently. Known layouts
+ * are matched by their header row; anything else is mapped by header
+ * keywords. The mapping is returned so the import preview can show it and
+ * the user can correct it.
+ */
+
+import {
+  StatementParseError,
+  type ColumnMapping,
+  type ParsedStatement,
+  type ParsedStatementRow,
+} from './statement'
+
+// ── Known bank layouts ──────────────────────────────────────────────────────
+
+interface BankLayout {
+  bank: string
+  /** Lower-cased headers that must all be present */
+  signature: string[]
+  mapping: ColumnMapping
+}
+
+const BANK_LAYOUTS: BankLayout[] = [
+  {
+    // "Dato";"Forklaring";"Rentedato";"Ut fra konto";"Inn på konto"
+    bank: 'DNB',
+    signature: ['dato', 'forklaring', 'ut fra konto', 'inn på konto'],
+    mapping: { date: 'Dato', description: 'Forklaring', debit: 'Ut fra konto', credit: 'Inn på konto' },
+  },
+  {
+    // Bokføringsdato;Beløp;Avsender;Mottaker;Navn;Tittel;Valuta;Betalingstype
+    bank: 'Nordea',
+    signature: ['bokføringsdato', 'beløp', 'navn', 'tittel'],
+    mapping: { date: 'Bokføringsdato', amount: 'Beløp', counterpart: 'Navn', description: 'Tittel' },
+  },
+  {
+    // Dato;Beskrivelse;Rentedato;Inn;Ut;Til konto;Fra konto
+    bank: 'SpareBank 1',
+    signature: ['dato', 'beskrivelse', 'inn', 'ut'],
+    mapping: { date: 'Dato', description: 'Beskrivelse', credit: 'Inn', debit: 'Ut' },
+  },
+]
+
+/** Header keywords for unknown layouts, most specific first */
+const HEADER_PATTERNS: Array<[keyof ColumnMapping, RegExp]> = [
+  ['date', /^(bokf(ørings|orings)?dato|transaksjonsdato|dato|date|booking ?date|posted)$/i],
+  ['amount', /^(beløp|belop|amount|sum|beløp nok)$/i],
+  ['debit', /^(ut( fra konto)?|uttak|debet|debit|belastet|withdrawal)$/i],
+  ['credit', /^(inn( på konto)?|innskudd|kredit|credit|deposit)$/i],
+  ['description', /^(forklaring|beskrivelse|tekst|tittel|description|text|memo)$/i],
+  ['counterpart', /^(navn|mottaker|motpart|payee|name|counterparty)$/i],
+  ['reference', /^(referanse|arkivref(eranse)?|reference|transaksjons-?id|id)$/i],
+]
+
+// ── Low-level parsing ───────────────────────────────────────────────────────
+
+/** The delimiter that splits the header line into the most columns */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [';', ',', '\t']
+  return candidates.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  )
+}
+
+/** RFC 4180-style split: quoted fields, "" escapes, newlines inside quotes */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const records: string[][] = []
+  let field = ''
+  let record: string[] = []
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      if (record.some((f) => f.trim() !== '')) records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+
+  record.push(field)
+  if (record.some((f) => f.trim() !== '')) records.push(record)
+  return records
+}
+
+/**
+ * "1 234,56" / "-1.234,56" / "1234.56" / "kr 49,00" → number.
+ * The last of , and . is the decimal separator; the other is grouping.
+ */
+export function parseAmount(value: string): number | null {
+  let s = value.replace(/\s|kr|nok/gi, '')
+  if (!s) return null
+  // Some exports write negatives as (123,45) or with a trailing minus
+  const negative = /^\(.*\)$/.test(s) || s.endsWith('-')
+  s = s.replace(/[()]/g, '').replace(/-$/, '')
+
+  const lastComma = s.lastIndexOf(',')
+  const lastDot = s.lastIndexOf('.')
+  if (lastComma > lastDot) {
+    s = s.replace(/\./g, '').replace(',', '.')
+  } else {
+    s = s.replace(/,/g, '')
+  }
+
+  const n = Number(s)
+  if (!Number.isFinite(n)) return null
+  return negative ? -Math.abs(n) : n
+}
+
+/** dd.mm.yyyy, dd.mm.yy, dd/mm/yyyy, yyyy-mm-dd or yyyy/mm/dd → "yyyy-mm-dd" */
+export function parseDate(value: string): string | null {
+  const s = value.trim()
+  let y: number, m: number, d: number
+
+  const iso = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)
+  const nordic = s.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/)
+  if (iso) {
+    ;[y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  } else if (nordic) {
+    ;[d, m, y] = [Number(nordic[1]), Number(nordic[2]), Number(nordic[3])]
+    if (y < 100) y += 2000
+  } else {
+    return null
+  }
+
+  const date = new Date(Date.UTC(y, m - 1, d))
+  if (date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null
+  return date.toISOString().split('T')[0]
+}
+
+// ── Column mapping ──────────────────────────────────────────────────────────
+
+/** Finds a known bank layout, else maps columns by header keywords */
+export function detectCsvLayout(headers: string[]): { bank: string | null; mapping: ColumnMapping | null } {
+  const lower = headers.map((h) => h.trim().toLowerCase())
+
+  for (const layout of BANK_LAYOUTS) {
+    if (layout.signature.every((col) => lower.includes(col))) {
+      // Use the file's own spelling of each header
+      const mapping = Object.fromEntries(
+        Object.entries(layout.mapping).map(([field, header]) => [
+          field,
+          headers[lower.indexOf(header.toLowerCase())],
+        ])
+      ) as unknown as ColumnMapping
+      return { bank: layout.bank, mapping }
+    }
+  }
+
+  const mapping: Partial<ColumnMapping> = {}
+  const used = new Set<number>()
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const index = lower.findIndex((h, i) => !used.has(i) && pattern.test(h))
+    if (index >= 0) {
+      mapping[field] = headers[index]
+      used.add(index)
+    }
+  }
+
+  const usable = mapping.date && (mapping.amount || mapping.debit || mapping.credit)
+  return { bank: null, mapping: usable ? (mapping as ColumnMapping) : null }
+}
+
+// ── Statement ───────────────────────────────────────────────────────────────
+
+export function parseCsvStatement(text: string, override?: ColumnMapping): ParsedStatement {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const records = parseCsv(text, detectDelimiter(firstLine))
+  if (records.length < 2) {
+    throw new StatementParseError('The CSV file has no transaction rows.')
+  }
+
+  const headers = records[0].map((h) => h.trim())
+  const detected = detectCsvLayout(headers)
+  const mapping = override ?? detected.mapping
+  const statement: ParsedStatement = {
+    format: 'csv',
+    bank: override ? null : detected.bank,
+    headers,
+    mapping,
+    rows: [],
+    closingBalance: null,
+    currency: 'NOK',
+    warnings: [],
+  }
+
+  // No usable mapping — return headers so the user can map columns by hand
+  if (!mapping) {
+    statement.warnings.push('Could not detect the date and amount columns. Choose them below.')
+    return statement
+  }
+
+  const col = (name?: string) => (name ? headers.indexOf(name) : -1)
+  const idx = {
+    date: col(mapping.date),
+    amount: col(mapping.amount),
+    debit: col(mapping.debit),
+    credit: col(mapping.credit),
+    description: col(mapping.description),
+    counterpart: col(mapping.counterpart),
+    reference: col(mapping.reference),
+  }
+
+  let skipped = 0
+  for (const record of records.slice(1)) {
+    const cell = (i: number) => (i >= 0 ? (record[i] ?? '').trim() : '')
+    const date = parseDate(cell(idx.date))
+
+    let amount: number | null = null
+    if (idx.amount >= 0) {
+      amount = parseAmount(cell(idx.amount))
+    } else {
+      const debit = parseAmount(cell(idx.debit))
+      const credit = parseAmount(cell(idx.credit))
+      // Debit columns hold positive or negative numbers depending on the bank
+      if (debit !== null && debit !== 0) amount = -Math.abs(debit)
+      else if (credit !== null) amount = Math.abs(credit)
+    }
+
+    if (!date || amount === null) {
+      skipped++
+      continue
+    }
+
+    statement.rows.push({
+      date,
+      amount,
+      currency: 'NOK',
+      description: cell(idx.description) || null,
+      counterpart: cell(idx.counterpart) || null,
+      reference: cell(idx.reference) || null,
+      raw: Object.fromEntries(headers.map((h, i) => [h, record[i] ?? ''])),
+    } satisfies ParsedStatementRow)
+  }
+
+  if (skipped > 0) {
+    statement.warnings.push(`${skipped} line${skipped === 1 ? '' : 's'} without a valid date or amount were skipped.`)
+  }
+  return statement
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { parseOfxStatement } from './ofx'
+import { StatementParseError } from './statement'
+
+/** OFX 1.x — SGML, leaf elements without closing tags */
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><FI><ORG>Sbanken</ORG></FI></SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>NOK
+<BANKTRANLIST>
+<DTSTART>20250301
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250314120000.000[+1:CET]
+<TRNAMT>-249,90
+<FITID>2025031400001
+<NAME>Rema 1000
+<MEMO>VISA 1234 Rema 1000 &amp; Co
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250315
+<TRNAMT>32500.00
+<FITID>2025031500002
+<NAME>Lønn
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>12345.67
+<DTASOF>20250331
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`
+
+/** OFX 2.x — XML */
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+  <CURDEF>NOK</CURDEF>
+  <BANKTRANLIST>
+    <STMTTRN>
+      <TRNTYPE>DEBIT</TRNTYPE>
+      <DTPOSTED>20250402</DTPOSTED>
+      <TRNAMT>-35.00</TRNAMT>
+      <FITID>abc-1</FITID>
+      <NAME>Ruter</NAME>
+      <CURRENCY>EUR</CURRENCY>
+    </STMTTRN>
+    <STMTTRN>
+      <TRNTYPE>DEBIT</TRNTYPE>
+      <DTPOSTED>not-a-date</DTPOSTED>
+      <TRNAMT>-1.00</TRNAMT>
+    </STMTTRN>
+  </BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>
+`
+
+describe('parseOfxStatement', () => {
+  it('reads SGML files without closing tags', () => {
+    const statement = parseOfxStatement(SGML)
+
+    expect(statement.bank).toBe('Sbanken')
+    expect(statement.currency).toBe('NOK')
+    expect(statement.closingBalance).toBe(12345.67)
+    expect(statement.rows).toHaveLength(2)
+    expect(statement.rows[0]).toMatchObject({
+      date: '2025-03-14',
+      amount: -249.9,
+      description: 'VISA 1234 Rema 1000 & Co',
+      counterpart: 'Rema 1000',
+      reference: '2025031400001',
+    })
+  })
+
+  it('uses NAME as the description when there is no MEMO', () => {
+    expect(parseOfxStatement(SGML).rows[1]).toMatchObject({
+      amount: 32500,
+      description: 'Lønn',
+      counterpart: null,
+    })
+  })
+
+  it('reads XML files and per-transaction currencies', () => {
+    const statement = parseOfxStatement(XML)
+
+    expect(statement.rows).toEqual([
+      expect.objectContaining({ date: '2025-04-02', amount: -35, currency: 'EUR', reference: 'abc-1' }),
+    ])
+    expect(statement.closingBalance).toBeNull()
+  })
+
+  it('skips transactions without a valid date', () => {
+    expect(parseOfxStatement(XML).warnings).toEqual(['1 transaction without a valid date or amount were skipped.'])
+  })
+
+  it('rejects files without transactions', () => {
+    expect(() => parseOfxStatement('<OFX><CURDEF>NOK</OFX>')).toThrow(StatementParseError)
+  })
+})
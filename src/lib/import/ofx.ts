@@ -0,0 +1,93 @@
+/**
+ * OFX / QFX statement parser.
+ *
+ * Handles both OFX 1.x (SGML — leaf elements have no closing tag) and
+ * OFX 2.x (XML) by reading each leaf value up to the next tag or line break.
+ * Only bank statements (STMTTRN inside BANKTRANLIST) are read.
+ */
+
+import { StatementParseError, type ParsedStatement } from './statement'
+
+/** Value of the first <TAG> in `block`, SGML or XML style */
+function tag(block: string, name: string): string | null {
+  const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))
+  const value = match?.[1].trim()
+  return value ? decodeEntities(value) : null
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/** OFX dates: yyyymmdd[hhmmss[.xxx]][[tz]] → "yyyy-mm-dd" */
+function parseOfxDate(value: string | null): string | null {
+  const m = value?.match(/^(\d{4})(\d{2})(\d{2})/)
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null
+}
+
+export function parseOfxStatement(text: string): ParsedStatement {
+  const currency = tag(text, 'CURDEF') ?? 'NOK'
+  const statement: ParsedStatement = {
+    format: 'ofx',
+    bank: tag(text, 'ORG'),
+    headers: [],
+    mapping: null,
+    rows: [],
+    closingBalance: null,
+    currency,
+    warnings: [],
+  }
+
+  const ledger = text.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i)
+  if (ledger) {
+    const balance = Number(tag(ledger[1], 'BALAMT'))
+    statement.closingBalance = Number.isFinite(balance) ? balance : null
+  }
+
+  // SGML files may omit </STMTTRN> — split on the opening tag instead
+  const blocks = text.split(/<STMTTRN>/i).slice(1)
+  if (blocks.length === 0) {
+    throw new StatementParseError('No transactions found in the OFX file.')
+  }
+
+  let skipped = 0
+  for (const rawBlock of blocks) {
+    const block = rawBlock.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]
+    const date = parseOfxDate(tag(block, 'DTPOSTED'))
+    const amount = Number(tag(block, 'TRNAMT')?.replace(',', '.'))
+
+    if (!date || !Number.isFinite(amount)) {
+      skipped++
+      continue
+    }
+
+    const name = tag(block, 'NAME')
+    const memo = tag(block, 'MEMO')
+    statement.rows.push({
+      date,
+      amount,
+      currency: tag(block, 'CURRENCY') ?? currency,
+      description: memo ?? name,
+      counterpart: memo ? name : null,
+      reference: tag(block, 'FITID'),
+      raw: {
+        TRNTYPE: tag(block, 'TRNTYPE') ?? '',
+        DTPOSTED: tag(block, 'DTPOSTED') ?? '',
+        TRNAMT: tag(block, 'TRNAMT') ?? '',
+        FITID: tag(block, 'FITID') ?? '',
+        NAME: name ?? '',
+        MEMO: memo ?? '',
+      },
+    })
+  }
+
+  if (skipped > 0) {
+    statement.warnings.push(`${skipped} transaction${skipped === 1 ? '' : 's'} without a valid date or amount were skipped.`)
+  }
+  return statement
+}
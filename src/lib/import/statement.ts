@@ -0,0 +1,155 @@
+/**
+ * Bank statement import — entry point.
+ *
+ * Detects the file format, hands it to the matching parser and maps parsed
+ * rows into the same shape the bank sync writes (NewTransactionRow), so
+ * imported rows go through storeTransactions() and dedup exactly like synced
+ * ones.
+ *
+ * Supported formats:
+ *   - CSV exports from DNB, Nordea and SpareBank 1 (other CSVs are mapped
+ *     by header heuristics and can be corrected in the preview)
+ *   - OFX / QFX (SGML 1.x and XML 2.x)
+ *   - ISO 20022 CAMT.053 XML
+ *
+ * SECURITY: statement files contain account numbers and names. Parsed rows
+ * are stored like synced ones (raw_data is encrypted and never goes to
+ * Claude) and nothing from the file is logged.
+ */
+
+import { parseCsvStatement } from './csv'
+import { parseOfxStatement } from './ofx'
+import { parseCamt053Statement } from './camt053'
+import { assignFingerprints } from '@/lib/neonomics/fingerprint'
+import type { NewTransactionRow } from '@/lib/transactions/store'
+import type { UserCipher } from '@/lib/crypto/envelope'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053'
+
+/** One transaction as read from the file, before mapping to a DB row */
+export interface ParsedStatementRow {
+  /** ISO "yyyy-mm-dd" */
+  date: string
+  /** Negative = money out */
+  amount: number
+  currency: string
+  description: string | null
+  counterpart: string | null
+  /** Bank's own ID for the entry (OFX FITID, CAMT AcctSvcrRef, CSV reference column) */
+  reference: string | null
+  /** The source record, kept in raw_data for debugging */
+  raw: Record<string, string>
+}
+
+/** CSV header names for each field — shown in the import preview */
+export interface ColumnMapping {
+  date: string
+  /** Signed amount column — or use debit/credit */
+  amount?: string
+  /** Money out, as a positive or negative number */
+  debit?: string
+  /** Money in */
+  credit?: string
+  description?: string
+  counterpart?: string
+  reference?: string
+}
+
+export interface ParsedStatement {
+  format: StatementFormat
+  /** Recognised bank layout ("DNB", "Nordea", ...) or null */
+  bank: string | null
+  /** CSV only: the header row and how it was mapped */
+  headers: string[]
+  mapping: ColumnMapping | null
+  rows: ParsedStatementRow[]
+  /** Closing balance when the file states one (OFX LEDGERBAL, CAMT CLBD) */
+  closingBalance: number | null
+  currency: string
+  /** Lines that could not be parsed, etc. — safe to show the user */
+  warnings: string[]
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StatementParseError'
+  }
+}
+
+// ── Format detection ────────────────────────────────────────────────────────
+
+export function detectFormat(filename: string, content: string): StatementFormat | null {
+  const head = content.slice(0, 2000)
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx'
+  if (/camt\.053/i.test(head) || /<BkToCstmrStmt>/.test(content.slice(0, 20_000))) return 'camt053'
+
+  const ext = filename.toLowerCase().split('.').pop()
+  if (ext === 'ofx' || ext === 'qfx') return 'ofx'
+  if (ext === 'csv' || ext === 'txt') return 'csv'
+  // Last resort: a delimiter-separated first line
+  if (/^[^\n]*[;,\t][^\n]*\n/.test(head)) return 'csv'
+  return null
+}
+
+/**
+ * Parses a statement file. `mapping` overrides the detected CSV columns
+ * (ignored for OFX/CAMT, which are self-describing).
+ */
+export function parseStatement(
+  filename: string,
+  content: string,
+  mapping?: ColumnMapping
+): ParsedStatement {
+  // Strip a UTF-8 BOM — Excel adds one to CSV exports
+  const text = content.replace(/^\uFEFF/, '')
+  const format = detectFormat(filename, text)
+
+  switch (format) {
+    case 'csv':
+      return parseCsvStatement(text, mapping)
+    case 'ofx':
+      return parseOfxStatement(text)
+    case 'camt053':
+      return parseCamt053Statement(text)
+    default:
+      throw new StatementParseError('Unrecognised file format. Upload a CSV, OFX or CAMT.053 file.')
+  }
+}
+
+// ── Mapping to DB rows ──────────────────────────────────────────────────────
+
+/**
+ * Maps parsed rows onto an account, in the shape mapTransaction() produces
+ * for synced transactions. Fingerprints are assigned over the whole file so
+ * identical same-day rows stay distinct.
+ */
+export function toTransactionRows(
+  statement: ParsedStatement,
+  accountId: string,
+  userId: string,
+  cipher: UserCipher
+): NewTransactionRow[] {
+  return assignFingerprints(
+    statement.rows.map((row): NewTransactionRow => ({
+      account_id: accountId,
+      user_id: userId,
+      transaction_date: row.date,
+      booking_date: row.date,
+      amount: row.amount,
+      currency: row.currency,
+      description: row.description,
+      // Categorized after import by the same pipeline as synced rows
+      category: null,
+      is_recurring: false,
+      counterpart_name: row.counterpart,
+      internal_reference: row.reference,
+      fingerprint: null,
+      status: 'booked',
+      source: 'import',
+      raw_data: cipher.encryptJson({ format: statement.format, ...row.raw }),
+    }))
+  )
+}
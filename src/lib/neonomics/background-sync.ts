@@ -0,0 +1,195 @@
+/**
+ * Background bank sync — runs every due connection from the cron route.
+ *
+ * For each connection:
+ *   1. Open a sync_runs row (trigger_source = 'cron')
+ *   2. syncBankConnection()
+ *   3. Close the run; on failure mark the connection status = 'error' with a
+ *      reason and schedule a retry with exponential backoff (a successful
+ *      sync, here or manual, resets it to 'active')
+ *
+ * Then, per user that received new transactions, runs categorization,
+ * recurring detection and bill reconciliation (same as /api/bank/sync), and
+ * finally refreshes in-app notifications so balance/bill alerts reflect the
+ * new data.
+ *
+ * Must be called with a service role client — there is no user session.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { syncBankConnection, type SyncResult } from './sync'
+import { startSyncRun, finishSyncRun, syncRunStatus, SYNC_ERROR_MESSAGES } from './sync-runs'
+import { categorizeTransactions } from '@/lib/categorization/categorizer'
+import { runRecurringDetection } from '@/lib/recurring/detector'
+import { runBillReconciliation } from '@/lib/bills/reconcile'
+import { runNotificationChecks, createNotifications } from '@/lib/notifications/engine'
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+/** Connections handled per cron invocation (stalest first) */
+const MAX_CONNECTIONS_PER_RUN = 50
+/** First retry after this many minutes; doubles with each failure */
+const BACKOFF_BASE_MINUTES = 30
+/** Never wait longer than this between retries */
+const BACKOFF_MAX_MINUTES = 24 * 60
+/** After this many failures in a row, stop retrying until the user syncs by hand or reconnects */
+export const MAX_CONSECUTIVE_FAILURES = 6
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface BackgroundSyncSummary {
+  connectionsChecked: number
+  connectionsSynced: number
+  connectionsFailed: number
+  transactionsSynced: number
+  notificationsCreated: number
+}
+
+interface DueConnection {
+  id: string
+  user_id: string
+  consecutive_failures: number
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Minutes to wait before retry number `failures` (1-based) */
+export function backoffMinutes(failures: number): number {
+  return Math.min(BACKOFF_BASE_MINUTES * 2 ** Math.max(0, failures - 1), BACKOFF_MAX_MINUTES)
+}
+
+// ── Per-connection run ──────────────────────────────────────────────────────
+
+async function syncOneConnection(
+  supabase: SupabaseClient,
+  conn: DueConnection
+): Promise<SyncResult> {
+  const runId = await startSyncRun(supabase, conn.user_id, conn.id, 'cron')
+
+  let result: SyncResult
+  try {
+    result = await syncBankConnection(supabase, conn.user_id, conn.id)
+  } catch (err) {
+    result = {
+      accountsSynced: 0,
+      transactionsSynced: 0,
+      errors: [err instanceof Error ? err.message : 'Unknown error'],
+    }
+  }
+
+  await finishSyncRun(supabase, runId, result)
+
+  // A success already reset the connection (syncBankConnection step 9)
+  if (syncRunStatus(result) === 'failed') {
+    const failures = conn.consecutive_failures + 1
+    const retryAt = failures < MAX_CONSECUTIVE_FAILURES
+      ? new Date(Date.now() + backoffMinutes(failures) * 60 * 1000).toISOString()
+      : null
+
+    // Only active/error connections — sync may already have set 'expired' (403)
+    await supabase
+      .from('bank_connections')
+      .update({
+        status: 'error',
+        // Raw errors are logged in runBackgroundSync — users get the fixed message
+        status_reason: SYNC_ERROR_MESSAGES.failed,
+        consecutive_failures: failures,
+        next_sync_at: retryAt,
+      })
+      .eq('id', conn.id)
+      .in('status', ['active', 'error'])
+  }
+
+  return result
+}
+
+// ── Main entry point ────────────────────────────────────────────────────────
+
+/**
+ * Syncs all active connections plus errored ones whose backoff has elapsed.
+ * Connections are processed sequentially to stay under Neonomics rate limits.
+ */
+export async function runBackgroundSync(
+  supabase: SupabaseClient
+): Promise<BackgroundSyncSummary> {
+  const summary: BackgroundSyncSummary = {
+    connectionsChecked: 0,
+    connectionsSynced: 0,
+    connectionsFailed: 0,
+    transactionsSynced: 0,
+    notificationsCreated: 0,
+  }
+
+  const nowIso = new Date().toISOString()
+
+  const { data: connections, error } = await supabase
+    .from('bank_connections')
+    .select('id, user_id, consecutive_failures')
+    // Active connections, or errored ones whose backoff has elapsed
+    .or(
+      `status.eq.active,and(status.eq.error,next_sync_at.lte.${nowIso},consecutive_failures.lt.${MAX_CONSECUTIVE_FAILURES})`
+    )
+    .order('last_synced_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_CONNECTIONS_PER_RUN)
+
+  if (error) {
+    throw new Error(`Failed to load bank connections: ${error.message}`)
+  }
+
+  // userId → new transactions across all of that user's connections
+  const newTransactionsByUser = new Map<string, number>()
+
+  for (const conn of (connections ?? []) as DueConnection[]) {
+    summary.connectionsChecked++
+    const result = await syncOneConnection(supabase, conn)
+
+    if (syncRunStatus(result) === 'failed') {
+      summary.connectionsFailed++
+      console.error(`[BG_SYNC] Connection ${conn.id} failed for user ${conn.user_id}:`, result.errors)
+    } else {
+      summary.connectionsSynced++
+      if (result.errors.length > 0) {
+        console.error(`[BG_SYNC] Partial sync for user ${conn.user_id}, connection ${conn.id}:`, result.errors)
+      }
+    }
+
+    summary.transactionsSynced += result.transactionsSynced
+    newTransactionsByUser.set(
+      conn.user_id,
+      (newTransactionsByUser.get(conn.user_id) ?? 0) + result.transactionsSynced
+    )
+  }
+
+  // Post-sync pipeline, once per user
+  for (const [userId, newTransactions] of newTransactionsByUser) {
+    try {
+      if (newTransactions > 0) {
+        const categorization = await categorizeTransactions(supabase, userId)
+        if (categorization.errors.length > 0) {
+          console.error(`[BG_SYNC] Categorization errors for user ${userId}:`, categorization.errors)
+        }
+
+        const recurring = await runRecurringDetection(supabase, userId)
+        if (recurring.errors.length > 0) {
+          console.error(`[BG_SYNC] Recurring detection errors for user ${userId}:`, recurring.errors)
+        }
+
+        const reconciliation = await runBillReconciliation(supabase, userId)
+        if (reconciliation.errors.length > 0) {
+          console.error(`[BG_SYNC] Bill reconciliation errors for user ${userId}:`, reconciliation.errors)
+        }
+      }
+
+      // In-app only here — emails go out from the daily /api/notifications/check run
+      const notifications = await runNotificationChecks(supabase, userId)
+      summary.notificationsCreated += await createNotifications(supabase, userId, notifications)
+    } catch (err) {
+      console.error(
+        `[BG_SYNC] Post-sync pipeline failed for user ${userId}:`,
+        err instanceof Error ? err.message : 'Unknown'
+      )
+    }
+  }
+
+  return summary
+}
@@ -11,6 +11,13 @@
  *   - Authorization: Bearer <token>
  *   - x-device-id: stable UUID identifying the user's "device" (we use userId)
  *   - x-session-id: the Neonomics session ID (required for account/transaction calls)
+ *
+ * Offline development: NEONOMICS_MOCK=true points the client at the local
+ * mock server (src/lib/neonomics/mock) instead of NEONOMICS_BASE_URL.
+ *
+ * Errors: every failure is thrown as a NeonomicsError subclass (see errors.ts).
+ * 429s, 5xx responses and timeouts are retried with exponential backoff,
+ * honoring Retry-After; each attempt is cut off after REQUEST_TIMEOUT_MS.
  */
 
 import type {
@@ -21,6 +28,28 @@ import type {
   NeonomicsTokenResponse,
   NeonomicsTransactionsResponse,
 } from '@/types/neonomics'
+import { MOCK_BASE_PATH } from './mock/server'
+import {
+  errorFromResponse,
+  NeonomicsAuthError,
+  NeonomicsBankUnavailableError,
+  NeonomicsError,
+  NeonomicsRateLimitError,
+} from './errors'
+
+// ── Endpoints ───────────────────────────────────────────────────────────────
+
+function isMockMode(): boolean {
+  return process.env.NEONOMICS_MOCK === 'true'
+}
+
+/** API base URL — the in-app mock server when NEONOMICS_MOCK=true */
+function neonomicsBaseUrl(): string | undefined {
+  if (isMockMode()) {
+    return `${process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000'}${MOCK_BASE_PATH}`
+  }
+  return process.env.NEONOMICS_BASE_URL
+}
 
 // ── Token cache ─────────────────────────────────────────────────────────────
 // Cached in-process. On Vercel, each serverless invocation starts fresh.
@@ -46,27 +75,36 @@ async function getAccessToken(): Promise<string> {
   }
 
   // Fetch a new token
-  const authUrl = process.env.NEONOMICS_AUTH_URL
-  const clientId = process.env.NEONOMICS_CLIENT_ID
-  const clientSecret = process.env.NEONOMICS_CLIENT_SECRET
+  // The mock accepts any credentials
+  const authUrl = isMockMode() ? `${neonomicsBaseUrl()}/auth/token` : process.env.NEONOMICS_AUTH_URL
+  const clientId = process.env.NEONOMICS_CLIENT_ID ?? (isMockMode() ? 'mock' : undefined)
+  const clientSecret = process.env.NEONOMICS_CLIENT_SECRET ?? (isMockMode() ? 'mock' : undefined)
 
   if (!authUrl || !clientId || !clientSecret) {
     throw new Error('Missing Neonomics environment variables. Check NEONOMICS_AUTH_URL, NEONOMICS_CLIENT_ID, NEONOMICS_CLIENT_SECRET.')
   }
 
-  const response = await fetch(authUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      grant_type: 'client_credentials',
-      client_id: clientId,
-      client_secret: clientSecret,
-    }),
-  })
+  let response: Response
+  try {
+    response = await fetch(authUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+  } catch (err) {
+    throw new NeonomicsBankUnavailableError(null, 'token', '', isTimeout(err) ? 'timeout' : 'network error')
+  }
 
   if (!response.ok) {
     const body = await response.text()
-    throw new Error(`Neonomics auth failed (${response.status}): ${body}`)
+    throw response.status >= 500
+      ? new NeonomicsBankUnavailableError(response.status, 'token', body)
+      : new NeonomicsAuthError(response.status, 'token', body)
   }
 
   const data: NeonomicsTokenResponse = await response.json()
@@ -79,6 +117,42 @@ async function getAccessToken(): Promise<string> {
   return data.access_token
 }
 
+// ── Retry policy ────────────────────────────────────────────────────────────
+
+/** Abort a single attempt after this long */
+const REQUEST_TIMEOUT_MS = 20_000
+/** Retries after the first attempt (429 / 5xx / timeout only) */
+const MAX_RETRIES = 3
+/** First backoff delay; doubles each retry, plus jitter */
+const RETRY_BASE_MS = 500
+/** Never sleep longer than this — a longer Retry-After is thrown to the caller */
+const RETRY_MAX_WAIT_MS = 10_000
+
+function isTimeout(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'TimeoutError' || err.name === 'AbortError')
+}
+
+/** Retry-After is either delta-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/** Delay before retry number `attempt` (0-based) */
+function backoffDelay(attempt: number, err: NeonomicsError): number {
+  if (err instanceof NeonomicsRateLimitError && err.retryAfterMs !== null) {
+    return err.retryAfterMs
+  }
+  return RETRY_BASE_MS * 2 ** attempt + Math.random() * RETRY_BASE_MS
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
 // ── Core request helper ─────────────────────────────────────────────────────
 
 interface RequestOptions {
@@ -90,12 +164,10 @@ interface RequestOptions {
   body?: unknown
 }
 
-async function neonomicsRequest<T = unknown>(
-  path: string,
-  options: RequestOptions
-): Promise<T> {
+/** One attempt — throws a NeonomicsError on any failure */
+async function sendRequest<T>(path: string, options: RequestOptions): Promise<T> {
   const token = await getAccessToken()
-  const baseUrl = process.env.NEONOMICS_BASE_URL
+  const baseUrl = neonomicsBaseUrl()
 
   if (!baseUrl) {
     throw new Error('Missing NEONOMICS_BASE_URL environment variable.')
@@ -115,20 +187,86 @@ async function neonomicsRequest<T = unknown>(
     headers['Content-Type'] = 'application/json'
   }
 
-  const response = await fetch(`${baseUrl}${path}`, {
-    method: options.method ?? 'GET',
-    headers,
-    body: options.body ? JSON.stringify(options.body) : undefined,
-  })
+  let response: Response
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body ? JSON.stringify(options.body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+  } catch (err) {
+    throw new NeonomicsBankUnavailableError(null, path, '', isTimeout(err) ? 'timeout' : 'network error')
+  }
 
   if (!response.ok) {
     const body = await response.text()
-    throw new Error(`Neonomics API error ${response.status} on ${path}: ${body}`)
+    throw errorFromResponse(
+      response.status,
+      path,
+      body,
+      parseRetryAfter(response.headers.get('retry-after'))
+    )
   }
 
   return response.json() as Promise<T>
 }
 
+/**
+ * Sends a request with retries. Only retryable errors are repeated, and
+ * POSTs only on 429 — a 5xx or timeout may mean the bank already acted.
+ * A 401 drops the cached token and tries once more with a fresh one.
+ */
+async function neonomicsRequest<T = unknown>(
+  path: string,
+  options: RequestOptions
+): Promise<T> {
+  let refreshedToken = false
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(path, options)
+    } catch (err) {
+      if (!(err instanceof NeonomicsError)) throw err
+
+      if (err instanceof NeonomicsAuthError && err.status === 401 && !refreshedToken) {
+        cachedToken = null
+        refreshedToken = true
+        continue
+      }
+
+      const idempotent = (options.method ?? 'GET') !== 'POST'
+      const canRetry = err.retryable && (idempotent || err instanceof NeonomicsRateLimitError)
+      if (!canRetry || attempt >= MAX_RETRIES) throw err
+
+      const delay = backoffDelay(attempt, err)
+      if (delay > RETRY_MAX_WAIT_MS) throw err
+      await sleep(delay)
+    }
+  }
+}
+
+// ── Transaction paging ──────────────────────────────────────────────────────
+
+export interface TransactionQuery {
+  /** ISO "yyyy-mm-dd", inclusive */
+  dateFrom?: string
+  /** ISO "yyyy-mm-dd", inclusive */
+  dateTo?: string
+}
+
+/** Safety cap — a runaway `next` link must not loop forever */
+const MAX_TRANSACTION_PAGES = 50
+
+/**
+ * `_links.next.href` may be absolute or relative to the API base URL.
+ * neonomicsRequest takes a path, so strip the origin if present.
+ */
+function toRequestPath(href: string): string {
+  const url = new URL(href, neonomicsBaseUrl())
+  return `${url.pathname}${url.search}`
+}
+
 // ── Public API ──────────────────────────────────────────────────────────────
 
 export const neonomics = {
@@ -194,13 +332,54 @@ export const neonomics = {
   },
 
   /**
-   * Get transactions for a specific account.
-   * Returns booked and pending transactions.
+   * Get one page of transactions for a specific account, optionally limited
+   * to a date range. Returns booked and pending transactions; if there are
+   * more, `_links.next` points at the next page (see getAllTransactions).
    */
-  getTransactions(accountId: string, sessionId: string, deviceId: string) {
+  getTransactions(
+    accountId: string,
+    sessionId: string,
+    deviceId: string,
+    query: TransactionQuery = {}
+  ) {
+    const params = new URLSearchParams()
+    if (query.dateFrom) params.set('dateFrom', query.dateFrom)
+    if (query.dateTo) params.set('dateTo', query.dateTo)
+    const qs = params.toString()
+
     return neonomicsRequest<NeonomicsTransactionsResponse>(
-      `/ics/v3/accounts/${accountId}/transactions`,
+      `/ics/v3/accounts/${accountId}/transactions${qs ? `?${qs}` : ''}`,
       { deviceId, sessionId }
     )
   },
+
+  /**
+   * Get all transactions in a date range, following `_links.next` until
+   * the last page. Booked and pending lists are concatenated across pages.
+   */
+  async getAllTransactions(
+    accountId: string,
+    sessionId: string,
+    deviceId: string,
+    query: TransactionQuery = {}
+  ): Promise<NeonomicsTransactionsResponse> {
+    const first = await neonomics.getTransactions(accountId, sessionId, deviceId, query)
+    const booked = [...(first.transactions.booked ?? [])]
+    const pending = [...(first.transactions.pending ?? [])]
+
+    let next = first._links?.next?.href
+    let pages = 1
+    while (next && pages < MAX_TRANSACTION_PAGES) {
+      const page = await neonomicsRequest<NeonomicsTransactionsResponse>(
+        toRequestPath(next),
+        { deviceId, sessionId }
+      )
+      booked.push(...(page.transactions.booked ?? []))
+      pending.push(...(page.transactions.pending ?? []))
+      next = page._links?.next?.href
+      pages++
+    }
+
+    return { account: first.account, transactions: { booked, pending } }
+  },
 }
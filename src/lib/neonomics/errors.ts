@@ -0,0 +1,100 @@
+/**
+ * Typed errors for Neonomics API failures.
+ *
+ * neonomicsRequest() throws one of these for every non-2xx response, timeout
+ * or network failure, so callers can branch with `instanceof` instead of
+ * parsing messages:
+ *
+ *   NeonomicsAuthError            401 / token request failed — our credentials
+ *   NeonomicsConsentExpiredError  403 — the user must reconnect with BankID
+ *   NeonomicsRateLimitError       429 — retried automatically, then thrown
+ *   NeonomicsBankUnavailableError 5xx, timeout or network error — transient
+ *   NeonomicsValidationError      other 4xx — bad input (e.g. unknown bank ID)
+ *
+ * Messages include the status and path but never the response body, which
+ * can echo account details. The body is kept on `.body` for debugging only.
+ */
+
+// ── Base class ──────────────────────────────────────────────────────────────
+
+export class NeonomicsError extends Error {
+  /** HTTP status, or null for timeouts and network failures */
+  readonly status: number | null
+  readonly path: string
+  readonly body: string
+  /** Whether the request may succeed if repeated later */
+  readonly retryable: boolean = false
+
+  constructor(message: string, status: number | null, path: string, body = '') {
+    super(message)
+    this.name = 'NeonomicsError'
+    this.status = status
+    this.path = path
+    this.body = body
+  }
+}
+
+// ── Subclasses ──────────────────────────────────────────────────────────────
+
+export class NeonomicsAuthError extends NeonomicsError {
+  constructor(status: number | null, path: string, body = '') {
+    super(`Neonomics authentication failed (${status ?? 'no response'}) on ${path}`, status, path, body)
+    this.name = 'NeonomicsAuthError'
+  }
+}
+
+export class NeonomicsConsentExpiredError extends NeonomicsError {
+  constructor(status: number, path: string, body = '') {
+    super(`Neonomics consent expired or revoked (${status}) on ${path}`, status, path, body)
+    this.name = 'NeonomicsConsentExpiredError'
+  }
+}
+
+export class NeonomicsRateLimitError extends NeonomicsError {
+  override readonly retryable = true
+  /** Server-requested wait from Retry-After, if any */
+  readonly retryAfterMs: number | null
+
+  constructor(path: string, retryAfterMs: number | null, body = '') {
+    super(`Neonomics rate limit hit (429) on ${path}`, 429, path, body)
+    this.name = 'NeonomicsRateLimitError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export class NeonomicsBankUnavailableError extends NeonomicsError {
+  override readonly retryable = true
+
+  constructor(status: number | null, path: string, body = '', reason?: string) {
+    super(
+      `Neonomics or the bank is unavailable (${status ?? reason ?? 'no response'}) on ${path}`,
+      status,
+      path,
+      body
+    )
+    this.name = 'NeonomicsBankUnavailableError'
+  }
+}
+
+export class NeonomicsValidationError extends NeonomicsError {
+  constructor(status: number, path: string, body = '') {
+    super(`Neonomics rejected the request (${status}) on ${path}`, status, path, body)
+    this.name = 'NeonomicsValidationError'
+  }
+}
+
+// ── Factory ─────────────────────────────────────────────────────────────────
+
+/** Maps an HTTP error response to the matching error class */
+export function errorFromResponse(
+  status: number,
+  path: string,
+  body: string,
+  retryAfterMs: number | null = null
+): NeonomicsError {
+  if (status === 401) return new NeonomicsAuthError(status, path, body)
+  if (status === 403) return new NeonomicsConsentExpiredError(status, path, body)
+  if (status === 429) return new NeonomicsRateLimitError(path, retryAfterMs, body)
+  if (status >= 500) return new NeonomicsBankUnavailableError(status, path, body)
+  return new NeonomicsValidationError(status, path, body)
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { assignFingerprints, contentKey, transactionFingerprint } from './fingerprint'
+
+function row(overrides: Partial<Parameters<typeof assignFingerprints>[0][number]> = {}) {
+  return {
+    transaction_date: '2025-03-14',
+    amount: -49,
+    counterpart_name: 'Kaffebrenneriet',
+    description: 'VISA 1234 Kaffebrenneriet',
+    internal_reference: null,
+    fingerprint: null,
+    ...overrides,
+  }
+}
+
+describe('contentKey', () => {
+  it('ignores case and whitespace differences', () => {
+    expect(contentKey(row({ counterpart_name: '  KAFFEBRENNERIET ', description: 'VISA  1234\tkaffebrenneriet' })))
+      .toBe(contentKey(row()))
+  })
+
+  it('compares amounts in øre', () => {
+    expect(contentKey(row({ amount: -49.001 }))).toBe(contentKey(row({ amount: -49 })))
+    expect(contentKey(row({ amount: -49.01 }))).not.toBe(contentKey(row({ amount: -49 })))
+  })
+
+  it('treats a missing counterpart like an empty one', () => {
+    expect(contentKey(row({ counterpart_name: null }))).toBe(contentKey(row({ counterpart_name: '' })))
+  })
+})
+
+describe('transactionFingerprint', () => {
+  it('is stable and depends on the occurrence index', () => {
+    expect(transactionFingerprint(row(), 0)).toBe(transactionFingerprint(row(), 0))
+    expect(transactionFingerprint(row(), 0)).not.toBe(transactionFingerprint(row(), 1))
+    expect(transactionFingerprint(row(), 0)).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
+
+describe('assignFingerprints', () => {
+  it('keeps identical same-day transactions apart', () => {
+    const [first, second] = assignFingerprints([row(), row()])
+
+    expect(first.fingerprint).toBe(transactionFingerprint(row(), 0))
+    expect(second.fingerprint).toBe(transactionFingerprint(row(), 1))
+  })
+
+  it('produces the same fingerprints when the same day is fetched again', () => {
+    const batch = [row(), row({ amount: -120 }), row()]
+
+    expect(assignFingerprints(batch).map((r) => r.fingerprint))
+      .toEqual(assignFingerprints(batch).map((r) => r.fingerprint))
+  })
+
+  it('numbers occurrences per content key, not per batch', () => {
+    const [, other] = assignFingerprints([row(), row({ transaction_date: '2025-03-15' })])
+
+    expect(other.fingerprint).toBe(transactionFingerprint(row({ transaction_date: '2025-03-15' }), 0))
+  })
+
+  it('leaves rows with a bank reference alone', () => {
+    const [referenced, unreferenced] = assignFingerprints([row({ internal_reference: 'tx-1' }), row()])
+
+    expect(referenced.fingerprint).toBeNull()
+    // The referenced row does not take occurrence #0
+    expect(unreferenced.fingerprint).toBe(transactionFingerprint(row(), 0))
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Content fingerprints for transactions the bank sends without a
+ * transactionId or entryReference.
+ *
+ * The fingerprint hashes date, amount, counterpart, description and the
+ * occurrence index of that combination within the day — so two identical
+ * 49 kr coffees on the same day get #0 and #1 and both survive, while a
+ * re-fetch of the same day produces the same fingerprints and is skipped by
+ * the UNIQUE (account_id, fingerprint) constraint.
+ *
+ * Occurrence indexes are only stable if a whole day is fetched at once,
+ * which the sync guarantees (date windows start and end on day boundaries).
+ */
+
+import { createHash } from 'crypto'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+/** The columns a fingerprint is built from */
+export interface FingerprintSource {
+  transaction_date: string
+  amount: number
+  counterpart_name: string | null
+  description: string | null
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Case- and whitespace-insensitive so cosmetic bank changes don't split rows */
+function normalizeText(value: string | null): string {
+  return (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/** Same-day grouping key — everything in the fingerprint except the index */
+export function contentKey(tx: FingerprintSource): string {
+  return [
+    tx.transaction_date,
+    Math.round(tx.amount * 100),
+    normalizeText(tx.counterpart_name),
+    normalizeText(tx.description),
+  ].join('|')
+}
+
+/** SHA-256 of the content key plus occurrence index (hex) */
+export function transactionFingerprint(tx: FingerprintSource, occurrence: number): string {
+  return createHash('sha256').update(`${contentKey(tx)}|${occurrence}`).digest('hex')
+}
+
+// ── Batch assignment ────────────────────────────────────────────────────────
+
+/**
+ * Sets `fingerprint` on every row without an internal_reference. Rows sharing
+ * a content key are numbered in the order given (the bank's order).
+ * Rows with a reference keep fingerprint = null.
+ */
+export function assignFingerprints<
+  T extends FingerprintSource & { internal_reference: string | null; fingerprint: string | null }
+>(rows: T[]): T[] {
+  const seen = new Map<string, number>()
+
+  return rows.map((row) => {
+    if (row.internal_reference !== null) return row
+
+    const key = contentKey(row)
+    const occurrence = seen.get(key) ?? 0
+    seen.set(key, occurrence + 1)
+
+    return { ...row, fingerprint: transactionFingerprint(row, occurrence) }
+  })
+}
@@ -0,0 +1,234 @@
+/**
+ * Seeded fixtures for the mock Neonomics server.
+ *
+ * Every bank in NORWEGIAN_BANKS gets a checking and a savings account.
+ * Transactions are generated deterministically from (account, date), so the
+ * same date range always returns the same data — re-syncs dedup cleanly and
+ * tests can assert on exact rows.
+ *
+ * The generated history deliberately covers the awkward cases the sync has
+ * to handle:
+ *   - rent without transactionId/entryReference (fingerprint dedup)
+ *   - two identical coffees on the same day, also without IDs
+ *   - the last PENDING_DAYS days as pending, with a different transactionId
+ *     than the booked version gets later (pending → booked reconciliation)
+ */
+
+import { NORWEGIAN_BANKS } from '@/lib/constants/norwegian-banks'
+import { toISODate } from '@/lib/utils/date-utils'
+import type {
+  NeonomicsAccount,
+  NeonomicsBalance,
+  NeonomicsTransaction,
+} from '@/types/neonomics'
+
+// ── Banks + accounts ────────────────────────────────────────────────────────
+
+export interface MockBank {
+  id: string
+  name: string
+  countryCode: string
+}
+
+export const MOCK_BANKS: MockBank[] = NORWEGIAN_BANKS.map((b) => ({
+  id: b.id,
+  name: b.name,
+  countryCode: 'NO',
+}))
+
+type MockAccountKind = 'checking' | 'savings'
+
+const ACCOUNT_KINDS: Array<{ kind: MockAccountKind; name: string; balance: number }> = [
+  { kind: 'checking', name: 'Brukskonto', balance: 18_432.5 },
+  { kind: 'savings', name: 'Sparekonto', balance: 64_000 },
+]
+
+/** Stable 11-digit fake BBAN per bank + account kind (not a real account) */
+function fakeBban(bankId: string, kind: MockAccountKind): string {
+  const digits = String(hash(`${bankId}|${kind}`)).padStart(11, '0')
+  return digits.slice(-11)
+}
+
+export function mockAccountId(bankId: string, kind: MockAccountKind): string {
+  return `${bankId}.${kind}`
+}
+
+export function mockAccounts(bankId: string): NeonomicsAccount[] {
+  return ACCOUNT_KINDS.map(({ kind, name }) => ({
+    id: mockAccountId(bankId, kind),
+    bban: fakeBban(bankId, kind),
+    name,
+    product: name,
+    currency: 'NOK',
+    accountType: kind === 'checking' ? 'CACC' : 'SVGS',
+  }))
+}
+
+/** Splits "<bankId>.<kind>" back into its parts, or null if unknown */
+export function parseMockAccountId(accountId: string): { bankId: string; kind: MockAccountKind } | null {
+  const [bankId, kind] = accountId.split('.')
+  if (!MOCK_BANKS.some((b) => b.id === bankId)) return null
+  if (kind !== 'checking' && kind !== 'savings') return null
+  return { bankId, kind }
+}
+
+export function mockBalances(accountId: string): NeonomicsBalance[] {
+  const parsed = parseMockAccountId(accountId)
+  const base = ACCOUNT_KINDS.find((a) => a.kind === parsed?.kind)?.balance ?? 0
+  return [
+    {
+      balanceAmount: { amount: base.toFixed(2), currency: 'NOK' },
+      balanceType: 'closingBooked',
+      referenceDate: toISODate(new Date()),
+    },
+  ]
+}
+
+// ── Deterministic randomness ────────────────────────────────────────────────
+
+/** FNV-1a — small, stable string hash */
+function hash(input: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/** Seeded PRNG (mulberry32) returning floats in [0, 1) */
+function seededRandom(seed: string): () => number {
+  let a = hash(seed)
+  return () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// ── Transaction generator ───────────────────────────────────────────────────
+
+/** Transactions dated within this many days of today are still pending */
+export const PENDING_DAYS = 2
+
+const GROCERY_STORES = ['REMA 1000', 'KIWI', 'Coop Extra', 'MENY', 'Joker']
+
+interface DraftTransaction {
+  amount: number
+  counterpart: string
+  description: string
+  /** false → no transactionId / entryReference, like some standing orders */
+  hasId: boolean
+  /** Only card purchases go through a pending phase */
+  card: boolean
+}
+
+function draftsForDay(accountId: string, kind: MockAccountKind, date: Date): DraftTransaction[] {
+  const rand = seededRandom(`${accountId}|${toISODate(date)}`)
+  const day = date.getDate()
+  const drafts: DraftTransaction[] = []
+
+  if (kind === 'savings') {
+    if (day === 25) {
+      drafts.push({ amount: 3000, counterpart: 'Brukskonto', description: 'Overføring sparing', hasId: true, card: false })
+    }
+    return drafts
+  }
+
+  // Fixed monthly items
+  if (day === 25) {
+    drafts.push({ amount: 42_000, counterpart: 'Arbeidsgiver AS', description: 'Lønn', hasId: true, card: false })
+    drafts.push({ amount: -3000, counterpart: 'Sparekonto', description: 'Overføring sparing', hasId: true, card: false })
+  }
+  if (day === 1) {
+    drafts.push({ amount: -14_500, counterpart: 'Utleier Eiendom AS', description: 'Husleie', hasId: false, card: false })
+  }
+  if (day === 10) {
+    const power = -Math.round(600 + rand() * 900)
+    drafts.push({ amount: power, counterpart: 'Fjordkraft', description: 'Strøm', hasId: true, card: false })
+  }
+  if (day === 15) {
+    drafts.push({ amount: -129, counterpart: 'Spotify', description: 'Spotify Premium', hasId: true, card: true })
+  }
+  if (day === 20) {
+    drafts.push({ amount: -449, counterpart: 'Telenor', description: 'Mobilabonnement', hasId: true, card: false })
+  }
+
+  // Day-to-day card spending
+  if (rand() < 0.5) {
+    const store = GROCERY_STORES[Math.floor(rand() * GROCERY_STORES.length)]
+    const amount = -Math.round((80 + rand() * 820) * 100) / 100
+    drafts.push({ amount, counterpart: store, description: `VISA ${store}`, hasId: true, card: true })
+  }
+  if (rand() < 0.2) {
+    drafts.push({ amount: -44, counterpart: 'Ruter', description: 'Ruter billett', hasId: true, card: true })
+  }
+  if (rand() < 0.15) {
+    const coffee = { amount: -49, counterpart: 'Espresso House', description: 'Espresso House', hasId: false, card: true }
+    drafts.push(coffee)
+    // Same coffee twice on one day — both must survive dedup
+    if (rand() < 0.5) drafts.push({ ...coffee })
+  }
+
+  return drafts
+}
+
+function toNeonomicsTransaction(
+  draft: DraftTransaction,
+  accountId: string,
+  date: string,
+  index: number,
+  pending: boolean
+): NeonomicsTransaction {
+  const amount = { amount: draft.amount.toFixed(2), currency: 'NOK' }
+  const counterpart = draft.amount < 0 ? { creditorName: draft.counterpart } : { debtorName: draft.counterpart }
+  const id = `${accountId}.${date}.${index}`
+
+  return {
+    // The bank issues a new ID once the card payment books
+    ...(draft.hasId ? { transactionId: pending ? `pnd.${id}` : id } : {}),
+    ...(pending ? {} : { bookingDate: date }),
+    valueDate: date,
+    transactionAmount: amount,
+    ...counterpart,
+    remittanceInformationUnstructured: draft.description,
+  }
+}
+
+/**
+ * Booked + pending transactions for an account between two ISO dates
+ * (inclusive), newest first like most bank APIs. Nothing after `today`.
+ */
+export function mockTransactions(
+  accountId: string,
+  dateFrom: string,
+  dateTo: string,
+  today: Date = new Date()
+): { booked: NeonomicsTransaction[]; pending: NeonomicsTransaction[] } {
+  const parsed = parseMockAccountId(accountId)
+  const booked: NeonomicsTransaction[] = []
+  const pending: NeonomicsTransaction[] = []
+  if (!parsed) return { booked, pending }
+
+  const todayIso = toISODate(today)
+  const pendingFrom = new Date(`${todayIso}T00:00:00`)
+  pendingFrom.setDate(pendingFrom.getDate() - PENDING_DAYS + 1)
+  const pendingFromIso = toISODate(pendingFrom)
+
+  const end = dateTo < todayIso ? dateTo : todayIso
+  const cursor = new Date(`${end}T00:00:00`)
+  const start = new Date(`${dateFrom}T00:00:00`)
+
+  while (cursor >= start) {
+    const date = toISODate(cursor)
+    draftsForDay(accountId, parsed.kind, cursor).forEach((draft, index) => {
+      const isPending = draft.card && date >= pendingFromIso
+      const tx = toNeonomicsTransaction(draft, accountId, date, index, isPending)
+      ;(isPending ? pending : booked).push(tx)
+    })
+    cursor.setDate(cursor.getDate() - 1)
+  }
+
+  return { booked, pending }
+}
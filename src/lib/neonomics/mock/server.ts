@@ -0,0 +1,231 @@
+/**
+ * Mock Neonomics server — a local stand-in for the /ics/v3 API.
+ *
+ * Served by src/app/api/mock-neonomics/[...path]/route.ts when
+ * NEONOMICS_MOCK=true; the client then points itself at MOCK_BASE_PATH
+ * (see client.ts). Implements exactly what the app calls:
+ *
+ *   POST /auth/token                          → access token
+ *   GET  /ics/v3/banks                        → MOCK_BANKS
+ *   POST /ics/v3/sessions                     → { sessionId, bankId }
+ *   GET  /ics/v3/consent/:sessionId           → scaRedirect straight back to
+ *                                               redirect_uri (no BankID step)
+ *   GET  /ics/v3/accounts                     → two accounts per bank
+ *   GET  /ics/v3/accounts/:id/balances
+ *   GET  /ics/v3/accounts/:id/transactions    → paginated via _links.next
+ *
+ * FAILURE MODES — make any endpoint fail on purpose:
+ *   NEONOMICS_MOCK_FAILURE     consent_expired (403) | rate_limited (429) | server_error (500)
+ *   NEONOMICS_MOCK_FAILURE_ON  comma-separated endpoints to fail
+ *                              (banks, sessions, consent, accounts, balances,
+ *                              transactions); default: all but token
+ * A request header `x-mock-failure: <mode>` overrides the env for one call,
+ * which is what integration tests should use.
+ *
+ * This module is pure request → response so tests can call it directly.
+ */
+
+import { randomUUID } from 'crypto'
+import { MOCK_BANKS, mockAccounts, mockBalances, mockTransactions, parseMockAccountId } from './fixtures'
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+/** Where the route handler is mounted — the client's base URL in mock mode */
+export const MOCK_BASE_PATH = '/api/mock-neonomics'
+
+/** Booked transactions per page — small so pagination actually happens */
+const PAGE_SIZE = 50
+
+export type MockFailureMode = 'consent_expired' | 'rate_limited' | 'server_error'
+
+type MockEndpoint = 'token' | 'banks' | 'sessions' | 'consent' | 'accounts' | 'balances' | 'transactions'
+
+const FAILURES: Record<MockFailureMode, { status: number; errorCode: string; message: string }> = {
+  consent_expired: { status: 403, errorCode: 'CONSENT_EXPIRED', message: 'Consent has expired' },
+  rate_limited: { status: 429, errorCode: 'RATE_LIMITED', message: 'Too many requests' },
+  server_error: { status: 500, errorCode: 'INTERNAL_ERROR', message: 'Bank backend unavailable' },
+}
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface MockRequest {
+  method: string
+  /** Path below MOCK_BASE_PATH, e.g. "/ics/v3/accounts" */
+  path: string
+  query: URLSearchParams
+  headers: Headers
+  body: unknown
+}
+
+export interface MockResponse {
+  status: number
+  headers?: Record<string, string>
+  body: unknown
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function json(status: number, body: unknown, headers?: Record<string, string>): MockResponse {
+  return { status, body, headers }
+}
+
+function error(status: number, errorCode: string, message: string): MockResponse {
+  return json(status, { errorCode, message })
+}
+
+function isFailureMode(value: string | null | undefined): value is MockFailureMode {
+  return value === 'consent_expired' || value === 'rate_limited' || value === 'server_error'
+}
+
+/** The failure to inject for this request, if any */
+function injectedFailure(endpoint: MockEndpoint, headers: Headers): MockResponse | null {
+  const override = headers.get('x-mock-failure')
+  let mode: MockFailureMode | null = isFailureMode(override) ? override : null
+
+  if (!mode && endpoint !== 'token') {
+    const fromEnv = process.env.NEONOMICS_MOCK_FAILURE
+    const scope = (process.env.NEONOMICS_MOCK_FAILURE_ON ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean)
+    if (isFailureMode(fromEnv) && (scope.length === 0 || scope.includes(endpoint))) {
+      mode = fromEnv
+    }
+  }
+
+  if (!mode) return null
+  const failure = FAILURES[mode]
+  return json(
+    failure.status,
+    { errorCode: failure.errorCode, message: failure.message },
+    mode === 'rate_limited' ? { 'Retry-After': '1' } : undefined
+  )
+}
+
+/** Session IDs carry their bank: "mock.<bankId>.<uuid>" */
+function bankIdFromSession(sessionId: string | null): string | null {
+  if (!sessionId?.startsWith('mock.')) return null
+  const bankId = sessionId.split('.')[1]
+  return MOCK_BANKS.some((b) => b.id === bankId) ? bankId : null
+}
+
+// ── Router ──────────────────────────────────────────────────────────────────
+
+export function handleMockRequest(req: MockRequest): MockResponse {
+  const segments = req.path.split('/').filter(Boolean)
+
+  // POST /auth/token
+  if (req.method === 'POST' && req.path === '/auth/token') {
+    return injectedFailure('token', req.headers) ??
+      json(200, { access_token: `mock-token-${randomUUID()}`, expires_in: 300, token_type: 'Bearer' })
+  }
+
+  if (segments[0] !== 'ics' || segments[1] !== 'v3') {
+    return error(404, 'NOT_FOUND', `No mock for ${req.path}`)
+  }
+  if (!req.headers.get('authorization')?.startsWith('Bearer ')) {
+    return error(401, 'UNAUTHORIZED', 'Missing bearer token')
+  }
+  if (!req.headers.get('x-device-id')) {
+    return error(400, 'MISSING_DEVICE_ID', 'x-device-id header is required')
+  }
+
+  const [resource, id, sub] = segments.slice(2)
+
+  // GET /ics/v3/banks
+  if (req.method === 'GET' && resource === 'banks' && !id) {
+    return injectedFailure('banks', req.headers) ?? json(200, MOCK_BANKS)
+  }
+
+  // POST /ics/v3/sessions
+  if (req.method === 'POST' && resource === 'sessions' && !id) {
+    const failure = injectedFailure('sessions', req.headers)
+    if (failure) return failure
+
+    const bankId = (req.body as { bankId?: unknown } | null)?.bankId
+    if (typeof bankId !== 'string' || !MOCK_BANKS.some((b) => b.id === bankId)) {
+      return error(400, 'INVALID_BANK', 'Unknown bankId')
+    }
+    return json(200, { sessionId: `mock.${bankId}.${randomUUID()}`, bankId, consentLifetime: 180 })
+  }
+
+  // GET /ics/v3/consent/:sessionId
+  if (req.method === 'GET' && resource === 'consent' && id) {
+    const failure = injectedFailure('consent', req.headers)
+    if (failure) return failure
+
+    if (!bankIdFromSession(id)) return error(404, 'SESSION_NOT_FOUND', 'Unknown session')
+    const redirectUri = req.query.get('redirect_uri')
+    if (!redirectUri) return error(400, 'MISSING_REDIRECT_URI', 'redirect_uri is required')
+
+    // Real flow: bank's BankID page → redirect_uri. The mock skips straight to the callback.
+    const scaRedirect = new URL(redirectUri)
+    scaRedirect.searchParams.set('sessionId', id)
+    return json(200, {
+      links: { scaRedirect: scaRedirect.toString() },
+      consentId: `consent.${id}`,
+      consentStatus: 'valid',
+    })
+  }
+
+  // Everything below needs a session
+  if (resource === 'accounts' && req.method === 'GET') {
+    const bankId = bankIdFromSession(req.headers.get('x-session-id'))
+    if (!bankId) return error(400, 'INVALID_SESSION', 'x-session-id header is missing or unknown')
+
+    // GET /ics/v3/accounts
+    if (!id) {
+      return injectedFailure('accounts', req.headers) ?? json(200, mockAccounts(bankId))
+    }
+
+    const account = parseMockAccountId(id)
+    if (!account || account.bankId !== bankId) {
+      return error(404, 'ACCOUNT_NOT_FOUND', 'Unknown account')
+    }
+
+    // GET /ics/v3/accounts/:id/balances
+    if (sub === 'balances') {
+      return injectedFailure('balances', req.headers) ?? json(200, mockBalances(id))
+    }
+
+    // GET /ics/v3/accounts/:id/transactions
+    if (sub === 'transactions') {
+      const failure = injectedFailure('transactions', req.headers)
+      if (failure) return failure
+      return transactionsPage(id, req.query)
+    }
+  }
+
+  return error(404, 'NOT_FOUND', `No mock for ${req.method} ${req.path}`)
+}
+
+// ── Transactions ────────────────────────────────────────────────────────────
+
+function transactionsPage(accountId: string, query: URLSearchParams): MockResponse {
+  const today = new Date().toISOString().split('T')[0]
+  const dateTo = query.get('dateTo') ?? today
+  const defaultFrom = new Date()
+  defaultFrom.setDate(defaultFrom.getDate() - 90)
+  const dateFrom = query.get('dateFrom') ?? defaultFrom.toISOString().split('T')[0]
+  const page = Math.max(1, parseInt(query.get('page') ?? '1', 10) || 1)
+
+  const { booked, pending } = mockTransactions(accountId, dateFrom, dateTo)
+  const start = (page - 1) * PAGE_SIZE
+  const hasMore = start + PAGE_SIZE < booked.length
+
+  const next = new URLSearchParams({ dateFrom, dateTo, page: String(page + 1) })
+  const account = mockAccounts(parseMockAccountId(accountId)!.bankId).find((a) => a.id === accountId)
+
+  return json(200, {
+    account: { bban: account?.bban },
+    transactions: {
+      booked: booked.slice(start, start + PAGE_SIZE),
+      // Pending entries only on the first page
+      pending: page === 1 ? pending : [],
+    },
+    // Relative to the API base, like the real API — client.ts resolves it
+    ...(hasMore
+      ? { _links: { next: { href: `/ics/v3/accounts/${accountId}/transactions?${next.toString()}` } } }
+      : {}),
+  })
+}
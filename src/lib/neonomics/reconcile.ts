@@ -0,0 +1,281 @@
+/**
+ * Pending → booked reconciliation.
+ *
+ * Banks list a card payment as 'pending' for a few days before it books,
+ * and the booked entry frequently carries a new transactionId. Without
+ * reconciliation the same purchase would show up twice.
+ *
+ * When a booked transaction arrives we look for a stored pending row on the
+ * same account with:
+ *   - the same internal_reference (bank kept the ID), or
+ *   - the same content fingerprint (neither side has an ID — the booked row
+ *     could not be stored next to it anyway), or
+ *   - the same amount, a date within PENDING_MATCH_DAYS and a compatible
+ *     counterpart name
+ * and update that row in place (keeping its id and category). Only booked
+ * transactions without a match are inserted as new rows.
+ *
+ * Pending rows that never book (cancelled authorisations, amount changed at
+ * settlement) are deleted once they are older than the expiry window.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+/** Max days between the pending date and the booking date */
+export const PENDING_MATCH_DAYS = 5
+/** Default age (days) after which an unbooked pending row is dropped */
+export const DEFAULT_PENDING_EXPIRY_DAYS = 10
+
+/** Expiry window — PENDING_EXPIRY_DAYS env var, else the default */
+export function pendingExpiryDays(): number {
+  const fromEnv = parseInt(process.env.PENDING_EXPIRY_DAYS ?? '', 10)
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_PENDING_EXPIRY_DAYS
+}
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+/** The columns reconciliation needs from a stored pending row */
+export interface PendingRow {
+  id: string
+  amount: number
+  transaction_date: string
+  counterpart_name: string | null
+  internal_reference: string | null
+  fingerprint: string | null
+}
+
+/** The columns reconciliation needs from an incoming booked row */
+export interface BookedCandidate {
+  amount: number
+  transaction_date: string
+  counterpart_name: string | null
+  internal_reference: string | null
+  fingerprint: string | null
+}
+
+export interface ReconcileResult<T> {
+  /** Booked rows that did not replace a pending row — insert these */
+  remaining: T[]
+  /** Pending rows that were updated to booked */
+  reconciled: number
+  errors: string[]
+}
+
+// ── Matching (pure) ─────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysApart(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS
+}
+
+/** Lowercase letters and digits only — "REMA 1000 STORO*" → "rema1000storo" */
+function normalizeCounterpart(name: string | null): string {
+  return (name ?? '').toLowerCase().replace(/[^a-z0-9æøå]/g, '')
+}
+
+/**
+ * Pending and booked names often differ in truncation or suffixes, so one
+ * containing the other counts. A missing name on either side is not a conflict.
+ */
+function counterpartsCompatible(a: string | null, b: string | null): boolean {
+  const na = normalizeCounterpart(a)
+  const nb = normalizeCounterpart(b)
+  if (!na || !nb) return true
+  return na.includes(nb) || nb.includes(na)
+}
+
+/**
+ * Pairs booked rows with pending rows. Returns booked index → pending id.
+ * Each pending row is used at most once; reference and fingerprint matches
+ * win, then the closest date, then an exact counterpart match.
+ */
+export function matchPendingToBooked(
+  pending: PendingRow[],
+  booked: BookedCandidate[]
+): Map<number, string> {
+  const matches = new Map<number, string>()
+  const used = new Set<string>()
+
+  // Pass 1: the bank kept the same reference, or the content is identical.
+  // A fingerprint match must win — otherwise the booked row is skipped as a
+  // duplicate on insert and the pending row later expires, losing both.
+  const byRef = new Map<string, PendingRow>()
+  const byFingerprint = new Map<string, PendingRow>()
+  for (const p of pending) {
+    if (p.internal_reference) byRef.set(p.internal_reference, p)
+    if (p.fingerprint) byFingerprint.set(p.fingerprint, p)
+  }
+  booked.forEach((b, i) => {
+    const p = b.internal_reference
+      ? byRef.get(b.internal_reference)
+      : b.fingerprint
+        ? byFingerprint.get(b.fingerprint)
+        : undefined
+    if (p && !used.has(p.id)) {
+      matches.set(i, p.id)
+      used.add(p.id)
+    }
+  })
+
+  // Pass 2: amount + date proximity + counterpart
+  booked.forEach((b, i) => {
+    if (matches.has(i)) return
+
+    let best: { id: string; days: number; exact: boolean } | null = null
+    for (const p of pending) {
+      if (used.has(p.id)) continue
+      if (Math.round(p.amount * 100) !== Math.round(b.amount * 100)) continue
+
+      const days = daysApart(p.transaction_date, b.transaction_date)
+      if (days > PENDING_MATCH_DAYS) continue
+      if (!counterpartsCompatible(p.counterpart_name, b.counterpart_name)) continue
+
+      const exact = normalizeCounterpart(p.counterpart_name) === normalizeCounterpart(b.counterpart_name)
+      if (!best || days < best.days || (days === best.days && exact && !best.exact)) {
+        best = { id: p.id, days, exact }
+      }
+    }
+
+    if (best) {
+      matches.set(i, best.id)
+      used.add(best.id)
+    }
+  })
+
+  return matches
+}
+
+// ── Database ────────────────────────────────────────────────────────────────
+
+/**
+ * Replaces stored pending rows with their booked versions for one account.
+ * Booked rows that are already stored as booked are left alone — they are
+ * re-fetches from the sync overlap, not new bookings.
+ */
+export async function reconcileBooked<T extends BookedCandidate>(
+  supabase: SupabaseClient,
+  accountId: string,
+  bookedRows: T[]
+): Promise<ReconcileResult<T>> {
+  const result: ReconcileResult<T> = { remaining: bookedRows, reconciled: 0, errors: [] }
+  if (bookedRows.length === 0) return result
+
+  const { data: pendingData, error: pendingError } = await supabase
+    .from('transactions')
+    .select('id, amount, transaction_date, counterpart_name, internal_reference, fingerprint')
+    .eq('account_id', accountId)
+    .eq('status', 'pending')
+
+  if (pendingError) {
+    result.errors.push(`Failed to load pending transactions: ${pendingError.message}`)
+    return result
+  }
+
+  const pending = ((pendingData ?? []) as PendingRow[]).map((p) => ({ ...p, amount: Number(p.amount) }))
+  if (pending.length === 0) return result
+
+  // Only booked rows with an amount some pending row has can match — keeps the
+  // reference lookup below small even on a full backfill
+  const pendingAmounts = new Set(pending.map((p) => Math.round(p.amount * 100)))
+  const pendingRefs = new Set(pending.map((p) => p.internal_reference).filter(Boolean))
+  const candidates = bookedRows.filter(
+    (b) =>
+      pendingAmounts.has(Math.round(b.amount * 100)) ||
+      (b.internal_reference !== null && pendingRefs.has(b.internal_reference))
+  )
+  if (candidates.length === 0) return result
+
+  const candidateRefs = candidates
+    .map((b) => b.internal_reference)
+    .filter((ref): ref is string => ref !== null)
+
+  const alreadyBooked = new Set<string>()
+  if (candidateRefs.length > 0) {
+    const { data: bookedData } = await supabase
+      .from('transactions')
+      .select('internal_reference')
+      .eq('account_id', accountId)
+      .eq('status', 'booked')
+      .in('internal_reference', candidateRefs)
+    for (const row of bookedData ?? []) {
+      if (row.internal_reference) alreadyBooked.add(row.internal_reference)
+    }
+  }
+
+  // Rows without a reference are identified by their content fingerprint
+  const candidateFingerprints = candidates
+    .map((b) => b.fingerprint)
+    .filter((fp): fp is string => fp !== null)
+
+  const bookedFingerprints = new Set<string>()
+  if (candidateFingerprints.length > 0) {
+    const { data: bookedData } = await supabase
+      .from('transactions')
+      .select('fingerprint')
+      .eq('account_id', accountId)
+      .eq('status', 'booked')
+      .in('fingerprint', candidateFingerprints)
+    for (const row of bookedData ?? []) {
+      if (row.fingerprint) bookedFingerprints.add(row.fingerprint)
+    }
+  }
+
+  const fresh = candidates.filter((b) =>
+    b.internal_reference === null
+      ? b.fingerprint === null || !bookedFingerprints.has(b.fingerprint)
+      : !alreadyBooked.has(b.internal_reference)
+  )
+  const matches = matchPendingToBooked(pending, fresh)
+
+  const replaced = new Set<T>()
+  for (const [index, pendingId] of matches) {
+    const booked = fresh[index] as T
+    // Overwrite the bank-provided fields; id and categorization stay
+    // (undefined keys are dropped from the request body)
+    const { error } = await supabase
+      .from('transactions')
+      .update({ ...booked, category: undefined, is_recurring: undefined, status: 'booked' })
+      .eq('id', pendingId)
+      .eq('status', 'pending')
+
+    if (error) {
+      result.errors.push(`Failed to reconcile pending transaction: ${error.message}`)
+      continue
+    }
+    replaced.add(booked)
+    result.reconciled++
+  }
+
+  result.remaining = bookedRows.filter((b) => !replaced.has(b))
+  return result
+}
+
+/**
+ * Deletes pending rows on one account dated more than `expiryDays` ago.
+ * Returns how many were removed.
+ */
+export async function expireStalePending(
+  supabase: SupabaseClient,
+  accountId: string,
+  expiryDays: number,
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(now)
+  cutoff.setDate(cutoff.getDate() - expiryDays)
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .delete()
+    .eq('account_id', accountId)
+    .eq('status', 'pending')
+    .lt('transaction_date', cutoff.toISOString().split('T')[0])
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to expire pending transactions: ${error.message}`)
+  }
+  return data?.length ?? 0
+}
@@ -0,0 +1,191 @@
+/**
+ * One-off repair: merges duplicate unreferenced transactions and backfills
+ * their fingerprints (migration 018).
+ *
+ * Before fingerprints, rows without a bank reference were deduplicated with
+ * a check-then-insert on (date, amount) — concurrent syncs could both insert,
+ * and the first fingerprinted sync re-inserts days that are already stored
+ * without a fingerprint. Within one content key (see fingerprint.ts):
+ *   - every fingerprinted row is a real occurrence (#0, #1, ...)
+ *   - legacy rows (no fingerprint) account for at most one occurrence,
+ *     since the old dedup never stored the same (date, amount) twice
+ * Extra rows are deleted; the ones kept prefer user categorization, then
+ * booked over pending, then the oldest. Kept legacy rows get the lowest
+ * free occurrence index.
+ *
+ * Safe to re-run — a clean account produces no changes.
+ * Must be called with a service role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { contentKey, transactionFingerprint } from './fingerprint'
+
+// ── Config ──────────────────────────────────────────────────────────────────
+
+const PAGE_SIZE = 1000
+const DELETE_BATCH_SIZE = 100
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface RepairSummary {
+  accountsChecked: number
+  duplicatesRemoved: number
+  fingerprintsAssigned: number
+  errors: string[]
+}
+
+export interface RepairRow {
+  id: string
+  transaction_date: string
+  amount: number
+  counterpart_name: string | null
+  description: string | null
+  category_source: 'rule' | 'ai' | 'user' | null
+  status: 'pending' | 'booked'
+  fingerprint: string | null
+  created_at: string
+}
+
+export interface RepairPlan {
+  deleteIds: string[]
+  /** Kept legacy rows → fingerprint to set */
+  fingerprints: Array<{ id: string; fingerprint: string }>
+}
+
+// ── Planning (pure) ─────────────────────────────────────────────────────────
+
+/** Lower sorts first = more worth keeping */
+function keepRank(a: RepairRow, b: RepairRow): number {
+  const user = Number(b.category_source === 'user') - Number(a.category_source === 'user')
+  if (user !== 0) return user
+  const booked = Number(b.status === 'booked') - Number(a.status === 'booked')
+  if (booked !== 0) return booked
+  return a.created_at.localeCompare(b.created_at)
+}
+
+/** Decides which rows of one account to delete and which to fingerprint */
+export function planRepair(rows: RepairRow[]): RepairPlan {
+  const plan: RepairPlan = { deleteIds: [], fingerprints: [] }
+
+  const groups = new Map<string, RepairRow[]>()
+  for (const row of rows) {
+    const key = contentKey(row)
+    groups.set(key, [...(groups.get(key) ?? []), row])
+  }
+
+  for (const group of groups.values()) {
+    const fingerprinted = group.filter((r) => r.fingerprint !== null)
+    const legacy = group.filter((r) => r.fingerprint === null)
+    if (legacy.length === 0) continue
+
+    const occurrences = Math.max(fingerprinted.length, 1)
+    const ranked = [...group].sort(keepRank)
+    const kept = ranked.slice(0, occurrences)
+    plan.deleteIds.push(...ranked.slice(occurrences).map((r) => r.id))
+
+    // Indexes still held by kept fingerprinted rows
+    const taken = new Set(kept.map((r) => r.fingerprint).filter((fp) => fp !== null))
+    let occurrence = 0
+    for (const row of kept) {
+      if (row.fingerprint !== null) continue
+      while (taken.has(transactionFingerprint(row, occurrence))) occurrence++
+      const fingerprint = transactionFingerprint(row, occurrence)
+      taken.add(fingerprint)
+      plan.fingerprints.push({ id: row.id, fingerprint })
+    }
+  }
+
+  return plan
+}
+
+// ── Database ────────────────────────────────────────────────────────────────
+
+async function loadUnreferenced(supabase: SupabaseClient, accountId: string): Promise<RepairRow[]> {
+  const rows: RepairRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, transaction_date, amount, counterpart_name, description, category_source, status, fingerprint, created_at')
+      .eq('account_id', accountId)
+      .is('internal_reference', null)
+      // Hand-entered rows are never duplicates of each other
+      .neq('source', 'manual')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load transactions: ${error.message}`)
+    const page = (data ?? []) as RepairRow[]
+    rows.push(...page.map((r) => ({ ...r, amount: Number(r.amount) })))
+    if (page.length < PAGE_SIZE) return rows
+  }
+}
+
+/** Applies a plan: deletes first so freed fingerprints can be reused */
+async function applyPlan(
+  supabase: SupabaseClient,
+  plan: RepairPlan,
+  summary: RepairSummary
+): Promise<void> {
+  for (let i = 0; i < plan.deleteIds.length; i += DELETE_BATCH_SIZE) {
+    const ids = plan.deleteIds.slice(i, i + DELETE_BATCH_SIZE)
+    const { error } = await supabase.from('transactions').delete().in('id', ids)
+    if (error) {
+      // Don't fingerprint survivors of a half-applied group — retry on next run
+      summary.errors.push(`Failed to delete duplicates: ${error.message}`)
+      return
+    }
+    summary.duplicatesRemoved += ids.length
+  }
+
+  for (const { id, fingerprint } of plan.fingerprints) {
+    const { error } = await supabase
+      .from('transactions')
+      .update({ fingerprint })
+      .eq('id', id)
+    if (error) {
+      summary.errors.push(`Failed to set fingerprint: ${error.message}`)
+    } else {
+      summary.fingerprintsAssigned++
+    }
+  }
+}
+
+// ── Main entry point ────────────────────────────────────────────────────────
+
+/** Repairs every account, one at a time */
+export async function repairDuplicateTransactions(
+  supabase: SupabaseClient
+): Promise<RepairSummary> {
+  const summary: RepairSummary = {
+    accountsChecked: 0,
+    duplicatesRemoved: 0,
+    fingerprintsAssigned: 0,
+    errors: [],
+  }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: accounts, error } = await supabase
+      .from('accounts')
+      .select('id')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load accounts: ${error.message}`)
+    }
+
+    for (const account of accounts ?? []) {
+      summary.accountsChecked++
+      try {
+        const rows = await loadUnreferenced(supabase, account.id)
+        await applyPlan(supabase, planRepair(rows), summary)
+      } catch (err) {
+        summary.errors.push(err instanceof Error ? err.message : 'Unknown error')
+      }
+    }
+
+    if ((accounts ?? []).length < PAGE_SIZE) break
+  }
+
+  return summary
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { createFakeSupabase } from '@/test/fake-supabase'
+import { finishSyncRun, publicSyncError, startSyncRun, SYNC_ERROR_MESSAGES, syncRunStatus } from './sync-runs'
+
+const USER_ID = '11111111-1111-4111-8111-111111111111'
+const CONNECTION_ID = '22222222-2222-4222-8222-222222222222'
+
+const dbError = 'Failed to upsert account: duplicate key value violates unique constraint "accounts_pkey"'
+
+describe('syncRunStatus / publicSyncError', () => {
+  it('classifies outcomes', () => {
+    expect(syncRunStatus({ accountsSynced: 2, transactionsSynced: 10, errors: [] })).toBe('success')
+    expect(syncRunStatus({ accountsSynced: 1, transactionsSynced: 10, errors: [dbError] })).toBe('partial')
+    expect(syncRunStatus({ accountsSynced: 0, transactionsSynced: 0, errors: [dbError] })).toBe('failed')
+  })
+
+  it('never passes raw error text on', () => {
+    expect(publicSyncError({ accountsSynced: 2, transactionsSynced: 10, errors: [] })).toBeNull()
+    expect(publicSyncError({ accountsSynced: 1, transactionsSynced: 0, errors: [dbError] }))
+      .toBe(SYNC_ERROR_MESSAGES.partial)
+    expect(publicSyncError({ accountsSynced: 0, transactionsSynced: 0, errors: [dbError] }))
+      .toBe(SYNC_ERROR_MESSAGES.failed)
+  })
+})
+
+describe('finishSyncRun', () => {
+  it('stores the fixed message, not the raw errors', async () => {
+    const db = createFakeSupabase()
+    const runId = await startSyncRun(db.client, USER_ID, CONNECTION_ID, 'manual')
+
+    await finishSyncRun(db.client, runId, {
+      accountsSynced: 0,
+      transactionsSynced: 0,
+      errors: [dbError, 'Could not load encryption key: bad key'],
+    })
+
+    expect(db.table('sync_runs')[0]).toMatchObject({
+      status: 'failed',
+      errors: [SYNC_ERROR_MESSAGES.failed],
+    })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Sync run history — one sync_runs row per connection per sync attempt.
+ *
+ * Used by both the manual sync route and the background cron so every
+ * attempt (and its errors) is recorded the same way. Shown per bank in
+ * Settings → Connected Banks.
+ *
+ * Writes need a service role client — users can only read their runs.
+ *
+ * SECURITY: SyncResult.errors carry database and API details, so runs store
+ * only fixed user-facing messages. Callers log the raw errors server-side.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SyncResult } from './sync'
+
+export type SyncTrigger = 'cron' | 'manual'
+export type SyncRunStatus = 'running' | 'success' | 'partial' | 'failed'
+
+export interface SyncRun {
+  id: string
+  bank_connection_id: string
+  trigger_source: SyncTrigger
+  status: SyncRunStatus
+  accounts_synced: number
+  transactions_synced: number
+  errors: string[]
+  started_at: string
+  finished_at: string | null
+}
+
+/** Runs shown per connection in Settings */
+export const SYNC_HISTORY_PER_CONNECTION = 5
+
+/** A sync that got no accounts at all is a failure; some errors is 'partial' */
+export function syncRunStatus(result: SyncResult): Exclude<SyncRunStatus, 'running'> {
+  if (result.errors.length === 0) return 'success'
+  return result.accountsSynced === 0 ? 'failed' : 'partial'
+}
+
+/** What users see for a sync that didn't fully succeed */
+export const SYNC_ERROR_MESSAGES: Record<'partial' | 'failed', string> = {
+  partial: 'Some accounts or transactions could not be synced. They will be retried on the next sync.',
+  failed: 'The bank could not be synced. Aura will retry automatically.',
+}
+
+/** The user-facing message for a sync outcome, or null when it succeeded */
+export function publicSyncError(result: SyncResult): string | null {
+  const status = syncRunStatus(result)
+  return status === 'success' ? null : SYNC_ERROR_MESSAGES[status]
+}
+
+/**
+ * Opens a run row. Returns its id, or null if the insert failed —
+ * history is best-effort and must never block the sync itself.
+ */
+export async function startSyncRun(
+  supabase: SupabaseClient,
+  userId: string,
+  connectionId: string,
+  trigger: SyncTrigger
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .insert({
+      user_id: userId,
+      bank_connection_id: connectionId,
+      trigger_source: trigger,
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    console.error(`[SYNC_RUNS] Could not open run for connection ${connectionId}:`, error?.message)
+    return null
+  }
+  return data.id
+}
+
+/** Closes a run row with the sync outcome */
+export async function finishSyncRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  result: SyncResult
+): Promise<void> {
+  if (!runId) return
+
+  const publicError = publicSyncError(result)
+  await supabase
+    .from('sync_runs')
+    .update({
+      status: syncRunStatus(result),
+      accounts_synced: result.accountsSynced,
+      transactions_synced: result.transactionsSynced,
+      errors: publicError ? [publicError] : [],
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+}
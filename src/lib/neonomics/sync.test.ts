@@ -0,0 +1,134 @@
+/**
+ * Sync against the mock Neonomics server — the real client, the mock route
+ * handler (fetch is routed into it) and an in-memory Supabase.
+ */
+
+import { randomBytes } from 'crypto'
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GET, POST } from '@/app/api/mock-neonomics/[...path]/route'
+import { getMasterKeys, isCiphertext } from '@/lib/crypto/cipher'
+import { wrapDataKey } from '@/lib/crypto/envelope'
+import { MOCK_BANKS } from './mock/fixtures'
+import { syncBankConnection } from './sync'
+import { createFakeSupabase, type FakeSupabase } from '@/test/fake-supabase'
+
+const USER_ID = '11111111-1111-4111-8111-111111111111'
+const CONNECTION_ID = '22222222-2222-4222-8222-222222222222'
+const BANK_ID = MOCK_BANKS[0].id
+
+function seed(lastSyncedAt: string | null): FakeSupabase {
+  const { current } = getMasterKeys()
+  return createFakeSupabase({
+    bank_connections: [
+      {
+        id: CONNECTION_ID,
+        user_id: USER_ID,
+        neonomics_session_id: `mock.${BANK_ID}.${randomBytes(8).toString('hex')}`,
+        bank_name: 'Mock Bank',
+        status: 'active',
+        last_synced_at: lastSyncedAt,
+      },
+    ],
+    user_data_keys: [
+      { user_id: USER_ID, wrapped_key: wrapDataKey(randomBytes(32), current), master_key_id: current.id },
+    ],
+  })
+}
+
+function daysAgo(days: number): string {
+  const date = new Date()
+  date.setDate(date.getDate() - days)
+  return date.toISOString()
+}
+
+beforeEach(() => {
+  vi.stubEnv('NEONOMICS_MOCK', 'true')
+  vi.stubEnv('NEXT_PUBLIC_APP_URL', 'http://localhost:3000')
+  vi.stubEnv('ENCRYPTION_MASTER_KEY', randomBytes(32).toString('hex'))
+  vi.stubEnv('ENCRYPTION_MASTER_KEY_PREVIOUS', '')
+  vi.stubEnv('NEONOMICS_MOCK_FAILURE', '')
+
+  // The client calls the mock over HTTP — hand those requests straight to the route
+  vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => {
+    const request = new NextRequest(input, init as ConstructorParameters<typeof NextRequest>[1])
+    return request.method === 'POST' ? POST(request) : GET(request)
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe('syncBankConnection against the mock', () => {
+  it('stores accounts and transactions, encrypted, and advances last_synced_at', async () => {
+    const db = seed(daysAgo(30))
+
+    const result = await syncBankConnection(db.client, USER_ID, CONNECTION_ID)
+
+    expect(result.errors).toEqual([])
+    expect(result.accountsSynced).toBe(2)
+    expect(result.transactionsSynced).toBeGreaterThan(0)
+
+    const accounts = db.table('accounts')
+    expect(accounts).toHaveLength(2)
+    for (const account of accounts) {
+      expect(isCiphertext(account.iban)).toBe(true)
+    }
+
+    const transactions = db.table('transactions')
+    expect(transactions).toHaveLength(result.transactionsSynced)
+    expect(transactions.every((tx) => isCiphertext(tx.raw_data))).toBe(true)
+    expect(transactions.every((tx) => tx.user_id === USER_ID)).toBe(true)
+    // Rows without a bank reference are deduplicated by fingerprint instead
+    expect(transactions.every((tx) => tx.internal_reference !== null || tx.fingerprint !== null)).toBe(true)
+
+    const [connection] = db.table('bank_connections')
+    expect(Date.now() - new Date(connection.last_synced_at as string).getTime()).toBeLessThan(60_000)
+  })
+
+  it('stores nothing twice when the same range is synced again', async () => {
+    const db = seed(daysAgo(30))
+
+    await syncBankConnection(db.client, USER_ID, CONNECTION_ID)
+    const stored = db.table('transactions').length
+
+    const again = await syncBankConnection(db.client, USER_ID, CONNECTION_ID, { fullBackfill: false })
+
+    expect(again.errors).toEqual([])
+    expect(db.table('transactions')).toHaveLength(stored)
+  })
+
+  it('clears an earlier failure, even after the cron gave up retrying', async () => {
+    const db = seed(daysAgo(30))
+    Object.assign(db.table('bank_connections')[0], {
+      status: 'error',
+      status_reason: 'sync_failed',
+      consecutive_failures: 6,
+      next_sync_at: null,
+    })
+
+    const result = await syncBankConnection(db.client, USER_ID, CONNECTION_ID)
+
+    expect(result.errors).toEqual([])
+    expect(db.table('bank_connections')[0]).toMatchObject({
+      status: 'active',
+      status_reason: null,
+      consecutive_failures: 0,
+      next_sync_at: null,
+    })
+  })
+
+  it('marks the connection expired when the bank reports expired consent', async () => {
+    vi.stubEnv('NEONOMICS_MOCK_FAILURE', 'consent_expired')
+    const db = seed(daysAgo(30))
+
+    const result = await syncBankConnection(db.client, USER_ID, CONNECTION_ID)
+
+    expect(result.accountsSynced).toBe(0)
+    expect(result.errors).toHaveLength(1)
+    expect(db.table('bank_connections')[0].status).toBe('expired')
+    expect(db.table('transactions')).toHaveLength(0)
+  })
+})
@@ -4,19 +4,39 @@
  *
  * SECURITY:
  * - This module runs server-side only (called from API routes)
- * - Raw Neonomics data is stored in transactions.raw_data (JSONB) for debugging
- *   but is NEVER sent to Claude — use context-builder for that
- * - IBANs are stored in the accounts table but NEVER logged or sent to Claude
+ * - Raw Neonomics data is stored in transactions.raw_data for debugging,
+ *   encrypted with the user's data key, and is NEVER sent to Claude — use
+ *   context-builder for that
+ * - IBANs are stored encrypted in the accounts table and NEVER logged or
+ *   sent to Claude
+ *
+ * INCREMENTAL SYNC:
+ * - First sync (or fullBackfill) fetches FULL_BACKFILL_DAYS of history
+ * - Later syncs fetch from last_synced_at minus SYNC_OVERLAP_DAYS, so late
+ *   bookings inside the overlap are still picked up
+ * - Ranges are split into WINDOW_DAYS chunks; each chunk is paginated
  *
  * DEDUPLICATION:
  * - Accounts: ON CONFLICT (bank_connection_id, neonomics_account_id) → update
- * - Transactions: ON CONFLICT (account_id, internal_reference) → update
- *   Transactions with no internal_reference are inserted fresh (no dedup)
+ * - Transactions: storeTransactions() — internal_reference, or a content
+ *   fingerprint when the bank sends none (see fingerprint.ts)
+ *
+ * PENDING TRANSACTIONS:
+ * - Stored with status = 'pending'; a booked transaction that matches one
+ *   replaces it in place (see reconcile.ts)
+ * - Pending rows older than the expiry window are deleted each sync
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js'
-import { neonomics } from './client'
+import { neonomics, type TransactionQuery } from './client'
+import { NeonomicsConsentExpiredError } from './errors'
+import { assignFingerprints } from './fingerprint'
+import { storeTransactions, type NewTransactionRow } from '@/lib/transactions/store'
+import { getUserCipher, type UserCipher } from '@/lib/crypto/envelope'
+import { reconcileBooked, expireStalePending, pendingExpiryDays } from './reconcile'
+import { syncRunStatus } from './sync-runs'
 import type { NeonomicsTransaction } from '@/types/neonomics'
+import { toISODate } from '@/lib/utils/date-utils'
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
@@ -26,6 +46,63 @@ export interface SyncResult {
   errors: string[]
 }
 
+export interface SyncOptions {
+  /** Ignore last_synced_at and fetch the full history window */
+  fullBackfill?: boolean
+  /** Drop pending rows older than this (default: pendingExpiryDays()) */
+  pendingExpiryDays?: number
+}
+
+// ── Sync window ─────────────────────────────────────────────────────────────
+
+/** Re-fetch this many days before last_synced_at (pending rows book late) */
+export const SYNC_OVERLAP_DAYS = 7
+/** How far back a full backfill reaches */
+export const FULL_BACKFILL_DAYS = 730
+/** Longest date range per request — many banks reject longer ranges */
+const WINDOW_DAYS = 90
+
+/**
+ * Date range to fetch for a connection: everything since the last sync
+ * (with overlap), or the full backfill window on first sync.
+ */
+export function syncDateRange(
+  lastSyncedAt: string | null,
+  fullBackfill: boolean,
+  now: Date = new Date()
+): Required<TransactionQuery> {
+  const from = new Date(now)
+  if (fullBackfill || !lastSyncedAt) {
+    from.setDate(from.getDate() - FULL_BACKFILL_DAYS)
+  } else {
+    from.setTime(new Date(lastSyncedAt).getTime())
+    from.setDate(from.getDate() - SYNC_OVERLAP_DAYS)
+  }
+  return { dateFrom: toISODate(from), dateTo: toISODate(now) }
+}
+
+/** Splits [dateFrom, dateTo] into consecutive WINDOW_DAYS-long ranges, oldest first */
+export function splitIntoWindows(
+  range: Required<TransactionQuery>,
+  windowDays: number = WINDOW_DAYS
+): Required<TransactionQuery>[] {
+  const windows: Required<TransactionQuery>[] = []
+  // Local midnight, like toISODate reads it back
+  const end = new Date(`${range.dateTo}T00:00:00`)
+  const cursor = new Date(`${range.dateFrom}T00:00:00`)
+
+  while (cursor <= end) {
+    const windowEnd = new Date(cursor)
+    windowEnd.setDate(windowEnd.getDate() + windowDays - 1)
+    const to = windowEnd < end ? windowEnd : end
+    windows.push({ dateFrom: toISODate(cursor), dateTo: toISODate(to) })
+    cursor.setTime(to.getTime())
+    cursor.setDate(cursor.getDate() + 1)
+  }
+
+  return windows
+}
+
 // ── Balance helper ───────────────────────────────────────────────────────────
 
 /**
@@ -49,12 +126,19 @@ function pickBalance(
 /**
  * Map a Neonomics transaction to our database shape.
  * Uses transactionId or entryReference as the internal_reference for dedup.
+ * Returns null for transactions with no usable date.
  */
 function mapTransaction(
   tx: NeonomicsTransaction,
   accountId: string,
-  userId: string
-) {
+  userId: string,
+  status: 'pending' | 'booked',
+  cipher: UserCipher
+): NewTransactionRow | null {
+  // Pending entries usually have no bookingDate yet — fall back to valueDate
+  const transactionDate = tx.bookingDate ?? tx.valueDate
+  if (!transactionDate) return null
+
   // The counterpart name: creditor when we're paying, debtor when we receive
   const amount = parseFloat(tx.transactionAmount.amount)
   const counterpartName = amount < 0 ? tx.creditorName : tx.debtorName
@@ -71,21 +155,39 @@ function mapTransaction(
   return {
     account_id: accountId,
     user_id: userId,
-    transaction_date: tx.bookingDate,
-    booking_date: tx.bookingDate,
+    transaction_date: transactionDate,
+    booking_date: status === 'booked' ? transactionDate : null,
     amount,
     currency: tx.transactionAmount.currency,
     description,
-    // category will be set later by the AI categorization step
-    category: null as string | null,
+    // category is set after sync by the categorization pipeline (src/lib/categorization)
+    category: null,
+    // is_recurring is flipped after sync by the recurring detector (src/lib/recurring)
     is_recurring: false,
     counterpart_name: counterpartName ?? null,
     internal_reference: internalReference,
-    // Store raw data for debugging (never sent to Claude)
-    raw_data: tx as unknown as Record<string, unknown>,
+    // Set by assignFingerprints() once the whole day's transactions are known
+    fingerprint: null,
+    status,
+    source: 'bank',
+    // Store raw data for debugging (encrypted, never sent to Claude)
+    raw_data: cipher.encryptJson(tx),
   }
 }
 
+// ── Consent expiry ───────────────────────────────────────────────────────────
+
+/** The user has to reconnect with BankID — stop syncing this connection */
+async function markConsentExpired(
+  supabase: SupabaseClient,
+  connectionId: string
+): Promise<void> {
+  await supabase
+    .from('bank_connections')
+    .update({ status: 'expired', status_reason: 'Bank consent expired. Reconnect to resume syncing.' })
+    .eq('id', connectionId)
+}
+
 // ── Main sync function ───────────────────────────────────────────────────────
 
 /**
@@ -95,12 +197,15 @@ function mapTransaction(
  * @param supabase      - Authenticated Supabase server client
  * @param userId        - The user's UUID (used as x-device-id for Neonomics)
  * @param connectionId  - The bank_connection.id in our database
+ * @param options       - fullBackfill: refetch the whole history window;
+ *                        pendingExpiryDays: override the pending expiry window
  * @returns             - Summary of what was synced
  */
 export async function syncBankConnection(
   supabase: SupabaseClient,
   userId: string,
-  connectionId: string
+  connectionId: string,
+  options: SyncOptions = {}
 ): Promise<SyncResult> {
   const result: SyncResult = {
     accountsSynced: 0,
@@ -111,7 +216,7 @@ export async function syncBankConnection(
   // 1. Fetch the bank connection record
   const { data: connection, error: connError } = await supabase
     .from('bank_connections')
-    .select('neonomics_session_id, bank_name, status')
+    .select('neonomics_session_id, bank_name, status, last_synced_at')
     .eq('id', connectionId)
     .eq('user_id', userId) // Belt + suspenders — always scope to user
     .single()
@@ -121,7 +226,8 @@ export async function syncBankConnection(
     return result
   }
 
-  if (connection.status !== 'active') {
+  // 'error' connections are retried by the background sync (with backoff) or by hand
+  if (connection.status !== 'active' && connection.status !== 'error') {
     result.errors.push(`Bank connection is not active (status: ${connection.status})`)
     return result
   }
@@ -132,9 +238,26 @@ export async function syncBankConnection(
   }
 
   const sessionId = connection.neonomics_session_id
+
+  // IBANs and raw transaction data are encrypted with the user's data key
+  let cipher: UserCipher
+  try {
+    cipher = await getUserCipher(supabase, userId)
+  } catch (err) {
+    result.errors.push(`Could not load encryption key: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    return result
+  }
   // We use the user's UUID as the device ID — stable and unique per user
   const deviceId = userId
 
+  const windows = splitIntoWindows(
+    syncDateRange(connection.last_synced_at, options.fullBackfill ?? false)
+  )
+  const expiryDays = options.pendingExpiryDays ?? pendingExpiryDays()
+  // If any transaction window fails, keep last_synced_at where it was so the
+  // next sync covers the missed range again
+  let transactionFetchFailed = false
+
   // 2. Fetch accounts from Neonomics
   let neoAccounts
   try {
@@ -142,12 +265,8 @@ export async function syncBankConnection(
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Unknown error'
     result.errors.push(`Failed to fetch accounts: ${msg}`)
-    // If consent has expired, update connection status
-    if (msg.includes('403')) {
-      await supabase
-        .from('bank_connections')
-        .update({ status: 'expired' })
-        .eq('id', connectionId)
+    if (err instanceof NeonomicsConsentExpiredError) {
+      await markConsentExpired(supabase, connectionId)
     }
     return result
   }
@@ -165,6 +284,9 @@ export async function syncBankConnection(
         result.errors.push(`Could not fetch balance for account (not logging ID)`)
       }
 
+      // IBANs are stored encrypted, never logged or sent to Claude
+      const iban = neoAccount.iban ?? neoAccount.bban ?? null
+
       // Upsert the account — ON CONFLICT on (bank_connection_id, neonomics_account_id)
       const { data: upsertedAccount, error: accountError } = await supabase
         .from('accounts')
@@ -174,8 +296,7 @@ export async function syncBankConnection(
             bank_connection_id: connectionId,
             neonomics_account_id: neoAccount.id,
             account_name: neoAccount.name ?? neoAccount.product ?? 'Account',
-            // IBANs are stored but never logged or sent to Claude
-            iban: neoAccount.iban ?? neoAccount.bban ?? null,
+            iban: iban ? cipher.encrypt(iban) : null,
             balance,
             currency: neoAccount.currency ?? 'NOK',
             account_type: neoAccount.accountType ?? null,
@@ -196,82 +317,82 @@ export async function syncBankConnection(
 
       result.accountsSynced++
 
-      // 4. Fetch transactions for this account
-      let txResponse
-      try {
-        txResponse = await neonomics.getTransactions(neoAccount.id, sessionId, deviceId)
-      } catch {
-        result.errors.push(`Could not fetch transactions for one account`)
-        continue
+      // 4. Fetch transactions for this account, one date window at a time
+      const bookedTransactions: NeonomicsTransaction[] = []
+      const pendingTransactions: NeonomicsTransaction[] = []
+      for (const window of windows) {
+        try {
+          const txResponse = await neonomics.getAllTransactions(
+            neoAccount.id,
+            sessionId,
+            deviceId,
+            window
+          )
+          bookedTransactions.push(...(txResponse.transactions.booked ?? []))
+          pendingTransactions.push(...(txResponse.transactions.pending ?? []))
+        } catch (err) {
+          // Consent can lapse mid-sync — no point trying the other accounts
+          if (err instanceof NeonomicsConsentExpiredError) throw err
+          result.errors.push(`Could not fetch transactions for one account (${window.dateFrom} – ${window.dateTo})`)
+          transactionFetchFailed = true
+          break
+        }
       }
 
-      // Combine booked + pending transactions
-      const allTransactions: NeonomicsTransaction[] = [
-        ...(txResponse.transactions.booked ?? []),
-        ...(txResponse.transactions.pending ?? []),
-      ]
+      // 5. Replace matching pending rows with their booked versions
+      // Fingerprints are numbered over the full list so same-day repeats are stable
+      const bookedRows = assignFingerprints(
+        bookedTransactions
+          .map((tx) => mapTransaction(tx, upsertedAccount.id, userId, 'booked', cipher))
+          .filter((row): row is NewTransactionRow => row !== null)
+      )
+      const pendingRows = assignFingerprints(
+        pendingTransactions
+          .map((tx) => mapTransaction(tx, upsertedAccount.id, userId, 'pending', cipher))
+          .filter((row): row is NewTransactionRow => row !== null)
+      )
 
-      if (allTransactions.length === 0) continue
+      const reconciliation = await reconcileBooked(supabase, upsertedAccount.id, bookedRows)
+      result.errors.push(...reconciliation.errors)
+      result.transactionsSynced += reconciliation.reconciled
 
-      // 5. Upsert transactions
-      const txRows = allTransactions.map((tx) =>
-        mapTransaction(tx, upsertedAccount.id, userId)
-      )
+      // 6. Upsert the rest
+      const txRows = [...reconciliation.remaining, ...pendingRows]
 
-      // Upsert in batches of 100 to avoid hitting Supabase limits
-      const BATCH_SIZE = 100
-      for (let i = 0; i < txRows.length; i += BATCH_SIZE) {
-        const batch = txRows.slice(i, i + BATCH_SIZE)
-
-        // Separate transactions with and without internal_reference
-        // Only those with an internal_reference can use ON CONFLICT dedup
-        const withRef = batch.filter((tx) => tx.internal_reference !== null)
-        const withoutRef = batch.filter((tx) => tx.internal_reference === null)
-
-        if (withRef.length > 0) {
-          const { error: txError } = await supabase
-            .from('transactions')
-            .upsert(withRef, {
-              onConflict: 'account_id,internal_reference',
-              ignoreDuplicates: true, // Don't overwrite existing categorization
-            })
-
-          if (txError) {
-            result.errors.push(`Transaction upsert error: ${txError.message}`)
-          } else {
-            result.transactionsSynced += withRef.length
-          }
-        }
+      const stored = await storeTransactions(supabase, txRows)
+      result.transactionsSynced += stored.stored
+      result.errors.push(...stored.errors)
 
-        // Transactions without a reference: only insert if they don't already exist
-        // We check for matching (account_id, transaction_date, amount) to avoid duplicates
-        for (const tx of withoutRef) {
-          const { data: existing } = await supabase
-            .from('transactions')
-            .select('id')
-            .eq('account_id', tx.account_id)
-            .eq('transaction_date', tx.transaction_date)
-            .eq('amount', tx.amount)
-            .limit(1)
-
-          if (!existing || existing.length === 0) {
-            const { error } = await supabase.from('transactions').insert(tx)
-            if (!error) result.transactionsSynced++
-          }
-        }
-      }
+      // 7. Drop pending rows that never booked
+      await expireStalePending(supabase, upsertedAccount.id, expiryDays)
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error'
       result.errors.push(`Error processing one account: ${msg}`)
+      if (err instanceof NeonomicsConsentExpiredError) {
+        await markConsentExpired(supabase, connectionId)
+        return result
+      }
     }
   }
 
-  // 6. Update last_synced_at on the connection
-  await supabase
-    .from('bank_connections')
-    .update({ last_synced_at: new Date().toISOString() })
-    .eq('id', connectionId)
-    .eq('user_id', userId)
+  // 8. Update last_synced_at on the connection (it anchors the next sync window)
+  if (!transactionFetchFailed) {
+    await supabase
+      .from('bank_connections')
+      .update({ last_synced_at: new Date().toISOString() })
+      .eq('id', connectionId)
+      .eq('user_id', userId)
+  }
+
+  // 9. Any sync that got through — cron or manual — clears earlier failures
+  if (syncRunStatus(result) !== 'failed') {
+    await supabase
+      .from('bank_connections')
+      .update({ status: 'active', status_reason: null, consecutive_failures: 0, next_sync_at: null })
+      .eq('id', connectionId)
+      .eq('user_id', userId)
+      .in('status', ['active', 'error'])
+  }
 
   return result
 }
@@ -10,12 +10,18 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
+import { getBudgetProgress, BUDGET_OVER_PERCENT, BUDGET_WARNING_PERCENT } from '@/lib/budgets/progress'
+import { spendableBalance } from '@/lib/accounts/manual'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { sumNOK } from '@/lib/currency/convert'
+import { billDueDate, BILL_SCHEDULE_COLUMNS, type BillScheduleRow } from '@/lib/recurrence/schedule'
 
 interface NotificationInput {
   type: string
   urgency: 'critical' | 'info' | 'background'
   title: string
   message: string // MUST be privacy-safe — no amounts, no account numbers
+  email_message?: string // Replaces message in the email when message names something private
   channel: 'in_app' | 'email' | 'both'
   notification_key: string // dedup key — same key = no duplicate
   related_entity_type?: string
@@ -34,6 +40,8 @@ export async function runNotificationChecks(
   const fiveDays = new Date(now.getTime() + 5 * 24 * 60 * 60 * 1000)
   const sevenDays = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
   const todayStr = now.toISOString().split('T')[0]
+  const twoDaysStr = twoDays.toISOString().split('T')[0]
+  const sevenDaysStr = sevenDays.toISOString().split('T')[0]
 
   // Load user preferences
   const { data: profile } = await supabase
@@ -45,84 +53,105 @@ export async function runNotificationChecks(
   const prefs = (profile?.notification_preferences as Record<string, unknown>) || {}
   const emailChannel = prefs.email_critical !== false ? 'both' : 'in_app'
 
-  // ── CHECK 1: Bills due within 48 hours ──────────────────────────────────
+  // Each unpaid row is one occurrence — a paid recurring bill rolls forward to
+  // a new row — so the row's own due date (after any business-day shift) is
+  // the one to remind about, even when it has already passed
+  const billsDueSoon: Array<{ id: string; priority: string; nextDue: string }> = []
   if (prefs.bill_reminders !== false) {
-    const { data: dueBills } = await supabase
+    const { data: unpaidBills } = await supabase
       .from('bills_upcoming')
-      .select('id, name, due_date')
+      .select(`id, priority, ${BILL_SCHEDULE_COLUMNS}`)
       .eq('user_id', userId)
       .eq('is_paid', false)
-      .lte('due_date', twoDays.toISOString().split('T')[0])
-      .gte('due_date', todayStr)
+      .lte('due_date', sevenDaysStr)
 
-    for (const bill of dueBills || []) {
-      const isToday = bill.due_date === todayStr
-      notifications.push({
-        type: 'bill_due',
-        urgency: 'critical',
-        title: 'Bill due soon',
-        message: `You have a bill due ${isToday ? 'today' : 'tomorrow'}. Open Aura to review.`,
-        channel: emailChannel,
-        notification_key: `bill_due:${bill.id}:${bill.due_date}`,
-        related_entity_type: 'bill',
-        related_entity_id: bill.id,
-        expires_at: new Date(new Date(bill.due_date).getTime() + 24 * 60 * 60 * 1000).toISOString(),
-      })
+    for (const bill of (unpaidBills || []) as Array<BillScheduleRow & { id: string; priority: string }>) {
+      const nextDue = billDueDate(bill)
+      if (nextDue <= sevenDaysStr) {
+        billsDueSoon.push({ id: bill.id, priority: bill.priority, nextDue })
+      }
     }
   }
 
-  // ── CHECK 1b: Critical-priority bills due within 7 days ─────────────────
-  if (prefs.bill_reminders !== false) {
-    const { data: criticalBills } = await supabase
-      .from('bills_upcoming')
-      .select('id, name, due_date')
-      .eq('user_id', userId)
-      .eq('is_paid', false)
-      .eq('priority', 'critical')
-      .lte('due_date', sevenDays.toISOString().split('T')[0])
-      .gte('due_date', todayStr)
-
-    for (const bill of criticalBills || []) {
-      const todayMidnight = new Date(now)
-      todayMidnight.setHours(0, 0, 0, 0)
-      const dueMidnight = new Date(bill.due_date)
-      dueMidnight.setHours(0, 0, 0, 0)
-      const daysOut = Math.round(
-        (dueMidnight.getTime() - todayMidnight.getTime()) / (1000 * 60 * 60 * 24)
-      )
-      if (daysOut <= 2) continue // already covered by CHECK 1
+  // ── CHECK 1: Bills due within 48 hours, or overdue ──────────────────────
+  for (const bill of billsDueSoon) {
+    if (bill.nextDue > twoDaysStr) continue
 
+    // Overdue gets its own key, so a reminder sent before the due date doesn't
+    // swallow it — and stays up for a week rather than expiring on arrival
+    if (bill.nextDue < todayStr) {
       notifications.push({
         type: 'bill_due',
         urgency: 'critical',
-        title: 'Critical bill due soon',
-        message: `A critical-priority bill is due in ${daysOut} days. Open Aura to review.`,
+        title: 'Bill overdue',
+        message: 'You have an unpaid bill past its due date. Open Aura to review.',
         channel: emailChannel,
-        notification_key: `bill_due_critical_early:${bill.id}:${bill.due_date}`,
+        notification_key: `bill_overdue:${bill.id}:${bill.nextDue}`,
         related_entity_type: 'bill',
         related_entity_id: bill.id,
-        expires_at: new Date(new Date(bill.due_date).getTime() + 24 * 60 * 60 * 1000).toISOString(),
-        bypass_quiet_hours: true,
+        expires_at: sevenDays.toISOString(),
       })
+      continue
     }
+
+    const isToday = bill.nextDue === todayStr
+    notifications.push({
+      type: 'bill_due',
+      urgency: 'critical',
+      title: 'Bill due soon',
+      message: `You have a bill due ${isToday ? 'today' : 'tomorrow'}. Open Aura to review.`,
+      channel: emailChannel,
+      notification_key: `bill_due:${bill.id}:${bill.nextDue}`,
+      related_entity_type: 'bill',
+      related_entity_id: bill.id,
+      expires_at: new Date(new Date(bill.nextDue).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+    })
+  }
+
+  // ── CHECK 1b: Critical-priority bills due within 7 days ─────────────────
+  for (const bill of billsDueSoon) {
+    if (bill.priority !== 'critical') continue
+
+    const todayMidnight = new Date(now)
+    todayMidnight.setHours(0, 0, 0, 0)
+    const dueMidnight = new Date(bill.nextDue)
+    dueMidnight.setHours(0, 0, 0, 0)
+    const daysOut = Math.round(
+      (dueMidnight.getTime() - todayMidnight.getTime()) / (1000 * 60 * 60 * 24)
+    )
+    if (daysOut <= 2) continue // already covered by CHECK 1
+
+    notifications.push({
+      type: 'bill_due',
+      urgency: 'critical',
+      title: 'Critical bill due soon',
+      message: `A critical-priority bill is due in ${daysOut} days. Open Aura to review.`,
+      channel: emailChannel,
+      notification_key: `bill_due_critical_early:${bill.id}:${bill.nextDue}`,
+      related_entity_type: 'bill',
+      related_entity_id: bill.id,
+      expires_at: new Date(new Date(bill.nextDue).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+      bypass_quiet_hours: true,
+    })
   }
 
   // ── CHECK 2: Low balance vs upcoming bills ───────────────────────────────
   const { data: accounts } = await supabase
     .from('accounts')
-    .select('balance')
+    .select('balance, currency, account_type, is_manual')
     .eq('user_id', userId)
 
-  const totalBalance = (accounts || []).reduce((sum, a) => sum + Number(a.balance), 0)
+  const rates = await getExchangeRates()
+  const totalBalance = spendableBalance(accounts || [], rates)
 
   const { data: upcomingBills } = await supabase
     .from('bills_upcoming')
-    .select('amount')
+    .select('amount, currency')
     .eq('user_id', userId)
     .eq('is_paid', false)
-    .lte('due_date', sevenDays.toISOString().split('T')[0])
+    .lte('due_date', sevenDaysStr)
 
-  const totalUpcoming = (upcomingBills || []).reduce((sum, b) => sum + Number(b.amount), 0)
+  const totalUpcoming = sumNOK(upcomingBills || [], rates)
 
   if (totalBalance > 0 && totalUpcoming > 0 && totalBalance < totalUpcoming) {
     // Use week number to create at most one low-balance alert per week
@@ -194,6 +223,35 @@ export async function runNotificationChecks(
     }
   }
 
+  // ── CHECK 5: Budgets at 80% / 100% of the monthly limit ──────────────────
+  if (prefs.budget_alerts !== false) {
+    const budgets = await getBudgetProgress(supabase, userId, now)
+    const monthKey = todayStr.slice(0, 7)
+    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1)
+
+    for (const b of budgets) {
+      if (b.state === 'ok') continue
+      const isOver = b.state === 'over'
+      const threshold = isOver ? BUDGET_OVER_PERCENT : BUDGET_WARNING_PERCENT
+      notifications.push({
+        type: 'budget_alert',
+        urgency: isOver ? 'critical' : 'info',
+        title: isOver ? 'Budget exceeded' : 'Budget almost used',
+        message: isOver
+          ? `You've gone over your ${b.label} budget this month. Open Aura to review.`
+          : `You've used most of your ${b.label} budget this month. Open Aura to review.`,
+        // Spending categories can be sensitive — the email doesn't say which budget
+        email_message: `A budget reached ${threshold}% of its monthly limit. Open Aura to see which one.`,
+        channel: isOver ? emailChannel : 'in_app',
+        // One alert per threshold per month — reaching 100% still alerts after 80%
+        notification_key: `budget:${b.budgetId}:${monthKey}:${threshold}`,
+        related_entity_type: 'budget',
+        related_entity_id: b.budgetId,
+        expires_at: endOfMonth.toISOString(),
+      })
+    }
+  }
+
   return notifications
 }
 
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  billDueDate,
+  billSchedule,
+  followingOccurrence,
+  nextOccurrence,
+  occurrencesBetween,
+  type BillScheduleRow,
+} from './schedule'
+
+function billRow(overrides: Partial<BillScheduleRow> = {}): BillScheduleRow {
+  return {
+    due_date: '2025-01-31',
+    recurrence: 'monthly',
+    recurrence_interval: null,
+    recurrence_month_end: null,
+    recurrence_shift: null,
+    recurrence_until: null,
+    recurrence_count: null,
+    recurrence_anchor: null,
+    ...overrides,
+  }
+}
+
+describe('occurrencesBetween', () => {
+  it('keeps a bill due on the 31st from drifting', () => {
+    expect(occurrencesBetween({ start: '2025-01-31', frequency: 'monthly' }, '2025-01-01', '2025-04-30')).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30',
+    ])
+  })
+
+  it('lands on the last day of the month with monthEnd', () => {
+    expect(
+      occurrencesBetween({ start: '2025-02-28', frequency: 'monthly', monthEnd: true }, '2025-02-01', '2025-04-30')
+    ).toEqual(['2025-02-28', '2025-03-31', '2025-04-30'])
+  })
+
+  it('repeats every N periods', () => {
+    expect(
+      occurrencesBetween({ start: '2025-01-15', frequency: 'monthly', interval: 2 }, '2025-01-01', '2025-07-31')
+    ).toEqual(['2025-01-15', '2025-03-15', '2025-05-15', '2025-07-15'])
+
+    expect(
+      occurrencesBetween({ start: '2025-03-03', frequency: 'weekly', interval: 2 }, '2025-03-01', '2025-03-31')
+    ).toEqual(['2025-03-03', '2025-03-17', '2025-03-31'])
+  })
+
+  it('runs quarterly and yearly schedules', () => {
+    expect(occurrencesBetween({ start: '2025-01-31', frequency: 'quarterly' }, '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-31',
+      '2025-04-30',
+      '2025-07-31',
+      '2025-10-31',
+    ])
+    expect(occurrencesBetween({ start: '2024-02-29', frequency: 'yearly' }, '2025-01-01', '2025-12-31')).toEqual([
+      '2025-02-28',
+    ])
+  })
+
+  it('shifts occurrences off weekends and holidays', () => {
+    const schedule = { start: '2025-05-31', frequency: 'monthly' }
+
+    expect(occurrencesBetween({ ...schedule, shift: 'before' }, '2025-05-01', '2025-05-31')).toEqual(['2025-05-30'])
+    // May 31 moves into June, June 30 is a Monday
+    expect(occurrencesBetween({ ...schedule, shift: 'after' }, '2025-06-01', '2025-06-30')).toEqual([
+      '2025-06-02',
+      '2025-06-30',
+    ])
+  })
+
+  it('stops after a count or an end date', () => {
+    const schedule = { start: '2025-01-10', frequency: 'monthly' }
+
+    expect(occurrencesBetween({ ...schedule, count: 3 }, '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-10',
+      '2025-02-10',
+      '2025-03-10',
+    ])
+    expect(occurrencesBetween({ ...schedule, until: '2025-03-09' }, '2025-01-01', '2025-12-31')).toEqual([
+      '2025-01-10',
+      '2025-02-10',
+    ])
+  })
+
+  it('counts occurrences from the anchor of a rolled-forward bill', () => {
+    const schedule = { start: '2025-03-31', anchor: '2025-01-31', frequency: 'monthly' }
+
+    expect(occurrencesBetween({ ...schedule, count: 3 }, '2025-01-01', '2025-12-31')).toEqual(['2025-03-31'])
+    expect(occurrencesBetween({ ...schedule, count: 2 }, '2025-01-01', '2025-12-31')).toEqual([])
+  })
+
+  it('treats unknown frequencies as a single occurrence', () => {
+    expect(occurrencesBetween({ start: '2025-05-17', frequency: null, shift: 'after' }, '2025-05-01', '2025-05-31'))
+      .toEqual(['2025-05-19'])
+    expect(occurrencesBetween({ start: '2025-05-17', frequency: 'fortnightly' }, '2025-06-01', '2025-06-30')).toEqual(
+      []
+    )
+  })
+})
+
+describe('nextOccurrence', () => {
+  it('finds the first occurrence on or after a date', () => {
+    expect(nextOccurrence({ start: '2025-01-31', frequency: 'monthly' }, '2025-02-01')).toBe('2025-02-28')
+    expect(nextOccurrence({ start: '2025-01-31', frequency: 'monthly' }, '2025-01-31')).toBe('2025-01-31')
+  })
+
+  it('returns null once the schedule has ended', () => {
+    expect(nextOccurrence({ start: '2025-01-31', frequency: 'monthly', count: 1 }, '2025-02-01')).toBeNull()
+    expect(nextOccurrence({ start: '2025-01-31', frequency: 'once' }, '2025-02-01')).toBeNull()
+  })
+})
+
+describe('followingOccurrence', () => {
+  it('rolls forward from the anchor, not from the clamped date', () => {
+    expect(followingOccurrence({ start: '2025-02-28', anchor: '2025-01-31', frequency: 'monthly' })).toBe('2025-03-31')
+  })
+
+  it('returns the unshifted date', () => {
+    expect(followingOccurrence({ start: '2025-04-30', frequency: 'monthly', shift: 'after' })).toBe('2025-05-30')
+    expect(followingOccurrence({ start: '2025-04-17', frequency: 'monthly', shift: 'after' })).toBe('2025-05-17')
+  })
+
+  it('returns null for one-off bills and ended schedules', () => {
+    expect(followingOccurrence({ start: '2025-01-31', frequency: 'once' })).toBeNull()
+    expect(followingOccurrence({ start: '2025-01-31', frequency: 'monthly', until: '2025-02-27' })).toBeNull()
+  })
+})
+
+describe('bill rows', () => {
+  it('builds a schedule with defaults for unset columns', () => {
+    expect(billSchedule(billRow({ recurrence_shift: 'sideways' }))).toEqual({
+      start: '2025-01-31',
+      frequency: 'monthly',
+      interval: 1,
+      monthEnd: false,
+      shift: 'none',
+      until: null,
+      count: null,
+      anchor: null,
+    })
+  })
+
+  it('is due on its own date after the business-day shift', () => {
+    expect(billDueDate(billRow({ due_date: '2025-05-17', recurrence_shift: 'before' }))).toBe('2025-05-16')
+    expect(billDueDate(billRow({ due_date: '2025-05-17' }))).toBe('2025-05-17')
+  })
+})
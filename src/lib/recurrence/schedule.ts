@@ -0,0 +1,211 @@
+/**
+ * Recurrence schedules — when a bill, planned event or detected payment
+ * falls due, shared by the forecast, bills and notifications.
+ *
+ * Every occurrence is counted from the first date rather than from the one
+ * before it, so a bill due on the 31st stays on the 31st (Jan 31 → Feb 28 →
+ * Mar 31) instead of drifting. On top of that a schedule can:
+ *   - repeat every N periods ("every 2 months", "every 4 weeks")
+ *   - always land on the last day of the month
+ *   - move off weekends and Norwegian public holidays, to the business day
+ *     before or after ("last business day" = month end + before)
+ *   - stop after an end date or a number of occurrences
+ *
+ * Works on ISO "yyyy-mm-dd" strings in UTC, like norwegian-calendar.ts.
+ * Pure logic (no DB calls).
+ */
+
+import {
+  addDays,
+  businessDayOnOrAfter,
+  businessDayOnOrBefore,
+  clampedDayOfMonth,
+} from '@/lib/utils/norwegian-calendar'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type Frequency = 'once' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
+/** Where an occurrence on a weekend or public holiday moves to */
+export const BUSINESS_DAY_SHIFTS = ['none', 'before', 'after'] as const
+export type BusinessDayShift = (typeof BUSINESS_DAY_SHIFTS)[number]
+
+/** Everything about a schedule except where it starts and how often it repeats */
+export interface RecurrenceRule {
+  interval?: number // Repeat every N periods (default 1)
+  monthEnd?: boolean // Always the last day of the month (monthly/quarterly/yearly)
+  shift?: BusinessDayShift // Default 'none'
+  until?: string | null // ISO "yyyy-mm-dd" — no occurrences after this
+  count?: number | null // Stop after this many occurrences (the first included)
+}
+
+export interface Schedule extends RecurrenceRule {
+  start: string // ISO "yyyy-mm-dd" — the first occurrence
+  frequency: string | null // A Frequency; null or anything unknown means once
+  /** The series' first date, when start is a later occurrence (a bill rolled forward) — occurrences and count run from here */
+  anchor?: string | null
+}
+
+/** The bills_upcoming columns a schedule is built from (migration 022) */
+export interface BillScheduleRow {
+  due_date: string
+  recurrence: string | null
+  recurrence_interval: number | null
+  recurrence_month_end: boolean | null
+  recurrence_shift: string | null
+  recurrence_until: string | null
+  recurrence_count: number | null
+  recurrence_anchor: string | null
+}
+
+export const BILL_SCHEDULE_COLUMNS =
+  'due_date, recurrence, recurrence_interval, recurrence_month_end, recurrence_shift, recurrence_until, recurrence_count, recurrence_anchor'
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const MONTHS_PER_PERIOD: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+}
+
+/** A shift can move a date at most five days (Maundy Thursday → Easter Monday) */
+const SHIFT_MARGIN_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / DAY_MS)
+}
+
+function monthsBetween(a: string, b: string): number {
+  const [ay, am] = a.split('-').map(Number)
+  const [by, bm] = b.split('-').map(Number)
+  return (by - ay) * 12 + (bm - am)
+}
+
+function intervalOf(schedule: Schedule): number {
+  return schedule.interval && schedule.interval > 1 ? Math.floor(schedule.interval) : 1
+}
+
+function anchorOf(schedule: Schedule): string {
+  return schedule.anchor ?? schedule.start
+}
+
+/** The n-th unshifted occurrence of the series (n = 0 is the anchor) */
+function nominalDate(schedule: Schedule, n: number): string {
+  if (schedule.frequency === 'weekly') {
+    return addDays(anchorOf(schedule), 7 * intervalOf(schedule) * n)
+  }
+
+  const [y, m, d] = anchorOf(schedule).split('-').map(Number)
+  const total = m - 1 + MONTHS_PER_PERIOD[schedule.frequency!] * intervalOf(schedule) * n
+  const year = y + Math.floor(total / 12)
+  const month = (total % 12) + 1
+  return clampedDayOfMonth(year, month, schedule.monthEnd ? 31 : d)
+}
+
+function applyShift(dateStr: string, shift: BusinessDayShift | undefined): string {
+  if (shift === 'before') return businessDayOnOrBefore(dateStr)
+  if (shift === 'after') return businessDayOnOrAfter(dateStr)
+  return dateStr
+}
+
+function repeats(schedule: Schedule): boolean {
+  return schedule.frequency === 'weekly' || (schedule.frequency ?? '') in MONTHS_PER_PERIOD
+}
+
+/** First index whose occurrence could land on or after `from` (and not before start) */
+function firstIndexNear(schedule: Schedule, from: string): number {
+  const target = from > schedule.start ? from : schedule.start
+  if (schedule.frequency === 'weekly') {
+    const step = 7 * intervalOf(schedule)
+    return Math.max(0, Math.floor((daysBetween(anchorOf(schedule), target) - SHIFT_MARGIN_DAYS) / step))
+  }
+  const step = MONTHS_PER_PERIOD[schedule.frequency!] * intervalOf(schedule)
+  return Math.max(0, Math.floor((monthsBetween(anchorOf(schedule), target) - 1) / step))
+}
+
+// ── Occurrences ─────────────────────────────────────────────────────────────
+
+/** All occurrence dates (after shifting) within [from, to], inclusive */
+export function occurrencesBetween(schedule: Schedule, from: string, to: string): string[] {
+  if (!repeats(schedule)) {
+    if (schedule.count === 0) return []
+    const date = applyShift(schedule.start, schedule.shift)
+    return date >= from && date <= to ? [date] : []
+  }
+
+  const dates: string[] = []
+  const stopAfter = addDays(to, SHIFT_MARGIN_DAYS)
+
+  for (let n = firstIndexNear(schedule, from); ; n++) {
+    if (schedule.count != null && n >= schedule.count) break
+    const nominal = nominalDate(schedule, n)
+    if (nominal > stopAfter) break
+    if (schedule.until && nominal > schedule.until) break
+    if (nominal < schedule.start) continue
+
+    const date = applyShift(nominal, schedule.shift)
+    if (date >= from && date <= to) dates.push(date)
+  }
+
+  return dates
+}
+
+/** The first occurrence on or after a date — null once the schedule has ended */
+export function nextOccurrence(schedule: Schedule, onOrAfter: string): string | null {
+  if (!repeats(schedule)) {
+    return occurrencesBetween(schedule, onOrAfter, '9999-12-31')[0] ?? null
+  }
+
+  for (let n = firstIndexNear(schedule, onOrAfter); ; n++) {
+    if (schedule.count != null && n >= schedule.count) return null
+    const nominal = nominalDate(schedule, n)
+    if (schedule.until && nominal > schedule.until) return null
+    if (nominal < schedule.start) continue
+
+    const date = applyShift(nominal, schedule.shift)
+    if (date >= onOrAfter) return date
+  }
+}
+
+/**
+ * The unshifted date of the occurrence after start — where a paid bill rolls
+ * forward to. Null for one-off bills and once the schedule has ended.
+ */
+export function followingOccurrence(schedule: Schedule): string | null {
+  if (!repeats(schedule)) return null
+
+  for (let n = firstIndexNear(schedule, schedule.start); ; n++) {
+    if (schedule.count != null && n >= schedule.count) return null
+    const nominal = nominalDate(schedule, n)
+    if (schedule.until && nominal > schedule.until) return null
+    if (nominal > schedule.start) return nominal
+  }
+}
+
+/** The schedule stored on a bills_upcoming row */
+export function billSchedule(row: BillScheduleRow): Schedule {
+  return {
+    start: row.due_date,
+    frequency: row.recurrence,
+    interval: row.recurrence_interval ?? 1,
+    monthEnd: row.recurrence_month_end ?? false,
+    shift: BUSINESS_DAY_SHIFTS.includes(row.recurrence_shift as BusinessDayShift)
+      ? (row.recurrence_shift as BusinessDayShift)
+      : 'none',
+    until: row.recurrence_until,
+    count: row.recurrence_count,
+    anchor: row.recurrence_anchor,
+  }
+}
+
+/**
+ * When a bills_upcoming row is actually due — its own due_date after any
+ * business-day shift. Each row is one occurrence (a paid bill rolls forward
+ * to a new row), so this may lie in the past while the bill is unpaid.
+ */
+export function billDueDate(row: BillScheduleRow): string {
+  return applyShift(row.due_date, billSchedule(row).shift)
+}
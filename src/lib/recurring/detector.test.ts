@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { addDays } from '@/lib/utils/norwegian-calendar'
+import { createFakeSupabase } from '@/test/fake-supabase'
+import { detectRecurringPatterns, runRecurringDetection, type DetectorTransaction } from './detector'
+
+const USER_ID = '11111111-1111-4111-8111-111111111111'
+
+/** `count` payments to the same payee, `gap` days apart, the last one `daysAgo` days ago */
+function payments(name: string, amount: number, count: number, gap: number, daysAgo = 5): DetectorTransaction[] {
+  const today = new Date().toISOString().split('T')[0]
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${name}-${i}`,
+    transaction_date: addDays(today, -daysAgo - gap * (count - 1 - i)),
+    amount,
+    description: null,
+    counterpart_name: name,
+    category: 'utilities',
+  }))
+}
+
+describe('detectRecurringPatterns', () => {
+  it('finds a monthly expense and projects the next payment', () => {
+    const [pattern] = detectRecurringPatterns(payments('Telenor', -899, 4, 30))
+
+    expect(pattern).toMatchObject({
+      patternKey: 'expense:telenor',
+      direction: 'expense',
+      recurrence: 'monthly',
+      averageAmount: 899,
+      occurrences: 4,
+    })
+  })
+
+  it('needs enough occurrences for the cadence', () => {
+    expect(detectRecurringPatterns(payments('Telenor', -899, 2, 30))).toEqual([])
+  })
+})
+
+describe('runRecurringDetection', () => {
+  it('proposes a bill once, and not again after the user deletes it', async () => {
+    const db = createFakeSupabase({
+      transactions: payments('Telenor', -899, 4, 30).map((tx) => ({ ...tx, user_id: USER_ID, is_recurring: false })),
+    })
+
+    const first = await runRecurringDetection(db.client, USER_ID)
+    expect(first.billsProposed).toBe(1)
+    expect(db.table('bills_upcoming')).toHaveLength(1)
+
+    // Deleting the bill sets recurring_patterns.bill_id to NULL (ON DELETE SET NULL)
+    db.table('bills_upcoming').length = 0
+    db.table('recurring_patterns')[0].bill_id = null
+
+    const again = await runRecurringDetection(db.client, USER_ID)
+    expect(again.errors).toEqual([])
+    expect(again.billsProposed).toBe(0)
+    expect(db.table('bills_upcoming')).toHaveLength(0)
+  })
+
+  it('does not propose bills for income', async () => {
+    const db = createFakeSupabase({
+      transactions: payments('Arbeidsgiver AS', 32_500, 4, 30).map((tx) => ({ ...tx, user_id: USER_ID, is_recurring: false })),
+    })
+
+    const result = await runRecurringDetection(db.client, USER_ID)
+
+    expect(result.patternsFound).toBe(1)
+    expect(result.billsProposed).toBe(0)
+    expect(db.table('transactions').every((tx) => tx.is_recurring)).toBe(true)
+  })
+})
@@ -0,0 +1,381 @@
+/**
+ * Recurring transaction detector.
+ *
+ * Finds subscriptions, rent, salaries and other repeating payments in the
+ * user's transaction history:
+ *   1. Group by direction + normalized counterpart/description
+ *   2. Split each group into amount clusters (tolerance below)
+ *   3. Infer the cadence (weekly/monthly/quarterly/yearly) from the gaps
+ *
+ * `detectRecurringPatterns` is pure logic (no DB calls).
+ * `runRecurringDetection` applies the results: flags transactions as
+ * is_recurring, upserts recurring_patterns and proposes auto-detected bills.
+ *
+ * Dismissed patterns are kept in recurring_patterns so they are never
+ * proposed again — only the user can bring them back. A bill is proposed
+ * once, when its pattern is first detected; deleting it doesn't re-propose
+ * it. Patterns are keyed on direction + name only; the cadence is data, so a
+ * dismissal still holds when the inferred cadence changes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { nextOccurrence } from '@/lib/recurrence/schedule'
+import { addDays } from '@/lib/utils/norwegian-calendar'
+import { toISODate } from '@/lib/utils/date-utils'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type Cadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
+export interface DetectorTransaction {
+  id: string
+  transaction_date: string // ISO "yyyy-mm-dd"
+  amount: number
+  description: string | null
+  counterpart_name: string | null
+  category: string | null
+}
+
+export interface DetectedPattern {
+  patternKey: string // "direction:name"
+  displayName: string
+  direction: 'expense' | 'income'
+  recurrence: Cadence
+  averageAmount: number // Always positive
+  occurrences: number
+  lastSeenDate: string
+  nextExpectedDate: string
+  confidence: number
+  category: string | null
+  transactionIds: string[]
+}
+
+export interface RecurringDetectionResult {
+  patternsFound: number
+  transactionsFlagged: number
+  billsProposed: number
+  errors: string[]
+}
+
+// ── Tuning ──────────────────────────────────────────────────────────────────
+
+/** Relative amount tolerance inside one cluster (electricity varies a lot) */
+const AMOUNT_TOLERANCE = 0.15
+/** Absolute tolerance for small amounts (e.g. 99 kr vs 109 kr) */
+const AMOUNT_TOLERANCE_ABS = 20
+/** Share of gaps that must fit the cadence window */
+const MIN_GAP_FIT = 0.75
+/** How far back the detector looks */
+const HISTORY_DAYS = 400
+
+/** Accepted gap (in days) per cadence, and the minimum occurrences required */
+const CADENCES: Array<{ cadence: Cadence; min: number; max: number; minOccurrences: number }> = [
+  { cadence: 'weekly', min: 6, max: 8, minOccurrences: 4 },
+  { cadence: 'monthly', min: 26, max: 35, minOccurrences: 3 },
+  { cadence: 'quarterly', min: 84, max: 98, minOccurrences: 3 },
+  { cadence: 'yearly', min: 350, max: 380, minOccurrences: 2 },
+]
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a counterpart/description into a grouping key.
+ * Strips digits (dates, references, card numbers) and punctuation.
+ */
+export function normalizeName(tx: Pick<DetectorTransaction, 'counterpart_name' | 'description'>): string {
+  const raw = tx.counterpart_name || tx.description || ''
+  return raw
+    .toLowerCase()
+    .replace(/\d+/g, ' ')
+    .replace(/[^a-zæøå& ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 40)
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((new Date(b).getTime() - new Date(a).getTime()) / (1000 * 60 * 60 * 24))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+/** Split transactions into clusters of similar absolute amounts */
+function clusterByAmount(txs: DetectorTransaction[]): DetectorTransaction[][] {
+  const sorted = [...txs].sort((a, b) => Math.abs(a.amount) - Math.abs(b.amount))
+  const clusters: DetectorTransaction[][] = []
+  let current: DetectorTransaction[] = []
+  let anchor = 0
+
+  for (const tx of sorted) {
+    const abs = Math.abs(tx.amount)
+    const limit = Math.max(anchor * (1 + AMOUNT_TOLERANCE), anchor + AMOUNT_TOLERANCE_ABS)
+    if (current.length === 0 || abs <= limit) {
+      if (current.length === 0) anchor = abs
+      current.push(tx)
+    } else {
+      clusters.push(current)
+      current = [tx]
+      anchor = abs
+    }
+  }
+  if (current.length > 0) clusters.push(current)
+
+  return clusters
+}
+
+/** Infer a cadence from the gaps between sorted occurrence dates */
+function inferCadence(dates: string[]): { cadence: Cadence; fit: number } | null {
+  const gaps: number[] = []
+  for (let i = 1; i < dates.length; i++) {
+    gaps.push(daysBetween(dates[i - 1], dates[i]))
+  }
+  if (gaps.length === 0) return null
+
+  const typicalGap = median(gaps)
+  for (const c of CADENCES) {
+    if (typicalGap < c.min || typicalGap > c.max) continue
+    if (dates.length < c.minOccurrences) return null
+    const fitting = gaps.filter((g) => g >= c.min && g <= c.max).length
+    const fit = fitting / gaps.length
+    return fit >= MIN_GAP_FIT ? { cadence: c.cadence, fit } : null
+  }
+  return null
+}
+
+// ── Pure detection ───────────────────────────────────────────────────────────
+
+/**
+ * Finds recurring patterns in a list of transactions — at most one per
+ * direction + name. If several amount clusters qualify, the one with more
+ * occurrences wins.
+ */
+export function detectRecurringPatterns(
+  transactions: DetectorTransaction[],
+  today: Date = new Date()
+): DetectedPattern[] {
+  // 1. Group by direction + normalized name
+  const groups = new Map<string, DetectorTransaction[]>()
+  for (const tx of transactions) {
+    if (tx.amount === 0) continue
+    const name = normalizeName(tx)
+    if (!name) continue
+    const direction = tx.amount < 0 ? 'expense' : 'income'
+    const key = `${direction}:${name}`
+    const group = groups.get(key) ?? []
+    group.push(tx)
+    groups.set(key, group)
+  }
+
+  const todayStr = toISODate(today)
+  const patterns = new Map<string, DetectedPattern>()
+
+  for (const [groupKey, groupTxs] of groups) {
+    if (groupTxs.length < 2) continue
+
+    // 2. Amount clusters
+    for (const cluster of clusterByAmount(groupTxs)) {
+      // One occurrence per day — same-day repeats are not a cadence
+      const byDate = new Map<string, DetectorTransaction>()
+      for (const tx of cluster) byDate.set(tx.transaction_date, tx)
+      const dates = [...byDate.keys()].sort()
+
+      // 3. Cadence
+      const inferred = inferCadence(dates)
+      if (!inferred) continue
+
+      const latest = byDate.get(dates[dates.length - 1])!
+      const averageAmount =
+        cluster.reduce((sum, tx) => sum + Math.abs(tx.amount), 0) / cluster.length
+
+      // Project the next occurrence after the latest payment, at or after today.
+      // A repeating schedule without an end always has one.
+      const dayAfterLatest = addDays(latest.transaction_date, 1)
+      const nextExpectedDate = nextOccurrence(
+        { start: latest.transaction_date, frequency: inferred.cadence },
+        dayAfterLatest > todayStr ? dayAfterLatest : todayStr
+      )!
+
+      const pattern: DetectedPattern = {
+        patternKey: groupKey,
+        displayName: (latest.counterpart_name || latest.description || 'Recurring payment').slice(0, 200),
+        direction: latest.amount < 0 ? 'expense' : 'income',
+        recurrence: inferred.cadence,
+        averageAmount: Math.round(averageAmount * 100) / 100,
+        occurrences: dates.length,
+        lastSeenDate: latest.transaction_date,
+        nextExpectedDate,
+        // More occurrences and a tighter fit → more confidence (capped at 0.95)
+        confidence: Math.min(0.95, Math.round(inferred.fit * (0.6 + 0.1 * dates.length) * 100) / 100),
+        category: latest.category,
+        transactionIds: cluster.map((tx) => tx.id),
+      }
+
+      const existing = patterns.get(pattern.patternKey)
+      if (!existing || existing.occurrences < pattern.occurrences) {
+        patterns.set(pattern.patternKey, pattern)
+      }
+    }
+  }
+
+  return [...patterns.values()]
+}
+
+// ── Apply to the database ────────────────────────────────────────────────────
+
+/**
+ * Runs detection for one user and persists the results.
+ *
+ * - Flags matching transactions as is_recurring
+ * - New patterns → recurring_patterns (status 'suggested'); expense patterns
+ *   also get an auto-detected bill for the next expected date
+ * - Known patterns → refreshed (amount, dates); their bill is never
+ *   re-proposed, so a bill the user deleted stays deleted
+ */
+export async function runRecurringDetection(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<RecurringDetectionResult> {
+  const result: RecurringDetectionResult = {
+    patternsFound: 0,
+    transactionsFlagged: 0,
+    billsProposed: 0,
+    errors: [],
+  }
+
+  const since = new Date()
+  since.setDate(since.getDate() - HISTORY_DAYS)
+
+  // 1. Load history + known patterns in parallel
+  const [txRes, patternsRes] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('id, transaction_date, amount, description, counterpart_name, category')
+      .eq('user_id', userId)
+      .gte('transaction_date', since.toISOString().split('T')[0])
+      .order('transaction_date', { ascending: true }),
+
+    supabase
+      .from('recurring_patterns')
+      .select('id, pattern_key, status, bill_id')
+      .eq('user_id', userId),
+  ])
+
+  if (txRes.error || patternsRes.error) {
+    result.errors.push(`Failed to load data: ${txRes.error?.message ?? patternsRes.error?.message}`)
+    return result
+  }
+
+  const transactions: DetectorTransaction[] = (txRes.data ?? []).map((tx) => ({
+    id: tx.id,
+    transaction_date: tx.transaction_date,
+    amount: Number(tx.amount),
+    description: tx.description,
+    counterpart_name: tx.counterpart_name,
+    category: tx.category,
+  }))
+
+  const detected = detectRecurringPatterns(transactions)
+  result.patternsFound = detected.length
+  if (detected.length === 0) return result
+
+  const known = new Map((patternsRes.data ?? []).map((p) => [p.pattern_key, p]))
+
+  // 2. Flag recurring transactions (batched — one UPDATE per 100 IDs)
+  const recurringIds = detected.flatMap((p) => p.transactionIds)
+  const BATCH_SIZE = 100
+  for (let i = 0; i < recurringIds.length; i += BATCH_SIZE) {
+    const batch = recurringIds.slice(i, i + BATCH_SIZE)
+    const { error, count } = await supabase
+      .from('transactions')
+      .update({ is_recurring: true }, { count: 'exact' })
+      .eq('user_id', userId)
+      .in('id', batch)
+      .eq('is_recurring', false)
+
+    if (error) {
+      result.errors.push(`Failed to flag recurring transactions: ${error.message}`)
+    } else {
+      result.transactionsFlagged += count ?? 0
+    }
+  }
+
+  // 3. Upsert patterns + propose bills
+  for (const pattern of detected) {
+    const existing = known.get(pattern.patternKey)
+
+    // Dismissed by the user — never re-propose
+    if (existing?.status === 'dismissed') continue
+
+    const patternFields = {
+      display_name: pattern.displayName,
+      direction: pattern.direction,
+      recurrence: pattern.recurrence,
+      average_amount: pattern.averageAmount,
+      occurrences: pattern.occurrences,
+      last_seen_date: pattern.lastSeenDate,
+      next_expected_date: pattern.nextExpectedDate,
+      confidence: pattern.confidence,
+    }
+
+    let patternId = existing?.id ?? null
+    if (existing) {
+      const { error } = await supabase
+        .from('recurring_patterns')
+        .update(patternFields)
+        .eq('id', existing.id)
+        .eq('user_id', userId)
+      if (error) result.errors.push(`Failed to update pattern: ${error.message}`)
+    } else {
+      const { data: inserted, error } = await supabase
+        .from('recurring_patterns')
+        .insert({ user_id: userId, pattern_key: pattern.patternKey, ...patternFields })
+        .select('id')
+        .single()
+      if (error || !inserted) {
+        result.errors.push(`Failed to insert pattern: ${error?.message}`)
+        continue
+      }
+      patternId = inserted.id
+    }
+
+    // Income patterns feed the forecast via is_recurring — they are not bills.
+    // A bill is proposed only when the pattern is first seen: if the user
+    // deleted it (bill_id went NULL), it must not come back on the next sync.
+    if (pattern.direction !== 'expense' || existing) continue
+
+    const { data: bill, error: billError } = await supabase
+      .from('bills_upcoming')
+      .insert({
+        user_id: userId,
+        name: pattern.displayName,
+        amount: pattern.averageAmount,
+        currency: 'NOK',
+        due_date: pattern.nextExpectedDate,
+        is_auto_detected: true,
+        is_paid: false,
+        category: pattern.category,
+        recurrence: pattern.recurrence,
+      })
+      .select('id')
+      .single()
+
+    if (billError || !bill) {
+      result.errors.push(`Failed to propose bill: ${billError?.message}`)
+      continue
+    }
+
+    await supabase
+      .from('recurring_patterns')
+      .update({ bill_id: bill.id })
+      .eq('id', patternId)
+      .eq('user_id', userId)
+
+    result.billsProposed++
+  }
+
+  return result
+}
@@ -0,0 +1,121 @@
+/**
+ * Entity registry — one pseudonym per PII value, across all of a user's
+ * documents and chat turns.
+ *
+ * The registry holds every value the user has confirmed for redaction and
+ * the mask it got (pii_entities, migration 025). The detector, the
+ * pseudonymizer and un-redaction all resolve through it, so an account
+ * number is ████.██.78901 and a debtor [PERSON A] in the invoice, the
+ * purring and the inkasso letter alike — and Claude can connect them.
+ *
+ * Values are matched on a normalized form: "1234 56 78901" and
+ * "1234.56.78901" are the same account, "KARI NORDMANN" and "Kari Nordmann"
+ * the same person.
+ *
+ * Pure logic — loading and saving is in entity-store.ts.
+ */
+
+import { PII_PATTERNS, PERSON_LABEL, type PIIType } from './patterns'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface RegisteredEntity {
+  type: PIIType
+  value: string // the original, as first confirmed
+  pseudonym: string
+}
+
+export interface EntityRegistry {
+  /** entityKey(type, value) → pseudonym */
+  byValue: Map<string, string>
+  /** pseudonym → original value */
+  byPseudonym: Map<string, string>
+}
+
+/** Returns the mask for a value: the known one, else `preferred` if free, else a new one */
+export type MaskAllocator = (type: PIIType, value: string, preferred?: string) => string
+
+// ── Normalization ───────────────────────────────────────────────────────────
+
+export function normalizeValue(type: PIIType, value: string): string {
+  switch (type) {
+    case 'person':
+    case 'address':
+      return value.toLowerCase().replace(/\s+/g, ' ').trim()
+    case 'email':
+      return value.toLowerCase().trim()
+    case 'iban':
+      return value.replace(/\s/g, '').toUpperCase()
+    case 'phone':
+      // "+47 912 34 567", "0047 91234567" and "912 34 567" are one number
+      return value.replace(/[\s.-]/g, '').replace(/^(?:\+|00)47(?=\d{8}$)/, '')
+    default:
+      // Identifiers: digits, plus a mod-11 KID's trailing "-"
+      return value.replace(/[\s.]/g, '')
+  }
+}
+
+/** The registry key — per type, since the same 11 digits can be an ID or an account */
+export function entityKey(type: PIIType, value: string): string {
+  return `${type}:${normalizeValue(type, value)}`
+}
+
+export function createEntityRegistry(entities: RegisteredEntity[] = []): EntityRegistry {
+  const registry: EntityRegistry = { byValue: new Map(), byPseudonym: new Map() }
+  for (const entity of entities) {
+    registry.byValue.set(entityKey(entity.type, entity.value), entity.pseudonym)
+    registry.byPseudonym.set(entity.pseudonym, entity.value)
+  }
+  return registry
+}
+
+// ── Mask allocation ─────────────────────────────────────────────────────────
+
+/** A, B, … Z, AA, AB, … */
+function letters(n: number): string {
+  let result = ''
+  do {
+    result = String.fromCharCode(65 + (n % 26)) + result
+    n = Math.floor(n / 26) - 1
+  } while (n >= 0)
+  return result
+}
+
+function newMask(type: PIIType, normalized: string, taken: Set<string>): string {
+  // Accounts and IBANs keep their last digits, so the user can tell them apart
+  // in Claude's answer — unless another value already has the same ending
+  if (type === 'bankAccount') {
+    const mask = `████.██.${normalized.slice(-5)}`
+    if (!taken.has(mask)) return mask
+  } else if (type === 'iban') {
+    const mask = `[IBAN ████${normalized.replace(/[^0-9]/g, '').slice(-4)}]`
+    if (!taken.has(mask)) return mask
+  }
+
+  const label = type === 'person' ? PERSON_LABEL : PII_PATTERNS[type].label
+  for (let n = 0; ; n++) {
+    const mask = `[${label} ${letters(n)}]`
+    if (!taken.has(mask)) return mask
+  }
+}
+
+/**
+ * Hands out masks for one pass over a text. Values already in the registry
+ * keep their pseudonym; new values get the next free mask, never one the
+ * registry has given to a different value.
+ */
+export function createMaskAllocator(registry: EntityRegistry): MaskAllocator {
+  const assigned = new Map(registry.byValue)
+  const taken = new Set(registry.byPseudonym.keys())
+
+  return (type, value, preferred) => {
+    const key = entityKey(type, value)
+    const known = assigned.get(key)
+    if (known) return known
+
+    const mask = preferred && !taken.has(preferred) ? preferred : newMask(type, normalizeValue(type, value), taken)
+    assigned.set(key, mask)
+    taken.add(mask)
+    return mask
+  }
+}
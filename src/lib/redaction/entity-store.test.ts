@@ -0,0 +1,158 @@
+/**
+ * Entity pruning with chat history — migration 025 runs in PGlite (real
+ * Postgres, so the prune trigger is the one deployed); the app code runs
+ * against the in-memory Supabase, seeded from the database rows.
+ */
+
+import { randomBytes } from 'crypto'
+import { readFileSync } from 'fs'
+import { PGlite } from '@electric-sql/pglite'
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getMasterKeys } from '@/lib/crypto/cipher'
+import { createUserCipher, wrapDataKey, type UserCipher } from '@/lib/crypto/envelope'
+import { createFakeSupabase, type FakeSupabase } from '@/test/fake-supabase'
+import { createMaskAllocator, entityKey } from './entity-registry'
+import { linkChatMessageEntities, loadEntityRegistry } from './entity-store'
+import { unRedact } from './un-redact'
+
+const USER_ID = '11111111-1111-4111-8111-111111111111'
+
+const MIGRATION_025 = readFileSync(
+  new URL('../../../supabase/migrations/025_pii_entity_registry.sql', import.meta.url),
+  'utf8'
+)
+
+/** Just enough of the earlier schema for migration 025 to apply */
+const BASE_SCHEMA = `
+  CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$ SELECT NULL::UUID $$ LANGUAGE sql;
+  CREATE TABLE public.profiles (id UUID PRIMARY KEY);
+  CREATE TABLE public.documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE
+  );
+  CREATE TABLE public.chat_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    content TEXT NOT NULL
+  );
+`
+
+type Row = Record<string, unknown>
+
+let db: PGlite
+let dataKey: Buffer
+let cipher: UserCipher
+
+async function insert(table: string, values: Row): Promise<Row> {
+  const columns = Object.keys(values)
+  const { rows } = await db.query<Row>(
+    `INSERT INTO public.${table} (${columns.join(', ')})
+     VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')}) RETURNING *`,
+    Object.values(values)
+  )
+  return rows[0]
+}
+
+async function rows(table: string): Promise<Row[]> {
+  return (await db.query<Row>(`SELECT * FROM public.${table}`)).rows
+}
+
+/** The app's view of the database right now */
+async function snapshot(): Promise<FakeSupabase> {
+  const { current } = getMasterKeys()
+  return createFakeSupabase({
+    user_data_keys: [{ user_id: USER_ID, wrapped_key: wrapDataKey(dataKey, current), master_key_id: current.id }],
+    pii_entities: await rows('pii_entities'),
+  })
+}
+
+/** A document mentioning Kari Nordmann, redacted as [PERSON A] */
+async function seedDocumentEntity(): Promise<{ documentId: string; entityId: string }> {
+  const document = await insert('documents', { user_id: USER_ID })
+  const entity = await insert('pii_entities', {
+    user_id: USER_ID,
+    type: 'person',
+    value_hash: cipher.hash(entityKey('person', 'Kari Nordmann')),
+    value_encrypted: cipher.encrypt('Kari Nordmann'),
+    pseudonym: '[PERSON A]',
+  })
+  await insert('pii_entity_documents', { entity_id: entity.id, document_id: document.id, user_id: USER_ID })
+  return { documentId: document.id as string, entityId: entity.id as string }
+}
+
+/** Saves a masked chat message and links it the way the chat route does */
+async function saveChatMessage(content: string): Promise<string> {
+  const message = await insert('chat_messages', { user_id: USER_ID, content })
+
+  const app = await snapshot()
+  const registry = await loadEntityRegistry(app.client, USER_ID)
+  await linkChatMessageEntities(app.client, USER_ID, message.id as string, content, registry)
+  for (const link of app.table('pii_entity_chat_messages')) {
+    await insert('pii_entity_chat_messages', { entity_id: link.entity_id, message_id: link.message_id, user_id: link.user_id })
+  }
+  return message.id as string
+}
+
+// Starting Postgres takes a few seconds
+beforeAll(async () => {
+  db = new PGlite({ extensions: { uuid_ossp } })
+  await db.exec(BASE_SCHEMA)
+  await db.exec(MIGRATION_025)
+}, 60_000)
+
+afterAll(async () => {
+  await db.close()
+})
+
+beforeEach(async () => {
+  vi.stubEnv('ENCRYPTION_MASTER_KEY', randomBytes(32).toString('hex'))
+  vi.stubEnv('ENCRYPTION_MASTER_KEY_PREVIOUS', '')
+  dataKey = randomBytes(32)
+  cipher = createUserCipher(dataKey)
+
+  await db.exec('TRUNCATE public.profiles CASCADE')
+  await insert('profiles', { id: USER_ID })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('chat history and the entity registry', () => {
+  it('still shows the right name in a chat after the document is deleted', async () => {
+    const { documentId } = await seedDocumentEntity()
+    const messageId = await saveChatMessage('Hva skylder jeg [PERSON A]?')
+
+    await db.query('DELETE FROM public.documents WHERE id = $1', [documentId])
+
+    // Reload the chat the way chat/page.tsx does
+    const app = await snapshot()
+    const registry = await loadEntityRegistry(app.client, USER_ID)
+    const [message] = (await rows('chat_messages')).filter((m) => m.id === messageId)
+
+    expect(unRedact(message.content as string, {}, registry)).toBe('Hva skylder jeg Kari Nordmann?')
+    // The pseudonym stays taken — the next new person doesn't inherit it
+    expect(createMaskAllocator(registry)('person', 'Ola Hansen')).toBe('[PERSON B]')
+  })
+
+  it('prunes the entity once neither documents nor chat messages use it', async () => {
+    const { documentId } = await seedDocumentEntity()
+    const messageId = await saveChatMessage('[PERSON A] har sendt purring')
+
+    await db.query('DELETE FROM public.documents WHERE id = $1', [documentId])
+    expect(await rows('pii_entities')).toHaveLength(1)
+
+    await db.query('DELETE FROM public.chat_messages WHERE id = $1', [messageId])
+    expect(await rows('pii_entities')).toHaveLength(0)
+  })
+
+  it('links only the entities a message mentions', async () => {
+    await seedDocumentEntity()
+    await saveChatMessage('Hvor mye har jeg igjen denne måneden?')
+
+    expect(await rows('pii_entity_chat_messages')).toHaveLength(0)
+  })
+})
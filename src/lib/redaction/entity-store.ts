@@ -0,0 +1,132 @@
+/**
+ * Loads and saves the PII entity registry (pii_entities, migration 025).
+ *
+ * Values are encrypted with the user's data key (envelope.ts) and found by a
+ * keyed hash of their normalized form, so the table never holds a readable
+ * name or number, and deleting the data key erases the registry. Each document
+ * and each (masked) chat message links the entities it uses; when one is
+ * deleted its links go with it, and a database trigger removes entities
+ * nothing uses any more.
+ *
+ * IMPORTANT: This module is server-side only (unwrapping the data key needs
+ * the master key).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getUserCipher, type UserCipher } from '@/lib/crypto/envelope'
+import { createEntityRegistry, entityKey, type EntityRegistry, type RegisteredEntity } from './entity-registry'
+import type { PIIType } from './patterns'
+
+function valueHash(entity: Pick<RegisteredEntity, 'type' | 'value'>, cipher: UserCipher): string {
+  return cipher.hash(entityKey(entity.type, entity.value))
+}
+
+export async function loadEntityRegistry(supabase: SupabaseClient, userId: string): Promise<EntityRegistry> {
+  const { data, error } = await supabase
+    .from('pii_entities')
+    .select('type, value_encrypted, pseudonym')
+    .eq('user_id', userId)
+
+  if (error) throw new Error(`Failed to load PII entities: ${error.message}`)
+  if (!data || data.length === 0) return createEntityRegistry()
+
+  const cipher = await getUserCipher(supabase, userId)
+  return createEntityRegistry(
+    data.map((row) => ({
+      type: row.type as PIIType,
+      value: cipher.decrypt(row.value_encrypted),
+      pseudonym: row.pseudonym,
+    }))
+  )
+}
+
+/**
+ * Records the entities a document's redacted text uses: new values are added
+ * to the registry, and the document's links are replaced. Links dropped here
+ * (the user unticked a value on re-review) prune entities nothing else uses.
+ */
+export async function saveDocumentEntities(
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string,
+  entities: RegisteredEntity[]
+): Promise<void> {
+  let entityIds: string[] = []
+
+  if (entities.length > 0) {
+    const cipher = await getUserCipher(supabase, userId)
+    const rows = entities.map((entity) => ({
+      user_id: userId,
+      type: entity.type,
+      value_hash: valueHash(entity, cipher),
+      value_encrypted: cipher.encrypt(entity.value),
+      pseudonym: entity.pseudonym,
+    }))
+
+    // Known values keep their existing row (and pseudonym)
+    const { error: upsertError } = await supabase
+      .from('pii_entities')
+      .upsert(rows, { onConflict: 'user_id,type,value_hash', ignoreDuplicates: true })
+    if (upsertError) throw new Error(`Failed to save PII entities: ${upsertError.message}`)
+
+    const { data, error } = await supabase
+      .from('pii_entities')
+      .select('id')
+      .eq('user_id', userId)
+      .in('value_hash', rows.map((r) => r.value_hash))
+    if (error) throw new Error(`Failed to load PII entity IDs: ${error.message}`)
+    entityIds = (data ?? []).map((row) => row.id as string)
+  }
+
+  // Unlink what this document no longer uses, then link what it does
+  let unlink = supabase
+    .from('pii_entity_documents')
+    .delete()
+    .eq('document_id', documentId)
+    .eq('user_id', userId)
+  if (entityIds.length > 0) unlink = unlink.not('entity_id', 'in', `(${entityIds.join(',')})`)
+  const { error: unlinkError } = await unlink
+  if (unlinkError) throw new Error(`Failed to unlink PII entities: ${unlinkError.message}`)
+
+  if (entityIds.length === 0) return
+
+  const { error: linkError } = await supabase
+    .from('pii_entity_documents')
+    .upsert(
+      entityIds.map((entityId) => ({ entity_id: entityId, document_id: documentId, user_id: userId })),
+      { onConflict: 'entity_id,document_id', ignoreDuplicates: true }
+    )
+  if (linkError) throw new Error(`Failed to link PII entities: ${linkError.message}`)
+}
+
+/**
+ * Links a stored chat message to the registry entities whose pseudonyms it
+ * contains, so deleting the documents they came from doesn't prune them —
+ * or free their pseudonyms for other values — while the chat still shows them.
+ */
+export async function linkChatMessageEntities(
+  supabase: SupabaseClient,
+  userId: string,
+  messageId: string,
+  content: string,
+  registry: EntityRegistry
+): Promise<void> {
+  const pseudonyms = [...registry.byPseudonym.keys()].filter((p) => content.includes(p))
+  if (pseudonyms.length === 0) return
+
+  const { data, error } = await supabase
+    .from('pii_entities')
+    .select('id')
+    .eq('user_id', userId)
+    .in('pseudonym', pseudonyms)
+  if (error) throw new Error(`Failed to load PII entity IDs: ${error.message}`)
+  if (!data || data.length === 0) return
+
+  const { error: linkError } = await supabase
+    .from('pii_entity_chat_messages')
+    .upsert(
+      data.map((row) => ({ entity_id: row.id, message_id: messageId, user_id: userId })),
+      { onConflict: 'entity_id,message_id', ignoreDuplicates: true }
+    )
+  if (linkError) throw new Error(`Failed to link PII entities: ${linkError.message}`)
+}
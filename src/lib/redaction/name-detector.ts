@@ -0,0 +1,116 @@
+/**
+ * Person-name detection — the one kind of PII no regex can find.
+ *
+ * Candidates are runs of 1–4 capitalised words on one line ("Kari Nordmann",
+ * "OLA NORDMANN"). Every sub-run is scored and the best kept, so "Kjære Kari
+ * Nordmann" yields "Kari Nordmann". Scores come from:
+ *   - a known first name first, a known or -sen/-stad-style surname last
+ *   - a cue just before it: "Til:", "Fra:", "Skyldner:", "Med vennlig hilsen"
+ *   - an honorific: "Hr.", "Fru", "Mr." (the only case a lone word counts)
+ *
+ * Creditors, collection agencies and company forms (AS, ASA) are never
+ * people, so a run containing one is skipped. Pure logic.
+ */
+
+import {
+  FIRST_NAMES,
+  SURNAMES,
+  SURNAME_SUFFIX,
+  ORGANISATION_NAMES,
+  COMPANY_SUFFIXES,
+  NON_NAME_WORDS,
+} from './norwegian-names'
+
+export interface NameMatch {
+  start: number
+  end: number
+  original: string
+  /** Lowercase, single-spaced — the same person written twice gets one mask */
+  normalized: string
+  confidence: number
+}
+
+// ── Patterns ────────────────────────────────────────────────────────────────
+
+// A word: "Kari", "KARI", "Anne-Lise"; words in a name are separated by
+// spaces or tabs only, never a line break
+const WORD = "[A-ZÆØÅ](?:[a-zæøåäöüéè']+|[A-ZÆØÅ]+)(?:-[A-ZÆØÅ][a-zæøåäöüéè]+)?"
+const CANDIDATE = new RegExp(`(?<![\\wæøåÆØÅ])${WORD}(?:[ \\t]+${WORD}){0,3}(?![\\wæøåÆØÅ])`, 'g')
+
+/** Labels that introduce a person, at the end of the text before a candidate */
+const CUE = /(?:\b(?:til|fra|navn|skyldner|debitor|kunde|mottaker|avsender|att\.?|v\/|c\/o|saksbehandler|kontaktperson|to|from)\s*:?|med vennlig hilsen|mvh|hilsen|kjære|hei|dear)[ \t,]*\n?[ \t]*$/i
+
+const HONORIFIC = /\b(?:hr|herr|fru|frk|mr|mrs|ms|dr)\.?[ \t]+$/i
+
+/** How far back to look for a cue — it may be on the line above */
+const CUE_LOOKBACK = 40
+
+const MIN_CONFIDENCE = 0.4
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function isOrganisation(words: string[]): boolean {
+  if (COMPANY_SUFFIXES.has(words[words.length - 1])) return true
+  const phrase = ` ${words.join(' ')} `
+  return ORGANISATION_NAMES.some((org) => phrase.includes(` ${org} `))
+}
+
+function scoreCandidate(words: string[], before: string): number {
+  const first = words[0]
+  const last = words[words.length - 1]
+  const honorific = HONORIFIC.test(before)
+
+  // A lone word is only a name after "Hr." or "Fru"
+  if (words.length === 1 && !honorific) return 0
+
+  let score = 0
+  if (FIRST_NAMES.has(first) || FIRST_NAMES.has(first.split('-')[0])) score += 0.45
+  if (words.length > 1) {
+    if (SURNAMES.has(last)) score += 0.3
+    else if (SURNAME_SUFFIX.test(last)) score += 0.2
+  }
+  if (honorific) score += 0.5
+  else if (CUE.test(before)) score += 0.4
+
+  return Math.min(0.95, Math.round(score * 100) / 100)
+}
+
+// ── Detection ───────────────────────────────────────────────────────────────
+
+export function detectNames(text: string): NameMatch[] {
+  const matches: NameMatch[] = []
+  const regex = new RegExp(CANDIDATE.source, CANDIDATE.flags)
+  let match: RegExpExecArray | null
+
+  while ((match = regex.exec(text)) !== null) {
+    // Word positions within the text
+    const words: Array<{ word: string; start: number; end: number }> = []
+    for (const w of match[0].matchAll(/\S+/g)) {
+      const start = match.index + w.index!
+      words.push({ word: w[0].toLowerCase(), start, end: start + w[0].length })
+    }
+
+    // Best sub-run: highest score, then longest
+    let best: NameMatch | null = null
+    for (let i = 0; i < words.length; i++) {
+      for (let j = i; j < words.length; j++) {
+        const span = words.slice(i, j + 1).map((w) => w.word)
+        if (span.some((w) => NON_NAME_WORDS.has(w)) || isOrganisation(span)) continue
+
+        const start = words[i].start
+        const before = text.slice(Math.max(0, start - CUE_LOOKBACK), start)
+        const confidence = scoreCandidate(span, before)
+        if (confidence < MIN_CONFIDENCE) continue
+
+        const end = words[j].end
+        if (!best || confidence > best.confidence || (confidence === best.confidence && end - start > best.end - best.start)) {
+          best = { start, end, original: text.slice(start, end), normalized: span.join(' '), confidence }
+        }
+      }
+    }
+
+    if (best) matches.push(best)
+  }
+
+  return matches
+}
@@ -0,0 +1,82 @@
+/**
+ * Word lists for person-name detection (see name-detector.ts).
+ *
+ * FIRST_NAMES and SURNAMES are the most common names in Norway (SSB name
+ * statistics), plus names common among the largest immigrant groups. They
+ * don't need to be complete: a name that isn't listed can still be found
+ * from context ("Til:", "Hr.", a -sen surname).
+ *
+ * The stop-lists keep creditors, collection agencies and ordinary document
+ * words from being taken for people. All entries are lowercase.
+ */
+
+import { NORWEGIAN_BANKS } from '@/lib/constants/norwegian-banks'
+
+export const FIRST_NAMES = new Set([
+  // Women
+  'anne', 'inger', 'kari', 'marit', 'ingrid', 'liv', 'eva', 'berit', 'astrid', 'bjørg',
+  'hilde', 'anna', 'solveig', 'marianne', 'randi', 'ida', 'nina', 'maria', 'elisabeth', 'kristin',
+  'bente', 'heidi', 'silje', 'hanne', 'gerd', 'linda', 'tone', 'tove', 'elin', 'anita',
+  'wenche', 'ragnhild', 'camilla', 'ellen', 'karin', 'hege', 'ann', 'grete', 'mona', 'trine',
+  'kirsten', 'julie', 'sara', 'emma', 'nora', 'sofie', 'thea', 'ingeborg', 'emilie', 'maja',
+  'olivia', 'ella', 'frida', 'vilde', 'mari', 'marte', 'kristine', 'line', 'lene', 'monica',
+  'cecilie', 'siri', 'guro', 'turid', 'unni', 'aud', 'else', 'åse', 'synnøve', 'helene',
+  'malin', 'amalie', 'tuva', 'hanna', 'ane', 'martine', 'karoline', 'stine', 'merete', 'torill',
+  // Men
+  'jan', 'per', 'bjørn', 'ole', 'lars', 'kjell', 'knut', 'arne', 'svein', 'thomas',
+  'hans', 'geir', 'tor', 'morten', 'terje', 'odd', 'martin', 'erik', 'andreas', 'rune',
+  'trond', 'john', 'anders', 'tore', 'harald', 'jon', 'olav', 'magnus', 'daniel', 'kristian',
+  'gunnar', 'tom', 'nils', 'stian', 'espen', 'fredrik', 'jonas', 'christian', 'øyvind', 'jørgen',
+  'eirik', 'sindre', 'henrik', 'marius', 'even', 'sander', 'mathias', 'emil', 'jakob', 'filip',
+  'noah', 'william', 'oskar', 'lukas', 'aksel', 'håkon', 'sigurd', 'vegard', 'kristoffer', 'alexander',
+  'sebastian', 'tobias', 'petter', 'steinar', 'roar', 'leif', 'egil', 'frode', 'dag', 'helge',
+  'kåre', 'ivar', 'ola', 'johan', 'einar', 'sverre', 'halvor', 'torbjørn', 'vidar', 'ståle',
+  'håvard', 'pål', 'kai', 'rolf', 'stein', 'atle', 'ketil', 'jarle', 'asbjørn', 'ragnar',
+  // Common among immigrant groups
+  'mohammed', 'muhammad', 'mohamed', 'ali', 'ahmed', 'hassan', 'omar', 'fatima', 'aisha', 'amina',
+  'piotr', 'tomasz', 'krzysztof', 'andrzej', 'katarzyna', 'agnieszka', 'magdalena', 'marek', 'tomas', 'ewa',
+])
+
+export const SURNAMES = new Set([
+  'hansen', 'johansen', 'olsen', 'larsen', 'andersen', 'pedersen', 'nilsen', 'kristiansen', 'jensen', 'karlsen',
+  'johnsen', 'pettersen', 'eriksen', 'berg', 'haugen', 'hagen', 'johannessen', 'andreassen', 'jacobsen', 'dahl',
+  'jørgensen', 'halvorsen', 'henriksen', 'lund', 'sørensen', 'jakobsen', 'moen', 'gundersen', 'iversen', 'strand',
+  'solberg', 'svendsen', 'eide', 'knutsen', 'martinsen', 'paulsen', 'bakken', 'kristoffersen', 'mathisen', 'lie',
+  'amundsen', 'nguyen', 'rasmussen', 'lunde', 'solheim', 'berge', 'moe', 'nygård', 'bakke', 'kristensen',
+  'fredriksen', 'holm', 'lien', 'hauge', 'christensen', 'andresen', 'nielsen', 'knudsen', 'evensen', 'sæther',
+  'aas', 'myhre', 'hanssen', 'haugland', 'thomassen', 'sivertsen', 'simonsen', 'danielsen', 'berntsen', 'sandvik',
+  'rønning', 'arnesen', 'antonsen', 'næss', 'vik', 'haug', 'ellingsen', 'thorsen', 'edvardsen', 'birkeland',
+  'isaksen', 'gulbrandsen', 'ruud', 'aasen', 'strøm', 'myklebust', 'tangen', 'ødegård', 'eliassen', 'helland',
+  'bøe', 'jenssen', 'aune', 'mikkelsen', 'tveit', 'brekke', 'abrahamsen', 'madsen', 'nordmann', 'ahmed',
+  'ali', 'khan', 'hussain', 'mohamed', 'nowak', 'kowalski', 'wiśniewski', 'kowalczyk', 'tran', 'pham',
+])
+
+/** Endings that mark a word as a likely Norwegian surname */
+export const SURNAME_SUFFIX = /(?:sen|son|stad|rud|dal|heim|vik|land|nes|gård|rød)$/
+
+/** Creditors and collection agencies — a candidate containing one is not a person */
+export const ORGANISATION_NAMES = [
+  // Collection agencies (inkassobyråer)
+  'intrum', 'lowell', 'kredinor', 'sergel', 'svea', 'alektum', 'conecto', 'modhi', 'riverty', 'arvato',
+  'lindorff', 'gothia', 'pra group', 'axactor', 'b2 impact', 'collectia', 'visma',
+  // Public creditors
+  'statens innkrevingssentral', 'skatteetaten', 'nav', 'lånekassen', 'statens vegvesen', 'namsmannen',
+  // Banks and lenders
+  ...NORWEGIAN_BANKS.map((b) => b.name.replace(/\s*\(.*\)/, '').toLowerCase()), // "Sbanken (DNB)" → "sbanken"
+  'santander', 'klarna', 'bank norwegian', 'resurs', 'morrow', 'brabank', 'lendo',
+  // Utilities, telecoms, insurers
+  'telenor', 'telia', 'ice', 'fjordkraft', 'tibber', 'hafslund', 'fortum', 'elvia', 'lyse', 'altibox',
+  'gjensidige', 'tryg', 'fremtind', 'frende', 'obos', 'posten', 'bring', 'vipps',
+]
+
+/** Company forms — a candidate ending in one is an organisation */
+export const COMPANY_SUFFIXES = new Set(['as', 'asa', 'ans', 'da', 'sa', 'ba', 'ks', 'nuf', 'ab', 'ltd', 'gmbh', 'inc'])
+
+/** Capitalised words in letters and invoices that are never names */
+export const NON_NAME_WORDS = new Set([
+  'faktura', 'kvittering', 'purring', 'inkassovarsel', 'betalingsoppfordring', 'varsel', 'kontoutskrift',
+  'side', 'dato', 'forfall', 'forfallsdato', 'beløp', 'sum', 'totalt', 'mva', 'kid', 'nok', 'kontonummer',
+  'kunde', 'kundenummer', 'saksnummer', 'referanse', 'kommune', 'fylkeskommune', 'norge', 'oslo', 'bergen',
+  'trondheim', 'stavanger', 'kristiansand', 'tromsø', 'drammen', 'fredrikstad', 'sandnes', 'bodø',
+  'kundeservice', 'avdeling', 'postboks', 'hovedstol', 'renter', 'gebyr', 'salær', 'dear', 'sir', 'madam',
+])
@@ -4,14 +4,26 @@
  *
  * The regex patterns are used by pii-detector.ts to scan extracted document text.
  * ALL documents must pass through this detection before Claude analysis.
+ *
+ * `confidence` is how likely a match is real PII (0–1). Identifiers with a
+ * check digit also have `validate` — a match that fails it is probably an
+ * invoice or reference number, and drops to INVALID_CHECKSUM_CONFIDENCE.
  */
 
+import { isValidPersonalId, isValidAccountNumber, isValidOrgNumber, isValidKid } from './validators'
+
+/** Confidence for a match whose check digits don't add up */
+export const INVALID_CHECKSUM_CONFIDENCE = 0.2
+
 export const PII_PATTERNS = {
-  // Fødselsnummer: 6 digits (DDMMYY) + 5 digits (individual number + check digits)
+  // Fødselsnummer / D-nummer: 6 digits (DDMMYY, D-nummer has day + 40) +
+  // 5 digits (individual number + two mod-11 check digits)
   fodselsnummer: {
-    regex: /\b(\d{2}[01]\d[0-3]\d)\s?(\d{5})\b/g,
+    regex: /\b(\d{2}[01]\d{3})\s?(\d{5})\b/g,
     label: 'PERSONAL ID',
     maskType: 'full' as const, // completely remove — too sensitive
+    confidence: 0.98,
+    validate: isValidPersonalId,
   },
 
   // Norwegian bank account: XXXX.XX.XXXXX (11 digits, often with dots)
@@ -19,6 +31,8 @@ export const PII_PATTERNS = {
     regex: /\b(\d{4})[\.\s]?(\d{2})[\.\s]?(\d{5})\b/g,
     label: 'ACCOUNT',
     maskType: 'partial' as const, // show last 5 digits for relationship tracking
+    confidence: 0.95,
+    validate: isValidAccountNumber,
   },
 
   // IBAN starting with NO
@@ -26,6 +40,7 @@ export const PII_PATTERNS = {
     regex: /\b(NO)\s?(\d{2})\s?(\d{4})\s?(\d{4})\s?(\d{3})\b/gi,
     label: 'IBAN',
     maskType: 'partial' as const,
+    confidence: 0.95,
   },
 
   // Norwegian phone numbers (8 digits, optionally with +47)
@@ -33,6 +48,7 @@ export const PII_PATTERNS = {
     regex: /\b(?:\+47\s?)?([2-9]\d{2})\s?(\d{2})\s?(\d{3})\b/g,
     label: 'PHONE',
     maskType: 'full' as const,
+    confidence: 0.7,
   },
 
   // Email addresses
@@ -40,6 +56,7 @@ export const PII_PATTERNS = {
     regex: /\b[\w.\-+]+@[\w.\-]+\.\w{2,}\b/gi,
     label: 'EMAIL',
     maskType: 'full' as const,
+    confidence: 0.95,
   },
 
   // Norwegian postal addresses — look for street type keywords
@@ -47,15 +64,30 @@ export const PII_PATTERNS = {
     regex: /\b[\wæøåÆØÅ\s]+(?:gate|gata|vei|veien|vegen|plass|plassen|terrasse|terrassen|allé|alléen|sving|svingen|tun|tunet)\s+\d+[\s,]*(?:\d{4}\s+[\wæøåÆØÅ]+)?\b/gi,
     label: 'ADDRESS',
     maskType: 'full' as const,
+    confidence: 0.7,
   },
 
   // Organisation numbers (9 digits, often formatted XXX XXX XXX)
-  // Note: this is broad — will have false positives. The user review step handles this.
+  // Broad on its own — the mod-11 check weeds out amounts and invoice numbers
   orgNumber: {
     regex: /\b(\d{3})\s?(\d{3})\s?(\d{3})\b/g,
     label: 'ORG NUMBER',
     maskType: 'full' as const,
+    confidence: 0.85,
+    validate: isValidOrgNumber,
+  },
+
+  // KID — the payment reference after a "KID" label; often encodes a customer number
+  kid: {
+    regex: /(?<=\bKID(?:[-\s]?(?:nr\.?|nummer))?:?\s*)\d{1,24}[\d-]/gi,
+    label: 'KID',
+    maskType: 'full' as const,
+    confidence: 0.9,
+    validate: isValidKid,
   },
 } as const
 
-export type PIIType = keyof typeof PII_PATTERNS
+/** Person names have no pattern — see name-detector.ts */
+export const PERSON_LABEL = 'PERSON'
+
+export type PIIType = keyof typeof PII_PATTERNS | 'person'
@@ -5,14 +5,27 @@
  * - the exact character positions in the text (start/end)
  * - the original matched text
  * - the suggested mask (consistent pseudonym)
- * - confirmed: true by default (user can unconfirm in the UI)
+ * - a confidence score, and whether the check digits hold for identifiers
+ *   that have them (fødselsnummer, account, org number, KID)
+ * - confirmed: true when confident enough; a failed checksum leaves the
+ *   match as an unconfirmed suggestion the user can still tick
+ *
+ * Person names come from name-detector.ts rather than a regex, and are
+ * masked the same way: [PERSON A], [PERSON B].
  *
  * Consistent pseudonymization: if the same value appears multiple times,
  * it always gets the same mask — so Claude can still reason about
- * relationships ("payment from ████.██.78901 to ████.██.32109").
+ * relationships ("payment from ████.██.78901 to ████.██.32109"). Pass the
+ * user's entity registry and values seen in earlier documents keep the mask
+ * they got there.
  */
 
-import { PII_PATTERNS, type PIIType } from './patterns'
+import { PII_PATTERNS, INVALID_CHECKSUM_CONFIDENCE, type PIIType } from './patterns'
+import { detectNames } from './name-detector'
+import { createEntityRegistry, createMaskAllocator, type EntityRegistry } from './entity-registry'
+
+/** Matches at or above this confidence are redacted unless the user unticks them */
+export const AUTO_CONFIRM_CONFIDENCE = 0.5
 
 export interface PIIDetection {
   type: PIIType
@@ -20,15 +33,17 @@ export interface PIIDetection {
   end: number
   original: string     // the matched text
   suggestedMask: string // what it would be replaced with
-  confirmed: boolean   // user has confirmed this redaction (default: true)
+  confidence: number   // 0–1, how likely this is real PII
+  checksum: 'valid' | 'invalid' | null // null when the type has no check digit
+  confirmed: boolean   // user has confirmed this redaction (default: confidence ≥ AUTO_CONFIRM_CONFIDENCE)
 }
 
-export function detectPII(text: string): PIIDetection[] {
+export function detectPII(text: string, registry: EntityRegistry = createEntityRegistry()): PIIDetection[] {
   const detections: PIIDetection[] = []
-  const labelCounters: Record<string, number> = {}
 
-  // Track unique values per type for consistent labeling across the document
-  const seenValues: Record<string, string> = {} // normalizedOriginal → mask
+  // Same value → same mask, in this document and (through the registry) every
+  // other document the user has redacted
+  const maskFor = createMaskAllocator(registry)
 
   for (const [type, config] of Object.entries(PII_PATTERNS)) {
     // Always create a fresh regex to reset lastIndex
@@ -37,36 +52,14 @@ export function detectPII(text: string): PIIDetection[] {
 
     while ((match = regex.exec(text)) !== null) {
       const original = match[0]
+      const mask = maskFor(type as PIIType, original)
 
-      // Normalize to check if we've seen this exact value before
-      const normalizedOriginal = original.replace(/\s/g, '')
-      let mask: string
-
-      if (seenValues[normalizedOriginal]) {
-        // Same value → same mask (consistent pseudonymization)
-        mask = seenValues[normalizedOriginal]
-      } else {
-        // New unique value → generate new mask
-        const labelBase = config.label
-        if (!labelCounters[labelBase]) labelCounters[labelBase] = 0
-        const letter = String.fromCharCode(65 + labelCounters[labelBase]) // A, B, C...
-        labelCounters[labelBase]++
-
-        if (config.maskType === 'partial' && type === 'bankAccount') {
-          // Show last 5 digits: 1234.56.78901 → ████.██.78901
-          const digits = normalizedOriginal
-          const lastFive = digits.slice(-5)
-          mask = `████.██.${lastFive}`
-        } else if (config.maskType === 'partial' && type === 'iban') {
-          const digits = normalizedOriginal.replace(/[^0-9]/g, '')
-          const lastFour = digits.slice(-4)
-          mask = `[IBAN ████${lastFour}]`
-        } else {
-          mask = `[${labelBase} ${letter}]`
-        }
-
-        seenValues[normalizedOriginal] = mask
+      // Check digits, for identifiers that have them
+      let checksum: PIIDetection['checksum'] = null
+      if ('validate' in config) {
+        checksum = config.validate(original.replace(/[\s.]/g, '')) ? 'valid' : 'invalid'
       }
+      const confidence = checksum === 'invalid' ? INVALID_CHECKSUM_CONFIDENCE : config.confidence
 
       detections.push({
         type: type as PIIType,
@@ -74,24 +67,47 @@ export function detectPII(text: string): PIIDetection[] {
         end: match.index + original.length,
         original,
         suggestedMask: mask,
-        confirmed: true, // auto-detected items default to confirmed
+        confidence,
+        checksum,
+        confirmed: confidence >= AUTO_CONFIRM_CONFIDENCE,
       })
     }
   }
 
+  // Person names — masked the same way as the patterns above
+  for (const name of detectNames(text)) {
+    detections.push({
+      type: 'person',
+      start: name.start,
+      end: name.end,
+      original: name.original,
+      suggestedMask: maskFor('person', name.original),
+      confidence: name.confidence,
+      checksum: null,
+      confirmed: name.confidence >= AUTO_CONFIRM_CONFIDENCE,
+    })
+  }
+
   // Sort by position (important for applying redactions correctly)
   detections.sort((a, b) => a.start - b.start)
 
-  // Remove overlapping detections (keep the longer/more specific match)
+  // Remove overlapping detections — an 11-digit number matches both the
+  // personal ID and account patterns, and the checksums decide which it is
   const filtered: PIIDetection[] = []
   for (const detection of detections) {
     const lastKept = filtered[filtered.length - 1]
     if (lastKept && detection.start < lastKept.end) {
-      // Overlap — keep the one with longer match (more specific)
-      if (detection.original.length > lastKept.original.length) {
-        filtered[filtered.length - 1] = detection
-      }
-      // else skip this detection
+      // Overlap — keep the more confident match, then the longer (more specific)
+      const moreConfident = detection.confidence > lastKept.confidence
+      const asConfidentButLonger =
+        detection.confidence === lastKept.confidence && detection.original.length > lastKept.original.length
+      const [winner, loser] = moreConfident || asConfidentButLonger ? [detection, lastKept] : [lastKept, detection]
+      filtered[filtered.length - 1] = winner
+
+      // The address pattern swallows the words before a street name, so it
+      // can start with a person's name — keep the address part after it
+      const rest = loser.type === 'address' && loser.end > winner.end ? addressAfter(text, loser, winner.end) : null
+      if (rest) filtered.push(rest)
     } else {
       filtered.push(detection)
     }
@@ -99,3 +115,11 @@ export function detectPII(text: string): PIIDetection[] {
 
   return filtered
 }
+
+/** The part of an address detection from `from` on, or null if nothing is left */
+function addressAfter(text: string, detection: PIIDetection, from: number): PIIDetection | null {
+  let start = from
+  while (start < detection.end && /[\s,]/.test(text[start])) start++
+  if (!/\d/.test(text.slice(start, detection.end))) return null
+  return { ...detection, start, original: text.slice(start, detection.end) }
+}
@@ -4,31 +4,51 @@
  * Returns:
  * - redactedText: the original text with confirmed PII replaced by masks
  * - redactionMap: { mask → original } for un-redaction later
+ * - entities: the values this text uses, for the user's entity registry
+ *
+ * Masks resolve through the registry: a value it already knows gets its
+ * registered pseudonym even if the detection suggested another (another
+ * document may have been confirmed since), and a new value keeps its
+ * suggested mask unless that mask has meanwhile gone to a different value.
  *
  * Applies redactions from end to start so character positions stay valid.
  */
 
-import type { PIIDetection } from './pii-detector'
+import { detectPII, type PIIDetection } from './pii-detector'
+import type { PIIType } from './patterns'
+import {
+  createEntityRegistry,
+  createMaskAllocator,
+  entityKey,
+  type EntityRegistry,
+  type RegisteredEntity,
+} from './entity-registry'
 
 export interface RedactionResult {
   redactedText: string
   redactionMap: Record<string, string> // mask → original
+  entities: RegisteredEntity[]
 }
 
 export function applyRedactions(
   originalText: string,
-  detections: PIIDetection[]
+  detections: PIIDetection[],
+  registry: EntityRegistry = createEntityRegistry()
 ): RedactionResult {
   const redactionMap: Record<string, string> = {}
+  const entities = new Map<string, RegisteredEntity>()
 
-  // Apply redactions from end to start (positions stay valid when working backwards)
+  // Resolve masks in reading order, so new values are lettered as the user saw them
+  const maskFor = createMaskAllocator(registry)
   const confirmedDetections = detections
     .filter((d) => d.confirmed)
-    .sort((a, b) => b.start - a.start) // reverse order
+    .sort((a, b) => a.start - b.start)
+    .map((d) => ({ ...d, suggestedMask: maskFor(d.type, d.original, d.suggestedMask) }))
 
   let redactedText = originalText
 
-  for (const detection of confirmedDetections) {
+  // Apply redactions from end to start (positions stay valid when working backwards)
+  for (const detection of [...confirmedDetections].reverse()) {
     redactedText =
       redactedText.slice(0, detection.start) +
       detection.suggestedMask +
@@ -36,7 +56,97 @@ export function applyRedactions(
 
     // Store mapping (mask → original) for un-redaction later
     redactionMap[detection.suggestedMask] = detection.original
+
+    const key = entityKey(detection.type, detection.original)
+    if (!entities.has(key)) {
+      entities.set(key, { type: detection.type, value: detection.original, pseudonym: detection.suggestedMask })
+    }
   }
 
-  return { redactedText, redactionMap }
+  return { redactedText, redactionMap, entities: [...entities.values()] }
+}
+
+// ── Known entities in free text ─────────────────────────────────────────────
+
+/** Registry values written as words — the detector only finds them when capitalised */
+const TEXT_TYPES = new Set<PIIType>(['person', 'address'])
+/** Lone name parts shorter than this ("Bo", "Li") are too often ordinary words */
+const MIN_NAME_PART = 3
+
+interface KnownSpan {
+  start: number
+  end: number
+  mask: string
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Whole-word, case-insensitive, any whitespace between words */
+function wordRegex(normalized: string): RegExp {
+  const words = normalized.split(' ').map(escapeRegExp).join('\\s+')
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+/**
+ * Where the registry's word values appear in any case or spacing, and lone
+ * parts of registered names ("Kari" for "Kari Nordmann") — a part shared by
+ * several people gets the first one's mask, so it's masked either way.
+ */
+function findKnownText(text: string, registry: EntityRegistry): KnownSpan[] {
+  const spans: KnownSpan[] = []
+  const nameParts = new Map<string, string>()
+
+  for (const [key, mask] of registry.byValue) {
+    const separator = key.indexOf(':')
+    const type = key.slice(0, separator) as PIIType
+    const normalized = key.slice(separator + 1)
+    if (!TEXT_TYPES.has(type) || !normalized) continue
+
+    for (const match of text.matchAll(wordRegex(normalized))) {
+      spans.push({ start: match.index, end: match.index + match[0].length, mask })
+    }
+    if (type === 'person') {
+      for (const part of normalized.split(' ')) {
+        if (part.length >= MIN_NAME_PART && !nameParts.has(part)) nameParts.set(part, mask)
+      }
+    }
+  }
+
+  for (const [part, mask] of nameParts) {
+    for (const match of text.matchAll(wordRegex(part))) {
+      spans.push({ start: match.index, end: match.index + match[0].length, mask })
+    }
+  }
+  return spans
+}
+
+/**
+ * Masks the values the registry already knows — for text Claude sees outside
+ * document analysis, like chat messages. Identifiers are found by the
+ * detector's patterns; names and addresses also in lowercase and by their
+ * parts, since people don't capitalise in chat. Anything else is left as
+ * written: the user hasn't reviewed it.
+ */
+export function maskKnownEntities(text: string, registry: EntityRegistry): string {
+  if (registry.byValue.size === 0) return text
+
+  const spans = findKnownText(text, registry)
+  for (const d of detectPII(text, registry)) {
+    const mask = registry.byValue.get(entityKey(d.type, d.original))
+    if (mask) spans.push({ start: d.start, end: d.end, mask })
+  }
+  if (spans.length === 0) return text
+
+  // Earliest first, longest first at the same position — "Kari Nordmann" beats "Kari"
+  spans.sort((a, b) => a.start - b.start || b.end - a.end)
+  let result = ''
+  let position = 0
+  for (const span of spans) {
+    if (span.start < position) continue
+    result += text.slice(position, span.start) + span.mask
+    position = span.end
+  }
+  return result + text.slice(position)
 }
@@ -0,0 +1,95 @@
+/**
+ * Text extraction for Privacy Shield — the step before PII detection.
+ *
+ * The unredacted document should stay on our server. Digital PDFs carry a
+ * text layer we can read locally; plain text needs no extraction at all.
+ * Only scanned PDFs and photos need OCR, and the only OCR we have is a
+ * transcription call to Claude — so that path runs only when the user has
+ * opted in (see migration 024).
+ *
+ * IMPORTANT: This module is server-side only (the remote path uses the
+ * Anthropic client).
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf'
+import { anthropic } from '@/lib/anthropic/client'
+import type { ExtractionMethod } from '@/lib/constants/extraction-methods'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface ExtractedText {
+  text: string
+  method: ExtractionMethod
+}
+
+type OcrMediaType = 'application/pdf' | 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
+
+/**
+ * A text layer with fewer visible characters than this per page is treated
+ * as a scan — typically just a page number or a scanner's watermark.
+ */
+const MIN_CHARS_PER_PAGE = 40
+
+// ── Local ───────────────────────────────────────────────────────────────────
+
+async function readPdfTextLayer(buffer: Buffer): Promise<string | null> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer))
+  const { totalPages, text } = await extractText(pdf, { mergePages: false })
+
+  const visible = text.join('').replace(/\s/g, '').length
+  if (totalPages === 0 || visible < MIN_CHARS_PER_PAGE * totalPages) return null
+
+  return text.map((page) => page.trim()).join('\n\n')
+}
+
+/**
+ * Extracts text without the file leaving the server. Returns null when the
+ * file needs OCR (a scanned PDF or an image).
+ */
+export async function extractTextLocally(buffer: Buffer, mimeType: string): Promise<ExtractedText | null> {
+  if (mimeType === 'application/pdf') {
+    const text = await readPdfTextLayer(buffer)
+    return text === null ? null : { text, method: 'pdf_text_layer' }
+  }
+  if (mimeType.startsWith('image/')) return null
+
+  // Plain text / CSV
+  return { text: buffer.toString('utf-8'), method: 'plain_text' }
+}
+
+export function supportsRemoteOcr(mimeType: string): mimeType is OcrMediaType {
+  return ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp'].includes(mimeType)
+}
+
+// ── Remote (opt-in) ─────────────────────────────────────────────────────────
+
+/**
+ * Transcription-only call to Claude — the model is told to transcribe, not
+ * analyze. Callers must check the user's opt-in first.
+ */
+export async function extractTextRemotely(buffer: Buffer, mediaType: OcrMediaType): Promise<ExtractedText> {
+  const data = buffer.toString('base64')
+  const source =
+    mediaType === 'application/pdf'
+      ? { type: 'document' as const, source: { type: 'base64' as const, media_type: mediaType, data } }
+      : { type: 'image' as const, source: { type: 'base64' as const, media_type: mediaType, data } }
+  const what = mediaType === 'application/pdf' ? 'document' : 'image'
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-6',
+    max_tokens: 4000,
+    messages: [{
+      role: 'user',
+      content: [
+        source,
+        {
+          type: 'text',
+          text: `Extract ALL text from this ${what} exactly as it appears. Preserve line breaks and formatting. Output only the extracted text, nothing else.`,
+        },
+      ],
+    }],
+  })
+
+  const text = response.content[0].type === 'text' ? response.content[0].text : ''
+  return { text, method: 'remote_ocr' }
+}
@@ -7,23 +7,79 @@
  * real names/numbers in the displayed summary.
  *
  * The redactionMap (mask → original) is stored in the database per document.
+ * Masks from the user's other documents (Claude may refer to them in chat)
+ * resolve through the entity registry; the document's own map wins, since it
+ * has the value as written in that document.
  */
 
+import type { EntityRegistry } from './entity-registry'
+
+/** Longest possible tail of a mask still arriving — "[ADDRESS AB]", "████.██.78901" */
+const MAX_PARTIAL_MASK = 24
+
+function resolveMap(redactionMap: Record<string, string>, registry?: EntityRegistry): Record<string, string> {
+  return registry ? { ...Object.fromEntries(registry.byPseudonym), ...redactionMap } : redactionMap
+}
+
+function replaceMasks(text: string, map: Record<string, string>, masks: string[]): string {
+  let result = text
+  for (const mask of masks) {
+    // Replace all occurrences of the mask with the original value
+    result = result.split(mask).join(map[mask])
+  }
+  return result
+}
+
 export function unRedact(
   text: string,
-  redactionMap: Record<string, string>
+  redactionMap: Record<string, string>,
+  registry?: EntityRegistry
 ): string {
-  let result = text
+  const map = resolveMap(redactionMap, registry)
 
   // Sort masks by length (longest first) to avoid partial replacements
   // e.g., "[PERSON AB]" must be replaced before "[PERSON A]"
-  const masks = Object.keys(redactionMap).sort((a, b) => b.length - a.length)
+  const masks = Object.keys(map).sort((a, b) => b.length - a.length)
 
-  for (const mask of masks) {
-    const original = redactionMap[mask]
-    // Replace all occurrences of the mask with the original value
-    result = result.split(mask).join(original)
-  }
+  return replaceMasks(text, map, masks)
+}
 
-  return result
+/**
+ * Un-redaction for streamed output, where a mask can be split across chunks.
+ * `push` returns what is safe to show now and holds back a possible
+ * half-received mask; `flush` returns the rest once the stream ends.
+ */
+export function createStreamUnRedactor(redactionMap: Record<string, string>, registry?: EntityRegistry) {
+  const map = resolveMap(redactionMap, registry)
+  const masks = Object.keys(map).sort((a, b) => b.length - a.length)
+  let pending = ''
+
+  return {
+    push(chunk: string): string {
+      pending += chunk
+      if (masks.length === 0) {
+        const out = pending
+        pending = ''
+        return out
+      }
+
+      // Hold back from an unclosed "[" or a trailing run of mask characters
+      let cut = pending.length
+      const open = pending.lastIndexOf('[')
+      if (open > pending.lastIndexOf(']')) cut = open
+      const block = pending.search(/█[█.\d]*$/)
+      if (block !== -1) cut = Math.min(cut, block)
+      cut = Math.max(cut, pending.length - MAX_PARTIAL_MASK)
+
+      const ready = pending.slice(0, cut)
+      pending = pending.slice(cut)
+      return replaceMasks(ready, map, masks)
+    },
+
+    flush(): string {
+      const rest = replaceMasks(pending, map, masks)
+      pending = ''
+      return rest
+    },
+  }
 }
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isValidAccountNumber,
+  isValidKid,
+  isValidOrgNumber,
+  isValidPersonalId,
+  personalIdKind,
+} from './validators'
+
+describe('personalIdKind', () => {
+  it('recognises a fødselsnummer with both check digits valid', () => {
+    expect(personalIdKind('15038510190')).toBe('fodselsnummer')
+  })
+
+  it('recognises a D-nummer (day + 40)', () => {
+    expect(personalIdKind('55038510184')).toBe('dnummer')
+  })
+
+  it('rejects a wrong first or second check digit', () => {
+    expect(personalIdKind('15038510180')).toBeNull()
+    expect(personalIdKind('15038510191')).toBeNull()
+  })
+
+  it('rejects impossible birth dates', () => {
+    expect(personalIdKind('32038510190')).toBeNull()
+    expect(personalIdKind('15138510190')).toBeNull()
+    expect(personalIdKind('00038510190')).toBeNull()
+  })
+
+  it('rejects anything but 11 digits', () => {
+    expect(personalIdKind('1503851019')).toBeNull()
+    expect(personalIdKind('150385 10190')).toBeNull()
+    expect(isValidPersonalId('')).toBe(false)
+  })
+})
+
+describe('isValidAccountNumber', () => {
+  it('accepts a valid mod-11 account number', () => {
+    expect(isValidAccountNumber('86011117947')).toBe(true)
+  })
+
+  it('rejects a wrong check digit or length', () => {
+    expect(isValidAccountNumber('86011117948')).toBe(false)
+    expect(isValidAccountNumber('8601111794')).toBe(false)
+  })
+})
+
+describe('isValidOrgNumber', () => {
+  it('accepts valid organisation numbers', () => {
+    expect(isValidOrgNumber('923609016')).toBe(true)
+    expect(isValidOrgNumber('974760673')).toBe(true)
+  })
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidOrgNumber('923609017')).toBe(false)
+  })
+
+  it('rejects numbers outside the 8xx/9xx range', () => {
+    expect(isValidOrgNumber('123456785')).toBe(false)
+  })
+})
+
+describe('isValidKid', () => {
+  it('accepts mod-10 KIDs', () => {
+    expect(isValidKid('1234567897')).toBe(true)
+  })
+
+  it('accepts mod-11 KIDs, including the "-" check digit', () => {
+    expect(isValidKid('12345674')).toBe(true)
+    expect(isValidKid('1236')).toBe(true)
+    expect(isValidKid('1009-')).toBe(true)
+  })
+
+  it('rejects a "-" where the mod-11 check digit is not 10', () => {
+    expect(isValidKid('1230-')).toBe(false)
+  })
+
+  it('rejects KIDs failing both checks', () => {
+    expect(isValidKid('1234567898')).toBe(false)
+  })
+
+  it('rejects KIDs of the wrong length or with other characters', () => {
+    expect(isValidKid('1')).toBe(false)
+    expect(isValidKid('1'.repeat(26))).toBe(false)
+    expect(isValidKid('12a4')).toBe(false)
+  })
+})
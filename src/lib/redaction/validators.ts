@@ -0,0 +1,109 @@
+/**
+ * Check-digit validators for Norwegian identifiers.
+ *
+ * The PII patterns match by digit shape only, so an invoice number can look
+ * like a fødselsnummer and any 9-digit number like an org number. These
+ * validators let the detector tell a real identifier from a lookalike.
+ *
+ * All functions take the digits only (strip spaces and dots first).
+ */
+
+// ── Mod-11 / mod-10 ─────────────────────────────────────────────────────────
+
+/**
+ * Mod-11 check digit for the given digits and weights, or null when the
+ * remainder gives 10 — such numbers are never issued.
+ */
+function mod11CheckDigit(digits: string, weights: number[]): number | null {
+  let sum = 0
+  for (let i = 0; i < weights.length; i++) sum += Number(digits[i]) * weights[i]
+  const check = 11 - (sum % 11)
+  if (check === 11) return 0
+  if (check === 10) return null
+  return check
+}
+
+/** Luhn (mod-10) — doubling every second digit from the right */
+function isValidMod10(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return sum % 10 === 0
+}
+
+// ── Fødselsnummer / D-nummer ────────────────────────────────────────────────
+
+const FNR_WEIGHTS_1 = [3, 7, 6, 1, 8, 9, 4, 5, 2]
+const FNR_WEIGHTS_2 = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]
+
+export type PersonalIdKind = 'fodselsnummer' | 'dnummer'
+
+/**
+ * Fødselsnummer or D-nummer (day + 40) with both check digits valid and a
+ * plausible birth date. Null when the number is neither.
+ */
+export function personalIdKind(digits: string): PersonalIdKind | null {
+  if (!/^\d{11}$/.test(digits)) return null
+
+  let day = Number(digits.slice(0, 2))
+  const month = Number(digits.slice(2, 4))
+  const kind: PersonalIdKind = day > 40 ? 'dnummer' : 'fodselsnummer'
+  if (kind === 'dnummer') day -= 40
+  if (day < 1 || day > 31 || month < 1 || month > 12) return null
+
+  const k1 = mod11CheckDigit(digits, FNR_WEIGHTS_1)
+  const k2 = mod11CheckDigit(digits, FNR_WEIGHTS_2)
+  if (k1 === null || k2 === null) return null
+  if (k1 !== Number(digits[9]) || k2 !== Number(digits[10])) return null
+
+  return kind
+}
+
+export function isValidPersonalId(digits: string): boolean {
+  return personalIdKind(digits) !== null
+}
+
+// ── Account, org number, KID ────────────────────────────────────────────────
+
+const ACCOUNT_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]
+const ORG_NUMBER_WEIGHTS = [3, 2, 7, 6, 5, 4, 3, 2]
+
+/** Norwegian bank account number (11 digits, mod-11) */
+export function isValidAccountNumber(digits: string): boolean {
+  if (!/^\d{11}$/.test(digits)) return false
+  return mod11CheckDigit(digits, ACCOUNT_WEIGHTS) === Number(digits[10])
+}
+
+/** Organisasjonsnummer (9 digits, mod-11). Brønnøysund only issues 8xx and 9xx. */
+export function isValidOrgNumber(digits: string): boolean {
+  if (!/^[89]\d{8}$/.test(digits)) return false
+  return mod11CheckDigit(digits, ORG_NUMBER_WEIGHTS) === Number(digits[8])
+}
+
+/** KID mod-11: weights 2–7 repeating from the right */
+function mod11KidCheck(body: string): string {
+  let sum = 0
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (2 + (i % 6))
+  }
+  const check = 11 - (sum % 11)
+  if (check === 11) return '0'
+  if (check === 10) return '-'
+  return String(check)
+}
+
+/**
+ * KID (customer reference on a giro, 2–25 characters). The creditor picks
+ * mod-10 or mod-11; a mod-11 KID whose check digit would be 10 ends in "-".
+ */
+export function isValidKid(kid: string): boolean {
+  if (!/^\d{1,24}[\d-]$/.test(kid)) return false
+  if (kid.endsWith('-')) return mod11KidCheck(kid.slice(0, -1)) === '-'
+  return isValidMod10(kid) || mod11KidCheck(kid.slice(0, -1)) === kid.slice(-1)
+}
@@ -0,0 +1,210 @@
+/**
+ * Savings goals — progress, deadline tracking and forecast contributions.
+ *
+ * Saved amount comes from the linked account's balance; nothing is stored
+ * per goal besides its target. Shared by the goals page, the forecast page
+ * and the chat context builder.
+ *
+ * `computeGoalProgress` is pure; `getGoalProgress` fetches what it needs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SavingsInput } from '@/lib/forecast/engine'
+import { getExchangeRates } from '@/lib/currency/rates'
+import { toNOK } from '@/lib/currency/convert'
+import { toISODate } from '@/lib/utils/date-utils'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type GoalType = 'bsu' | 'buffer' | 'holiday' | 'other'
+
+export type GoalStatus = 'reached' | 'on_track' | 'behind' | 'no_deadline' | 'not_linked'
+
+export interface SavingsGoalRow {
+  id: string
+  name: string
+  goal_type: GoalType
+  target_amount: number
+  deadline: string | null
+  linked_account_id: string | null
+  monthly_contribution: number | null
+  contribution_day: number
+}
+
+export interface GoalProgress {
+  goalId: string
+  name: string
+  goalType: GoalType
+  target: number
+  saved: number
+  remaining: number
+  percent: number // 0–100, capped
+  deadline: string | null
+  linkedAccountId: string | null
+  linkedAccountName: string | null
+  monthlyContribution: number | null
+  contributionDay: number
+  contributionsLeft: number | null // Until the deadline; null without a deadline
+  requiredMonthly: number | null // To reach the target by the deadline
+  projectedAtDeadline: number | null // saved + planned contributions
+  shortfall: number // How far the plan falls short at the deadline (0 = on track)
+  status: GoalStatus
+}
+
+export const GOAL_TYPE_LABELS: Record<GoalType, string> = {
+  bsu: 'BSU',
+  buffer: 'Buffer',
+  holiday: 'Holiday',
+  other: 'Other',
+}
+
+/** BSU rules (Skatteetaten): max yearly deposit and max total balance */
+export const BSU_YEARLY_LIMIT = 27_500
+export const BSU_TOTAL_LIMIT = 300_000
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Counts monthly contribution dates after `today` up to and including
+ * `deadline`. A contribution on today's date is assumed already made.
+ */
+export function countContributionDates(day: number, today: Date, deadline: string): number {
+  let count = 0
+  const cursor = new Date(today.getFullYear(), today.getMonth(), day)
+  if (cursor <= today) cursor.setMonth(cursor.getMonth() + 1)
+  while (toISODate(cursor) <= deadline) {
+    count++
+    cursor.setMonth(cursor.getMonth() + 1)
+  }
+  return count
+}
+
+// ── Pure computation ─────────────────────────────────────────────────────────
+
+/**
+ * Computes each goal's progress against its linked account balance and,
+ * if it has a deadline, whether the planned monthly contribution gets there.
+ */
+export function computeGoalProgress(
+  goals: SavingsGoalRow[],
+  accounts: Array<{ id: string; balance: number; account_name: string | null }>,
+  today: Date = new Date()
+): GoalProgress[] {
+  const accountById = new Map(accounts.map((a) => [a.id, a]))
+  const todayStr = toISODate(today)
+
+  return goals.map((g) => {
+    const target = Number(g.target_amount)
+    const account = g.linked_account_id ? accountById.get(g.linked_account_id) : undefined
+    const saved = account ? Math.max(0, Math.round(Number(account.balance))) : 0
+    const remaining = Math.max(0, target - saved)
+    const percent = Math.min(100, Math.round((saved / target) * 100))
+    const monthly = g.monthly_contribution !== null ? Number(g.monthly_contribution) : null
+
+    let contributionsLeft: number | null = null
+    let requiredMonthly: number | null = null
+    let projectedAtDeadline: number | null = null
+    let shortfall = 0
+
+    if (g.deadline) {
+      contributionsLeft = g.deadline > todayStr
+        ? countContributionDates(g.contribution_day, today, g.deadline)
+        : 0
+      requiredMonthly = contributionsLeft > 0 ? Math.ceil(remaining / contributionsLeft) : remaining
+      projectedAtDeadline = saved + (monthly ?? 0) * contributionsLeft
+      shortfall = Math.max(0, Math.round(target - projectedAtDeadline))
+    }
+
+    let status: GoalStatus
+    if (!account) status = 'not_linked'
+    else if (remaining === 0) status = 'reached'
+    else if (!g.deadline) status = 'no_deadline'
+    else status = shortfall === 0 ? 'on_track' : 'behind'
+
+    return {
+      goalId: g.id,
+      name: g.name,
+      goalType: g.goal_type,
+      target,
+      saved,
+      remaining,
+      percent,
+      deadline: g.deadline,
+      linkedAccountId: g.linked_account_id,
+      linkedAccountName: account?.account_name ?? null,
+      monthlyContribution: monthly,
+      contributionDay: g.contribution_day,
+      contributionsLeft,
+      requiredMonthly,
+      projectedAtDeadline,
+      shortfall,
+      status,
+    }
+  })
+}
+
+/**
+ * Turns goals with a monthly contribution into forecast inputs.
+ * Reached goals contribute nothing; the rest stop at the deadline or
+ * once the remaining amount is covered, whichever comes first.
+ */
+export function toForecastContributions(goals: GoalProgress[]): SavingsInput[] {
+  return goals
+    .filter((g) => g.monthlyContribution !== null && g.remaining > 0)
+    .map((g) => ({
+      name: `Savings: ${g.name}`,
+      amount: g.monthlyContribution!,
+      day: g.contributionDay,
+      endDate: g.deadline,
+      remaining: g.remaining,
+    }))
+}
+
+/**
+ * Leaves out accounts linked to a goal. Money already in a goal's savings
+ * account isn't available to spend, and contributions move money into it —
+ * the forecast and the chat context both count balances without them.
+ */
+export function outsideGoalAccounts<T extends { id: string }>(accounts: T[], goals: GoalProgress[]): T[] {
+  const goalAccountIds = new Set(goals.map((g) => g.linkedAccountId).filter(Boolean))
+  return accounts.filter((a) => !goalAccountIds.has(a.id))
+}
+
+// ── Data fetching ────────────────────────────────────────────────────────────
+
+/**
+ * Loads the user's active goals and their linked accounts, returns progress.
+ * Returns an empty array if the user has no goals (skips the account query).
+ */
+export async function getGoalProgress(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<GoalProgress[]> {
+  const { data: goals } = await supabase
+    .from('savings_goals')
+    .select('id, name, goal_type, target_amount, deadline, linked_account_id, monthly_contribution, contribution_day')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+
+  if (!goals || goals.length === 0) return []
+
+  const linkedIds = goals.map((g) => g.linked_account_id).filter((id): id is string => !!id)
+  const { data: accounts } = linkedIds.length > 0
+    ? await supabase
+        .from('accounts')
+        .select('id, balance, currency, account_name')
+        .eq('user_id', userId)
+        .in('id', linkedIds)
+    : { data: [] }
+
+  // Targets are in NOK — a EUR savings account counts at today's rate
+  const rates = await getExchangeRates()
+  const accountsNOK = (accounts ?? []).map((a) => ({
+    ...a,
+    balance: toNOK(Number(a.balance), a.currency, rates) ?? 0,
+  }))
+
+  return computeGoalProgress(goals as SavingsGoalRow[], accountsNOK, now)
+}
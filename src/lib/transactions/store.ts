@@ -0,0 +1,91 @@
+/**
+ * Writes new transaction rows with the shared dedup rules.
+ *
+ * Used by the bank sync and by statement import, so a transaction is
+ * recognised as "already stored" the same way no matter where it came from:
+ *   - rows with an internal_reference: ON CONFLICT (account_id, internal_reference)
+ *   - rows without one: ON CONFLICT (account_id, fingerprint) — callers must
+ *     run assignFingerprints() over the full list first
+ * Existing rows are never overwritten, so categorization survives re-imports.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+/** The row shape produced by mapTransaction() and the statement importers */
+export interface NewTransactionRow {
+  account_id: string
+  user_id: string
+  transaction_date: string
+  booking_date: string | null
+  amount: number
+  currency: string
+  description: string | null
+  category: string | null
+  is_recurring: boolean
+  counterpart_name: string | null
+  internal_reference: string | null
+  fingerprint: string | null
+  status: 'pending' | 'booked'
+  source: 'bank' | 'import'
+  /** The source record, encrypted with the user's data key (UserCipher.encryptJson) */
+  raw_data: string
+}
+
+export interface StoreResult {
+  /** Rows actually inserted (duplicates are skipped silently) */
+  stored: number
+  errors: string[]
+}
+
+// ── Store ───────────────────────────────────────────────────────────────────
+
+/** Upsert in batches of 100 to avoid hitting Supabase limits */
+const BATCH_SIZE = 100
+
+async function upsertBatch(
+  supabase: SupabaseClient,
+  rows: NewTransactionRow[],
+  onConflict: string
+): Promise<StoreResult> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .upsert(rows, {
+      onConflict,
+      ignoreDuplicates: true, // Don't overwrite existing categorization
+    })
+    .select('id')
+
+  if (error) {
+    return { stored: 0, errors: [`Transaction upsert error: ${error.message}`] }
+  }
+  return { stored: data?.length ?? 0, errors: [] }
+}
+
+export async function storeTransactions(
+  supabase: SupabaseClient,
+  rows: NewTransactionRow[]
+): Promise<StoreResult> {
+  const result: StoreResult = { stored: 0, errors: [] }
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE)
+
+    // Bank reference when there is one, content fingerprint otherwise
+    const withRef = batch.filter((tx) => tx.internal_reference !== null)
+    const withoutRef = batch.filter((tx) => tx.internal_reference === null)
+
+    for (const [group, onConflict] of [
+      [withRef, 'account_id,internal_reference'],
+      [withoutRef, 'account_id,fingerprint'],
+    ] as const) {
+      if (group.length === 0) continue
+      const batchResult = await upsertBatch(supabase, group, onConflict)
+      result.stored += batchResult.stored
+      result.errors.push(...batchResult.errors)
+    }
+  }
+
+  return result
+}
@@ -59,8 +59,13 @@ export function relativeDate(date: Date | string): string {
 
 /**
  * Formats a date as an ISO date string (for database storage).
+ * Uses the local calendar date, so local midnight isn't shifted to the
+ * previous day in Norway (UTC+1/+2).
  * Example: new Date('2026-02-20T12:00:00') → "2026-02-20"
  */
 export function toISODate(date: Date): string {
-  return date.toISOString().split('T')[0]
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${day}`
 }
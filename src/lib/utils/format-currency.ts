@@ -1,6 +1,7 @@
 /**
  * Currency formatting utilities for NOK (Norwegian Krone).
- * All amounts in Aura are displayed in NOK using the nb-NO locale.
+ * Totals in Aura are displayed in NOK using the nb-NO locale; foreign-currency
+ * accounts and transactions also show their original amount (formatCurrency).
  */
 
 /**
@@ -51,3 +52,22 @@ export function formatNOKDelta(amount: number): string {
   const prefix = amount >= 0 ? '+' : ''
   return `${prefix}${formatNOK(amount)}`
 }
+
+/**
+ * Formats an amount in its own currency, nb-NO style.
+ * Example: (1200, 'EUR') → "1 200,00 €" | (1200, 'NOK') → "1 200 kr"
+ */
+export function formatCurrency(amount: number, currency: string): string {
+  if (currency.toUpperCase() === 'NOK') return formatNOK(amount)
+  try {
+    return new Intl.NumberFormat('nb-NO', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount)
+  } catch {
+    // Not an ISO 4217 code Intl knows
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
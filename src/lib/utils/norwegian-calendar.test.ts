@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addDays,
+  businessDayOnOrAfter,
+  businessDayOnOrBefore,
+  clampedDayOfMonth,
+  easterSunday,
+  isBusinessDay,
+  lastBusinessDayOfMonth,
+  norwegianHolidays,
+} from './norwegian-calendar'
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01')
+    expect(addDays('2025-01-01', -1)).toBe('2024-12-31')
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29')
+  })
+})
+
+describe('easterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+    [2038, '2038-04-25'],
+  ])('%i', (year, expected) => {
+    expect(easterSunday(year)).toBe(expected)
+  })
+})
+
+describe('norwegianHolidays', () => {
+  it('lists the fixed and Easter-based holidays', () => {
+    expect([...norwegianHolidays(2025)].sort()).toEqual([
+      '2025-01-01',
+      '2025-04-17',
+      '2025-04-18',
+      '2025-04-20',
+      '2025-04-21',
+      '2025-05-01',
+      '2025-05-17',
+      '2025-05-29',
+      '2025-06-08',
+      '2025-06-09',
+      '2025-12-25',
+      '2025-12-26',
+    ])
+  })
+})
+
+describe('business days', () => {
+  it('excludes weekends and holidays', () => {
+    expect(isBusinessDay('2025-03-14')).toBe(true) // Friday
+    expect(isBusinessDay('2025-03-15')).toBe(false) // Saturday
+    expect(isBusinessDay('2025-05-01')).toBe(false) // Thursday, Arbeidernes dag
+  })
+
+  it('moves back over Easter', () => {
+    expect(businessDayOnOrBefore('2025-04-21')).toBe('2025-04-16')
+  })
+
+  it('moves forward over Christmas', () => {
+    expect(businessDayOnOrAfter('2025-12-25')).toBe('2025-12-29')
+  })
+
+  it('keeps business days as they are', () => {
+    expect(businessDayOnOrBefore('2025-03-14')).toBe('2025-03-14')
+    expect(businessDayOnOrAfter('2025-03-14')).toBe('2025-03-14')
+  })
+
+  it('finds the last business day of a month', () => {
+    expect(lastBusinessDayOfMonth(2025, 5)).toBe('2025-05-30') // 31st is a Saturday
+    expect(lastBusinessDayOfMonth(2024, 3)).toBe('2024-03-27') // Easter at month end
+    expect(lastBusinessDayOfMonth(2025, 3)).toBe('2025-03-31')
+  })
+})
+
+describe('clampedDayOfMonth', () => {
+  it('clamps to the length of the month', () => {
+    expect(clampedDayOfMonth(2025, 4, 31)).toBe('2025-04-30')
+    expect(clampedDayOfMonth(2025, 2, 31)).toBe('2025-02-28')
+    expect(clampedDayOfMonth(2024, 2, 31)).toBe('2024-02-29')
+    expect(clampedDayOfMonth(2025, 1, 15)).toBe('2025-01-15')
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Norwegian banking calendar — weekends and public holidays (helligdager).
+ *
+ * Banks don't settle on these days, so salaries and bills that fall on one
+ * move to a neighbouring business day. All functions work on ISO
+ * "yyyy-mm-dd" strings and calculate in UTC, so the server's timezone never
+ * shifts a date.
+ */
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function toUTC(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d))
+}
+
+function fromUTC(d: Date): string {
+  return d.toISOString().split('T')[0]
+}
+
+/** Add (or subtract) whole days to an ISO date */
+export function addDays(dateStr: string, days: number): string {
+  const d = toUTC(dateStr)
+  d.setUTCDate(d.getUTCDate() + days)
+  return fromUTC(d)
+}
+
+// ── Holidays ────────────────────────────────────────────────────────────────
+
+/** Easter Sunday (Gregorian, anonymous algorithm) as "yyyy-mm-dd" */
+export function easterSunday(year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+const holidayCache = new Map<number, Set<string>>()
+
+/** Public holidays for a year — fixed dates plus the Easter-based ones */
+export function norwegianHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+
+  const easter = easterSunday(year)
+  const holidays = new Set([
+    `${year}-01-01`, // Første nyttårsdag
+    addDays(easter, -3), // Skjærtorsdag
+    addDays(easter, -2), // Langfredag
+    easter, // Første påskedag
+    addDays(easter, 1), // Andre påskedag
+    `${year}-05-01`, // Arbeidernes dag
+    `${year}-05-17`, // Grunnlovsdag
+    addDays(easter, 39), // Kristi himmelfartsdag
+    addDays(easter, 49), // Første pinsedag
+    addDays(easter, 50), // Andre pinsedag
+    `${year}-12-25`, // Første juledag
+    `${year}-12-26`, // Andre juledag
+  ])
+  holidayCache.set(year, holidays)
+  return holidays
+}
+
+// ── Business days ───────────────────────────────────────────────────────────
+
+export function isBusinessDay(dateStr: string): boolean {
+  const weekday = toUTC(dateStr).getUTCDay()
+  if (weekday === 0 || weekday === 6) return false
+  return !norwegianHolidays(Number(dateStr.slice(0, 4))).has(dateStr)
+}
+
+/** The date itself if it is a business day, else the closest one before it */
+export function businessDayOnOrBefore(dateStr: string): string {
+  let d = dateStr
+  while (!isBusinessDay(d)) d = addDays(d, -1)
+  return d
+}
+
+/** The date itself if it is a business day, else the closest one after it */
+export function businessDayOnOrAfter(dateStr: string): string {
+  let d = dateStr
+  while (!isBusinessDay(d)) d = addDays(d, 1)
+  return d
+}
+
+/** Last business day of a month (month is 1–12) */
+export function lastBusinessDayOfMonth(year: number, month: number): string {
+  return businessDayOnOrBefore(fromUTC(new Date(Date.UTC(year, month, 0))))
+}
+
+/** Day `day` of a month, clamped to the month's length (31 → 30 in April) */
+export function clampedDayOfMonth(year: number, month: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return fromUTC(new Date(Date.UTC(year, month - 1, Math.min(day, lastDay))))
+}
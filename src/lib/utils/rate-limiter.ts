@@ -57,4 +57,14 @@ export const RATE_LIMITS = {
   bankSync: { max: 6, windowMs: 60 * 60 * 1000 },
   // Bills — 60 per hour per user
   bills: { max: 60, windowMs: 60 * 60 * 1000 },
+  // Budgets — 60 per hour per user
+  budgets: { max: 60, windowMs: 60 * 60 * 1000 },
+  // Savings goals — 60 per hour per user
+  savingsGoals: { max: 60, windowMs: 60 * 60 * 1000 },
+  // Statement import (preview + import) — 30 per hour per user
+  statementImport: { max: 30, windowMs: 60 * 60 * 1000 },
+  // Manual accounts and hand-entered transactions — 120 per hour per user
+  manualEntries: { max: 120, windowMs: 60 * 60 * 1000 },
+  // Forecast scenarios (save + compare) — 60 per hour per user
+  forecastScenarios: { max: 60, windowMs: 60 * 60 * 1000 },
 } as const
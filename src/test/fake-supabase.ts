@@ -0,0 +1,256 @@
+/**
+ * In-memory stand-in for the Supabase client, for tests that run library
+ * code end to end without a database.
+ *
+ * Implements the query-builder calls the app uses — select/insert/upsert/
+ * update/delete with eq, neq, gt/gte/lt/lte, in, not, order, limit, range,
+ * single and maybeSingle. Upserts follow PostgREST: rows conflict on the
+ * onConflict columns (NULLs never conflict), and with ignoreDuplicates only
+ * new rows come back. No RLS, no column defaults beyond `id`.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+type Row = Record<string, unknown>
+
+interface QueryResult {
+  data: unknown
+  error: { message: string } | null
+  count: number | null
+}
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  return (a as string | number) < (b as string | number) ? -1 : 1
+}
+
+/** Drops undefined keys, like JSON encoding of the request body does */
+function defined(values: Row): Row {
+  return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined))
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: Action = 'select'
+  private payload: Row[] = []
+  private conflictColumns: string[] = []
+  private ignoreDuplicates = false
+  private filters: Array<(row: Row) => boolean> = []
+  private orders: Array<{ column: string; ascending: boolean }> = []
+  private window: { from: number; to: number } | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+  private countRows = false
+
+  constructor(private readonly tables: Map<string, Row[]>, private readonly table: string) {}
+
+  // ── Actions ───────────────────────────────────────────────────────────────
+
+  select(_columns?: string, options?: { count?: string }) {
+    if (options?.count) this.countRows = true
+    return this
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert'
+    this.payload = [values].flat()
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.action = 'upsert'
+    this.payload = [values].flat()
+    this.conflictColumns = (options.onConflict ?? 'id').split(',').map((c) => c.trim())
+    this.ignoreDuplicates = options.ignoreDuplicates ?? false
+    return this
+  }
+
+  update(values: Row, options?: { count?: string }) {
+    this.action = 'update'
+    this.payload = [values]
+    if (options?.count) this.countRows = true
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  // ── Filters ───────────────────────────────────────────────────────────────
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value)
+    return this
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) >= 0)
+    return this
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) <= 0)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  /** Supports not(col, 'is', null) and not(col, 'in', '(a,b)') */
+  not(column: string, operator: string, value: unknown) {
+    if (operator === 'is') {
+      this.filters.push((row) => (row[column] ?? null) !== value)
+    } else if (operator === 'in') {
+      const list = String(value).replace(/^\(|\)$/g, '').split(',')
+      this.filters.push((row) => !list.includes(String(row[column])))
+    } else {
+      throw new Error(`FakeSupabase: not(${operator}) is not implemented`)
+    }
+    return this
+  }
+
+  // ── Modifiers ─────────────────────────────────────────────────────────────
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending ?? true })
+    return this
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 }
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to }
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<A = QueryResult, B = never>(
+    onFulfilled?: ((value: QueryResult) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onFulfilled, onRejected)
+  }
+
+  // ── Execution ─────────────────────────────────────────────────────────────
+
+  private get rows(): Row[] {
+    if (!this.tables.has(this.table)) this.tables.set(this.table, [])
+    return this.tables.get(this.table)!
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter((row) => this.filters.every((f) => f(row)))
+  }
+
+  private conflictWith(values: Row): Row | undefined {
+    if (this.conflictColumns.some((c) => values[c] === null || values[c] === undefined)) return undefined
+    return this.rows.find((row) => this.conflictColumns.every((c) => row[c] === values[c]))
+  }
+
+  private run(): Row[] {
+    switch (this.action) {
+      case 'select': {
+        const result = this.matching()
+        for (const { column, ascending } of [...this.orders].reverse()) {
+          result.sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+        }
+        return this.window ? result.slice(this.window.from, this.window.to + 1) : result
+      }
+      case 'insert': {
+        const inserted = this.payload.map((values) => ({ id: randomUUID(), ...defined(values) }))
+        this.rows.push(...inserted)
+        return inserted
+      }
+      case 'upsert': {
+        const written: Row[] = []
+        for (const values of this.payload) {
+          const existing = this.conflictWith(values)
+          if (!existing) {
+            const row = { id: randomUUID(), ...defined(values) }
+            this.rows.push(row)
+            written.push(row)
+          } else if (!this.ignoreDuplicates) {
+            Object.assign(existing, defined(values))
+            written.push(existing)
+          }
+        }
+        return written
+      }
+      case 'update': {
+        const updated = this.matching()
+        for (const row of updated) Object.assign(row, defined(this.payload[0]))
+        return updated
+      }
+      case 'delete': {
+        const removed = this.matching()
+        this.tables.set(this.table, this.rows.filter((row) => !removed.includes(row)))
+        return removed
+      }
+    }
+  }
+
+  private execute(): QueryResult {
+    const rows = this.run().map((row) => ({ ...row }))
+    const count = this.countRows ? rows.length : null
+
+    if (this.mode === 'many') return { data: rows, error: null, count }
+    if (rows.length === 1) return { data: rows[0], error: null, count }
+    if (rows.length === 0 && this.mode === 'maybeSingle') return { data: null, error: null, count }
+    return { data: null, error: { message: `Expected one row, got ${rows.length}` }, count }
+  }
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient
+  /** The live rows of a table — mutate to seed, read to assert */
+  table(name: string): Row[]
+}
+
+export function createFakeSupabase(seed: Record<string, Row[]> = {}): FakeSupabase {
+  const tables = new Map(Object.entries(seed).map(([name, rows]) => [name, rows.map((r) => ({ ...r }))]))
+
+  const client = { from: (name: string) => new FakeQuery(tables, name) } as unknown as SupabaseClient
+
+  return {
+    client,
+    table(name) {
+      if (!tables.has(name)) tables.set(name, [])
+      return tables.get(name)!
+    },
+  }
+}
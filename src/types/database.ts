@@ -1,7 +1,7 @@
 /**
  * Supabase database types.
  *
- * Manually maintained to match migrations 001–010.
+ * Manually maintained to match migrations 001–026.
  * If schema drifts, regenerate with:
  *   npx supabase gen types typescript --project-id YOUR_PROJECT_ID
  */
@@ -11,6 +11,7 @@ export type NotificationPreferences = {
   bill_reminders?: boolean
   bill_reminder_days?: number
   anomaly_alerts?: boolean
+  budget_alerts?: boolean
   email_critical?: boolean
   email_informational?: boolean
   quiet_hours_start?: string
@@ -27,6 +28,8 @@ export type Database = {
           partner_id: string | null
           preferred_language: 'no' | 'en'
           notification_preferences: NotificationPreferences
+          // Remote OCR opt-in (migration 024)
+          allow_remote_ocr: boolean
           created_at: string
           updated_at: string
         }
@@ -36,12 +39,14 @@ export type Database = {
           partner_id?: string | null
           preferred_language?: 'no' | 'en'
           notification_preferences?: NotificationPreferences
+          allow_remote_ocr?: boolean
         }
         Update: {
           display_name?: string | null
           partner_id?: string | null
           preferred_language?: 'no' | 'en'
           notification_preferences?: NotificationPreferences
+          allow_remote_ocr?: boolean
         }
       }
       bank_connections: {
@@ -54,26 +59,60 @@ export type Database = {
           consent_expires_at: string | null
           last_synced_at: string | null
           status: 'pending' | 'active' | 'expired' | 'revoked' | 'error'
+          // Background sync (migration 015)
+          status_reason: string | null
+          consecutive_failures: number
+          next_sync_at: string | null
           created_at: string
         }
-        Insert: Omit<Database['public']['Tables']['bank_connections']['Row'], 'id' | 'created_at'>
+        Insert: Omit<Database['public']['Tables']['bank_connections']['Row'], 'id' | 'created_at' | 'status_reason' | 'consecutive_failures' | 'next_sync_at'> & {
+          status_reason?: string | null
+          consecutive_failures?: number
+          next_sync_at?: string | null
+        }
         Update: Partial<Database['public']['Tables']['bank_connections']['Insert']>
       }
-      accounts: {
+      sync_runs: {
         Row: {
           id: string
           user_id: string
           bank_connection_id: string
+          trigger_source: 'cron' | 'manual'
+          status: 'running' | 'success' | 'partial' | 'failed'
+          accounts_synced: number
+          transactions_synced: number
+          errors: string[]
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: Omit<Database['public']['Tables']['sync_runs']['Row'], 'id' | 'started_at' | 'finished_at' | 'status' | 'accounts_synced' | 'transactions_synced' | 'errors'> & {
+          status?: 'running' | 'success' | 'partial' | 'failed'
+          accounts_synced?: number
+          transactions_synced?: number
+          errors?: string[]
+          started_at?: string
+          finished_at?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['sync_runs']['Insert']>
+      }
+      accounts: {
+        Row: {
+          id: string
+          user_id: string
+          bank_connection_id: string | null // null for manual accounts
           neonomics_account_id: string | null
           account_name: string | null
-          iban: string | null
+          iban: string | null // encrypted with the user's data key (migration 026)
           balance: number
           currency: string
           account_type: string | null
           is_shared_with_partner: boolean
+          is_manual: boolean
           last_updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['accounts']['Row'], 'id'>
+        Insert: Omit<Database['public']['Tables']['accounts']['Row'], 'id' | 'is_manual'> & {
+          is_manual?: boolean
+        }
         Update: Partial<Database['public']['Tables']['accounts']['Insert']>
       }
       transactions: {
@@ -88,13 +127,22 @@ export type Database = {
           description: string | null
           category: string | null
           category_confidence: number | null
+          category_source: 'rule' | 'ai' | 'user' | null
           is_recurring: boolean
           counterpart_name: string | null
           internal_reference: string | null
-          raw_data: Record<string, unknown> | null
+          fingerprint: string | null
+          status: 'pending' | 'booked'
+          source: 'bank' | 'import' | 'manual'
+          raw_data: Record<string, unknown> | string | null // string = encrypted (migration 026)
           created_at: string
         }
-        Insert: Omit<Database['public']['Tables']['transactions']['Row'], 'id' | 'created_at'>
+        Insert: Omit<Database['public']['Tables']['transactions']['Row'], 'id' | 'created_at' | 'category_source' | 'status' | 'fingerprint' | 'source'> & {
+          category_source?: 'rule' | 'ai' | 'user' | null
+          status?: 'pending' | 'booked'
+          fingerprint?: string | null
+          source?: 'bank' | 'import' | 'manual'
+        }
         Update: Partial<Database['public']['Tables']['transactions']['Insert']>
       }
       bills_upcoming: {
@@ -109,15 +157,131 @@ export type Database = {
           is_paid: boolean
           category: string | null
           recurrence: 'once' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | null
+          recurrence_interval: number
+          recurrence_month_end: boolean
+          recurrence_shift: 'none' | 'before' | 'after'
+          recurrence_until: string | null
+          recurrence_count: number | null
+          recurrence_anchor: string | null // First date of the series (migration 023)
           priority: 'critical' | 'high' | 'normal' | 'low'
           source_document_id: string | null
+          paid_at: string | null
+          paid_transaction_id: string | null
+          previous_bill_id: string | null // The paid bill this row rolled forward from
           created_at: string
         }
-        Insert: Omit<Database['public']['Tables']['bills_upcoming']['Row'], 'id' | 'created_at'> & {
+        Insert: Omit<
+          Database['public']['Tables']['bills_upcoming']['Row'],
+          | 'id'
+          | 'created_at'
+          | 'recurrence_interval'
+          | 'recurrence_month_end'
+          | 'recurrence_shift'
+          | 'recurrence_until'
+          | 'recurrence_count'
+          | 'recurrence_anchor'
+          | 'paid_at'
+          | 'paid_transaction_id'
+          | 'previous_bill_id'
+        > & {
           priority?: 'critical' | 'high' | 'normal' | 'low'
+          recurrence_interval?: number
+          recurrence_month_end?: boolean
+          recurrence_shift?: 'none' | 'before' | 'after'
+          recurrence_until?: string | null
+          recurrence_count?: number | null
+          recurrence_anchor?: string | null
+          paid_at?: string | null
+          paid_transaction_id?: string | null
+          previous_bill_id?: string | null
         }
         Update: Partial<Database['public']['Tables']['bills_upcoming']['Insert']>
       }
+      recurring_patterns: {
+        Row: {
+          id: string
+          user_id: string
+          pattern_key: string
+          display_name: string
+          direction: 'expense' | 'income'
+          recurrence: 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+          average_amount: number
+          occurrences: number
+          last_seen_date: string
+          next_expected_date: string
+          confidence: number | null
+          status: 'suggested' | 'confirmed' | 'dismissed'
+          bill_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['recurring_patterns']['Row'], 'id' | 'created_at' | 'updated_at' | 'status'> & {
+          status?: 'suggested' | 'confirmed' | 'dismissed'
+        }
+        Update: Partial<Database['public']['Tables']['recurring_patterns']['Insert']>
+      }
+      budgets: {
+        Row: {
+          id: string
+          user_id: string
+          category: string
+          monthly_limit: number
+          currency: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['budgets']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['budgets']['Insert']>
+      }
+      savings_goals: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          goal_type: 'bsu' | 'buffer' | 'holiday' | 'other'
+          target_amount: number
+          currency: string
+          deadline: string | null
+          linked_account_id: string | null
+          monthly_contribution: number | null
+          contribution_day: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['savings_goals']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['savings_goals']['Insert']>
+      }
+      forecast_scenarios: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          adjustments: Array<Record<string, unknown>> // ScenarioAdjustment[] — src/lib/forecast/scenarios.ts
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['forecast_scenarios']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['forecast_scenarios']['Insert']>
+      }
+      bill_payment_matches: {
+        Row: {
+          id: string
+          user_id: string
+          bill_id: string
+          transaction_id: string
+          score: number
+          status: 'pending' | 'confirmed' | 'rejected'
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['bill_payment_matches']['Row'], 'id' | 'created_at' | 'updated_at' | 'status'> & {
+          status?: 'pending' | 'confirmed' | 'rejected'
+        }
+        Update: Partial<Database['public']['Tables']['bill_payment_matches']['Insert']>
+      }
       documents: {
         Row: {
           id: string
@@ -127,12 +291,15 @@ export type Database = {
           file_size_bytes: number | null
           mime_type: string | null
           document_type: 'contract' | 'letter' | 'invoice' | 'tax' | 'bank_statement' | 'inkasso' | 'other' | null
-          // Privacy Shield fields (migration 005)
+          // Privacy Shield fields (migration 005). extracted_text, redaction_map
+          // and pii_detections are encrypted with the user's data key (migration 026)
           extracted_text: string | null
           redacted_text: string | null
-          redaction_map: Record<string, string> | null
+          redaction_map: Record<string, string> | string | null
           redaction_status: 'pending' | 'auto_detected' | 'user_confirmed' | 'skipped' | null
-          pii_detections: Array<Record<string, unknown>> | null
+          pii_detections: Array<Record<string, unknown>> | string | null
+          // How extracted_text was produced (migration 024)
+          extraction_method: 'pdf_text_layer' | 'plain_text' | 'remote_ocr' | null
           ai_summary: string | null
           ai_summary_redacted: string | null
           ai_flags: Record<string, unknown> | null
@@ -143,6 +310,52 @@ export type Database = {
         Insert: Omit<Database['public']['Tables']['documents']['Row'], 'id' | 'uploaded_at'>
         Update: Partial<Database['public']['Tables']['documents']['Insert']>
       }
+      // Per-user data keys, wrapped by the master key (migration 025) — see src/lib/crypto/envelope.ts
+      user_data_keys: {
+        Row: {
+          user_id: string
+          wrapped_key: string
+          master_key_id: string
+          created_at: string
+          rotated_at: string | null
+        }
+        Insert: Omit<Database['public']['Tables']['user_data_keys']['Row'], 'created_at' | 'rotated_at'>
+        Update: Partial<Database['public']['Tables']['user_data_keys']['Insert']> & {
+          rotated_at?: string | null
+        }
+      }
+      // Entity registry (migration 025) — values encrypted, see src/lib/redaction/entity-store.ts
+      pii_entities: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          value_hash: string
+          value_encrypted: string
+          pseudonym: string
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['pii_entities']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['pii_entities']['Insert']>
+      }
+      pii_entity_documents: {
+        Row: {
+          entity_id: string
+          document_id: string
+          user_id: string
+        }
+        Insert: Database['public']['Tables']['pii_entity_documents']['Row']
+        Update: Partial<Database['public']['Tables']['pii_entity_documents']['Insert']>
+      }
+      pii_entity_chat_messages: {
+        Row: {
+          entity_id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: Database['public']['Tables']['pii_entity_chat_messages']['Row']
+        Update: Partial<Database['public']['Tables']['pii_entity_chat_messages']['Insert']>
+      }
       chat_messages: {
         Row: {
           id: string
@@ -161,10 +374,11 @@ export type Database = {
         Row: {
           id: string
           user_id: string
-          type: 'bill_due' | 'low_balance' | 'document_deadline' | 'consent_expiry' | 'daily_summary' | 'analysis_complete' | 'spending_anomaly' | 'savings_milestone'
+          type: 'bill_due' | 'low_balance' | 'document_deadline' | 'consent_expiry' | 'daily_summary' | 'analysis_complete' | 'spending_anomaly' | 'savings_milestone' | 'budget_alert'
           urgency: 'critical' | 'info' | 'background'
           title: string
           message: string
+          email_message: string | null
           channel: 'in_app' | 'email' | 'both'
           notification_key: string
           is_read: boolean
@@ -175,8 +389,9 @@ export type Database = {
           created_at: string
           expires_at: string | null
         }
-        Insert: Omit<Database['public']['Tables']['notifications']['Row'], 'id' | 'created_at' | 'is_read' | 'is_emailed' | 'bypass_quiet_hours'> & {
+        Insert: Omit<Database['public']['Tables']['notifications']['Row'], 'id' | 'created_at' | 'is_read' | 'is_emailed' | 'bypass_quiet_hours' | 'email_message'> & {
           bypass_quiet_hours?: boolean
+          email_message?: string | null
         }
         Update: Partial<Database['public']['Tables']['notifications']['Insert']> & {
           is_read?: boolean
@@ -217,7 +432,12 @@ export type Database = {
       }
     }
     Views: Record<string, never>
-    Functions: Record<string, never>
+    Functions: {
+      adjust_manual_balance: {
+        Args: { p_account_id: string; p_delta: number }
+        Returns: number | null
+      }
+    }
     Enums: Record<string, never>
   }
 }
@@ -10,12 +10,15 @@ import type { SpendingCategory } from '@/lib/constants/categories'
 export interface Account {
   id: string
   userId: string
-  bankConnectionId: string
+  /** null for manual accounts */
+  bankConnectionId: string | null
   accountName: string | null
   balance: number
   currency: string
   accountType: string | null
   isSharedWithPartner: boolean
+  /** User-entered balance (cash, Vipps, loans, statement imports) */
+  isManual: boolean
   lastUpdatedAt: string
 }
 
@@ -32,9 +35,12 @@ export interface Transaction {
   description: string | null
   category: SpendingCategory | null
   categoryConfidence: number | null
+  categorySource: 'rule' | 'ai' | 'user' | null
   isRecurring: boolean
   counterpartName: string | null
   internalReference: string | null
+  status: 'pending' | 'booked'
+  source: 'bank' | 'import' | 'manual'
 }
 
 // ── Upcoming Bill ─────────────────────────────────────────────────────────────
@@ -103,12 +109,14 @@ export interface PlannedEvent {
 export interface ForecastEvent {
   name: string
   amount: number
-  source: 'bill' | 'income' | 'planned'
+  source: 'bill' | 'income' | 'planned' | 'savings'
 }
 
 export interface ForecastPoint {
   date: string // ISO date "yyyy-mm-dd"
-  balance: number // Projected balance at end of day
+  balance: number // Expected balance at end of day
+  low: number // 10th percentile — 1 in 10 chance of ending the day below this
+  high: number // 90th percentile
   label: string // "dd.mm" for chart axis
   events: ForecastEvent[]
 }
@@ -26,7 +26,7 @@ export interface NeonomicsBalance {
 export interface NeonomicsTransaction {
   transactionId?: string
   entryReference?: string
-  bookingDate: string
+  bookingDate?: string // Absent on pending transactions
   valueDate?: string
   transactionAmount: {
     amount: string
@@ -49,6 +49,10 @@ export interface NeonomicsTransactionsResponse {
     booked: NeonomicsTransaction[]
     pending?: NeonomicsTransaction[]
   }
+  /** Present when there are more pages — follow `next.href` for the rest */
+  _links?: {
+    next?: { href: string }
+  }
 }
 
 export interface NeonomicsSession {
@@ -0,0 +1,18 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 011 — Transaction categorization provenance
+--
+-- Records WHO set a transaction's category so the categorization pipeline
+-- (src/lib/categorization) never overwrites a category the user chose:
+--   rule → deterministic merchant/keyword rule
+--   ai   → batched model fallback (PII-free input)
+--   user → set manually by the user — never touched by automation
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS category_source TEXT
+    CHECK (category_source IN ('rule', 'ai', 'user'));
+
+-- Fast lookup: "uncategorized transactions for this user" (pipeline input)
+CREATE INDEX IF NOT EXISTS idx_transactions_uncategorized
+  ON public.transactions(user_id, transaction_date DESC)
+  WHERE category IS NULL;
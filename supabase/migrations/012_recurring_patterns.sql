@@ -0,0 +1,46 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 012 — Recurring transaction patterns
+--
+-- One row per recurring pattern found by the detector (src/lib/recurring).
+-- Expense patterns propose an auto-detected bill (bills_upcoming with
+-- is_auto_detected = true). The user can confirm or dismiss the suggestion:
+--   suggested → detector proposed it, waiting for the user
+--   confirmed → user accepted it; the detector keeps it up to date
+--   dismissed → user rejected it; the detector never proposes it again
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE public.recurring_patterns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pattern_key TEXT NOT NULL,                -- normalized "direction:counterpart" (cadence is in recurrence)
+  display_name TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('expense', 'income')),
+  recurrence TEXT NOT NULL CHECK (recurrence IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  average_amount DECIMAL(15, 2) NOT NULL,   -- Always positive
+  occurrences INTEGER NOT NULL DEFAULT 0,
+  last_seen_date DATE NOT NULL,
+  next_expected_date DATE NOT NULL,
+  confidence REAL,
+  status TEXT NOT NULL DEFAULT 'suggested' CHECK (status IN ('suggested', 'confirmed', 'dismissed')),
+  bill_id UUID REFERENCES public.bills_upcoming(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, pattern_key)              -- dismissed patterns stay here to block re-proposal
+);
+
+-- Fast lookup: open suggestions for the dashboard
+CREATE INDEX idx_recurring_patterns_suggested
+  ON public.recurring_patterns(user_id, next_expected_date)
+  WHERE status = 'suggested';
+
+-- Row Level Security
+ALTER TABLE public.recurring_patterns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own recurring patterns"
+  ON public.recurring_patterns FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Auto-update updated_at on row changes
+CREATE TRIGGER recurring_patterns_updated_at
+  BEFORE UPDATE ON public.recurring_patterns
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,51 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 013 — Per-category monthly budgets
+--
+-- One budget per (user, spending category). The limit applies to each
+-- calendar month; progress is computed from transactions at read time
+-- (src/lib/budgets/progress.ts), so nothing here needs resetting.
+--
+-- Also adds the 'budget_alert' notification type (80% / 100% alerts) and
+-- notifications.email_message: the category is shown in the app but kept out
+-- of emails, so budget alerts carry a separate, generic email body.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE public.budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,                   -- SPENDING_CATEGORIES key
+  monthly_limit DECIMAL(15, 2) NOT NULL CHECK (monthly_limit > 0),
+  currency TEXT DEFAULT 'NOK',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, category)
+);
+
+CREATE INDEX idx_budgets_user ON public.budgets(user_id);
+
+-- Row Level Security
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own budgets"
+  ON public.budgets FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Auto-update updated_at on row changes
+CREATE TRIGGER budgets_updated_at
+  BEFORE UPDATE ON public.budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ── Notifications: allow budget alerts ─────────────────────────────────────
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'bill_due', 'low_balance', 'document_deadline', 'consent_expiry',
+    'daily_summary', 'analysis_complete', 'spending_anomaly', 'savings_milestone',
+    'budget_alert'
+  ));
+
+-- Email body when the in-app message is too specific for an inbox; the
+-- email falls back to message when NULL
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS email_message TEXT;
@@ -0,0 +1,42 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 014 — Savings goals (BSU, buffer, holiday, ...)
+--
+-- A goal has a target amount, an optional deadline and an optional monthly
+-- contribution. Progress is NOT stored: it is read from the balance of the
+-- linked account (src/lib/savings/goals.ts). Monthly contributions show up
+-- as outflows in the cash flow forecast.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE public.savings_goals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  goal_type TEXT NOT NULL DEFAULT 'other'
+    CHECK (goal_type IN ('bsu', 'buffer', 'holiday', 'other')),
+  target_amount DECIMAL(15, 2) NOT NULL CHECK (target_amount > 0),
+  currency TEXT DEFAULT 'NOK',
+  deadline DATE,
+  linked_account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  monthly_contribution DECIMAL(15, 2) CHECK (monthly_contribution > 0),
+  contribution_day SMALLINT NOT NULL DEFAULT 25
+    CHECK (contribution_day BETWEEN 1 AND 28),  -- 28 so it exists every month
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_savings_goals_user
+  ON public.savings_goals(user_id)
+  WHERE is_active = true;
+
+-- Row Level Security
+ALTER TABLE public.savings_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own savings goals"
+  ON public.savings_goals FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Auto-update updated_at on row changes
+CREATE TRIGGER savings_goals_updated_at
+  BEFORE UPDATE ON public.savings_goals
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,42 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 015 — Scheduled background bank sync
+--
+-- The cron route (/api/bank/sync/cron) syncs every active connection.
+-- A connection that fails is marked status = 'error' with a fixed,
+-- user-facing reason (details only in server logs) and retried with
+-- exponential backoff (next_sync_at) until it succeeds or hits the retry
+-- cap (src/lib/neonomics/background-sync.ts).
+--
+-- sync_runs keeps one row per connection per sync attempt.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+-- ── Bank connections: failure tracking + backoff ────────────────────────────
+ALTER TABLE public.bank_connections
+  ADD COLUMN IF NOT EXISTS status_reason TEXT,
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMPTZ;
+
+-- ── Sync history ────────────────────────────────────────────────────────────
+CREATE TABLE public.sync_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  bank_connection_id UUID NOT NULL REFERENCES public.bank_connections(id) ON DELETE CASCADE,
+  trigger_source TEXT NOT NULL CHECK (trigger_source IN ('cron', 'manual')),
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'success', 'partial', 'failed')),
+  accounts_synced INTEGER NOT NULL DEFAULT 0,
+  transactions_synced INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,  -- User-facing messages only; raw errors go to server logs
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_sync_runs_connection
+  ON public.sync_runs(bank_connection_id, started_at DESC);
+
+-- Row Level Security — written by the server, readable by the owner
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own sync runs"
+  ON public.sync_runs FOR SELECT
+  USING (auth.uid() = user_id);
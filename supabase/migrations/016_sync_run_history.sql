@@ -0,0 +1,12 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 016 — Sync run history for manual syncs
+--
+-- Manual syncs (/api/bank/sync) record their runs in sync_runs (migration
+-- 015) like the cron job does. Both write through the service role, so the
+-- history stays read-only for the owner and can't be rewritten from the
+-- client.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+-- Settings page loads the latest runs across all of a user's connections
+CREATE INDEX idx_sync_runs_user
+  ON public.sync_runs(user_id, started_at DESC);
@@ -0,0 +1,20 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 017 — Pending vs. booked transactions
+--
+-- Banks report card payments as 'pending' before they book, often under a
+-- different transaction ID. The sync now stores the status and, when the
+-- booked version arrives, updates the pending row in place instead of
+-- inserting a second expense (src/lib/neonomics/reconcile.ts).
+--
+-- Pending rows that never book (cancelled authorisations) are deleted after
+-- a configurable number of days.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'booked'
+    CHECK (status IN ('pending', 'booked'));
+
+-- Reconciliation and expiry only ever look at pending rows
+CREATE INDEX IF NOT EXISTS idx_transactions_pending
+  ON public.transactions(account_id, transaction_date)
+  WHERE status = 'pending';
@@ -0,0 +1,27 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 018 — Content fingerprints for unreferenced transactions
+--
+-- Transactions without a bank reference used to be deduplicated on
+-- (account_id, transaction_date, amount), which dropped legitimate repeats
+-- (two identical purchases on one day) and needed one query per row.
+--
+-- They now carry a fingerprint: SHA-256 of date, amount, counterpart,
+-- description and occurrence index within the day
+-- (src/lib/neonomics/fingerprint.ts). Sync upserts ON CONFLICT
+-- (account_id, fingerprint), like internal_reference in migration 004.
+--
+-- Existing rows have no fingerprint. After deploying, run the one-off repair
+-- job once — it merges duplicates and backfills fingerprints:
+--   curl -H "Authorization: Bearer $CRON_SECRET" https://<app>/api/bank/repair-duplicates
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+-- A constraint (not a partial index) so PostgREST upserts can target it.
+-- NULLs never conflict, so referenced transactions are unaffected.
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_account_fingerprint_unique;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_account_fingerprint_unique
+  UNIQUE (account_id, fingerprint);
@@ -0,0 +1,29 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 019 — Bank statement import (CSV / OFX / CAMT.053)
+--
+-- Users whose bank isn't on Neonomics, or who want history older than the
+-- bank API offers, can upload a statement file instead. Imported
+-- transactions go to a manual account — one without a bank connection.
+--
+-- transactions.source records where a row came from; dedup is the same for
+-- both (internal_reference, else fingerprint — migration 018).
+-- ═══════════════════════════════════════════════════════════════════════════
+
+-- ── Accounts: allow accounts without a bank connection ──────────────────────
+ALTER TABLE public.accounts
+  ALTER COLUMN bank_connection_id DROP NOT NULL;
+
+ALTER TABLE public.accounts
+  ADD COLUMN IF NOT EXISTS is_manual BOOLEAN NOT NULL DEFAULT false;
+
+-- Bank-synced accounts must keep their connection
+ALTER TABLE public.accounts
+  DROP CONSTRAINT IF EXISTS accounts_connection_or_manual;
+ALTER TABLE public.accounts
+  ADD CONSTRAINT accounts_connection_or_manual
+  CHECK (is_manual OR bank_connection_id IS NOT NULL);
+
+-- ── Transactions: origin ────────────────────────────────────────────────────
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'bank'
+    CHECK (source IN ('bank', 'import'));
@@ -0,0 +1,34 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 020 — Manual accounts and hand-entered transactions
+--
+-- Builds on 019 (accounts.is_manual, nullable bank_connection_id): users can
+-- now create manual accounts directly — a cash wallet, a Vipps balance, a
+-- loan at a lender Neonomics doesn't cover — and enter transactions on them.
+-- account_type holds the kind ('cash', 'wallet', 'savings', 'loan', 'other').
+--
+-- Hand-entered rows get source = 'manual'. They have no bank reference and no
+-- fingerprint: two identical coffees entered by hand are two coffees, so the
+-- dedup rules from 018 don't apply to them.
+--
+-- adjust_manual_balance moves a manual account's balance in one UPDATE, so
+-- two transactions entered at the same time can't overwrite each other.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_source_check;
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_source_check
+  CHECK (source IN ('bank', 'import', 'manual'));
+
+-- ─── BALANCE ADJUSTMENT ────────────────────────────────────────────────────
+-- Runs as the caller, so RLS still limits it to the user's own accounts.
+-- Returns the new balance, or NULL if the account isn't a manual one.
+CREATE OR REPLACE FUNCTION public.adjust_manual_balance(p_account_id UUID, p_delta DECIMAL)
+RETURNS DECIMAL AS $$
+  UPDATE public.accounts
+    SET balance = balance + p_delta,
+        last_updated_at = NOW()
+    WHERE id = p_account_id
+      AND is_manual
+    RETURNING balance;
+$$ LANGUAGE sql;
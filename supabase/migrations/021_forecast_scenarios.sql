@@ -0,0 +1,36 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 021 — What-if forecast scenarios
+--
+-- A scenario is a named list of hypothetical adjustments (extra events,
+-- cancelled bills, income changes) laid over the baseline forecast. Nothing
+-- here touches planned_events or bills; see src/lib/forecast/scenarios.ts
+-- for the adjustment format.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE public.forecast_scenarios (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  adjustments JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(adjustments) = 'array'),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_forecast_scenarios_user
+  ON public.forecast_scenarios(user_id)
+  WHERE is_active = true;
+
+-- Row Level Security
+ALTER TABLE public.forecast_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own forecast scenarios"
+  ON public.forecast_scenarios FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Auto-update updated_at on row changes
+CREATE TRIGGER forecast_scenarios_updated_at
+  BEFORE UPDATE ON public.forecast_scenarios
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,25 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 022 — Recurrence rules for bills
+--
+-- bills_upcoming.recurrence only said how often a bill repeats. These columns
+-- say the rest, read by src/lib/recurrence/schedule.ts:
+--   recurrence_interval   every N periods ("every 2 months", "every 4 weeks")
+--   recurrence_month_end  always the last day of the month
+--   recurrence_shift      weekend/holiday handling: 'none', or move to the
+--                         business day 'before' or 'after'
+--   recurrence_until      no occurrences after this date
+--   recurrence_count      stop after this many occurrences
+--
+-- due_date stays the first occurrence; later ones are counted from it, so a
+-- bill due on the 31st no longer drifts into the next month.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.bills_upcoming
+  ADD COLUMN recurrence_interval SMALLINT NOT NULL DEFAULT 1
+    CHECK (recurrence_interval BETWEEN 1 AND 52),
+  ADD COLUMN recurrence_month_end BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN recurrence_shift TEXT NOT NULL DEFAULT 'none'
+    CHECK (recurrence_shift IN ('none', 'before', 'after')),
+  ADD COLUMN recurrence_until DATE,
+  ADD COLUMN recurrence_count SMALLINT
+    CHECK (recurrence_count IS NULL OR recurrence_count > 0);
@@ -0,0 +1,60 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 023 — Bill lifecycle: paid from transactions, rolled forward
+--
+-- After each sync or import, outgoing transactions are matched to open bills
+-- (src/lib/bills/reconcile.ts). A clear match marks the bill paid and links
+-- the transaction; a recurring bill then gets a new row for its next
+-- occurrence. Matches Aura isn't sure about wait in bill_payment_matches
+-- until the user confirms or rejects them.
+--
+-- Rolled-forward rows keep the series' first date in recurrence_anchor, so
+-- a bill due on the 31st keeps landing on the 31st (see migration 022).
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.bills_upcoming
+  ADD COLUMN recurrence_anchor DATE,
+  ADD COLUMN paid_at TIMESTAMPTZ,
+  ADD COLUMN paid_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  ADD COLUMN previous_bill_id UUID REFERENCES public.bills_upcoming(id) ON DELETE SET NULL;
+
+-- A transaction pays at most one bill
+CREATE UNIQUE INDEX idx_bills_paid_transaction
+  ON public.bills_upcoming(paid_transaction_id)
+  WHERE paid_transaction_id IS NOT NULL;
+
+-- A bill rolls forward at most once, however often it is marked paid
+CREATE UNIQUE INDEX idx_bills_previous
+  ON public.bills_upcoming(previous_bill_id)
+  WHERE previous_bill_id IS NOT NULL;
+
+-- ─── BILL PAYMENT MATCHES ──────────────────────────────────────────────────
+-- Candidate transactions for a bill when more than one could be the payment.
+-- Rejected rows are kept so the same pair is never proposed again.
+CREATE TABLE public.bill_payment_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  bill_id UUID NOT NULL REFERENCES public.bills_upcoming(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  score NUMERIC(3, 2) NOT NULL CHECK (score BETWEEN 0 AND 1),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'rejected')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (bill_id, transaction_id)
+);
+
+CREATE INDEX idx_bill_payment_matches_pending
+  ON public.bill_payment_matches(user_id)
+  WHERE status = 'pending';
+
+-- Row Level Security
+ALTER TABLE public.bill_payment_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own bill payment matches"
+  ON public.bill_payment_matches FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Auto-update updated_at on row changes
+CREATE TRIGGER bill_payment_matches_updated_at
+  BEFORE UPDATE ON public.bill_payment_matches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,29 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 024 — Local text extraction, remote OCR only by opt-in
+--
+-- Privacy Shield reads the text layer of digital PDFs on the server
+-- (src/lib/redaction/text-extraction.ts). Scanned PDFs and photos have no
+-- text layer; those are sent to Claude for transcription only if the user
+-- has turned on remote OCR (or agrees for that one file).
+--
+-- extraction_method records how extracted_text was produced, so the UI can
+-- tell the user whether the unredacted document ever left Aura.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE public.profiles
+  ADD COLUMN allow_remote_ocr BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.documents
+  ADD COLUMN extraction_method TEXT
+    CHECK (extraction_method IN ('pdf_text_layer', 'plain_text', 'remote_ocr'));
+
+-- Documents extracted before this migration all went through Claude
+UPDATE public.documents
+  SET extraction_method = 'remote_ocr'
+  WHERE extracted_text IS NOT NULL
+    AND (mime_type = 'application/pdf' OR mime_type LIKE 'image/%');
+
+UPDATE public.documents
+  SET extraction_method = 'plain_text'
+  WHERE extracted_text IS NOT NULL
+    AND extraction_method IS NULL;
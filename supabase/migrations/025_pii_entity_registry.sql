@@ -0,0 +1,117 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 025 — PII entity registry
+--
+-- Privacy Shield used to assign masks per document, so the same account
+-- number got [ACCOUNT A] on an invoice and [ACCOUNT B] on the inkasso letter
+-- chasing it. pii_entities gives each confirmed PII value one pseudonym per
+-- user, reused in every document and chat turn
+-- (src/lib/redaction/entity-registry.ts).
+--
+-- Values are never stored in plaintext: value_encrypted is AES-256-GCM and
+-- value_hash a keyed HMAC of the normalized value, used only for lookups.
+-- Both use the user's own data key (user_data_keys), which is stored only
+-- wrapped by the server's master key (ENCRYPTION_MASTER_KEY) — see
+-- src/lib/crypto/envelope.ts. Deleting a user's data key makes their
+-- registry unreadable, even in backups.
+--
+-- pii_entity_documents and pii_entity_chat_messages record which documents
+-- and chat messages use which entity (chat is stored masked). Deleting
+-- either removes its links; an entity is deleted only once nothing uses it
+-- any more, so stored masks keep resolving — and a pseudonym is never freed
+-- for a different value while a saved chat still shows it.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE public.user_data_keys (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- AES-256-GCM under the master key identified by master_key_id
+  wrapped_key TEXT NOT NULL,
+  master_key_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  rotated_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_user_data_keys_master
+  ON public.user_data_keys(master_key_id);
+
+CREATE TABLE public.pii_entities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  value_hash TEXT NOT NULL,
+  value_encrypted TEXT NOT NULL,
+  pseudonym TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, type, value_hash),
+  UNIQUE (user_id, pseudonym)
+);
+
+CREATE TABLE public.pii_entity_documents (
+  entity_id UUID NOT NULL REFERENCES public.pii_entities(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  PRIMARY KEY (entity_id, document_id)
+);
+
+CREATE INDEX idx_pii_entity_documents_document
+  ON public.pii_entity_documents(document_id);
+
+CREATE TABLE public.pii_entity_chat_messages (
+  entity_id UUID NOT NULL REFERENCES public.pii_entities(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  PRIMARY KEY (entity_id, message_id)
+);
+
+CREATE INDEX idx_pii_entity_chat_messages_message
+  ON public.pii_entity_chat_messages(message_id);
+
+-- Row Level Security — a wrapped key is useless without the master key, but
+-- there's no reason for anyone else to see it. Owners can only read theirs:
+-- keys are created and destroyed by the server through the service role, so
+-- a user can't swap in a key or shred their data outside account deletion.
+ALTER TABLE public.user_data_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pii_entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pii_entity_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pii_entity_chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own data key"
+  ON public.user_data_keys FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own PII entities"
+  ON public.pii_entities FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own PII entity links"
+  ON public.pii_entity_documents FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own PII entity chat links"
+  ON public.pii_entity_chat_messages FOR ALL
+  USING (auth.uid() = user_id);
+
+-- ─── PRUNE UNUSED ENTITIES ─────────────────────────────────────────────────
+-- Runs when a link goes away (document or chat message deleted, or a
+-- document re-redacted)
+CREATE OR REPLACE FUNCTION public.prune_unused_pii_entity()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.pii_entities
+    WHERE id = OLD.entity_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pii_entity_documents WHERE entity_id = OLD.entity_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pii_entity_chat_messages WHERE entity_id = OLD.entity_id
+      );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER pii_entity_documents_prune
+  AFTER DELETE ON public.pii_entity_documents
+  FOR EACH ROW EXECUTE FUNCTION public.prune_unused_pii_entity();
+
+CREATE TRIGGER pii_entity_chat_messages_prune
+  AFTER DELETE ON public.pii_entity_chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.prune_unused_pii_entity();
@@ -0,0 +1,21 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Migration 026 — Envelope encryption for sensitive columns
+--
+-- The per-user data keys from migration 025 (user_data_keys) now also
+-- encrypt these columns; the app encrypts before writing
+-- (src/lib/crypto/envelope.ts):
+--   documents.extracted_text, redaction_map, pii_detections
+--   accounts.iban
+--   transactions.raw_data
+-- Ciphertexts are text ("v1.…"); JSONB columns hold them as a JSON string.
+-- Deleting a user's data key makes all of it unrecoverable.
+--
+-- Existing rows stay plaintext until the app encrypts them — run
+-- /api/account/rotate-keys once after deploying (see the route for usage).
+-- ═══════════════════════════════════════════════════════════════════════════
+
+COMMENT ON COLUMN public.documents.extracted_text IS 'Encrypted with the owner''s data key';
+COMMENT ON COLUMN public.documents.redaction_map IS 'Encrypted with the owner''s data key (JSON string)';
+COMMENT ON COLUMN public.documents.pii_detections IS 'Encrypted with the owner''s data key (JSON string)';
+COMMENT ON COLUMN public.accounts.iban IS 'Encrypted with the owner''s data key';
+COMMENT ON COLUMN public.transactions.raw_data IS 'Encrypted with the owner''s data key (JSON string)';